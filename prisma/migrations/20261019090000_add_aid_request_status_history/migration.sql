@@ -0,0 +1,33 @@
+-- Normalize legacy free-form status values to the canonical lifecycle
+UPDATE "AidRequest" SET "status" = 'delivered' WHERE lower("status") = 'delivered';
+UPDATE "AidRequest" SET "status" = 'closed' WHERE lower("status") IN ('completed', 'closed');
+UPDATE "AidRequest" SET "status" = 'cancelled' WHERE lower("status") IN ('cancelled', 'canceled');
+UPDATE "AidRequest" SET "status" = 'in_transit' WHERE lower("status") IN ('in_transit', 'intransit', 'inprogress', 'in_progress');
+UPDATE "AidRequest" SET "status" = 'pending'
+WHERE "status" IS NULL
+   OR "status" NOT IN ('pending', 'approved', 'rejected', 'assigned', 'in_transit', 'delivered', 'closed', 'cancelled');
+
+-- AlterTable
+ALTER TABLE "AidRequest" ALTER COLUMN "status" SET DEFAULT 'pending';
+
+-- CreateTable
+CREATE TABLE "AidRequestStatusChange" (
+    "id" SERIAL NOT NULL,
+    "aidRequestId" INTEGER NOT NULL,
+    "fromStatus" VARCHAR(32),
+    "toStatus" VARCHAR(32) NOT NULL,
+    "reason" TEXT,
+    "changedById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "AidRequestStatusChange_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "AidRequestStatusChange_aidRequestId_createdAt_idx" ON "AidRequestStatusChange"("aidRequestId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "AidRequestStatusChange" ADD CONSTRAINT "AidRequestStatusChange_aidRequestId_fkey" FOREIGN KEY ("aidRequestId") REFERENCES "AidRequest"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "AidRequestStatusChange" ADD CONSTRAINT "AidRequestStatusChange_changedById_fkey" FOREIGN KEY ("changedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,30 @@
+-- CreateEnum
+CREATE TYPE "RecurrenceFrequency" AS ENUM ('DAILY', 'WEEKLY', 'BIWEEKLY', 'MONTHLY');
+
+-- CreateTable
+CREATE TABLE "RecurringSchedule" (
+    "id" SERIAL NOT NULL,
+    "aidRequestId" INTEGER NOT NULL,
+    "frequency" "RecurrenceFrequency" NOT NULL,
+    "dayOfWeek" INTEGER,
+    "dayOfMonth" INTEGER,
+    "timeOfDay" VARCHAR(5) NOT NULL,
+    "timezone" VARCHAR(64) NOT NULL DEFAULT 'Europe/Istanbul',
+    "endDate" TIMESTAMP(3),
+    "lastRunAt" TIMESTAMP(3),
+    "nextRunAt" TIMESTAMP(3),
+    "paused" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RecurringSchedule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringSchedule_aidRequestId_key" ON "RecurringSchedule"("aidRequestId");
+
+-- CreateIndex
+CREATE INDEX "RecurringSchedule_paused_nextRunAt_idx" ON "RecurringSchedule"("paused", "nextRunAt");
+
+-- AddForeignKey
+ALTER TABLE "RecurringSchedule" ADD CONSTRAINT "RecurringSchedule_aidRequestId_fkey" FOREIGN KEY ("aidRequestId") REFERENCES "AidRequest"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
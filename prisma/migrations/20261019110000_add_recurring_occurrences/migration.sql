@@ -0,0 +1,33 @@
+-- AlterTable
+ALTER TABLE "AidRequest" ADD COLUMN     "occurrenceDate" TIMESTAMP(3),
+ADD COLUMN     "parentRequestId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "RecurringOccurrenceOverride" (
+    "id" SERIAL NOT NULL,
+    "scheduleId" INTEGER NOT NULL,
+    "occurrenceDate" TIMESTAMP(3) NOT NULL,
+    "skipped" BOOLEAN NOT NULL DEFAULT false,
+    "rescheduledTo" TIMESTAMP(3),
+    "reason" TEXT,
+    "processedAt" TIMESTAMP(3),
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RecurringOccurrenceOverride_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AidRequest_parentRequestId_occurrenceDate_key" ON "AidRequest"("parentRequestId", "occurrenceDate");
+
+-- CreateIndex
+CREATE INDEX "RecurringOccurrenceOverride_rescheduledTo_processedAt_idx" ON "RecurringOccurrenceOverride"("rescheduledTo", "processedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RecurringOccurrenceOverride_scheduleId_occurrenceDate_key" ON "RecurringOccurrenceOverride"("scheduleId", "occurrenceDate");
+
+-- AddForeignKey
+ALTER TABLE "AidRequest" ADD CONSTRAINT "AidRequest_parentRequestId_fkey" FOREIGN KEY ("parentRequestId") REFERENCES "AidRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "RecurringOccurrenceOverride" ADD CONSTRAINT "RecurringOccurrenceOverride_scheduleId_fkey" FOREIGN KEY ("scheduleId") REFERENCES "RecurringSchedule"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "AidRequest" ADD COLUMN     "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP;
+
+-- CreateIndex
+CREATE INDEX "AidRequest_organizationId_status_idx" ON "AidRequest"("organizationId", "status");
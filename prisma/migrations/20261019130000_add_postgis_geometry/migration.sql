@@ -0,0 +1,21 @@
+-- PostGIS
+CREATE EXTENSION IF NOT EXISTS postgis;
+
+-- Konum sütunları latitude/longitude'dan üretilir; uygulama bu sütunlara yazmaz
+ALTER TABLE "Location" ADD COLUMN "geom" geography(Point, 4326)
+    GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint("longitude", "latitude"), 4326)::geography) STORED;
+
+ALTER TABLE "Address" ADD COLUMN "geom" geography(Point, 4326)
+    GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint("longitude", "latitude"), 4326)::geography) STORED;
+
+ALTER TABLE "Task" ADD COLUMN "geom" geography(Point, 4326)
+    GENERATED ALWAYS AS (ST_SetSRID(ST_MakePoint("longitude", "latitude"), 4326)::geography) STORED;
+
+-- CreateIndex
+CREATE INDEX "Location_geom_idx" ON "Location" USING GIST ("geom");
+
+-- CreateIndex
+CREATE INDEX "Address_geom_idx" ON "Address" USING GIST ("geom");
+
+-- CreateIndex
+CREATE INDEX "Task_geom_idx" ON "Task" USING GIST ("geom");
@@ -0,0 +1,29 @@
+-- AlterTable
+ALTER TABLE "Notification" ADD COLUMN "type" VARCHAR(100) NOT NULL DEFAULT 'general',
+ADD COLUMN "title" VARCHAR(255),
+ADD COLUMN "data" JSONB,
+ADD COLUMN "readAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "NotificationPreference" (
+    "id" SERIAL NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "push" BOOLEAN NOT NULL DEFAULT true,
+    "email" BOOLEAN NOT NULL DEFAULT true,
+    "sms" BOOLEAN NOT NULL DEFAULT false,
+    "inApp" BOOLEAN NOT NULL DEFAULT true,
+    "mutedTypes" TEXT[] DEFAULT ARRAY[]::TEXT[],
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "NotificationPreference_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "Notification_userId_readAt_idx" ON "Notification"("userId", "readAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "NotificationPreference_userId_key" ON "NotificationPreference"("userId");
+
+-- AddForeignKey
+ALTER TABLE "NotificationPreference" ADD CONSTRAINT "NotificationPreference_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,39 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN "reviewCount" INTEGER NOT NULL DEFAULT 0;
+
+-- CreateTable
+CREATE TABLE "OrganizationReview" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "aidRequestId" INTEGER,
+    "rating" INTEGER NOT NULL,
+    "content" TEXT,
+    "anonymous" BOOLEAN NOT NULL DEFAULT false,
+    "reply" TEXT,
+    "repliedAt" TIMESTAMP(3),
+    "repliedById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrganizationReview_pkey" PRIMARY KEY ("id"),
+    CONSTRAINT "OrganizationReview_rating_check" CHECK ("rating" BETWEEN 1 AND 5)
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationReview_organizationId_userId_key" ON "OrganizationReview"("organizationId", "userId");
+
+-- CreateIndex
+CREATE INDEX "OrganizationReview_organizationId_createdAt_idx" ON "OrganizationReview"("organizationId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "OrganizationReview" ADD CONSTRAINT "OrganizationReview_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationReview" ADD CONSTRAINT "OrganizationReview_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationReview" ADD CONSTRAINT "OrganizationReview_aidRequestId_fkey" FOREIGN KEY ("aidRequestId") REFERENCES "AidRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationReview" ADD CONSTRAINT "OrganizationReview_repliedById_fkey" FOREIGN KEY ("repliedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
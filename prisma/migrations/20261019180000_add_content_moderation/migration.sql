@@ -0,0 +1,53 @@
+-- AlterTable
+ALTER TABLE "Comment" ADD COLUMN "userId" INTEGER,
+ADD COLUMN "moderationStatus" VARCHAR(20) NOT NULL DEFAULT 'published';
+
+-- AlterTable
+ALTER TABLE "Message" ADD COLUMN "moderationStatus" VARCHAR(20) NOT NULL DEFAULT 'published';
+
+-- AlterTable
+ALTER TABLE "OrganizationReview" ADD COLUMN "moderationStatus" VARCHAR(20) NOT NULL DEFAULT 'published';
+
+-- CreateTable
+CREATE TABLE "ModerationFlag" (
+    "id" SERIAL NOT NULL,
+    "contentType" VARCHAR(20) NOT NULL,
+    "contentId" INTEGER NOT NULL,
+    "source" VARCHAR(20) NOT NULL,
+    "reporterId" INTEGER,
+    "reason" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "resolvedAt" TIMESTAMP(3),
+    "resolvedById" INTEGER,
+    "resolution" VARCHAR(20),
+    "resolutionNote" TEXT,
+
+    CONSTRAINT "ModerationFlag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "BlockedTerm" (
+    "id" SERIAL NOT NULL,
+    "term" VARCHAR(100) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "BlockedTerm_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ModerationFlag_contentType_contentId_idx" ON "ModerationFlag"("contentType", "contentId");
+
+-- CreateIndex
+CREATE INDEX "ModerationFlag_resolvedAt_idx" ON "ModerationFlag"("resolvedAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "BlockedTerm_term_key" ON "BlockedTerm"("term");
+
+-- AddForeignKey
+ALTER TABLE "Comment" ADD CONSTRAINT "Comment_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ModerationFlag" ADD CONSTRAINT "ModerationFlag_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "ModerationFlag" ADD CONSTRAINT "ModerationFlag_resolvedById_fkey" FOREIGN KEY ("resolvedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,49 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN "suspendedAt" TIMESTAMP(3),
+ADD COLUMN "suspensionReason" TEXT;
+
+-- CreateTable
+CREATE TABLE "OrganizationFlag" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "reporterId" INTEGER,
+    "category" VARCHAR(30) NOT NULL,
+    "reason" TEXT NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'open',
+    "assigneeId" INTEGER,
+    "resolutionNote" TEXT,
+    "resolvedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrganizationFlag_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrganizationFlagEvidence" (
+    "id" SERIAL NOT NULL,
+    "flagId" INTEGER NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrganizationFlagEvidence_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrganizationFlag_organizationId_idx" ON "OrganizationFlag"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "OrganizationFlag_status_idx" ON "OrganizationFlag"("status");
+
+-- AddForeignKey
+ALTER TABLE "OrganizationFlag" ADD CONSTRAINT "OrganizationFlag_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationFlag" ADD CONSTRAINT "OrganizationFlag_reporterId_fkey" FOREIGN KEY ("reporterId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationFlag" ADD CONSTRAINT "OrganizationFlag_assigneeId_fkey" FOREIGN KEY ("assigneeId") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationFlagEvidence" ADD CONSTRAINT "OrganizationFlagEvidence_flagId_fkey" FOREIGN KEY ("flagId") REFERENCES "OrganizationFlag"("id") ON DELETE CASCADE ON UPDATE CASCADE;
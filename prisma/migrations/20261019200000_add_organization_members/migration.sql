@@ -0,0 +1,62 @@
+-- CreateTable
+CREATE TABLE "OrganizationMember" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "role" VARCHAR(20) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrganizationMember_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "OrganizationInvitation" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "email" VARCHAR(255) NOT NULL,
+    "role" VARCHAR(20) NOT NULL,
+    "token" VARCHAR(64) NOT NULL,
+    "invitedById" INTEGER,
+    "expiresAt" TIMESTAMP(3) NOT NULL,
+    "acceptedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrganizationInvitation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrganizationMember_userId_idx" ON "OrganizationMember"("userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationMember_organizationId_userId_key" ON "OrganizationMember"("organizationId", "userId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "OrganizationInvitation_token_key" ON "OrganizationInvitation"("token");
+
+-- CreateIndex
+CREATE INDEX "OrganizationInvitation_organizationId_idx" ON "OrganizationInvitation"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "OrganizationMember" ADD CONSTRAINT "OrganizationMember_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationMember" ADD CONSTRAINT "OrganizationMember_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationInvitation" ADD CONSTRAINT "OrganizationInvitation_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "OrganizationInvitation" ADD CONSTRAINT "OrganizationInvitation_invitedById_fkey" FOREIGN KEY ("invitedById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- Mevcut organization_owner kullanıcılarını, iletişim e-postası kendi
+-- e-postalarıyla eşleşen organizasyonlara sahip olarak ekle. Eşleşmeyen
+-- sahipler admin tarafından davet edilmelidir (README: Organizasyon Üyelikleri).
+INSERT INTO "OrganizationMember" ("organizationId", "userId", "role", "updatedAt")
+SELECT DISTINCT o."id", u."id", 'owner', CURRENT_TIMESTAMP
+FROM "User" u
+JOIN "ContactInfo" c
+  ON LOWER(c."email") = LOWER(u."email") OR LOWER(c."contactEmail") = LOWER(u."email")
+JOIN "Organization" o ON o."contactInfoId" = c."id"
+WHERE u."role" = 'organization_owner'
+ON CONFLICT ("organizationId", "userId") DO NOTHING;
@@ -0,0 +1,28 @@
+-- AlterTable
+ALTER TABLE "Organization" ADD COLUMN     "verificationStatus" VARCHAR(20) NOT NULL DEFAULT 'unverified',
+ADD COLUMN     "verificationRequestedAt" TIMESTAMP(3),
+ADD COLUMN     "verifiedAt" TIMESTAMP(3),
+ADD COLUMN     "verificationNote" TEXT,
+ADD COLUMN     "taxNumber" VARCHAR(20),
+ADD COLUMN     "charityRegistrationNo" VARCHAR(50);
+
+-- Mevcut organizasyonlar haritadan kaybolmasın diye onaylı sayılır
+UPDATE "Organization" SET "verificationStatus" = 'approved', "verifiedAt" = CURRENT_TIMESTAMP;
+
+-- CreateTable
+CREATE TABLE "OrganizationDocument" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "type" VARCHAR(30) NOT NULL,
+    "name" TEXT NOT NULL,
+    "url" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "OrganizationDocument_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "OrganizationDocument_organizationId_idx" ON "OrganizationDocument"("organizationId");
+
+-- AddForeignKey
+ALTER TABLE "OrganizationDocument" ADD CONSTRAINT "OrganizationDocument_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,32 @@
+-- CreateTable
+CREATE TABLE "OrganizationServiceArea" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "kind" VARCHAR(20) NOT NULL,
+    "radiusKm" DOUBLE PRECISION,
+    "polygon" JSONB,
+    "aidTypes" TEXT[],
+    "openingHours" JSONB,
+    "dailyCapacity" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "OrganizationServiceArea_pkey" PRIMARY KEY ("id")
+);
+
+-- Çizilen bölge GeoJSON'dan üretilir; uygulama bu sütuna yazmaz
+ALTER TABLE "OrganizationServiceArea" ADD COLUMN "geom" geography(Polygon, 4326)
+    GENERATED ALWAYS AS (
+        CASE WHEN "polygon" IS NULL THEN NULL
+        ELSE ST_SetSRID(ST_GeomFromGeoJSON("polygon"::text), 4326)::geography END
+    ) STORED;
+
+-- CreateIndex
+CREATE INDEX "OrganizationServiceArea_organizationId_idx" ON "OrganizationServiceArea"("organizationId");
+
+-- CreateIndex
+CREATE INDEX "OrganizationServiceArea_geom_idx" ON "OrganizationServiceArea" USING GIST ("geom");
+
+-- AddForeignKey
+ALTER TABLE "OrganizationServiceArea" ADD CONSTRAINT "OrganizationServiceArea_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,64 @@
+-- CreateTable
+CREATE TABLE "InventoryItem" (
+    "id" SERIAL NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "category" VARCHAR(30) NOT NULL,
+    "unit" VARCHAR(20) NOT NULL,
+    "availableQuantity" INTEGER NOT NULL DEFAULT 0,
+    "reservedQuantity" INTEGER NOT NULL DEFAULT 0,
+    "lowStockThreshold" INTEGER NOT NULL DEFAULT 0,
+    "lowStockAlertedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InventoryItem_pkey" PRIMARY KEY ("id"),
+    -- Stok seviyeleri eş zamanlı hareketlerde de negatife düşmemeli
+    CONSTRAINT "InventoryItem_quantities_check" CHECK ("availableQuantity" >= 0 AND "reservedQuantity" >= 0)
+);
+
+-- CreateTable
+CREATE TABLE "StockMovement" (
+    "id" SERIAL NOT NULL,
+    "itemId" INTEGER NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "type" VARCHAR(20) NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "aidRequestId" INTEGER,
+    "counterpartOrganizationId" INTEGER,
+    "note" TEXT,
+    "createdById" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "StockMovement_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InventoryItem_organizationId_name_key" ON "InventoryItem"("organizationId", "name");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_organizationId_createdAt_idx" ON "StockMovement"("organizationId", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_itemId_idx" ON "StockMovement"("itemId");
+
+-- CreateIndex
+CREATE INDEX "StockMovement_aidRequestId_idx" ON "StockMovement"("aidRequestId");
+
+-- AddForeignKey
+ALTER TABLE "InventoryItem" ADD CONSTRAINT "InventoryItem_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_itemId_fkey" FOREIGN KEY ("itemId") REFERENCES "InventoryItem"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_counterpartOrganizationId_fkey" FOREIGN KEY ("counterpartOrganizationId") REFERENCES "Organization"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_aidRequestId_fkey" FOREIGN KEY ("aidRequestId") REFERENCES "AidRequest"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "StockMovement" ADD CONSTRAINT "StockMovement_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,59 @@
+-- CreateTable
+CREATE TABLE "InKindDonation" (
+    "id" SERIAL NOT NULL,
+    "donorId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "organizationId" INTEGER NOT NULL,
+    "status" VARCHAR(20) NOT NULL DEFAULT 'pledged',
+    "anonymous" BOOLEAN NOT NULL DEFAULT false,
+    "note" TEXT,
+    "estimatedValue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+    "receiptNumber" VARCHAR(30),
+    "receivedAt" TIMESTAMP(3),
+    "distributedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "InKindDonation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "InKindDonationItem" (
+    "id" SERIAL NOT NULL,
+    "donationId" INTEGER NOT NULL,
+    "name" VARCHAR(100) NOT NULL,
+    "category" VARCHAR(30) NOT NULL,
+    "quantity" INTEGER NOT NULL,
+    "unit" VARCHAR(20) NOT NULL,
+    "estimatedValue" DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+    CONSTRAINT "InKindDonationItem_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "InKindDonation_receiptNumber_key" ON "InKindDonation"("receiptNumber");
+
+-- CreateIndex
+CREATE INDEX "InKindDonation_organizationId_status_idx" ON "InKindDonation"("organizationId", "status");
+
+-- CreateIndex
+CREATE INDEX "InKindDonation_donorId_idx" ON "InKindDonation"("donorId");
+
+-- CreateIndex
+CREATE INDEX "InKindDonation_userId_idx" ON "InKindDonation"("userId");
+
+-- CreateIndex
+CREATE INDEX "InKindDonationItem_donationId_idx" ON "InKindDonationItem"("donationId");
+
+-- AddForeignKey
+ALTER TABLE "InKindDonation" ADD CONSTRAINT "InKindDonation_donorId_fkey" FOREIGN KEY ("donorId") REFERENCES "Donor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InKindDonation" ADD CONSTRAINT "InKindDonation_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InKindDonation" ADD CONSTRAINT "InKindDonation_organizationId_fkey" FOREIGN KEY ("organizationId") REFERENCES "Organization"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "InKindDonationItem" ADD CONSTRAINT "InKindDonationItem_donationId_fkey" FOREIGN KEY ("donationId") REFERENCES "InKindDonation"("id") ON DELETE CASCADE ON UPDATE CASCADE;
@@ -0,0 +1,13 @@
+-- AlterTable
+ALTER TABLE "Campaign" ADD COLUMN     "closeOnGoalReached" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "goalReachedAt" TIMESTAMP(3),
+ADD COLUMN     "closedAt" TIMESTAMP(3);
+
+-- AlterTable
+ALTER TABLE "Donation" ADD COLUMN     "campaignId" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "Donation_campaignId_createdAt_idx" ON "Donation"("campaignId", "createdAt");
+
+-- AddForeignKey
+ALTER TABLE "Donation" ADD CONSTRAINT "Donation_campaignId_fkey" FOREIGN KEY ("campaignId") REFERENCES "Campaign"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,50 @@
+-- AlterTable
+ALTER TABLE "Donation" ADD COLUMN     "status" TEXT NOT NULL DEFAULT 'pending',
+ADD COLUMN     "paymentProvider" TEXT,
+ADD COLUMN     "providerPaymentId" TEXT,
+ADD COLUMN     "paymentRedirectUrl" TEXT,
+ADD COLUMN     "providerRefundId" TEXT,
+ADD COLUMN     "idempotencyKey" VARCHAR(100),
+ADD COLUMN     "failureReason" TEXT,
+ADD COLUMN     "paidAt" TIMESTAMP(3),
+ADD COLUMN     "refundedAt" TIMESTAMP(3);
+
+-- Ödeme altyapısından önce kaydedilen bağışlar tahsil edilmiş sayılır
+UPDATE "Donation" SET "status" = 'succeeded', "paidAt" = "createdAt";
+
+-- CreateTable
+CREATE TABLE "PaymentWebhookEvent" (
+    "id" SERIAL NOT NULL,
+    "provider" TEXT NOT NULL,
+    "eventId" TEXT NOT NULL,
+    "type" TEXT NOT NULL,
+    "providerPaymentId" TEXT NOT NULL,
+    "amount" DOUBLE PRECISION,
+    "failureReason" TEXT,
+    "payload" JSONB NOT NULL,
+    "status" TEXT NOT NULL DEFAULT 'unmatched',
+    "note" TEXT,
+    "donationId" INTEGER,
+    "processedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PaymentWebhookEvent_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Donation_providerPaymentId_key" ON "Donation"("providerPaymentId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Donation_userId_idempotencyKey_key" ON "Donation"("userId", "idempotencyKey");
+
+-- CreateIndex
+CREATE INDEX "Donation_status_idx" ON "Donation"("status");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PaymentWebhookEvent_provider_eventId_key" ON "PaymentWebhookEvent"("provider", "eventId");
+
+-- CreateIndex
+CREATE INDEX "PaymentWebhookEvent_provider_providerPaymentId_status_idx" ON "PaymentWebhookEvent"("provider", "providerPaymentId", "status");
+
+-- AddForeignKey
+ALTER TABLE "PaymentWebhookEvent" ADD CONSTRAINT "PaymentWebhookEvent_donationId_fkey" FOREIGN KEY ("donationId") REFERENCES "Donation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
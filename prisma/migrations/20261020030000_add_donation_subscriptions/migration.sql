@@ -0,0 +1,47 @@
+-- AlterTable
+ALTER TABLE "Donation" ADD COLUMN     "subscriptionId" INTEGER;
+
+-- CreateTable
+CREATE TABLE "DonationSubscription" (
+    "id" SERIAL NOT NULL,
+    "donorId" INTEGER NOT NULL,
+    "userId" INTEGER NOT NULL,
+    "amount" DOUBLE PRECISION NOT NULL,
+    "currency" VARCHAR(3) NOT NULL DEFAULT 'TRY',
+    "interval" TEXT NOT NULL,
+    "anonymous" BOOLEAN NOT NULL DEFAULT false,
+    "status" TEXT NOT NULL DEFAULT 'active',
+    "startDate" TIMESTAMP(3) NOT NULL,
+    "nextChargeAt" TIMESTAMP(3) NOT NULL,
+    "retryAt" TIMESTAMP(3),
+    "failedAttempts" INTEGER NOT NULL DEFAULT 0,
+    "pendingDonationId" INTEGER,
+    "lastChargedAt" TIMESTAMP(3),
+    "pausedAt" TIMESTAMP(3),
+    "cancelledAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "DonationSubscription_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DonationSubscription_pendingDonationId_key" ON "DonationSubscription"("pendingDonationId");
+
+-- CreateIndex
+CREATE INDEX "DonationSubscription_status_nextChargeAt_idx" ON "DonationSubscription"("status", "nextChargeAt");
+
+-- CreateIndex
+CREATE INDEX "DonationSubscription_userId_idx" ON "DonationSubscription"("userId");
+
+-- AddForeignKey
+ALTER TABLE "Donation" ADD CONSTRAINT "Donation_subscriptionId_fkey" FOREIGN KEY ("subscriptionId") REFERENCES "DonationSubscription"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DonationSubscription" ADD CONSTRAINT "DonationSubscription_donorId_fkey" FOREIGN KEY ("donorId") REFERENCES "Donor"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DonationSubscription" ADD CONSTRAINT "DonationSubscription_userId_fkey" FOREIGN KEY ("userId") REFERENCES "User"("id") ON DELETE RESTRICT ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "DonationSubscription" ADD CONSTRAINT "DonationSubscription_pendingDonationId_fkey" FOREIGN KEY ("pendingDonationId") REFERENCES "Donation"("id") ON DELETE SET NULL ON UPDATE CASCADE;
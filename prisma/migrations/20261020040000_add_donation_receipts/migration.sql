@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "Donation" ADD COLUMN     "receiptNumber" VARCHAR(30);
+
+-- Tahsil edilmiş mevcut bağışlara makbuz numarası ver. Yıl uygulamadaki gibi
+-- Europe/Istanbul saatine göre alınır ("paidAt" UTC olarak saklanır); son ek
+-- tahmin edilemeyen 8 karakterdir
+UPDATE "Donation"
+SET "receiptNumber" = 'BGS-'
+    || TO_CHAR(("paidAt" AT TIME ZONE 'UTC') AT TIME ZONE 'Europe/Istanbul', 'YYYY')
+    || '-' || LPAD("id"::text, 6, '0')
+    || '-' || UPPER(SUBSTRING(MD5(RANDOM()::text || "id"::text) FROM 1 FOR 8))
+WHERE "status" IN ('succeeded', 'refunded') AND "paidAt" IS NOT NULL;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Donation_receiptNumber_key" ON "Donation"("receiptNumber");
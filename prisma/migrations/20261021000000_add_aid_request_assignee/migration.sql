@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "AidRequest" ADD COLUMN     "assignedTo" INTEGER;
+
+-- CreateIndex
+CREATE INDEX "AidRequest_assignedTo_idx" ON "AidRequest"("assignedTo");
+
+-- AddForeignKey
+ALTER TABLE "AidRequest" ADD CONSTRAINT "AidRequest_assignedTo_fkey" FOREIGN KEY ("assignedTo") REFERENCES "User"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,139 @@
+#!/usr/bin/env node
+
+/**
+ * Bildirim tablosunda JSON olarak saklanan eski tekrar takvimlerini
+ * RecurringSchedule tablosuna taşır.
+ *
+ * Her yardım talebi için en güncel takvim bildirimi alınır. Taşınan
+ * takvimlerin sonraki çalışma zamanı zamanlayıcı tarafından ilk
+ * çalışmada hesaplanır.
+ *
+ * Çalıştırmak için:
+ * node scripts/migrate-recurring-schedules.js [--dry-run]
+ */
+
+const { PrismaClient } = require('@prisma/client');
+const { Command } = require('commander');
+
+const prisma = new PrismaClient();
+const program = new Command();
+
+const FREQUENCIES = ['DAILY', 'WEEKLY', 'BIWEEKLY', 'MONTHLY'];
+const TIME_OF_DAY = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+program
+  .name('migrate-recurring-schedules')
+  .description('Eski bildirim tabanlı tekrar takvimlerini RecurringSchedule tablosuna taşır')
+  .option('--dry-run', 'Veritabanında değişiklik yapmadan ne yapılacağını göster')
+  .version('1.0.0');
+
+function parseLegacySchedule(notification) {
+  try {
+    const data = JSON.parse(notification.content);
+    if (data?.type !== 'RECURRING_SCHEDULE' || !data.aidRequestId || !data.schedule) {
+      return null;
+    }
+    return { aidRequestId: Number(data.aidRequestId), schedule: data.schedule };
+  } catch {
+    return null;
+  }
+}
+
+function toScheduleData(schedule) {
+  if (!FREQUENCIES.includes(schedule.frequency)) {
+    throw new Error(`Geçersiz sıklık: ${schedule.frequency}`);
+  }
+
+  const isWeekly = schedule.frequency === 'WEEKLY' || schedule.frequency === 'BIWEEKLY';
+  const isMonthly = schedule.frequency === 'MONTHLY';
+
+  return {
+    frequency: schedule.frequency,
+    dayOfWeek: isWeekly ? Number(schedule.dayOfWeek ?? 0) : null,
+    dayOfMonth: isMonthly ? Number(schedule.dayOfMonth ?? 1) : null,
+    timeOfDay: TIME_OF_DAY.test(schedule.timeOfDay ?? '') ? schedule.timeOfDay : '09:00',
+    endDate: schedule.endDate ? new Date(schedule.endDate) : null,
+  };
+}
+
+async function main() {
+  const { dryRun } = program.parse(process.argv).opts();
+
+  const notifications = await prisma.notification.findMany({
+    where: { content: { contains: '"type":"RECURRING_SCHEDULE"' } },
+    orderBy: { createdAt: 'desc' },
+  });
+
+  console.log(`${notifications.length} eski takvim bildirimi bulundu.`);
+
+  // En yeni kayıt önce geldiği için her talep için ilk görülen takvim kullanılır
+  const latestByRequest = new Map();
+  const legacyIdsByRequest = new Map();
+  for (const notification of notifications) {
+    const legacy = parseLegacySchedule(notification);
+    if (!legacy) continue;
+    if (!latestByRequest.has(legacy.aidRequestId)) {
+      latestByRequest.set(legacy.aidRequestId, legacy.schedule);
+      legacyIdsByRequest.set(legacy.aidRequestId, []);
+    }
+    legacyIdsByRequest.get(legacy.aidRequestId).push(notification.id);
+  }
+
+  // Yalnızca taşınan takvimlerin bildirimleri silinir; atlananlar incelenmek üzere kalır
+  const migratedIds = [];
+
+  let migrated = 0;
+  let skipped = 0;
+
+  for (const [aidRequestId, schedule] of latestByRequest) {
+    const [aidRequest, existing] = await Promise.all([
+      prisma.aidRequest.findUnique({ where: { id: aidRequestId } }),
+      prisma.recurringSchedule.findUnique({ where: { aidRequestId } }),
+    ]);
+
+    if (!aidRequest || existing) {
+      console.log(`Talep #${aidRequestId} atlandı (${!aidRequest ? 'talep bulunamadı' : 'takvim zaten var'}).`);
+      skipped++;
+      continue;
+    }
+
+    let data;
+    try {
+      data = toScheduleData(schedule);
+    } catch (err) {
+      console.log(`Talep #${aidRequestId} atlandı (${err.message}).`);
+      skipped++;
+      continue;
+    }
+
+    console.log(`Talep #${aidRequestId}: ${data.frequency} ${data.timeOfDay}`);
+    if (!dryRun) {
+      await prisma.recurringSchedule.create({
+        data: { aidRequestId, ...data, nextRunAt: null },
+      });
+      await prisma.aidRequest.update({
+        where: { id: aidRequestId },
+        data: { recurring: true },
+      });
+    }
+    migratedIds.push(...legacyIdsByRequest.get(aidRequestId));
+    migrated++;
+  }
+
+  if (!dryRun && migratedIds.length > 0) {
+    await prisma.notification.deleteMany({ where: { id: { in: migratedIds } } });
+  }
+
+  console.log(
+    `${dryRun ? '[dry-run] ' : ''}${migrated} takvim taşındı, ${skipped} atlandı, ${migratedIds.length} eski bildirim ${dryRun ? 'silinecek' : 'silindi'}.`,
+  );
+}
+
+main()
+  .catch((error) => {
+    console.error('Takvimler taşınırken bir hata oluştu:', error);
+    process.exitCode = 1;
+  })
+  .finally(async () => {
+    await prisma.$disconnect();
+  });
@@ -0,0 +1,212 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { AidRequestMatchingService } from './aid-request-matching.service';
+import { AidRequestsService } from './aid-requests.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CaslAbilityFactory } from '../casl/casl-ability.factory';
+
+const planarDistance = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+) => Math.hypot(lat2 - lat1, lon2 - lon1);
+
+describe('AidRequestMatchingService', () => {
+  let service: AidRequestMatchingService;
+  let prismaService: PrismaService;
+  let aidRequestsService: AidRequestsService;
+
+  const admin = { id: 1, role: 'admin' };
+  const matchableRequest = {
+    id: 10,
+    type: 'Gıda',
+    status: 'approved',
+    verified: true,
+    isDeleted: false,
+    organizationId: null,
+    location: { id: 1, latitude: 0, longitude: 0 },
+  };
+  const organizations = [
+    {
+      id: 1,
+      name: 'Uzak Gıda Bankası',
+      type: 'gıda',
+      rating: 5,
+      address: { latitude: 0, longitude: 80 },
+    },
+    {
+      id: 2,
+      name: 'Yakın Gıda Derneği',
+      type: 'Gıda',
+      rating: 4,
+      address: { latitude: 0, longitude: 5 },
+    },
+    {
+      id: 3,
+      name: 'Çok Uzak Barınak',
+      type: 'barınma',
+      rating: 5,
+      address: { latitude: 0, longitude: 500 },
+    },
+  ];
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        AidRequestMatchingService,
+        CaslAbilityFactory,
+        {
+          provide: PrismaService,
+          useValue: {
+            aidRequest: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              groupBy: jest.fn().mockResolvedValue([]),
+            },
+            organization: {
+              findMany: jest.fn().mockResolvedValue(organizations),
+            },
+          },
+        },
+        {
+          provide: AidRequestsService,
+          useValue: {
+            calculateDistance: jest.fn(planarDistance),
+            assignToOrganization: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<AidRequestMatchingService>(AidRequestMatchingService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    aidRequestsService = module.get<AidRequestsService>(AidRequestsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getMatchCandidates', () => {
+    it('should rank nearby organizations of the same type first', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(matchableRequest as any);
+
+      const result = await service.getMatchCandidates(10, admin);
+
+      expect(result.candidates.map((c) => c.organizationId)).toEqual([2, 1]);
+      expect(result.candidates[0].breakdown.type).toBe(1);
+    });
+
+    it('should prefer organizations with a lighter workload', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(matchableRequest as any);
+      jest
+        .spyOn(prismaService.organization, 'findMany')
+        .mockResolvedValue([
+          organizations[1],
+          { ...organizations[1], id: 4, name: 'Boşta Gıda Derneği' },
+        ] as any);
+      (prismaService.aidRequest.groupBy as jest.Mock).mockResolvedValue([
+        { organizationId: 2, _count: { _all: 20 } },
+      ]);
+
+      const result = await service.getMatchCandidates(10, admin);
+
+      expect(result.candidates[0].organizationId).toBe(4);
+      expect(result.candidates[1].openRequests).toBe(20);
+    });
+
+    it('should only match verified and approved requests', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue({ ...matchableRequest, verified: false } as any);
+
+      await expect(service.getMatchCandidates(10, admin)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should not allow regular users to match requests', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(matchableRequest as any);
+
+      await expect(
+        service.getMatchCandidates(10, { id: 2, role: 'user' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should require organization accounts to be staff of an organization', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(matchableRequest as any);
+
+      await expect(
+        service.getMatchCandidates(10, {
+          id: 2,
+          role: 'organization_owner',
+          memberships: [{ organizationId: 1, role: 'viewer' }],
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('assign', () => {
+    it('should assign the best candidate when no organization is given', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(matchableRequest as any);
+
+      await service.assign(10, admin);
+
+      expect(aidRequestsService.assignToOrganization).toHaveBeenCalledWith(
+        10,
+        2,
+        admin,
+        expect.stringContaining('Eşleştirme puanı'),
+      );
+    });
+
+    it("should pick the best of the caller's own organizations", async () => {
+      const staff = {
+        id: 7,
+        role: 'organization_owner',
+        memberships: [{ organizationId: 1, role: 'staff' }],
+      };
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(matchableRequest as any);
+
+      await service.assign(10, staff);
+
+      expect(aidRequestsService.assignToOrganization).toHaveBeenCalledWith(
+        10,
+        1,
+        staff,
+        expect.stringContaining('Eşleştirme puanı'),
+      );
+    });
+  });
+
+  describe('autoAssignStaleRequests', () => {
+    it('should assign stale requests above the score threshold', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findMany')
+        .mockResolvedValue([matchableRequest] as any);
+
+      const result = await service.autoAssignStaleRequests();
+
+      expect(result).toEqual({ assigned: 1, skipped: 0 });
+      expect(aidRequestsService.assignToOrganization).toHaveBeenCalledWith(
+        10,
+        2,
+        expect.objectContaining({ id: null }),
+        expect.any(String),
+      );
+    });
+  });
+});
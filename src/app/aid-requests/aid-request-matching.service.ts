@@ -0,0 +1,330 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { AidRequest, Location } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AidRequestsService } from './aid-requests.service';
+import {
+  AidRequestStatus,
+  TERMINAL_AID_REQUEST_STATUSES,
+} from './aid-request-status';
+import { Action, Role } from '../casl/action';
+import { AbilityUser, CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { ACTIVE_ORGANIZATION_WHERE } from '../organizations/organization-visibility';
+import {
+  OrganizationMemberRole,
+  organizationIdsWithRole,
+} from '../organizations/organization-member';
+
+// Puanlamada her ölçütün ağırlığı (toplamı 1)
+const MATCH_WEIGHTS = {
+  distance: 0.4,
+  type: 0.25,
+  workload: 0.2,
+  rating: 0.15,
+};
+// Bu mesafeden uzak organizasyonlar aday sayılmaz (km)
+const MAX_MATCH_DISTANCE_KM = 100;
+const DEFAULT_CANDIDATE_LIMIT = 5;
+// Gece işinde otomatik atama için gereken en düşük puan
+const AUTO_ASSIGN_MIN_SCORE = 0.5;
+// Bu süreden uzun süredir atanmamış talepler gece işinde atanır (saat)
+const STALE_REQUEST_HOURS = 24;
+
+// Açık iş yükü sayılmayan durumlar
+const CLOSED_WORKLOAD_STATUSES: string[] = [
+  ...TERMINAL_AID_REQUEST_STATUSES,
+  AidRequestStatus.Delivered,
+];
+
+// Gece işi atamaları bir kullanıcıya bağlanmaz
+const SYSTEM_ACTOR = { id: null, role: Role.Admin };
+
+export interface MatchCandidate {
+  organizationId: number;
+  name: string;
+  type: string;
+  rating: number | null;
+  distanceKm: number | null;
+  openRequests: number;
+  score: number;
+  breakdown: {
+    distance: number;
+    type: number;
+    workload: number;
+    rating: number;
+  };
+}
+
+@Injectable()
+export class AidRequestMatchingService {
+  private readonly logger = new Logger(AidRequestMatchingService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly aidRequestsService: AidRequestsService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+  ) {}
+
+  // Talep için organizasyon adaylarını puanlarına göre sıralı döner
+  async getMatchCandidates(
+    aidRequestId: number,
+    user: AbilityUser,
+    limit = DEFAULT_CANDIDATE_LIMIT,
+  ) {
+    const aidRequest = await this.findMatchableAidRequest(aidRequestId);
+    this.assertCanMatch(user, aidRequest);
+    const candidates = await this.scoreCandidates(aidRequest);
+
+    return {
+      aidRequestId: aidRequest.id,
+      candidates: candidates.slice(0, Math.max(1, Number(limit) || 1)),
+    };
+  }
+
+  /**
+   * Talebi verilen organizasyona, organizasyon verilmezse en yüksek puanlı
+   * adaya atar. Organizasyon hesapları için aday yalnızca staff oldukları
+   * organizasyonlar arasından seçilir.
+   */
+  async assign(
+    aidRequestId: number,
+    user: AbilityUser,
+    organizationId?: number,
+    reason?: string,
+  ) {
+    const aidRequest = await this.findMatchableAidRequest(aidRequestId);
+    this.assertCanMatch(user, aidRequest);
+
+    let targetOrganizationId = organizationId ? Number(organizationId) : null;
+    let matchReason = reason;
+
+    if (!targetOrganizationId) {
+      const staffOf = organizationIdsWithRole(
+        user.memberships,
+        OrganizationMemberRole.Staff,
+      );
+      const [best] = (await this.scoreCandidates(aidRequest)).filter(
+        (candidate) =>
+          user.role === Role.Admin ||
+          staffOf.includes(candidate.organizationId),
+      );
+      if (!best) {
+        throw new NotFoundException(
+          `${aidRequest.id} ID'li yardım talebi için uygun organizasyon bulunamadı`,
+        );
+      }
+      targetOrganizationId = best.organizationId;
+      matchReason = reason ?? `Eşleştirme puanı: ${best.score}`;
+    }
+
+    return this.aidRequestsService.assignToOrganization(
+      aidRequest.id,
+      targetOrganizationId,
+      user,
+      matchReason,
+    );
+  }
+
+  // Uzun süredir atanmamış doğrulanmış talepleri en iyi adaya atar
+  @Cron(CronExpression.EVERY_DAY_AT_2AM)
+  async autoAssignStaleRequests() {
+    const staleBefore = new Date(
+      Date.now() - STALE_REQUEST_HOURS * 60 * 60 * 1000,
+    );
+    let assigned = 0;
+    let skipped = 0;
+
+    const staleRequests = await this.prisma.aidRequest.findMany({
+      where: {
+        ...this.matchableWhere(),
+        createdAt: { lte: staleBefore },
+      },
+      include: { location: true },
+    });
+
+    for (const aidRequest of staleRequests) {
+      try {
+        const [best] = await this.scoreCandidates(aidRequest);
+        if (!best || best.score < AUTO_ASSIGN_MIN_SCORE) {
+          skipped++;
+          continue;
+        }
+
+        await this.aidRequestsService.assignToOrganization(
+          aidRequest.id,
+          best.organizationId,
+          SYSTEM_ACTOR,
+          `Otomatik eşleştirme (puan: ${best.score})`,
+        );
+        assigned++;
+      } catch (err) {
+        skipped++;
+        this.logger.error(
+          `Error auto-assigning aid request ${aidRequest.id}`,
+          err.stack,
+        );
+      }
+    }
+
+    this.logger.log(
+      `Auto-assignment finished: ${assigned} assigned, ${skipped} skipped`,
+    );
+    return { assigned, skipped };
+  }
+
+  private async scoreCandidates(
+    aidRequest: AidRequest & { location: Location | null },
+  ): Promise<MatchCandidate[]> {
+    const [organizations, workloads] = await Promise.all([
+      this.prisma.organization.findMany({
+        where: ACTIVE_ORGANIZATION_WHERE,
+        include: { address: true },
+      }),
+      this.prisma.aidRequest.groupBy({
+        by: ['organizationId'],
+        where: {
+          organizationId: { not: null },
+          isDeleted: false,
+          status: { notIn: CLOSED_WORKLOAD_STATUSES },
+        },
+        _count: { _all: true },
+      }),
+    ]);
+
+    const openRequestsByOrganization = new Map(
+      workloads.map((workload) => [
+        workload.organizationId,
+        workload._count._all,
+      ]),
+    );
+
+    const candidates: MatchCandidate[] = [];
+    for (const organization of organizations) {
+      const distanceKm =
+        aidRequest.location && organization.address
+          ? this.aidRequestsService.calculateDistance(
+              aidRequest.location.latitude,
+              aidRequest.location.longitude,
+              organization.address.latitude,
+              organization.address.longitude,
+            )
+          : null;
+
+      if (distanceKm !== null && distanceKm > MAX_MATCH_DISTANCE_KM) {
+        continue;
+      }
+
+      const openRequests = openRequestsByOrganization.get(organization.id) ?? 0;
+      const breakdown = {
+        distance:
+          distanceKm === null ? 0 : 1 - distanceKm / MAX_MATCH_DISTANCE_KM,
+        type: this.typeSimilarity(organization.type, aidRequest.type),
+        workload: 1 / (1 + openRequests),
+        rating: Math.min(Math.max((organization.rating ?? 0) / 5, 0), 1),
+      };
+      const score = Object.entries(MATCH_WEIGHTS).reduce(
+        (total, [criterion, weight]) => total + breakdown[criterion] * weight,
+        0,
+      );
+
+      candidates.push({
+        organizationId: organization.id,
+        name: organization.name,
+        type: organization.type,
+        rating: organization.rating,
+        distanceKm: distanceKm === null ? null : this.round(distanceKm),
+        openRequests,
+        score: this.round(score),
+        breakdown: {
+          distance: this.round(breakdown.distance),
+          type: breakdown.type,
+          workload: this.round(breakdown.workload),
+          rating: this.round(breakdown.rating),
+        },
+      });
+    }
+
+    return candidates.sort((a, b) => b.score - a.score);
+  }
+
+  // Organizasyon türü talep türüyle aynıysa 1, biri diğerini içeriyorsa 0.5
+  private typeSimilarity(organizationType: string, requestType: string) {
+    const normalize = (value: string) =>
+      (value ?? '').trim().toLocaleLowerCase('tr');
+    const a = normalize(organizationType);
+    const b = normalize(requestType);
+
+    if (!a || !b) return 0;
+    if (a === b) return 1;
+    if (a.includes(b) || b.includes(a)) return 0.5;
+    return 0;
+  }
+
+  private matchableWhere() {
+    return {
+      organizationId: null,
+      isDeleted: false,
+      verified: true,
+      status: AidRequestStatus.Approved,
+    };
+  }
+
+  private async findMatchableAidRequest(aidRequestId: number) {
+    const aidRequest = await this.prisma.aidRequest.findUnique({
+      where: { id: Number(aidRequestId) },
+      include: { location: true },
+    });
+
+    if (!aidRequest || aidRequest.isDeleted) {
+      throw new NotFoundException(
+        `${aidRequestId} ID'li yardım talebi bulunamadı`,
+      );
+    }
+
+    if (aidRequest.organizationId) {
+      throw new BadRequestException(
+        `${aidRequestId} ID'li yardım talebi zaten bir organizasyona atanmış`,
+      );
+    }
+
+    if (
+      !aidRequest.verified ||
+      aidRequest.status !== AidRequestStatus.Approved
+    ) {
+      throw new BadRequestException(
+        'Yalnızca doğrulanmış ve onaylanmış talepler eşleştirilebilir',
+      );
+    }
+
+    return aidRequest;
+  }
+
+  // assignToOrganization ile aynı kapsam: havuzdaki talepleri yalnızca admin
+  // ve en az bir organizasyonda staff olan organizasyon hesapları eşleştirir
+  private assertCanMatch(user: AbilityUser, aidRequest: AidRequest) {
+    if (
+      user.role !== Role.Admin &&
+      (user.role !== Role.OrganizationOwner ||
+        !this.caslAbilityFactory.can(
+          user,
+          Action.Update,
+          'AidRequest',
+          aidRequest,
+        ))
+    ) {
+      throw new ForbiddenException(
+        'Yardım taleplerini eşleştirme yetkiniz bulunmuyor',
+      );
+    }
+  }
+
+  private round(value: number) {
+    return parseFloat(value.toFixed(2));
+  }
+}
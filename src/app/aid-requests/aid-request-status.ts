@@ -0,0 +1,123 @@
+import { Role } from '../casl/action';
+
+// Yardım talebi yaşam döngüsü durumları
+export enum AidRequestStatus {
+  Pending = 'pending',
+  Approved = 'approved',
+  Rejected = 'rejected',
+  Assigned = 'assigned',
+  InTransit = 'in_transit',
+  Delivered = 'delivered',
+  Closed = 'closed',
+  Cancelled = 'cancelled',
+}
+
+// Teslimatı gerçekleşmiş sayılan durumlar (raporlama için)
+export const FULFILLED_AID_REQUEST_STATUSES: string[] = [
+  AidRequestStatus.Delivered,
+  AidRequestStatus.Closed,
+];
+
+// Bu durumlardan başka bir duruma geçiş yapılamaz
+export const TERMINAL_AID_REQUEST_STATUSES: string[] = [
+  AidRequestStatus.Rejected,
+  AidRequestStatus.Closed,
+  AidRequestStatus.Cancelled,
+];
+
+// Talebe ayrılan stoğun serbest bırakıldığı durumlar: talep teslim
+// edilmeden sonlandı veya organizasyondan geri alınıp havuza döndü
+export const STOCK_RELEASING_AID_REQUEST_STATUSES: string[] = [
+  AidRequestStatus.Approved,
+  AidRequestStatus.Rejected,
+  AidRequestStatus.Cancelled,
+];
+
+/**
+ * İzin verilen durum geçişleri ve her geçişi yapabilecek roller.
+ * Tabloda olmayan geçişler reddedilir.
+ */
+export const AID_REQUEST_STATUS_TRANSITIONS: Record<
+  AidRequestStatus,
+  Partial<Record<AidRequestStatus, Role[]>>
+> = {
+  [AidRequestStatus.Pending]: {
+    [AidRequestStatus.Approved]: [Role.Admin],
+    [AidRequestStatus.Rejected]: [Role.Admin],
+    [AidRequestStatus.Cancelled]: [Role.Admin, Role.User],
+  },
+  [AidRequestStatus.Approved]: {
+    [AidRequestStatus.Assigned]: [Role.Admin, Role.OrganizationOwner],
+    [AidRequestStatus.Rejected]: [Role.Admin],
+    [AidRequestStatus.Cancelled]: [Role.Admin, Role.User],
+  },
+  [AidRequestStatus.Assigned]: {
+    [AidRequestStatus.InTransit]: [
+      Role.Admin,
+      Role.OrganizationOwner,
+      Role.Volunteer,
+    ],
+    [AidRequestStatus.Approved]: [Role.Admin, Role.OrganizationOwner],
+    [AidRequestStatus.Cancelled]: [Role.Admin],
+  },
+  [AidRequestStatus.InTransit]: {
+    [AidRequestStatus.Delivered]: [
+      Role.Admin,
+      Role.OrganizationOwner,
+      Role.Volunteer,
+    ],
+    [AidRequestStatus.Assigned]: [Role.Admin, Role.OrganizationOwner],
+  },
+  [AidRequestStatus.Delivered]: {
+    [AidRequestStatus.Closed]: [Role.Admin, Role.OrganizationOwner],
+  },
+  [AidRequestStatus.Rejected]: {},
+  [AidRequestStatus.Closed]: {},
+  [AidRequestStatus.Cancelled]: {},
+};
+
+// Eski kayıtlarda ve istemcilerde görülen yazımlar
+const LEGACY_STATUS_ALIASES: Record<string, AidRequestStatus> = {
+  completed: AidRequestStatus.Closed,
+  canceled: AidRequestStatus.Cancelled,
+  intransit: AidRequestStatus.InTransit,
+  inprogress: AidRequestStatus.InTransit,
+  in_progress: AidRequestStatus.InTransit,
+};
+
+/**
+ * Serbest metin bir durumu kanonik değere çevirir ('Delivered' -> 'delivered').
+ * Tanınmayan değerler için null döner.
+ */
+export function normalizeAidRequestStatus(
+  value: string | null | undefined,
+): AidRequestStatus | null {
+  if (!value) return null;
+  const key = value
+    .trim()
+    .toLowerCase()
+    .replace(/[\s-]+/g, '_');
+  if ((Object.values(AidRequestStatus) as string[]).includes(key)) {
+    return key as AidRequestStatus;
+  }
+  return LEGACY_STATUS_ALIASES[key] ?? null;
+}
+
+// Verilen rolün from -> to geçişini yapıp yapamayacağını döner
+export function canTransitionAidRequest(
+  from: AidRequestStatus,
+  to: AidRequestStatus,
+  role: string,
+): boolean {
+  const allowedRoles = AID_REQUEST_STATUS_TRANSITIONS[from]?.[to];
+  return !!allowedRoles && allowedRoles.includes(role as Role);
+}
+
+// Mevcut durumdan gidilebilecek durumlar
+export function nextAidRequestStatuses(
+  from: AidRequestStatus,
+): AidRequestStatus[] {
+  return Object.keys(
+    AID_REQUEST_STATUS_TRANSITIONS[from] ?? {},
+  ) as AidRequestStatus[];
+}
@@ -7,10 +7,13 @@ import {
   Param,
   Patch,
   Req,
+  Query,
   NotFoundException,
   BadRequestException,
+  ParseIntPipe,
 } from '@nestjs/common';
 import { AidRequestsService } from './aid-requests.service';
+import { AidRequestMatchingService } from './aid-request-matching.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import {
   ApiOperation,
@@ -19,6 +22,7 @@ import {
   ApiParam,
   ApiBody,
   ApiBearerAuth,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { CreateAidRequestDto } from './dto/create-aid-request.dto';
 import { Roles } from '../roles/roles.decorator';
@@ -28,11 +32,18 @@ import { CheckPolicies } from '../casl/check-policies.decorator';
 import { Action } from '../casl/action';
 import { RequestWithUser } from './interfaces/request-with-user.interface';
 import { FilterAidRequestDto } from './dto/filter-aid-request.dto';
+import { UpdateAidRequestStatusDto } from './dto/update-aid-request-status.dto';
+import { AssignAidRequestDto } from './dto/assign-aid-request.dto';
+import { AssignVolunteerDto } from './dto/assign-volunteer.dto';
+import { AidRequestStatus } from './aid-request-status';
 
 @ApiTags('aidrequests')
 @Controller('aidrequests')
 export class AidRequestsController {
-  constructor(private readonly aidRequestsService: AidRequestsService) {}
+  constructor(
+    private readonly aidRequestsService: AidRequestsService,
+    private readonly aidRequestMatchingService: AidRequestMatchingService,
+  ) {}
 
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -120,6 +131,108 @@ export class AidRequestsController {
     }
   }
 
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @CheckPolicies((ability) => ability.can(Action.Read, 'AidRequest'))
+  @ApiOperation({ summary: 'Get the status history of an aid request' })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved the status timeline.',
+  })
+  @ApiResponse({ status: 404, description: 'Aid request not found' })
+  @ApiParam({
+    name: 'id',
+    description: 'The ID of the aid request',
+  })
+  @Get(':id/timeline')
+  async getTimeline(@Param('id') id: number, @Req() req: RequestWithUser) {
+    return this.aidRequestsService.getStatusTimeline(id, req.user);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'List organizations that could take over an aid request',
+  })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Candidates ordered by score (distance, type, workload and rating).',
+  })
+  @ApiResponse({ status: 400, description: 'Aid request is not matchable' })
+  @ApiResponse({ status: 403, description: 'Only admins and org owners' })
+  @ApiParam({ name: 'id', description: 'The ID of the aid request' })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @Get(':id/match-candidates')
+  async getMatchCandidates(
+    @Param('id') id: number,
+    @Query('limit') limit: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.aidRequestMatchingService.getMatchCandidates(
+      id,
+      req.user,
+      limit,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Assign an aid request to an organization (best candidate when omitted)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'The aid request has been assigned.',
+  })
+  @ApiResponse({ status: 400, description: 'Aid request is not matchable' })
+  @ApiResponse({ status: 403, description: 'Only admins and org owners' })
+  @ApiResponse({ status: 404, description: 'No suitable organization' })
+  @ApiParam({ name: 'id', description: 'The ID of the aid request' })
+  @ApiBody({ type: AssignAidRequestDto })
+  @Post(':id/assign')
+  async assign(
+    @Param('id') id: number,
+    @Body() assignDto: AssignAidRequestDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.aidRequestMatchingService.assign(
+      id,
+      req.user,
+      assignDto?.organizationId,
+      assignDto?.reason,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Assign a volunteer to deliver an aid request' })
+  @ApiResponse({ status: 200, description: 'The volunteer has been assigned.' })
+  @ApiResponse({
+    status: 400,
+    description:
+      'Request is not assigned to an organization or not a volunteer',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Only admins and staff of the organization',
+  })
+  @ApiParam({ name: 'id', description: 'The ID of the aid request' })
+  @ApiBody({ type: AssignVolunteerDto })
+  @Patch(':id/volunteer')
+  async assignVolunteer(
+    @Param('id') id: number,
+    @Body() assignDto: AssignVolunteerDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.aidRequestsService.assignVolunteer(
+      id,
+      assignDto?.volunteerId ?? null,
+      req.user,
+    );
+  }
+
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @CheckPolicies((ability) => ability.can(Action.Read, 'AidRequest'))
@@ -149,45 +262,35 @@ export class AidRequestsController {
 
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @Roles(Role.Admin)
   @CheckPolicies((ability) => ability.can(Action.Update, 'AidRequest'))
   @ApiOperation({ summary: 'Update the status of a specific aid request' })
   @ApiResponse({
     status: 200,
     description: 'Successfully updated the status of the aid request.',
   })
+  @ApiResponse({ status: 400, description: 'Illegal status transition' })
+  @ApiResponse({
+    status: 403,
+    description: 'Role is not allowed to perform this transition',
+  })
   @ApiResponse({ status: 404, description: 'Aid request not found' })
   @ApiParam({
     name: 'id',
     description: 'The ID of the aid request to update',
   })
-  @ApiBody({
-    schema: {
-      type: 'object',
-      properties: {
-        status: {
-          type: 'string',
-          description: 'The new status of the aid request',
-        },
-        userId: {
-          type: 'string',
-          description: 'The ID of the user',
-        },
-        userRole: {
-          type: 'string',
-          description: 'The role of the user',
-        },
-      },
-    },
-  })
+  @ApiBody({ type: UpdateAidRequestStatusDto })
   @Patch(':id/status')
   async updateStatus(
     @Param('id') id: number,
-    @Body('status') status: string,
-    @Body('userId') userId: string, // Ensure userId is a string
-    @Body('userRole') userRole: string,
+    @Body() updateStatusDto: UpdateAidRequestStatusDto,
+    @Req() req: RequestWithUser,
   ) {
-    return this.aidRequestsService.updateStatus(id, status, userId, userRole);
+    return this.aidRequestsService.updateStatus(
+      id,
+      updateStatusDto.status,
+      req.user,
+      updateStatusDto.reason,
+    );
   }
 
   @UseGuards(JwtAuthGuard)
@@ -203,12 +306,27 @@ export class AidRequestsController {
     description: 'The ID of the aid request to add comment',
   })
   @Post(':id/comments')
-  async addComment(@Param('id') id: string, @Body('content') content: string) {
+  async addComment(
+    @Param('id') id: string,
+    @Body('content') content: string,
+    @Req() req: RequestWithUser,
+  ) {
     const numericId = parseInt(id, 10); // id'yi açıkça sayıya dönüştürüyoruz
     if (isNaN(numericId)) {
       throw new Error('Invalid aid request ID');
     }
-    return this.aidRequestsService.addComment(numericId, content);
+    return this.aidRequestsService.addComment(numericId, content, req.user.id);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'List published comments of an aid request' })
+  @ApiResponse({ status: 200, description: 'Published comments' })
+  @ApiResponse({ status: 404, description: 'Aid request not found' })
+  @ApiParam({ name: 'id', description: 'The ID of the aid request' })
+  @Get(':id/comments')
+  async getComments(@Param('id', ParseIntPipe) id: number) {
+    return this.aidRequestsService.getComments(id);
   }
 
   @UseGuards(JwtAuthGuard)
@@ -305,13 +423,23 @@ export class AidRequestsController {
     return this.aidRequestsService.reportSuspiciousAidRequest(id);
   }
 
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Verify aid delivery by scanning its QR code' })
+  @ApiResponse({
+    status: 201,
+    description: 'Successfully updated the delivery status.',
+  })
+  @ApiResponse({ status: 400, description: 'Illegal status transition' })
   @Post('verify-delivery')
   async verifyAidDelivery(
     @Body() body: { qrCodeData: string; status?: string },
+    @Req() req: RequestWithUser,
   ) {
     return this.aidRequestsService.verifyAidDeliveryByQRCode(
       body.qrCodeData,
-      body.status || 'Delivered',
+      req.user,
+      body.status || AidRequestStatus.Delivered,
     );
   }
 
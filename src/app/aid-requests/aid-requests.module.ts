@@ -4,12 +4,30 @@ import { Module } from '@nestjs/common';
 import { AidRequestsService } from './aid-requests.service';
 import { AidRequestsController } from './aid-requests.controller';
 import { PrismaService } from '../prisma/prisma.service';
-import { FirebaseAdminService } from '../firebase/fcm/firebase-admin.service';
+import { RecurringRequestsService } from './recurring-requests.service';
+import { AidRequestMatchingService } from './aid-request-matching.service';
+import { RecurringRequestsController } from './recurring-requests.controller';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { ModerationModule } from '../moderation/moderation.module';
+import { CaslModule } from '../casl/casl.module';
+import { InventoryModule } from '../inventory/inventory.module';
 
 @Module({
-  imports: [],
-  providers: [AidRequestsService, PrismaService, FirebaseAdminService],
-  controllers: [AidRequestsController],
+  imports: [
+    RealtimeModule,
+    NotificationsModule,
+    ModerationModule,
+    CaslModule,
+    InventoryModule,
+  ],
+  providers: [
+    AidRequestsService,
+    AidRequestMatchingService,
+    RecurringRequestsService,
+    PrismaService,
+  ],
+  controllers: [AidRequestsController, RecurringRequestsController],
   exports: [AidRequestsService], // AidRequestsService'i dışa aktar
 })
 export class AidRequestsModule {}
@@ -1,18 +1,31 @@
 import { Test, TestingModule } from '@nestjs/testing';
 import { AidRequestsService } from './aid-requests.service';
 import { PrismaService } from '../prisma/prisma.service';
-import { FirebaseAdminService } from '../firebase/fcm/firebase-admin.service';
-import { UnauthorizedException } from '@nestjs/common';
+import { NotificationsService } from '../notifications/notifications.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { RealtimeEvent } from '../realtime/realtime-events';
+import { ModerationService } from '../moderation/moderation.service';
+import { CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { InventoryService } from '../inventory/inventory.service';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 
 describe('AidRequestsService', () => {
   let service: AidRequestsService;
   let prismaService: PrismaService;
-  // firebaseAdminService currently not directly asserted in tests
+  let realtimeService: RealtimeService;
+  let inventoryService: InventoryService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         AidRequestsService,
+        CaslAbilityFactory,
         {
           provide: PrismaService,
           useValue: {
@@ -21,6 +34,7 @@ describe('AidRequestsService', () => {
               findUnique: jest.fn(),
               create: jest.fn(),
               update: jest.fn(),
+              count: jest.fn(),
             },
             comment: {
               create: jest.fn(),
@@ -30,16 +44,52 @@ describe('AidRequestsService', () => {
             },
             location: {
               create: jest.fn(),
+              findUnique: jest.fn(),
             },
             organization: {
               findUnique: jest.fn(),
             },
+            user: {
+              findUnique: jest.fn(),
+            },
+            organizationServiceArea: {
+              count: jest.fn().mockResolvedValue(0),
+            },
+            aidRequestStatusChange: {
+              create: jest.fn(),
+              findMany: jest.fn(),
+            },
+            $transaction: jest.fn(),
+            $queryRaw: jest.fn(),
+          },
+        },
+        {
+          provide: NotificationsService,
+          useValue: {
+            notify: jest.fn(),
+          },
+        },
+        {
+          provide: RealtimeService,
+          useValue: {
+            aidRequestChanged: jest.fn(),
           },
         },
         {
-          provide: FirebaseAdminService,
+          provide: ModerationService,
           useValue: {
-            sendPushNotification: jest.fn(),
+            prescreen: jest
+              .fn()
+              .mockResolvedValue({ status: 'published', matches: [] }),
+            holdForReview: jest.fn(),
+          },
+        },
+        {
+          provide: InventoryService,
+          useValue: {
+            distributeReservedStock: jest.fn().mockResolvedValue([]),
+            releaseReservedStock: jest.fn().mockResolvedValue([]),
+            syncLowStockAlerts: jest.fn(),
           },
         },
       ],
@@ -47,7 +97,12 @@ describe('AidRequestsService', () => {
 
     service = module.get<AidRequestsService>(AidRequestsService);
     prismaService = module.get<PrismaService>(PrismaService);
-    module.get<FirebaseAdminService>(FirebaseAdminService);
+    realtimeService = module.get<RealtimeService>(RealtimeService);
+    inventoryService = module.get<InventoryService>(InventoryService);
+
+    jest
+      .spyOn(prismaService, '$transaction')
+      .mockImplementation((callback: any) => callback(prismaService));
 
     jest.spyOn(prismaService.organization, 'findUnique').mockResolvedValue({
       id: 1,
@@ -57,7 +112,16 @@ describe('AidRequestsService', () => {
       contactInfoId: 1,
       addressId: 1,
       rating: 0,
+      reviewCount: 0,
       feedback: '',
+      suspendedAt: null,
+      suspensionReason: null,
+      verificationStatus: 'approved',
+      verificationRequestedAt: null,
+      verifiedAt: null,
+      verificationNote: null,
+      taxNumber: null,
+      charityRegistrationNo: null,
       createdAt: new Date(),
       updatedAt: new Date(),
     });
@@ -85,6 +149,9 @@ describe('AidRequestsService', () => {
         verified: false,
         reported: false,
         helpCode: '',
+        parentRequestId: null,
+        occurrenceDate: null,
+        assignedTo: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       } as any);
@@ -92,6 +159,8 @@ describe('AidRequestsService', () => {
         id: 1,
         content: 'This is a comment',
         aidRequestId: 1,
+        userId: 1,
+        moderationStatus: 'published',
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -119,6 +188,9 @@ describe('AidRequestsService', () => {
         verified: false,
         reported: false,
         helpCode: '',
+        parentRequestId: null,
+        occurrenceDate: null,
+        assignedTo: null,
         createdAt: new Date(),
         updatedAt: new Date(),
       } as any);
@@ -156,6 +228,10 @@ describe('AidRequestsService', () => {
           verified: false,
           reported: false,
           helpCode: '',
+          parentRequestId: null,
+          occurrenceDate: null,
+          assignedTo: null,
+          createdAt: new Date(),
         },
       ];
       jest
@@ -185,6 +261,9 @@ describe('AidRequestsService', () => {
         verified: false,
         reported: false,
         helpCode: '',
+        parentRequestId: null,
+        occurrenceDate: null,
+        assignedTo: null,
       };
       jest
         .spyOn(prismaService.aidRequest, 'findUnique')
@@ -211,6 +290,9 @@ describe('AidRequestsService', () => {
         verified: false,
         reported: false,
         helpCode: '',
+        parentRequestId: null,
+        occurrenceDate: null,
+        assignedTo: null,
       };
       jest
         .spyOn(prismaService.aidRequest, 'findUnique')
@@ -254,6 +336,9 @@ describe('AidRequestsService', () => {
         verified: false,
         reported: false,
         helpCode: '',
+        parentRequestId: null,
+        occurrenceDate: null,
+        assignedTo: null,
       } as any;
       jest.spyOn(prismaService.location, 'create').mockResolvedValue(location);
       jest
@@ -300,40 +385,416 @@ describe('AidRequestsService', () => {
   });
 
   describe('updateStatus', () => {
-    it('should update the status of a specific aid request', async () => {
-      const result = {
-        id: 1,
-        status: 'Completed',
-        userId: 1,
-        organizationId: 1,
-        type: 'Food',
-        description: 'Need food',
-        isDeleted: false,
-        locationId: 1,
-        createdAt: new Date(),
-        updatedAt: new Date(),
-        qrCodeUrl: '',
-        isUrgent: false,
-        recurring: false,
-        verified: false,
-        reported: false,
-        helpCode: '',
+    const existing = {
+      id: 1,
+      status: 'pending',
+      userId: 1,
+      organizationId: 1,
+      type: 'Food',
+      description: 'Need food',
+      isDeleted: false,
+      locationId: 1,
+      createdAt: new Date(),
+      updatedAt: new Date(),
+      qrCodeUrl: '',
+      isUrgent: false,
+      recurring: false,
+      verified: false,
+      reported: false,
+      helpCode: '',
+      parentRequestId: null,
+      occurrenceDate: null,
+      assignedTo: null,
+    };
+
+    it('should apply an allowed transition and record it in the history', async () => {
+      const result = { ...existing, status: 'approved' };
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(existing as any);
+      jest.spyOn(prismaService.aidRequest, 'update').mockResolvedValue(result);
+
+      expect(
+        await service.updateStatus(1, 'approved', { id: 5, role: 'admin' }),
+      ).toBe(result);
+      expect(prismaService.aidRequestStatusChange.create).toHaveBeenCalledWith({
+        data: {
+          aidRequestId: 1,
+          fromStatus: 'pending',
+          toStatus: 'approved',
+          reason: undefined,
+          changedById: 5,
+        },
+      });
+      expect(realtimeService.aidRequestChanged).toHaveBeenCalledWith(
+        RealtimeEvent.AidRequestStatusChanged,
+        result,
+        { fromStatus: 'pending', reason: null },
+      );
+    });
+
+    it('should normalize legacy status values', async () => {
+      jest.spyOn(prismaService.aidRequest, 'findUnique').mockResolvedValue({
+        ...existing,
+        status: 'Delivered',
+      } as any);
+      jest
+        .spyOn(prismaService.aidRequest, 'update')
+        .mockResolvedValue({ ...existing, status: 'closed' });
+
+      await service.updateStatus(1, 'Completed', { id: 5, role: 'admin' });
+      expect(prismaService.aidRequest.update).toHaveBeenCalledWith({
+        where: { id: 1, status: 'Delivered' },
+        data: { status: 'closed' },
+      });
+    });
+
+    it('should release the stock reserved for a cancelled request', async () => {
+      jest.spyOn(prismaService.aidRequest, 'findUnique').mockResolvedValue({
+        ...existing,
+        status: 'assigned',
+      } as any);
+      jest
+        .spyOn(prismaService.aidRequest, 'update')
+        .mockResolvedValue({ ...existing, status: 'cancelled' });
+
+      await service.updateStatus(
+        1,
+        'cancelled',
+        { id: 5, role: 'admin' },
+        'Talep sahibi vazgeçti',
+      );
+
+      expect(inventoryService.releaseReservedStock).toHaveBeenCalledWith(
+        prismaService,
+        1,
+        5,
+        'Talep sahibi vazgeçti',
+      );
+      expect(inventoryService.distributeReservedStock).not.toHaveBeenCalled();
+    });
+
+    it('should not announce the transition when the stock cannot be settled', async () => {
+      jest.spyOn(prismaService.aidRequest, 'findUnique').mockResolvedValue({
+        ...existing,
+        status: 'assigned',
+      } as any);
+      jest
+        .spyOn(prismaService.aidRequest, 'update')
+        .mockResolvedValue({ ...existing, status: 'cancelled' });
+      jest
+        .spyOn(inventoryService, 'releaseReservedStock')
+        .mockRejectedValue(new BadRequestException('Yetersiz stok'));
+
+      await expect(
+        service.updateStatus(1, 'cancelled', { id: 5, role: 'admin' }),
+      ).rejects.toThrow(BadRequestException);
+      // Stok hatası transaction'ı geri aldığı için durum da değişmemiş olur
+      expect(prismaService.$transaction).toHaveBeenCalledTimes(1);
+      expect(realtimeService.aidRequestChanged).not.toHaveBeenCalled();
+    });
+
+    it('should return an unassigned request to the pool so it can be assigned again', async () => {
+      const assigned = {
+        ...existing,
+        status: 'assigned',
+        organizationId: 2,
+        assignedTo: 8,
       };
+      const returned = {
+        ...assigned,
+        status: 'approved',
+        organizationId: null,
+        assignedTo: null,
+      };
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValueOnce(assigned as any)
+        .mockResolvedValueOnce(returned as any);
+      jest
+        .spyOn(prismaService.aidRequest, 'update')
+        .mockResolvedValueOnce(returned as any)
+        .mockResolvedValueOnce({ ...returned, status: 'assigned' } as any);
+
+      await service.updateStatus(1, 'approved', { id: 5, role: 'admin' });
+      await service.assignToOrganization(1, 1, { id: 5, role: 'admin' });
+
+      expect(prismaService.aidRequest.update).toHaveBeenNthCalledWith(1, {
+        where: { id: 1, status: 'assigned' },
+        data: { organizationId: null, assignedTo: null, status: 'approved' },
+      });
+      expect(prismaService.aidRequest.update).toHaveBeenNthCalledWith(2, {
+        where: { id: 1, status: 'approved' },
+        data: { organizationId: 1, status: 'assigned' },
+      });
+    });
+
+    it('should reject an illegal transition', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(existing as any);
+
+      await expect(
+        service.updateStatus(1, 'delivered', { id: 5, role: 'admin' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should throw a ForbiddenException if the role may not perform the transition', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(existing as any);
+
+      await expect(
+        service.updateStatus(1, 'approved', { id: 1, role: 'user' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it("should not let a user cancel someone else's request", async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(existing as any);
+
+      await expect(
+        service.updateStatus(1, 'cancelled', { id: 2, role: 'user' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should only let volunteers move requests assigned to them', async () => {
+      const volunteer = { id: 8, role: 'volunteer' };
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue({ ...existing, status: 'assigned' } as any);
+
+      await expect(
+        service.updateStatus(1, 'in_transit', volunteer),
+      ).rejects.toThrow(ForbiddenException);
+
       jest.spyOn(prismaService.aidRequest, 'findUnique').mockResolvedValue({
-        ...result,
-        status: 'Pending', // existing status different from new status
+        ...existing,
+        status: 'assigned',
+        assignedTo: 8,
       } as any);
-      jest.spyOn(prismaService.aidRequest, 'update').mockResolvedValue(result);
+      jest
+        .spyOn(prismaService.aidRequest, 'update')
+        .mockResolvedValue({ ...existing, status: 'in_transit' } as any);
 
-      expect(await service.updateStatus(1, 'Completed', '1', 'admin')).toBe(
-        result,
+      await service.updateStatus(1, 'in_transit', volunteer);
+      expect(prismaService.aidRequest.update).toHaveBeenCalledWith({
+        where: { id: 1, status: 'assigned' },
+        data: { status: 'in_transit' },
+      });
+    });
+
+    it('should return 409 when the status changed concurrently', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(existing as any);
+      jest.spyOn(prismaService.aidRequest, 'update').mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('Record not found', {
+          code: 'P2025',
+          clientVersion: '6.5.0',
+        }),
+      );
+
+      await expect(
+        service.updateStatus(1, 'approved', { id: 5, role: 'admin' }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('assignVolunteer', () => {
+    const assigned = {
+      id: 1,
+      status: 'assigned',
+      userId: 1,
+      organizationId: 1,
+      isDeleted: false,
+    };
+    const staff = {
+      id: 7,
+      role: 'organization_owner',
+      memberships: [{ organizationId: 1, role: 'staff' }],
+    };
+
+    it('should hand the delivery to a volunteer', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(assigned as any);
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ id: 8, role: 'volunteer' } as any);
+
+      await service.assignVolunteer(1, 8, staff);
+
+      expect(prismaService.aidRequest.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: { assignedTo: 8 },
+      });
+    });
+
+    it('should only let staff of the organization assign volunteers', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(assigned as any);
+
+      await expect(
+        service.assignVolunteer(1, 8, {
+          ...staff,
+          memberships: [{ organizationId: 2, role: 'owner' }],
+        }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.aidRequest.update).not.toHaveBeenCalled();
+    });
+
+    it('should reject users that are not volunteers', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(assigned as any);
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ id: 9, role: 'user' } as any);
+
+      await expect(service.assignVolunteer(1, 9, staff)).rejects.toThrow(
+        BadRequestException,
       );
     });
+  });
+
+  describe('assignToOrganization', () => {
+    const approved = {
+      id: 1,
+      status: 'approved',
+      userId: 1,
+      organizationId: null,
+      isDeleted: false,
+    };
+
+    it('should set the organization and move the request to assigned', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(approved as any);
+      jest
+        .spyOn(prismaService.aidRequest, 'update')
+        .mockResolvedValue({ ...approved, status: 'assigned' } as any);
+
+      await service.assignToOrganization(1, 1, { id: 5, role: 'admin' });
+
+      expect(prismaService.aidRequest.update).toHaveBeenCalledWith({
+        where: { id: 1, status: 'approved' },
+        data: { organizationId: 1, status: 'assigned' },
+      });
+      expect(prismaService.aidRequestStatusChange.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          fromStatus: 'approved',
+          toStatus: 'assigned',
+        }),
+      });
+    });
+
+    it('should reject a request that is already assigned', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue({ ...approved, organizationId: 2 } as any);
+
+      await expect(
+        service.assignToOrganization(1, 1, { id: 5, role: 'admin' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not assign to a suspended organization', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(approved as any);
+      jest.spyOn(prismaService.organization, 'findUnique').mockResolvedValue({
+        id: 1,
+        name: 'Test Organization',
+        suspendedAt: new Date(),
+      } as any);
 
-    it('should throw an UnauthorizedException if the user is not an admin', async () => {
       await expect(
-        service.updateStatus(1, 'Completed', '1', 'user'),
-      ).rejects.toThrow(UnauthorizedException);
+        service.assignToOrganization(1, 1, { id: 5, role: 'admin' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.aidRequest.update).not.toHaveBeenCalled();
+    });
+
+    it('should only let organization accounts assign to their own organizations', async () => {
+      const staff = {
+        id: 7,
+        role: 'organization_owner',
+        memberships: [{ organizationId: 2, role: 'staff' }],
+      };
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue(approved as any);
+
+      await expect(service.assignToOrganization(1, 1, staff)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(prismaService.aidRequest.update).not.toHaveBeenCalled();
+
+      await service.assignToOrganization(1, 1, {
+        ...staff,
+        memberships: [{ organizationId: 1, role: 'staff' }],
+      });
+      expect(prismaService.aidRequest.update).toHaveBeenCalledWith({
+        where: { id: 1, status: 'approved' },
+        data: { organizationId: 1, status: 'assigned' },
+      });
+    });
+
+    it('should warn when the request is outside the organization service areas', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue({ ...approved, locationId: 3, type: 'Gıda' } as any);
+      jest
+        .spyOn(prismaService.aidRequest, 'update')
+        .mockResolvedValue({ ...approved, status: 'assigned' } as any);
+      jest
+        .spyOn(prismaService.location, 'findUnique')
+        .mockResolvedValue({ id: 3, latitude: 41, longitude: 29 } as any);
+      jest
+        .spyOn(prismaService.organizationServiceArea, 'count')
+        .mockResolvedValue(2);
+      (prismaService.$queryRaw as jest.Mock).mockResolvedValue([
+        { serves: false },
+      ]);
+
+      const result = await service.assignToOrganization(1, 1, {
+        id: 5,
+        role: 'admin',
+      });
+
+      expect(result.status).toBe('assigned');
+      expect(result.warnings).toEqual([
+        expect.stringContaining('hizmet bölgeleri dışında'),
+      ]);
+    });
+  });
+
+  describe('verifyAidDeliveryByQRCode', () => {
+    it('should distribute the stock reserved for a delivered request', async () => {
+      jest.spyOn(prismaService.aidRequest, 'findUnique').mockResolvedValue({
+        id: 3,
+        status: 'in_transit',
+        userId: 1,
+        organizationId: 1,
+        isDeleted: false,
+      } as any);
+      jest
+        .spyOn(prismaService.aidRequest, 'update')
+        .mockResolvedValue({ id: 3, status: 'delivered' } as any);
+
+      await service.verifyAidDeliveryByQRCode('aidRequest:3', {
+        id: 5,
+        role: 'admin',
+      });
+
+      expect(inventoryService.distributeReservedStock).toHaveBeenCalledWith(
+        prismaService,
+        3,
+        5,
+        'QR kod ile teslimat doğrulaması',
+      );
     });
   });
 
@@ -356,6 +817,9 @@ describe('AidRequestsService', () => {
         verified: false,
         reported: false,
         helpCode: '',
+        parentRequestId: null,
+        occurrenceDate: null,
+        assignedTo: null,
       };
       jest.spyOn(prismaService.aidRequest, 'findUnique').mockResolvedValue({
         ...result,
@@ -366,4 +830,74 @@ describe('AidRequestsService', () => {
       expect(await service.delete(1)).toBe(result);
     });
   });
+
+  describe('searchAidRequests', () => {
+    it('should paginate in database distance order', async () => {
+      (prismaService.$queryRaw as jest.Mock)
+        .mockResolvedValueOnce([{ id: 2, distanceKm: 4 }])
+        .mockResolvedValueOnce([{ total: 3 }]);
+      jest
+        .spyOn(prismaService.aidRequest, 'findMany')
+        .mockResolvedValue([{ id: 2 }] as any);
+
+      const result = await service.searchAidRequests({
+        latitude: '41.0',
+        longitude: '29.0',
+        radiusKm: '5',
+        type: 'Gıda',
+        sortBy: 'distance',
+        sortDirection: 'asc',
+        page: 2,
+        limit: 2,
+      });
+
+      const [strings, ...values] = (prismaService.$queryRaw as jest.Mock).mock
+        .calls[0];
+      const query = Prisma.sql(strings, ...values);
+      expect(query.sql).toMatch(
+        /ORDER BY "distanceKm" ASC NULLS LAST, a\."id" ASC\s+LIMIT \? OFFSET \?/,
+      );
+      expect(query.values).toEqual(expect.arrayContaining(['Gıda', 2]));
+      expect(prismaService.aidRequest.findMany).toHaveBeenCalledTimes(1);
+      expect(prismaService.aidRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { in: [2] } } }),
+      );
+      expect(result.meta).toEqual({
+        total: 3,
+        page: 2,
+        limit: 2,
+        totalPages: 2,
+      });
+      expect(result.data).toEqual([{ id: 2, distanceKm: 4 }]);
+    });
+
+    it('should restrict results to ids inside the polygon', async () => {
+      (prismaService.$queryRaw as jest.Mock)
+        .mockResolvedValueOnce([{ id: 5, distanceKm: null }])
+        .mockResolvedValueOnce([{ total: 1 }]);
+      jest.spyOn(prismaService.aidRequest, 'findMany').mockResolvedValue([]);
+
+      await service.searchAidRequests({
+        polygon: '[[29,41],[29.1,41],[29.1,41.1]]',
+      });
+
+      expect(prismaService.aidRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ id: { in: [5] } }),
+        }),
+      );
+    });
+
+    it('should reject a malformed polygon', async () => {
+      await expect(
+        service.searchAidRequests({ polygon: '[[29,41],[29.1,41]]' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should require a location to sort by distance', async () => {
+      await expect(
+        service.searchAidRequests({ sortBy: 'distance' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
 });
@@ -3,22 +3,74 @@ import {
   UnauthorizedException,
   NotFoundException,
   BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Logger,
 } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { AidRequest } from '@prisma/client';
+import { AidRequest, InventoryItem, Prisma, User } from '@prisma/client';
 import { CreateAidRequestDto } from './dto/create-aid-request.dto';
-import { FirebaseAdminService } from '../firebase/fcm/firebase-admin.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/notification-templates';
+import { RealtimeService } from '../realtime/realtime.service';
+import { RealtimeEvent } from '../realtime/realtime-events';
+import { ModerationService } from '../moderation/moderation.service';
+import { isOrganizationActive } from '../organizations/organization-visibility';
+import { checkOrganizationServesLocation } from '../organizations/organization-service-area.util';
+import {
+  ModeratedContentType,
+  ModerationStatus,
+} from '../moderation/moderation-content';
 import * as QRCode from 'qrcode';
 import { v4 as uuidv4 } from 'uuid';
+import { Action, Role } from '../casl/action';
+import { AbilityUser, CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { InventoryService } from '../inventory/inventory.service';
+import {
+  OrganizationMemberRole,
+  organizationIdsWithRole,
+} from '../organizations/organization-member';
+import {
+  AID_REQUEST_STATUS_TRANSITIONS,
+  AidRequestStatus,
+  canTransitionAidRequest,
+  nextAidRequestStatuses,
+  normalizeAidRequestStatus,
+  STOCK_RELEASING_AID_REQUEST_STATUSES,
+} from './aid-request-status';
+import {
+  distanceKm,
+  GeoPolygon,
+  GeoRadius,
+  parseGeoPolygon,
+  parseGeoRadius,
+  withinPolygon,
+  withinRadius,
+} from '../prisma/geo-query.util';
+
+// Alan aramasında sıralanabilecek sütunlar; kullanıcı girdisi SQL'e doğrudan girmez
+const AREA_SEARCH_SORT_COLUMNS: Record<string, string> = {
+  createdAt: 'a."createdAt"',
+  id: 'a."id"',
+  type: 'a."type"',
+  status: 'a."status"',
+  isUrgent: 'a."isUrgent"',
+};
 
 @Injectable()
 export class AidRequestsService {
+  private readonly logger = new Logger(AidRequestsService.name);
+
   constructor(
     private readonly prismaService: PrismaService,
-    private readonly firebaseAdminService: FirebaseAdminService,
+    private readonly notificationsService: NotificationsService,
+    private readonly realtimeService: RealtimeService,
+    private readonly moderationService: ModerationService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+    private readonly inventoryService: InventoryService,
   ) {}
 
-  async addComment(aidRequestId: number, content: string) {
+  async addComment(aidRequestId: number, content: string, userId?: number) {
     // AidRequest'in varlığını kontrol et
     const aidRequest = await this.prismaService.aidRequest.findUnique({
       where: { id: aidRequestId },
@@ -34,15 +86,53 @@ export class AidRequestsService {
       throw new BadRequestException('Yorum içeriği boş olamaz');
     }
 
-    return this.prismaService.comment.create({
+    // Yasaklı ifade içeren yorumlar moderatör onayına kadar yayınlanmaz
+    const screening = await this.moderationService.prescreen(content);
+
+    const comment = await this.prismaService.comment.create({
       data: {
         content: content,
+        moderationStatus: screening.status,
         aidRequest: {
           connect: {
             id: aidRequestId,
           },
         },
+        ...(userId && { user: { connect: { id: userId } } }),
+      },
+    });
+
+    await this.moderationService.holdForReview(
+      ModeratedContentType.Comment,
+      comment.id,
+      screening.matches,
+    );
+
+    return comment;
+  }
+
+  // Yalnızca yayındaki yorumlar listelenir
+  async getComments(aidRequestId: number) {
+    const aidRequest = await this.prismaService.aidRequest.findUnique({
+      where: { id: aidRequestId },
+      select: { id: true },
+    });
+
+    if (!aidRequest) {
+      throw new NotFoundException(
+        `${aidRequestId} ID'li yardım talebi bulunamadı`,
+      );
+    }
+
+    return this.prismaService.comment.findMany({
+      where: { aidRequestId, moderationStatus: ModerationStatus.Published },
+      select: {
+        id: true,
+        content: true,
+        createdAt: true,
+        user: { select: { id: true, name: true } },
       },
+      orderBy: { createdAt: 'asc' },
     });
   }
 
@@ -110,15 +200,7 @@ export class AidRequestsService {
 
   async create(createAidRequestDto: CreateAidRequestDto, userId: number) {
     if (createAidRequestDto.organizationId) {
-      const organization = await this.prismaService.organization.findUnique({
-        where: { id: createAidRequestDto.organizationId },
-      });
-
-      if (!organization) {
-        throw new NotFoundException(
-          `Organizasyon bulunamadı. ID: ${createAidRequestDto.organizationId}`,
-        );
-      }
+      await this.findAssignableOrganization(createAidRequestDto.organizationId);
     }
 
     const location = await this.prismaService.location.create({
@@ -132,7 +214,7 @@ export class AidRequestsService {
       data: {
         type: createAidRequestDto.type,
         description: createAidRequestDto.description,
-        status: createAidRequestDto.status,
+        status: AidRequestStatus.Pending,
         organization: createAidRequestDto.organizationId
           ? { connect: { id: createAidRequestDto.organizationId } }
           : undefined,
@@ -152,6 +234,11 @@ export class AidRequestsService {
       data: { qrCodeUrl },
     });
 
+    await this.realtimeService.aidRequestChanged(
+      RealtimeEvent.AidRequestCreated,
+      { ...aidRequest, location },
+    );
+
     return { ...aidRequest, qrCodeUrl };
   }
 
@@ -161,15 +248,7 @@ export class AidRequestsService {
     userId: number,
   ) {
     if (createAidRequestDto.organizationId) {
-      const organization = await this.prismaService.organization.findUnique({
-        where: { id: createAidRequestDto.organizationId },
-      });
-
-      if (!organization) {
-        throw new NotFoundException(
-          `Organizasyon bulunamadı. ID: ${createAidRequestDto.organizationId}`,
-        );
-      }
+      await this.findAssignableOrganization(createAidRequestDto.organizationId);
     }
 
     // Benzersiz bir yardım kodu oluştur
@@ -179,7 +258,7 @@ export class AidRequestsService {
       data: {
         type: createAidRequestDto.type,
         description: createAidRequestDto.description,
-        status: createAidRequestDto.status || 'pending',
+        status: AidRequestStatus.Pending,
         organization: createAidRequestDto.organizationId
           ? { connect: { id: createAidRequestDto.organizationId } }
           : undefined,
@@ -198,6 +277,11 @@ export class AidRequestsService {
       },
     });
 
+    await this.realtimeService.aidRequestChanged(
+      RealtimeEvent.AidRequestCreated,
+      aidRequest,
+    );
+
     return {
       ...aidRequest,
       helpCode, // Yanıtta yardım kodunu döndür
@@ -252,39 +336,367 @@ export class AidRequestsService {
   async updateStatus(
     id: number,
     status: string,
-    userId: string,
-    userRole: string,
+    user: AbilityUser,
+    reason?: string,
   ) {
-    if (userRole !== 'admin') {
-      throw new UnauthorizedException(
-        'Yardım taleplerinin durumunu sadece yöneticiler güncelleyebilir',
-      );
+    const aidRequest = await this.prismaService.aidRequest.findUnique({
+      where: { id: Number(id) },
+    });
+
+    if (!aidRequest || aidRequest.isDeleted) {
+      throw new NotFoundException(`${id} ID'li yardım talebi bulunamadı`);
     }
 
+    const updatedAidRequest = await this.applyStatusTransition(
+      aidRequest,
+      status,
+      user,
+      reason,
+    );
+
+    await this.notificationsService.notify(
+      aidRequest.userId,
+      NotificationType.AidRequestStatusChanged,
+      { status: updatedAidRequest.status },
+      { aidRequestId: aidRequest.id },
+    );
+
+    return updatedAidRequest;
+  }
+
+  // Yardım talebinin durum geçmişini (zaman çizelgesi) döner
+  async getStatusTimeline(id: number, user: Pick<User, 'id' | 'role'>) {
     const aidRequest = await this.prismaService.aidRequest.findUnique({
       where: { id: Number(id) },
     });
 
-    if (!aidRequest) {
+    if (!aidRequest || aidRequest.isDeleted) {
       throw new NotFoundException(`${id} ID'li yardım talebi bulunamadı`);
     }
 
-    if (aidRequest.status === status) {
+    if (user.role === Role.User && aidRequest.userId !== user.id) {
+      throw new ForbiddenException(
+        'Bu yardım talebinin geçmişini görüntüleme izniniz yok',
+      );
+    }
+
+    const changes = await this.prismaService.aidRequestStatusChange.findMany({
+      where: { aidRequestId: aidRequest.id },
+      orderBy: { createdAt: 'asc' },
+      include: {
+        changedBy: {
+          select: { id: true, name: true, role: true },
+        },
+      },
+    });
+
+    const currentStatus =
+      normalizeAidRequestStatus(aidRequest.status) ?? AidRequestStatus.Pending;
+
+    return {
+      aidRequestId: aidRequest.id,
+      currentStatus,
+      allowedNextStatuses: nextAidRequestStatuses(currentStatus),
+      changes,
+    };
+  }
+
+  /**
+   * Yardım talebini bir organizasyona atar ve durumunu assigned yapar.
+   * Atama da bir durum geçişi olduğu için geçmişe kaydedilir.
+   */
+  async assignToOrganization(
+    aidRequestId: number,
+    organizationId: number,
+    user: AbilityUser,
+    reason?: string,
+  ) {
+    const aidRequest = await this.prismaService.aidRequest.findUnique({
+      where: { id: Number(aidRequestId) },
+    });
+
+    if (!aidRequest || aidRequest.isDeleted) {
+      throw new NotFoundException(
+        `${aidRequestId} ID'li yardım talebi bulunamadı`,
+      );
+    }
+
+    if (aidRequest.organizationId) {
       throw new BadRequestException(
-        `Yardım talebi zaten ${status} durumunda bulunuyor`,
+        `${aidRequestId} ID'li yardım talebi zaten bir organizasyona atanmış`,
       );
     }
 
-    const updatedAidRequest = await this.prismaService.aidRequest.update({
-      where: { id: Number(id) },
-      data: { status: status },
+    const organization = await this.findAssignableOrganization(organizationId);
+
+    const updatedAidRequest = await this.applyStatusTransition(
+      aidRequest,
+      AidRequestStatus.Assigned,
+      user,
+      reason,
+      { organizationId },
+    );
+    const warnings = await this.serviceAreaWarnings(aidRequest, organization);
+
+    await this.notificationsService.notify(
+      aidRequest.userId,
+      NotificationType.AidRequestAssigned,
+      { organizationName: organization.name },
+      { aidRequestId: aidRequest.id, organizationId },
+    );
+
+    return { ...updatedAidRequest, warnings };
+  }
+
+  /**
+   * Organizasyona atanmış talebin teslimatını bir gönüllüye verir.
+   * volunteerId null ise gönüllü ataması kaldırılır.
+   */
+  async assignVolunteer(
+    aidRequestId: number,
+    volunteerId: number | null,
+    user: AbilityUser,
+  ) {
+    const aidRequest = await this.prismaService.aidRequest.findUnique({
+      where: { id: Number(aidRequestId) },
+    });
+
+    if (!aidRequest || aidRequest.isDeleted) {
+      throw new NotFoundException(
+        `${aidRequestId} ID'li yardım talebi bulunamadı`,
+      );
+    }
+
+    const status = normalizeAidRequestStatus(aidRequest.status);
+    if (
+      !aidRequest.organizationId ||
+      (status !== AidRequestStatus.Assigned &&
+        status !== AidRequestStatus.InTransit)
+    ) {
+      throw new BadRequestException(
+        'Yalnızca bir organizasyona atanmış ve teslim edilmemiş taleplere gönüllü atanabilir',
+      );
+    }
+
+    const staffOf = organizationIdsWithRole(
+      user.memberships,
+      OrganizationMemberRole.Staff,
+    );
+    if (
+      user.role !== Role.Admin &&
+      !staffOf.includes(aidRequest.organizationId)
+    ) {
+      throw new ForbiddenException(
+        'Gönüllü atamasını yalnızca organizasyonun staff üyeleri yapabilir',
+      );
+    }
+
+    if (volunteerId !== null) {
+      const volunteer = await this.prismaService.user.findUnique({
+        where: { id: Number(volunteerId) },
+      });
+      if (!volunteer || volunteer.role !== Role.Volunteer) {
+        throw new BadRequestException(
+          `${volunteerId} ID'li bir gönüllü bulunamadı`,
+        );
+      }
+    }
+
+    return this.prismaService.aidRequest.update({
+      where: { id: aidRequest.id },
+      data: { assignedTo: volunteerId === null ? null : Number(volunteerId) },
+    });
+  }
+
+  /**
+   * Atama engellenmez; talep konumu organizasyonun tanımladığı hizmet
+   * bölgelerinin dışındaysa yanıtta uyarı döner. Bölge tanımlamamış
+   * organizasyonlar için kontrol yapılmaz.
+   */
+  private async serviceAreaWarnings(
+    aidRequest: AidRequest,
+    organization: { id: number; name: string },
+  ) {
+    if (!aidRequest.locationId) {
+      return [];
+    }
+
+    const location = await this.prismaService.location.findUnique({
+      where: { id: aidRequest.locationId },
+    });
+    if (!location) {
+      return [];
+    }
+
+    const { declared, serves } = await checkOrganizationServesLocation(
+      this.prismaService,
+      organization.id,
+      {
+        latitude: location.latitude,
+        longitude: location.longitude,
+        aidType: aidRequest.type,
+      },
+    );
+    if (!declared || serves) {
+      return [];
+    }
+
+    this.logger.warn(
+      `Aid request ${aidRequest.id} assigned outside the service areas of organization ${organization.id}`,
+    );
+    return [
+      `Talep konumu veya türü ${organization.name} organizasyonunun hizmet bölgeleri dışında kalıyor`,
+    ];
+  }
+
+  // Askıya alınmış veya doğrulanmamış organizasyonlara yeni talep atanamaz
+  private async findAssignableOrganization(organizationId: number) {
+    const organization = await this.prismaService.organization.findUnique({
+      where: { id: organizationId },
     });
 
-    const message = `Yardım talebinizin durumu güncellendi: ${status}`;
-    await this.firebaseAdminService.sendPushNotification(
-      userId,
-      'Yardım Talebi Durum Güncellemesi',
-      message,
+    if (!organization) {
+      throw new NotFoundException(
+        `Organizasyon bulunamadı. ID: ${organizationId}`,
+      );
+    }
+
+    if (!isOrganizationActive(organization)) {
+      throw new BadRequestException(
+        `${organization.name} organizasyonu doğrulanmadığı veya askıya alındığı için talep atanamaz`,
+      );
+    }
+
+    return organization;
+  }
+
+  // Durum geçişini doğrular, uygular ve geçmiş kaydını oluşturur
+  private async applyStatusTransition(
+    aidRequest: AidRequest,
+    requestedStatus: string,
+    user: AbilityUser,
+    reason?: string,
+    data: Prisma.AidRequestUncheckedUpdateInput = {},
+  ) {
+    const targetStatus = normalizeAidRequestStatus(requestedStatus);
+    if (!targetStatus) {
+      throw new BadRequestException(
+        `Geçersiz yardım talebi durumu: ${requestedStatus}`,
+      );
+    }
+
+    const currentStatus =
+      normalizeAidRequestStatus(aidRequest.status) ?? AidRequestStatus.Pending;
+
+    if (currentStatus === targetStatus) {
+      throw new BadRequestException(
+        `Yardım talebi zaten ${targetStatus} durumunda bulunuyor`,
+      );
+    }
+
+    if (!AID_REQUEST_STATUS_TRANSITIONS[currentStatus][targetStatus]) {
+      throw new BadRequestException(
+        `Yardım talebi ${currentStatus} durumundan ${targetStatus} durumuna geçirilemez`,
+      );
+    }
+
+    const isOwnRequest = aidRequest.userId === user.id;
+    if (
+      !canTransitionAidRequest(currentStatus, targetStatus, user.role) ||
+      (user.role === Role.User && !isOwnRequest)
+    ) {
+      throw new ForbiddenException(
+        `Bu yardım talebini ${targetStatus} durumuna geçirme yetkiniz yok`,
+      );
+    }
+
+    // Organizasyon hesapları yalnızca üyesi oldukları organizasyonların,
+    // gönüllüler de kendilerine atanmış taleplerin durumunu değiştirebilir;
+    // atamada hedef organizasyon kontrol edilir
+    if (
+      (user.role === Role.OrganizationOwner || user.role === Role.Volunteer) &&
+      !this.caslAbilityFactory.can(user, Action.Update, 'AidRequest', {
+        ...aidRequest,
+        ...data,
+      })
+    ) {
+      throw new ForbiddenException(
+        user.role === Role.Volunteer
+          ? 'Yalnızca size atanmış taleplerin durumunu değiştirebilirsiniz'
+          : 'Yalnızca üyesi olduğunuz organizasyonların taleplerini yönetebilirsiniz',
+      );
+    }
+
+    // Organizasyondan geri alınan talep, yeniden eşleştirilip atanabilmesi
+    // için organizasyon ve gönüllü atamasından çıkarılarak havuza döner
+    if (
+      currentStatus === AidRequestStatus.Assigned &&
+      targetStatus === AidRequestStatus.Approved
+    ) {
+      data = { ...data, organizationId: null, assignedTo: null };
+    }
+
+    // Durum okunduktan sonra başka bir işlem değiştirdiyse güncelleme yapılmaz.
+    // Talep için ayrılan stok teslimatla dağıtılmış sayılır; talep iptal
+    // edilir, reddedilir veya havuza geri alınırsa serbest bırakılır. Stok
+    // hareketi durumla aynı transaction içinde yapılır, biri başarısız olursa
+    // durum da değişmez ve geçiş yeniden denenebilir.
+    let updatedAidRequest: AidRequest;
+    let settledItems: InventoryItem[] = [];
+    try {
+      updatedAidRequest = await this.prismaService.$transaction(async (tx) => {
+        const updated = await tx.aidRequest.update({
+          where: { id: aidRequest.id, status: aidRequest.status },
+          data: { ...data, status: targetStatus },
+        });
+        await tx.aidRequestStatusChange.create({
+          data: {
+            aidRequestId: aidRequest.id,
+            fromStatus: currentStatus,
+            toStatus: targetStatus,
+            reason,
+            changedById: user.id,
+          },
+        });
+
+        if (targetStatus === AidRequestStatus.Delivered) {
+          settledItems = await this.inventoryService.distributeReservedStock(
+            tx,
+            aidRequest.id,
+            user.id,
+            reason,
+          );
+        } else if (
+          STOCK_RELEASING_AID_REQUEST_STATUSES.includes(targetStatus)
+        ) {
+          settledItems = await this.inventoryService.releaseReservedStock(
+            tx,
+            aidRequest.id,
+            user.id,
+            reason,
+          );
+        }
+
+        return updated;
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2025'
+      ) {
+        throw new ConflictException(
+          'Yardım talebinin durumu bu sırada değişti, lütfen tekrar deneyin',
+        );
+      }
+      throw error;
+    }
+
+    await this.inventoryService.syncLowStockAlerts(settledItems);
+
+    await this.realtimeService.aidRequestChanged(
+      RealtimeEvent.AidRequestStatusChanged,
+      updatedAidRequest,
+      { fromStatus: currentStatus, reason: reason ?? null },
     );
 
     return updatedAidRequest;
@@ -336,7 +748,7 @@ export class AidRequestsService {
     });
   }
 
-  private calculateDistance(
+  calculateDistance(
     lat1: number,
     lon1: number,
     lat2: number,
@@ -367,11 +779,11 @@ export class AidRequestsService {
     });
 
     for (const aidRequest of recurringAidRequests) {
-      const message = `Scheduled support needed for recurring aid request: ${aidRequest.description}`;
-      await this.firebaseAdminService.sendPushNotification(
-        aidRequest.userId.toString(),
-        'Scheduled Support Notification',
-        message,
+      await this.notificationsService.notify(
+        aidRequest.userId,
+        NotificationType.RecurringSupportNeeded,
+        { description: aidRequest.description },
+        { aidRequestId: aidRequest.id },
       );
     }
   }
@@ -393,10 +805,17 @@ export class AidRequestsService {
       );
     }
 
-    return this.prismaService.aidRequest.update({
+    const verifiedAidRequest = await this.prismaService.aidRequest.update({
       where: { id: aidRequestId },
       data: { verified: true },
     });
+
+    await this.realtimeService.aidRequestChanged(
+      RealtimeEvent.AidRequestVerified,
+      verifiedAidRequest,
+    );
+
+    return verifiedAidRequest;
   }
 
   async reportSuspiciousAidRequest(aidRequestId: number) {
@@ -416,15 +835,23 @@ export class AidRequestsService {
       );
     }
 
-    return this.prismaService.aidRequest.update({
+    const reportedAidRequest = await this.prismaService.aidRequest.update({
       where: { id: aidRequestId },
       data: { reported: true },
     });
+
+    await this.realtimeService.aidRequestChanged(
+      RealtimeEvent.AidRequestReported,
+      reportedAidRequest,
+    );
+
+    return reportedAidRequest;
   }
 
   async verifyAidDeliveryByQRCode(
     qrCodeData: string,
-    newStatus: string = 'Delivered',
+    user: AbilityUser,
+    newStatus: string = AidRequestStatus.Delivered,
   ) {
     // Extract aid request ID from QR code data
     const aidRequestId = parseInt(qrCodeData.replace('aidRequest:', ''));
@@ -438,27 +865,28 @@ export class AidRequestsService {
     // Verify aid request exists
     const aidRequest = await this.prismaService.aidRequest.findUnique({
       where: { id: aidRequestId },
-      include: { user: true },
     });
 
-    if (!aidRequest) {
+    if (!aidRequest || aidRequest.isDeleted) {
       throw new NotFoundException(
         `${aidRequestId} ID'li yardım talebi bulunamadı`,
       );
     }
 
-    // Update the aid request status
-    const updatedAidRequest = await this.prismaService.aidRequest.update({
-      where: { id: aidRequestId },
-      data: { status: newStatus },
-    });
+    // Update the aid request status through the lifecycle rules
+    const updatedAidRequest = await this.applyStatusTransition(
+      aidRequest,
+      newStatus,
+      user,
+      'QR kod ile teslimat doğrulaması',
+    );
 
     // Send notification to the user
-    const message = `Yardım talebiniz (ID: ${aidRequestId}) durumu: ${newStatus.toLowerCase()}`;
-    await this.firebaseAdminService.sendPushNotification(
-      aidRequest.userId.toString(),
-      'Yardım Teslim Güncelleme',
-      message,
+    await this.notificationsService.notify(
+      aidRequest.userId,
+      NotificationType.AidRequestDeliveryUpdated,
+      { aidRequestId, status: updatedAidRequest.status },
+      { aidRequestId },
     );
 
     return updatedAidRequest;
@@ -494,7 +922,7 @@ export class AidRequestsService {
     }
 
     if (status) {
-      where.status = status;
+      where.status = normalizeAidRequestStatus(status) ?? status;
     }
 
     if (urgentOnly) {
@@ -530,109 +958,180 @@ export class AidRequestsService {
       };
     }
 
-    // Handle geographic search if coordinates are provided
-    let locationFilter = {};
-    if (latitude && longitude) {
-      locationFilter = {
-        location: {
-          latitude: {
-            gte: parseFloat(latitude as any) - radiusKm / 111,
-            lte: parseFloat(latitude as any) + radiusKm / 111,
-          },
-          longitude: {
-            gte:
-              parseFloat(longitude as any) -
-              radiusKm /
-                (111 * Math.cos((parseFloat(latitude as any) * Math.PI) / 180)),
-            lte:
-              parseFloat(longitude as any) +
-              radiusKm /
-                (111 * Math.cos((parseFloat(latitude as any) * Math.PI) / 180)),
-          },
-        },
-      };
-    }
-
     // User category filter
-    let userFilter = {};
     if (userCategory) {
-      userFilter = {
-        user: {
-          category: userCategory,
-        },
+      where.user = {
+        category: userCategory,
       };
     }
 
-    // Calculate pagination
-    const skip = (page - 1) * limit;
+    // Yarıçap ve çokgen filtreleri PostGIS ile veritabanında uygulanır
+    const radius = parseGeoRadius(latitude, longitude, radiusKm);
+    const polygon = parseGeoPolygon(filters.polygon);
 
-    // Execute the query
-    const [aidRequests, total] = await Promise.all([
-      this.prismaService.aidRequest.findMany({
-        where: {
-          ...where,
-          ...locationFilter,
-          ...userFilter,
-        },
-        include: {
-          user: true,
-          location: true,
-          organization: true,
-        },
-        orderBy: {
-          [sortBy]: sortDirection,
-        },
-        skip,
-        take: limit,
-      }),
-      this.prismaService.aidRequest.count({
-        where: {
-          ...where,
-          ...locationFilter,
-          ...userFilter,
-        },
-      }),
-    ]);
+    if (sortBy === 'distance' && !radius) {
+      throw new BadRequestException(
+        'Mesafeye göre sıralama için enlem ve boylam gereklidir',
+      );
+    }
 
-    // Add distance calculation if coordinates were provided
-    let aidRequestsWithMeta = aidRequests;
-    if (latitude && longitude) {
-      aidRequestsWithMeta = aidRequests.map((request) => {
-        const distance = this.calculateDistance(
-          parseFloat(latitude as any),
-          parseFloat(longitude as any),
-          request.location.latitude,
-          request.location.longitude,
-        );
+    const pageNumber = Math.max(1, Number(page) || 1);
+    const pageSize = Math.max(1, Number(limit) || 10);
+    const skip = (pageNumber - 1) * pageSize;
+    const include = {
+      user: true,
+      location: true,
+      organization: true,
+    };
 
-        // Create a properly typed object with all required properties preserved
-        return {
-          ...request,
-          distanceKm: parseFloat(distance.toFixed(2)),
-        };
-      }) as typeof aidRequests;
-    }
-
-    // If sorting by distance was requested
-    if (sortBy === 'distance') {
-      aidRequestsWithMeta.sort((a, b) => {
-        // Use a more type-safe way to access the distanceKm property
-        const aDistance = 'distanceKm' in a ? (a as any).distanceKm : 0;
-        const bDistance = 'distanceKm' in b ? (b as any).distanceKm : 0;
-        return sortDirection === 'asc'
-          ? aDistance - bDistance
-          : bDistance - aDistance;
+    let aidRequests;
+    let total: number;
+    let distances: Map<number, number | null> | null = null;
+
+    if (radius || polygon) {
+      // Alan filtresi, sıralama ve sayfalama PostGIS sorgusunda uygulanır;
+      // yalnızca sayfadaki talepler yüklenir
+      const areaPage = await this.findAidRequestPageInArea(
+        filters,
+        radius,
+        polygon,
+        { sortBy, sortDirection, skip, take: pageSize },
+      );
+      total = areaPage.total;
+      distances = areaPage.distances;
+
+      const pageIds = [...distances.keys()];
+      const pageRows = await this.prismaService.aidRequest.findMany({
+        where: { id: { in: pageIds } },
+        include,
       });
+      aidRequests = pageIds
+        .map((id) => pageRows.find((aidRequest) => aidRequest.id === id))
+        .filter(Boolean);
+    } else {
+      [aidRequests, total] = await Promise.all([
+        this.prismaService.aidRequest.findMany({
+          where,
+          include,
+          orderBy: {
+            [sortBy]: sortDirection,
+          },
+          skip,
+          take: pageSize,
+        }),
+        this.prismaService.aidRequest.count({ where }),
+      ]);
     }
 
+    // Add distance calculation if coordinates were provided
+    const aidRequestsWithMeta = radius
+      ? aidRequests.map((request) => ({
+          ...request,
+          distanceKm: parseFloat((distances.get(request.id) ?? 0).toFixed(2)),
+        }))
+      : aidRequests;
+
     return {
       data: aidRequestsWithMeta,
       meta: {
         total,
-        page,
-        limit,
-        totalPages: Math.ceil(total / limit),
+        page: pageNumber,
+        limit: pageSize,
+        totalPages: Math.ceil(total / pageSize),
       },
     };
   }
+
+  /**
+   * Alana düşen ve arama filtrelerine uyan taleplerin istenen sayfasını
+   * sıralı döner (id -> km). Merkez verilmediyse uzaklık null olur.
+   */
+  private async findAidRequestPageInArea(
+    filters: any,
+    radius: GeoRadius | null,
+    polygon: GeoPolygon | null,
+    page: { sortBy: string; sortDirection: string; skip: number; take: number },
+  ) {
+    const conditions: Prisma.Sql[] = [Prisma.sql`a."isDeleted" = false`];
+    if (radius) {
+      conditions.push(withinRadius('l."geom"', radius));
+    }
+    if (polygon) {
+      conditions.push(withinPolygon('l."geom"', polygon));
+    }
+    if (filters.type) {
+      conditions.push(Prisma.sql`a."type" = ${filters.type}`);
+    }
+    if (filters.status) {
+      const status =
+        normalizeAidRequestStatus(filters.status) ?? filters.status;
+      conditions.push(Prisma.sql`a."status" = ${status}`);
+    }
+    if (filters.urgentOnly) {
+      conditions.push(Prisma.sql`a."isUrgent" = true`);
+    }
+    if (filters.recurring !== undefined) {
+      const recurring =
+        filters.recurring === true || filters.recurring === 'true';
+      conditions.push(Prisma.sql`a."recurring" = ${recurring}`);
+    }
+    if (filters.verifiedOnly) {
+      conditions.push(Prisma.sql`a."verified" = true`);
+    }
+    if (filters.searchTerm) {
+      const pattern = `%${String(filters.searchTerm).replace(/[\\%_]/g, '\\$&')}%`;
+      conditions.push(Prisma.sql`a."description" ILIKE ${pattern}`);
+    }
+    if (filters.dateFrom) {
+      conditions.push(
+        Prisma.sql`a."createdAt" >= ${new Date(filters.dateFrom)}`,
+      );
+    }
+    if (filters.dateTo) {
+      conditions.push(Prisma.sql`a."createdAt" <= ${new Date(filters.dateTo)}`);
+    }
+    if (filters.userCategory) {
+      conditions.push(
+        Prisma.sql`u."category"::text = ${String(filters.userCategory)}`,
+      );
+    }
+
+    const direction = Prisma.raw(page.sortDirection === 'asc' ? 'ASC' : 'DESC');
+    let orderBy: Prisma.Sql;
+    if (page.sortBy === 'distance') {
+      orderBy = Prisma.sql`"distanceKm" ${direction} NULLS LAST, a."id" ASC`;
+    } else if (AREA_SEARCH_SORT_COLUMNS[page.sortBy]) {
+      orderBy = Prisma.sql`${Prisma.raw(AREA_SEARCH_SORT_COLUMNS[page.sortBy])} ${direction}, a."id" ASC`;
+    } else {
+      throw new BadRequestException(`Geçersiz sıralama alanı: ${page.sortBy}`);
+    }
+
+    const distanceSql = radius
+      ? distanceKm('l."geom"', radius.latitude, radius.longitude)
+      : Prisma.sql`NULL`;
+    const from = Prisma.sql`
+      FROM "AidRequest" a
+      JOIN "Location" l ON l."id" = a."locationId"
+      JOIN "User" u ON u."id" = a."userId"
+      WHERE ${Prisma.join(conditions, ' AND ')}
+    `;
+
+    const [rows, [{ total }]] = await Promise.all([
+      this.prismaService.$queryRaw<{ id: number; distanceKm: number | null }[]>`
+        SELECT a."id", ${distanceSql} AS "distanceKm"
+        ${from}
+        ORDER BY ${orderBy}
+        LIMIT ${page.take} OFFSET ${page.skip}
+      `,
+      this.prismaService.$queryRaw<{ total: number }[]>`
+        SELECT COUNT(*)::int AS "total"
+        ${from}
+      `,
+    ]);
+
+    return {
+      total,
+      distances: new Map(rows.map((row) => [row.id, row.distanceKm])),
+    };
+  }
 }
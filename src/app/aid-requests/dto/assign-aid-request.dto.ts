@@ -0,0 +1,18 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional, IsString } from 'class-validator';
+
+export class AssignAidRequestDto {
+  @ApiProperty({
+    required: false,
+    description:
+      'Organization to assign. When omitted the best scoring candidate is used.',
+  })
+  @IsOptional()
+  @IsInt()
+  readonly organizationId?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  readonly reason?: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, ValidateIf } from 'class-validator';
+
+export class AssignVolunteerDto {
+  @ApiProperty({
+    nullable: true,
+    description:
+      'User ID of the volunteer delivering the request. null removes the assignment.',
+  })
+  @ValidateIf((dto) => dto.volunteerId !== null)
+  @IsInt()
+  readonly volunteerId: number | null;
+}
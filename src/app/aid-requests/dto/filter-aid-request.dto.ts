@@ -29,6 +29,15 @@ export class FilterAidRequestDto {
   })
   radiusKm?: number;
 
+  @ApiProperty({
+    description:
+      'Only return requests inside this drawn region: [[longitude, latitude], ...]',
+    required: false,
+    type: 'array',
+    items: { type: 'array', items: { type: 'number' } },
+  })
+  polygon?: [number, number][];
+
   @ApiProperty({
     description: 'Filter for urgent requests only',
     required: false,
@@ -70,7 +79,8 @@ export class FilterAidRequestDto {
   dateTo?: string;
 
   @ApiProperty({
-    description: 'Sort field (createdAt, status, etc.)',
+    description:
+      'Sort field (createdAt, status, distance, etc.). distance requires latitude and longitude',
     required: false,
     default: 'createdAt',
   })
@@ -0,0 +1,111 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { RecurrenceFrequency } from '@prisma/client';
+import {
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class CreateRecurringScheduleDto {
+  @ApiProperty({ enum: RecurrenceFrequency })
+  @IsEnum(RecurrenceFrequency)
+  readonly frequency: RecurrenceFrequency;
+
+  @ApiProperty({
+    required: false,
+    description: 'Day of week for WEEKLY/BIWEEKLY (0-6, Sunday-Saturday)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  readonly dayOfWeek?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Day of month for MONTHLY (1-31)',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  readonly dayOfMonth?: number;
+
+  @ApiProperty({ example: '09:30', description: 'Local time in HH:MM format' })
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  readonly timeOfDay: string;
+
+  @ApiProperty({
+    required: false,
+    default: 'Europe/Istanbul',
+    description: 'IANA time zone the time of day is expressed in',
+  })
+  @IsOptional()
+  @IsString()
+  readonly timezone?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsDateString()
+  readonly endDate?: Date;
+}
+
+export class UpdateRecurringScheduleDto {
+  @ApiProperty({ enum: RecurrenceFrequency, required: false })
+  @IsOptional()
+  @IsEnum(RecurrenceFrequency)
+  readonly frequency?: RecurrenceFrequency;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  @Max(6)
+  readonly dayOfWeek?: number;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(31)
+  readonly dayOfMonth?: number;
+
+  @ApiProperty({ required: false, example: '09:30' })
+  @IsOptional()
+  @Matches(/^([01]\d|2[0-3]):[0-5]\d$/)
+  readonly timeOfDay?: string;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  readonly timezone?: string;
+
+  @ApiProperty({ required: false, nullable: true })
+  @IsOptional()
+  @IsDateString()
+  readonly endDate?: Date | null;
+}
+
+export class SkipOccurrenceDto {
+  @ApiProperty({
+    description: 'Originally scheduled time of the occurrence (ISO 8601)',
+  })
+  @IsDateString()
+  readonly occurrenceDate: Date;
+
+  @ApiProperty({ required: false })
+  @IsOptional()
+  @IsString()
+  readonly reason?: string;
+}
+
+export class RescheduleOccurrenceDto extends SkipOccurrenceDto {
+  @ApiProperty({ description: 'New time for this occurrence only (ISO 8601)' })
+  @IsDateString()
+  readonly rescheduledTo: Date;
+}
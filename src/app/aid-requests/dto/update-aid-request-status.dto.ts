@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum, IsOptional, IsString } from 'class-validator';
+import { AidRequestStatus } from '../aid-request-status';
+
+export class UpdateAidRequestStatusDto {
+  @ApiProperty({
+    enum: AidRequestStatus,
+    description: 'The new status of the aid request',
+  })
+  @IsEnum(AidRequestStatus)
+  readonly status: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Reason for the status change (e.g. rejection reason)',
+  })
+  @IsOptional()
+  @IsString()
+  readonly reason?: string;
+}
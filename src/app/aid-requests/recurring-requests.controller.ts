@@ -1,22 +1,73 @@
-import { Controller, Post, Body, Get, UseGuards, Param } from '@nestjs/common';
+import {
+  Controller,
+  Post,
+  Body,
+  Get,
+  Patch,
+  Delete,
+  UseGuards,
+  Param,
+  ParseIntPipe,
+  Req,
+} from '@nestjs/common';
 import { RecurringRequestsService } from './recurring-requests.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RoleGuard } from '../auth/role.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../casl/action';
 import {
   ApiTags,
   ApiOperation,
   ApiResponse,
   ApiBearerAuth,
+  ApiBody,
+  ApiParam,
 } from '@nestjs/swagger';
 import { RequestWithUser } from './interfaces/request-with-user.interface';
-import { Req } from '@nestjs/common';
+import {
+  CreateRecurringScheduleDto,
+  RescheduleOccurrenceDto,
+  SkipOccurrenceDto,
+  UpdateRecurringScheduleDto,
+} from './dto/recurring-schedule.dto';
 
-@ApiTags('recurring-aid-requests')
-@Controller('recurring-aid-requests')
+@ApiTags('recurring-requests')
+@Controller('recurring-requests')
 export class RecurringRequestsController {
   constructor(
     private readonly recurringRequestsService: RecurringRequestsService,
   ) {}
 
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Get all recurring aid requests for the current user',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved recurring aid requests.',
+  })
+  @Get()
+  async getRecurringRequests(@Req() req: RequestWithUser) {
+    return this.recurringRequestsService.getUserRecurringRequests(req.user.id);
+  }
+
+  @UseGuards(JwtAuthGuard, RoleGuard)
+  @Roles(Role.Admin)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary:
+      'Manually trigger processing of recurring aid requests (admin only)',
+  })
+  @ApiResponse({
+    status: 201,
+    description: 'Successfully processed recurring aid requests.',
+  })
+  @Post('process')
+  async processRecurringRequests() {
+    return this.recurringRequestsService.processRecurringRequests();
+  }
+
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({ summary: 'Create a schedule for a recurring aid request' })
@@ -24,50 +75,171 @@ export class RecurringRequestsController {
     status: 201,
     description: 'Successfully created recurring aid request schedule.',
   })
+  @ApiResponse({ status: 409, description: 'Schedule already exists' })
+  @ApiParam({ name: 'id', description: 'The ID of the aid request' })
+  @ApiBody({ type: CreateRecurringScheduleDto })
   @Post(':id/schedule')
   async createSchedule(
-    @Param('id') aidRequestId: number,
-    @Body()
-    scheduleDto: {
-      frequency: 'DAILY' | 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY';
-      dayOfWeek?: number;
-      dayOfMonth?: number;
-      timeOfDay: string;
-      endDate?: Date;
-    },
+    @Param('id', ParseIntPipe) aidRequestId: number,
+    @Body() scheduleDto: CreateRecurringScheduleDto,
+    @Req() req: RequestWithUser,
   ) {
     return this.recurringRequestsService.createRecurringAidRequestSchedule(
       aidRequestId,
       scheduleDto,
+      req.user,
     );
   }
 
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({
-    summary: 'Get all recurring aid requests for the current user',
+  @ApiOperation({ summary: 'Get the schedule of a recurring aid request' })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved the schedule.',
   })
+  @ApiResponse({ status: 404, description: 'Schedule not found' })
+  @ApiParam({ name: 'id', description: 'The ID of the aid request' })
+  @Get(':id/schedule')
+  async getSchedule(
+    @Param('id', ParseIntPipe) aidRequestId: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.recurringRequestsService.getSchedule(aidRequestId, req.user);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Update the schedule of a recurring aid request' })
   @ApiResponse({
     status: 200,
-    description: 'Successfully retrieved recurring aid requests.',
+    description: 'Successfully updated the schedule.',
   })
-  @Get()
-  async getRecurringRequests(@Req() req: RequestWithUser) {
-    return this.recurringRequestsService.getUserRecurringRequests(req.user.id);
+  @ApiParam({ name: 'id', description: 'The ID of the aid request' })
+  @ApiBody({ type: UpdateRecurringScheduleDto })
+  @Patch(':id/schedule')
+  async updateSchedule(
+    @Param('id', ParseIntPipe) aidRequestId: number,
+    @Body() scheduleDto: UpdateRecurringScheduleDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.recurringRequestsService.updateSchedule(
+      aidRequestId,
+      scheduleDto,
+      req.user,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Delete the schedule of a recurring aid request' })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully deleted the schedule.',
+  })
+  @ApiParam({ name: 'id', description: 'The ID of the aid request' })
+  @Delete(':id/schedule')
+  async deleteSchedule(
+    @Param('id', ParseIntPipe) aidRequestId: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.recurringRequestsService.deleteSchedule(aidRequestId, req.user);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Pause the schedule of a recurring aid request' })
+  @ApiResponse({
+    status: 201,
+    description: 'Successfully paused the schedule.',
+  })
+  @ApiParam({ name: 'id', description: 'The ID of the aid request' })
+  @Post(':id/schedule/pause')
+  async pauseSchedule(
+    @Param('id', ParseIntPipe) aidRequestId: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.recurringRequestsService.pauseSchedule(aidRequestId, req.user);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Resume a paused recurring aid request schedule' })
+  @ApiResponse({
+    status: 201,
+    description: 'Successfully resumed the schedule.',
+  })
+  @ApiParam({ name: 'id', description: 'The ID of the aid request' })
+  @Post(':id/schedule/resume')
+  async resumeSchedule(
+    @Param('id', ParseIntPipe) aidRequestId: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.recurringRequestsService.resumeSchedule(aidRequestId, req.user);
   }
 
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiOperation({
-    summary:
-      'Manually trigger processing of recurring aid requests (admin only)',
+    summary: 'List the occurrences spawned from a recurring aid request',
   })
   @ApiResponse({
     status: 200,
-    description: 'Successfully processed recurring aid requests.',
+    description:
+      'Successfully retrieved the occurrences and the upcoming run times.',
   })
-  @Post('process')
-  async processRecurringRequests() {
-    return this.recurringRequestsService.processRecurringRequests();
+  @ApiParam({ name: 'id', description: 'The ID of the parent aid request' })
+  @Get(':id/occurrences')
+  async getOccurrences(
+    @Param('id', ParseIntPipe) aidRequestId: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.recurringRequestsService.getOccurrences(aidRequestId, req.user);
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Skip a single upcoming occurrence' })
+  @ApiResponse({
+    status: 201,
+    description: 'Successfully skipped the occurrence.',
+  })
+  @ApiResponse({ status: 400, description: 'Not an upcoming occurrence' })
+  @ApiParam({ name: 'id', description: 'The ID of the parent aid request' })
+  @ApiBody({ type: SkipOccurrenceDto })
+  @Post(':id/occurrences/skip')
+  async skipOccurrence(
+    @Param('id', ParseIntPipe) aidRequestId: number,
+    @Body() skipDto: SkipOccurrenceDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.recurringRequestsService.skipOccurrence(
+      aidRequestId,
+      skipDto,
+      req.user,
+    );
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Move a single upcoming occurrence to a new time' })
+  @ApiResponse({
+    status: 201,
+    description: 'Successfully rescheduled the occurrence.',
+  })
+  @ApiResponse({ status: 400, description: 'Not an upcoming occurrence' })
+  @ApiParam({ name: 'id', description: 'The ID of the parent aid request' })
+  @ApiBody({ type: RescheduleOccurrenceDto })
+  @Post(':id/occurrences/reschedule')
+  async rescheduleOccurrence(
+    @Param('id', ParseIntPipe) aidRequestId: number,
+    @Body() rescheduleDto: RescheduleOccurrenceDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.recurringRequestsService.rescheduleOccurrence(
+      aidRequestId,
+      rescheduleDto,
+      req.user,
+    );
   }
 }
@@ -0,0 +1,382 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { RecurrenceFrequency } from '@prisma/client';
+import { RecurringRequestsService } from './recurring-requests.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { computeNextRunAt } from './recurring-schedule.util';
+
+describe('computeNextRunAt', () => {
+  const base = {
+    timeOfDay: '09:00',
+    timezone: 'Europe/Istanbul',
+  };
+
+  it('should schedule a daily rule later the same day when the time has not passed', () => {
+    // 2026-10-19 05:00 UTC = 08:00 İstanbul
+    const next = computeNextRunAt(
+      { ...base, frequency: RecurrenceFrequency.DAILY },
+      new Date('2026-10-19T05:00:00Z'),
+    );
+    expect(next.toISOString()).toBe('2026-10-19T06:00:00.000Z');
+  });
+
+  it('should roll a daily rule over to the next day when the time has passed', () => {
+    const next = computeNextRunAt(
+      { ...base, frequency: RecurrenceFrequency.DAILY },
+      new Date('2026-10-19T07:00:00Z'),
+    );
+    expect(next.toISOString()).toBe('2026-10-20T06:00:00.000Z');
+  });
+
+  it('should pick the next matching weekday for a weekly rule', () => {
+    // 2026-10-19 Pazartesi; hedef Çarşamba
+    const next = computeNextRunAt(
+      { ...base, frequency: RecurrenceFrequency.WEEKLY, dayOfWeek: 3 },
+      new Date('2026-10-19T07:00:00Z'),
+    );
+    expect(next.toISOString()).toBe('2026-10-21T06:00:00.000Z');
+  });
+
+  it('should keep a biweekly rule anchored to the previous run', () => {
+    const next = computeNextRunAt(
+      { ...base, frequency: RecurrenceFrequency.BIWEEKLY, dayOfWeek: 1 },
+      new Date('2026-10-19T06:00:00Z'),
+      new Date('2026-10-19T06:00:00Z'),
+    );
+    expect(next.toISOString()).toBe('2026-11-02T06:00:00.000Z');
+  });
+
+  it('should clamp a monthly rule to the last day of shorter months', () => {
+    const next = computeNextRunAt(
+      { ...base, frequency: RecurrenceFrequency.MONTHLY, dayOfMonth: 31 },
+      new Date('2026-10-31T07:00:00Z'),
+    );
+    expect(next.toISOString()).toBe('2026-11-30T06:00:00.000Z');
+  });
+
+  it('should return null once the end date has passed', () => {
+    const next = computeNextRunAt(
+      {
+        ...base,
+        frequency: RecurrenceFrequency.DAILY,
+        endDate: new Date('2026-10-19T12:00:00Z'),
+      },
+      new Date('2026-10-19T07:00:00Z'),
+    );
+    expect(next).toBeNull();
+  });
+});
+
+describe('RecurringRequestsService', () => {
+  let service: RecurringRequestsService;
+  let prismaService: PrismaService;
+  let notificationsService: NotificationsService;
+
+  const owner = { id: 1, role: 'user' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RecurringRequestsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            aidRequest: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              create: jest.fn(),
+              update: jest.fn(),
+            },
+            recurringSchedule: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              create: jest.fn(),
+              update: jest.fn(),
+              updateMany: jest.fn(),
+              delete: jest.fn(),
+            },
+            recurringOccurrenceOverride: {
+              findUnique: jest.fn(),
+              findMany: jest.fn().mockResolvedValue([]),
+              update: jest.fn(),
+              updateMany: jest.fn(),
+              upsert: jest.fn(),
+            },
+            $transaction: jest.fn(),
+          },
+        },
+        {
+          provide: NotificationsService,
+          useValue: {
+            notify: jest.fn(),
+            notifyAdmins: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RecurringRequestsService>(RecurringRequestsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    notificationsService =
+      module.get<NotificationsService>(NotificationsService);
+
+    jest
+      .spyOn(prismaService, '$transaction')
+      .mockImplementation((callback: any) => callback(prismaService));
+    jest.spyOn(prismaService.aidRequest, 'findUnique').mockResolvedValue({
+      id: 10,
+      userId: 1,
+      organizationId: 4,
+      isDeleted: false,
+    } as any);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('createRecurringAidRequestSchedule', () => {
+    it('should create a schedule with a computed next run', async () => {
+      jest
+        .spyOn(prismaService.recurringSchedule, 'findUnique')
+        .mockResolvedValue(null);
+      jest
+        .spyOn(prismaService.recurringSchedule, 'create')
+        .mockImplementation((args: any) => args.data);
+
+      const result: any = await service.createRecurringAidRequestSchedule(
+        10,
+        {
+          frequency: RecurrenceFrequency.WEEKLY,
+          dayOfWeek: 2,
+          timeOfDay: '10:00',
+        },
+        owner,
+      );
+
+      expect(prismaService.aidRequest.update).toHaveBeenCalledWith({
+        where: { id: 10 },
+        data: { recurring: true },
+      });
+      expect(result.timezone).toBe('Europe/Istanbul');
+      expect(result.dayOfMonth).toBeNull();
+      expect(result.nextRunAt).toBeInstanceOf(Date);
+    });
+
+    it('should reject a second schedule for the same request', async () => {
+      jest
+        .spyOn(prismaService.recurringSchedule, 'findUnique')
+        .mockResolvedValue({ id: 1 } as any);
+
+      await expect(
+        service.createRecurringAidRequestSchedule(
+          10,
+          { frequency: RecurrenceFrequency.DAILY, timeOfDay: '10:00' },
+          owner,
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it("should not allow managing someone else's request", async () => {
+      await expect(
+        service.createRecurringAidRequestSchedule(
+          10,
+          { frequency: RecurrenceFrequency.DAILY, timeOfDay: '10:00' },
+          { id: 2, role: 'user' },
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it("should only let staff of the request's organization manage it", async () => {
+      jest
+        .spyOn(prismaService.recurringSchedule, 'findUnique')
+        .mockResolvedValue(null);
+
+      await expect(
+        service.createRecurringAidRequestSchedule(
+          10,
+          { frequency: RecurrenceFrequency.DAILY, timeOfDay: '10:00' },
+          {
+            id: 2,
+            role: 'organization_owner',
+            memberships: [{ organizationId: 7, role: 'owner' }],
+          },
+        ),
+      ).rejects.toThrow(ForbiddenException);
+
+      await service.createRecurringAidRequestSchedule(
+        10,
+        { frequency: RecurrenceFrequency.DAILY, timeOfDay: '10:00' },
+        {
+          id: 2,
+          role: 'organization_owner',
+          memberships: [{ organizationId: 4, role: 'staff' }],
+        },
+      );
+      expect(prismaService.recurringSchedule.create).toHaveBeenCalled();
+    });
+  });
+
+  describe('pauseSchedule', () => {
+    it('should mark the schedule as paused', async () => {
+      jest
+        .spyOn(prismaService.recurringSchedule, 'findUnique')
+        .mockResolvedValue({ id: 5, paused: false } as any);
+
+      await service.pauseSchedule(10, owner);
+
+      expect(prismaService.recurringSchedule.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { paused: true },
+      });
+    });
+  });
+
+  describe('processRecurringRequests', () => {
+    const dueSchedule = {
+      id: 5,
+      aidRequestId: 10,
+      frequency: RecurrenceFrequency.DAILY,
+      timeOfDay: '09:00',
+      timezone: 'Europe/Istanbul',
+      nextRunAt: new Date('2026-10-19T06:00:00Z'),
+      aidRequest: {
+        id: 10,
+        userId: 1,
+        description: 'Gıda kolisi',
+        organizationId: null,
+        user: { name: 'Ali' },
+      },
+    };
+
+    beforeEach(() => {
+      jest
+        .spyOn(prismaService.recurringSchedule, 'findMany')
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([dueSchedule] as any);
+    });
+
+    it('should spawn a child occurrence for each claimed schedule', async () => {
+      jest
+        .spyOn(prismaService.recurringSchedule, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+      jest
+        .spyOn(prismaService.aidRequest, 'create')
+        .mockResolvedValue({ id: 11 } as any);
+
+      const result = await service.processRecurringRequests();
+
+      expect(result).toEqual({ processed: 1, skipped: 0 });
+      expect(prismaService.aidRequest.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          parentRequestId: 10,
+          occurrenceDate: dueSchedule.nextRunAt,
+          status: 'pending',
+        }),
+      });
+      expect(notificationsService.notify).toHaveBeenCalledTimes(1);
+    });
+
+    it('should not spawn an occurrence that was skipped', async () => {
+      jest
+        .spyOn(prismaService.recurringSchedule, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+      jest
+        .spyOn(prismaService.recurringOccurrenceOverride, 'findUnique')
+        .mockResolvedValue({ id: 3, skipped: true } as any);
+
+      const result = await service.processRecurringRequests();
+
+      expect(result).toEqual({ processed: 0, skipped: 1 });
+      expect(prismaService.aidRequest.create).not.toHaveBeenCalled();
+      expect(
+        prismaService.recurringOccurrenceOverride.update,
+      ).toHaveBeenCalledWith({
+        where: { id: 3 },
+        data: { processedAt: expect.any(Date) },
+      });
+    });
+
+    it('should not count or announce an occurrence that failed to be created', async () => {
+      jest
+        .spyOn(prismaService.recurringSchedule, 'updateMany')
+        .mockResolvedValue({ count: 1 });
+      jest
+        .spyOn(prismaService.aidRequest, 'create')
+        .mockRejectedValue(new Error('connection lost'));
+
+      const result = await service.processRecurringRequests();
+
+      // Hata işlemi geri aldığı için takvim bir sonraki turda yeniden denenir
+      expect(prismaService.$transaction).toHaveBeenCalledTimes(1);
+      expect(result).toEqual({ processed: 0, skipped: 0 });
+      expect(notificationsService.notify).not.toHaveBeenCalled();
+    });
+
+    it('should skip schedules already claimed by another run', async () => {
+      jest
+        .spyOn(prismaService.recurringSchedule, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      const result = await service.processRecurringRequests();
+
+      expect(result).toEqual({ processed: 0, skipped: 0 });
+      expect(prismaService.aidRequest.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('skipOccurrence', () => {
+    const schedule = {
+      id: 5,
+      aidRequestId: 10,
+      frequency: RecurrenceFrequency.DAILY,
+      timeOfDay: '09:00',
+      timezone: 'Europe/Istanbul',
+      paused: false,
+      lastRunAt: null,
+      nextRunAt: null,
+    };
+
+    beforeEach(() => {
+      jest
+        .spyOn(prismaService.recurringSchedule, 'findUnique')
+        .mockResolvedValue(schedule as any);
+    });
+
+    it('should record a skip for an upcoming occurrence', async () => {
+      const occurrenceDate = computeNextRunAt(schedule, new Date());
+      jest
+        .spyOn(prismaService.recurringOccurrenceOverride, 'findUnique')
+        .mockResolvedValue(null);
+
+      await service.skipOccurrence(10, { occurrenceDate }, owner);
+
+      expect(
+        prismaService.recurringOccurrenceOverride.upsert,
+      ).toHaveBeenCalledWith(
+        expect.objectContaining({
+          create: expect.objectContaining({
+            scheduleId: 5,
+            occurrenceDate,
+            skipped: true,
+          }),
+        }),
+      );
+    });
+
+    it('should reject a time that is not on the schedule', async () => {
+      const occurrenceDate = new Date(
+        computeNextRunAt(schedule, new Date()).getTime() + 60 * 60 * 1000,
+      );
+
+      await expect(
+        service.skipOccurrence(10, { occurrenceDate }, owner),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
@@ -1,218 +1,360 @@
-import { Injectable } from '@nestjs/common';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
-import { FirebaseAdminService } from '../firebase/fcm/firebase-admin.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/notification-templates';
 import { Cron, CronExpression } from '@nestjs/schedule';
+import {
+  AidRequest,
+  Prisma,
+  RecurrenceFrequency,
+  RecurringSchedule,
+  User,
+} from '@prisma/client';
+import {
+  AidRequestStatus,
+  TERMINAL_AID_REQUEST_STATUSES,
+} from './aid-request-status';
+import { Role } from '../casl/action';
+import { AbilityUser } from '../casl/casl-ability.factory';
+import {
+  OrganizationMemberRole,
+  organizationIdsWithRole,
+} from '../organizations/organization-member';
+import {
+  computeNextRunAt,
+  isValidTimeOfDay,
+  isValidTimeZone,
+  ScheduleRule,
+} from './recurring-schedule.util';
+import {
+  CreateRecurringScheduleDto,
+  RescheduleOccurrenceDto,
+  SkipOccurrenceDto,
+  UpdateRecurringScheduleDto,
+} from './dto/recurring-schedule.dto';
+import * as QRCode from 'qrcode';
+
+const DEFAULT_TIMEZONE = 'Europe/Istanbul';
+const UPCOMING_OCCURRENCE_COUNT = 5;
+// Atlanacak/taşınacak tekrarın aranacağı en fazla çalışma sayısı
+const MAX_OCCURRENCE_LOOKAHEAD = 400;
+
+// Yeni tekrar üretebilecek ana talepler
+const ACTIVE_PARENT_FILTER = {
+  recurring: true,
+  isDeleted: false,
+  status: { notIn: TERMINAL_AID_REQUEST_STATUSES },
+};
 
 @Injectable()
 export class RecurringRequestsService {
+  private readonly logger = new Logger(RecurringRequestsService.name);
+
   constructor(
     private readonly prisma: PrismaService,
-    private readonly firebaseAdminService: FirebaseAdminService,
+    private readonly notificationsService: NotificationsService,
   ) {}
 
-  // DTO for creating a recurring aid request schedule
   async createRecurringAidRequestSchedule(
     aidRequestId: number,
-    schedule: {
-      frequency: 'DAILY' | 'WEEKLY' | 'BIWEEKLY' | 'MONTHLY';
-      dayOfWeek?: number; // 0-6 for Sunday-Saturday
-      dayOfMonth?: number; // 1-31
-      timeOfDay: string; // HH:MM format
-      endDate?: Date;
-    },
+    scheduleDto: CreateRecurringScheduleDto,
+    user: AbilityUser,
   ) {
-    // First find the aid request and ensure it exists
-    const aidRequest = await this.prisma.aidRequest.findUnique({
-      where: { id: aidRequestId },
-    });
+    await this.findAccessibleAidRequest(aidRequestId, user);
 
-    if (!aidRequest) {
-      throw new Error('Aid request not found');
+    const existing = await this.prisma.recurringSchedule.findUnique({
+      where: { aidRequestId },
+    });
+    if (existing) {
+      throw new ConflictException(
+        `${aidRequestId} ID'li yardım talebi için zaten bir takvim mevcut`,
+      );
     }
 
+    const rule = this.buildRule(scheduleDto);
+
     // Set the aid request to recurring
     await this.prisma.aidRequest.update({
       where: { id: aidRequestId },
       data: { recurring: true },
     });
 
-    // Create the schedule in the database
-    // In a real implementation, you would have a Schedule model
-    // For this example, we'll use a generic JSON field in a notification
-    await this.prisma.notification.create({
+    return this.prisma.recurringSchedule.create({
       data: {
-        content: JSON.stringify({
-          type: 'RECURRING_SCHEDULE',
-          aidRequestId,
-          schedule,
-        }),
-        userId: aidRequest.userId,
+        aidRequestId,
+        ...rule,
+        nextRunAt: computeNextRunAt(rule, new Date()),
       },
     });
+  }
 
-    return {
-      success: true,
-      aidRequestId,
-      schedule,
-      nextOccurrence: this.calculateNextOccurrence(schedule),
-    };
+  async getSchedule(aidRequestId: number, user: AbilityUser) {
+    await this.findAccessibleAidRequest(aidRequestId, user);
+    return this.findScheduleOrFail(aidRequestId);
   }
 
-  // Calculate the next occurrence based on schedule
-  private calculateNextOccurrence(schedule: any): Date {
-    const now = new Date();
-    let nextDate = new Date();
+  async updateSchedule(
+    aidRequestId: number,
+    scheduleDto: UpdateRecurringScheduleDto,
+    user: AbilityUser,
+  ) {
+    await this.findAccessibleAidRequest(aidRequestId, user);
+    const schedule = await this.findScheduleOrFail(aidRequestId);
 
-    // Parse time components
-    const [hours, minutes] = schedule.timeOfDay.split(':').map(Number);
+    const rule = this.buildRule({
+      frequency: scheduleDto.frequency ?? schedule.frequency,
+      dayOfWeek:
+        scheduleDto.dayOfWeek !== undefined
+          ? scheduleDto.dayOfWeek
+          : schedule.dayOfWeek,
+      dayOfMonth:
+        scheduleDto.dayOfMonth !== undefined
+          ? scheduleDto.dayOfMonth
+          : schedule.dayOfMonth,
+      timeOfDay: scheduleDto.timeOfDay ?? schedule.timeOfDay,
+      timezone: scheduleDto.timezone ?? schedule.timezone,
+      endDate:
+        scheduleDto.endDate !== undefined
+          ? scheduleDto.endDate
+          : schedule.endDate,
+    });
 
-    // Set the time part
-    nextDate.setHours(hours, minutes, 0, 0);
+    // Kural değiştiği için sonraki çalışma zamanı baştan hesaplanır
+    return this.prisma.recurringSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        ...rule,
+        nextRunAt: schedule.paused
+          ? schedule.nextRunAt
+          : computeNextRunAt(rule, new Date()),
+      },
+    });
+  }
 
-    // If the time today has already passed, start from tomorrow
-    if (nextDate < now) {
-      nextDate.setDate(nextDate.getDate() + 1);
+  async deleteSchedule(aidRequestId: number, user: AbilityUser) {
+    await this.findAccessibleAidRequest(aidRequestId, user);
+    const schedule = await this.findScheduleOrFail(aidRequestId);
+
+    await this.prisma.recurringSchedule.delete({ where: { id: schedule.id } });
+    await this.prisma.aidRequest.update({
+      where: { id: aidRequestId },
+      data: { recurring: false },
+    });
+
+    return { success: true, aidRequestId };
+  }
+
+  async pauseSchedule(aidRequestId: number, user: AbilityUser) {
+    await this.findAccessibleAidRequest(aidRequestId, user);
+    const schedule = await this.findScheduleOrFail(aidRequestId);
+
+    if (schedule.paused) {
+      throw new BadRequestException('Takvim zaten duraklatılmış durumda');
     }
 
-    switch (schedule.frequency) {
-      case 'DAILY':
-        // Already set for the next day
-        break;
-      case 'WEEKLY':
-        // Set to the next occurrence of the specified day of week
-        const currentDay = nextDate.getDay();
-        const targetDay = schedule.dayOfWeek || 0; // Default to Sunday
-        let daysToAdd = targetDay - currentDay;
-        if (daysToAdd <= 0) daysToAdd += 7; // Ensure it's in the future
-        nextDate.setDate(nextDate.getDate() + daysToAdd);
-        break;
-      case 'BIWEEKLY':
-        // Similar to weekly but with a 2-week interval
-        const currDay = nextDate.getDay();
-        const tgtDay = schedule.dayOfWeek || 0;
-        let daysToWeek = tgtDay - currDay;
-        if (daysToWeek <= 0) daysToWeek += 7;
-        nextDate.setDate(nextDate.getDate() + daysToWeek);
-        // Add another week to make it biweekly
-        nextDate.setDate(nextDate.getDate() + 7);
-        break;
-      case 'MONTHLY':
-        // Set to the specified day of the month
-        const monthlyTargetDay = Math.min(
-          schedule.dayOfMonth || 1,
-          this.getDaysInMonth(nextDate.getFullYear(), nextDate.getMonth() + 1),
-        );
-        if (nextDate.getDate() > monthlyTargetDay) {
-          // Move to next month
-          nextDate.setMonth(nextDate.getMonth() + 1);
-        }
-        nextDate.setDate(monthlyTargetDay);
-        break;
+    return this.prisma.recurringSchedule.update({
+      where: { id: schedule.id },
+      data: { paused: true },
+    });
+  }
+
+  async resumeSchedule(aidRequestId: number, user: AbilityUser) {
+    await this.findAccessibleAidRequest(aidRequestId, user);
+    const schedule = await this.findScheduleOrFail(aidRequestId);
+
+    if (!schedule.paused) {
+      throw new BadRequestException('Takvim zaten aktif durumda');
     }
 
-    return nextDate;
+    // Duraklatma süresince kaçırılan çalışmalar telafi edilmez
+    return this.prisma.recurringSchedule.update({
+      where: { id: schedule.id },
+      data: {
+        paused: false,
+        nextRunAt: computeNextRunAt(schedule, new Date(), schedule.lastRunAt),
+      },
+    });
   }
 
-  // Helper to get days in a month
-  private getDaysInMonth(year: number, month: number): number {
-    return new Date(year, month, 0).getDate();
+  // Ana talebin tekrarları ve yaklaşan çalışma zamanları
+  async getOccurrences(aidRequestId: number, user: AbilityUser) {
+    await this.findAccessibleAidRequest(aidRequestId, user);
+
+    const [occurrences, schedule] = await Promise.all([
+      this.prisma.aidRequest.findMany({
+        where: { parentRequestId: aidRequestId, isDeleted: false },
+        orderBy: { occurrenceDate: 'desc' },
+        include: { organization: true, location: true },
+      }),
+      this.prisma.recurringSchedule.findUnique({
+        where: { aidRequestId },
+        include: { overrides: { where: { processedAt: null } } },
+      }),
+    ]);
+
+    const upcoming =
+      schedule && !schedule.paused
+        ? this.projectOccurrences(schedule, UPCOMING_OCCURRENCE_COUNT).map(
+            (occurrenceDate) => {
+              const override = schedule.overrides.find(
+                (o) => o.occurrenceDate.getTime() === occurrenceDate.getTime(),
+              );
+              return {
+                occurrenceDate,
+                skipped: override?.skipped ?? false,
+                rescheduledTo: override?.rescheduledTo ?? null,
+              };
+            },
+          )
+        : [];
+
+    return { parentRequestId: aidRequestId, occurrences, upcoming };
   }
 
-  // Run daily to check and process recurring aid requests
-  @Cron(CronExpression.EVERY_DAY_AT_MIDNIGHT)
+  // Serinin geri kalanına dokunmadan tek bir tekrarı atlar
+  async skipOccurrence(
+    aidRequestId: number,
+    skipDto: SkipOccurrenceDto,
+    user: AbilityUser,
+  ) {
+    await this.findAccessibleAidRequest(aidRequestId, user);
+    const schedule = await this.findScheduleOrFail(aidRequestId);
+    const occurrenceDate = this.findUpcomingOccurrence(
+      schedule,
+      new Date(skipDto.occurrenceDate),
+    );
+
+    return this.saveOverride(
+      schedule.id,
+      occurrenceDate,
+      { skipped: true, rescheduledTo: null, reason: skipDto.reason },
+      user,
+    );
+  }
+
+  // Serinin geri kalanına dokunmadan tek bir tekrarı başka bir zamana taşır
+  async rescheduleOccurrence(
+    aidRequestId: number,
+    rescheduleDto: RescheduleOccurrenceDto,
+    user: AbilityUser,
+  ) {
+    await this.findAccessibleAidRequest(aidRequestId, user);
+    const schedule = await this.findScheduleOrFail(aidRequestId);
+    const occurrenceDate = this.findUpcomingOccurrence(
+      schedule,
+      new Date(rescheduleDto.occurrenceDate),
+    );
+
+    const rescheduledTo = new Date(rescheduleDto.rescheduledTo);
+    if (isNaN(rescheduledTo.getTime()) || rescheduledTo <= new Date()) {
+      throw new BadRequestException('Yeni tarih gelecekte olmalıdır');
+    }
+
+    return this.saveOverride(
+      schedule.id,
+      occurrenceDate,
+      { skipped: false, rescheduledTo, reason: rescheduleDto.reason },
+      user,
+    );
+  }
+
+  // Zamanı gelen takvimleri işler ve her çalışma için bir alt talep oluşturur
+  @Cron(CronExpression.EVERY_MINUTE)
   async processRecurringRequests() {
+    const now = new Date();
+    let processed = 0;
+    let skipped = 0;
+
     try {
-      console.log('Processing recurring aid requests');
+      await this.initializeMissingRunTimes(now);
 
-      // Find all active aid requests marked as recurring
-      const recurringRequests = await this.prisma.aidRequest.findMany({
+      const dueSchedules = await this.prisma.recurringSchedule.findMany({
         where: {
-          recurring: true,
-          isDeleted: false,
-          status: { notIn: ['Completed', 'Cancelled'] },
+          paused: false,
+          nextRunAt: { lte: now },
+          aidRequest: ACTIVE_PARENT_FILTER,
         },
         include: {
-          user: true,
-          organization: true,
+          aidRequest: {
+            include: { user: true },
+          },
         },
       });
 
-      for (const request of recurringRequests) {
-        // Find the schedule for this request
-        // In a real implementation, you'd have a proper Schedule model
-        const scheduleNotifications = await this.prisma.notification.findMany({
-          where: {
-            userId: request.userId,
-            content: { contains: `"aidRequestId":${request.id}` },
-          },
-          orderBy: { createdAt: 'desc' },
-          take: 1,
-        });
-
-        if (scheduleNotifications.length === 0) continue;
-
+      for (const schedule of dueSchedules) {
         try {
-          const scheduleData = JSON.parse(scheduleNotifications[0].content);
-          const schedule = scheduleData.schedule;
-
-          // Calculate if today is a scheduled day
-          const today = new Date();
-          let isScheduledDay = false;
-
-          switch (schedule.frequency) {
-            case 'DAILY':
-              isScheduledDay = true;
-              break;
-            case 'WEEKLY':
-              isScheduledDay = today.getDay() === schedule.dayOfWeek;
-              break;
-            case 'BIWEEKLY':
-              // This is simplified - a real implementation would track actual dates
-              isScheduledDay =
-                today.getDay() === schedule.dayOfWeek &&
-                today.getDate() % 14 < 7;
-              break;
-            case 'MONTHLY':
-              isScheduledDay = today.getDate() === schedule.dayOfMonth;
-              break;
-          }
-
-          // If today is a scheduled day, send notifications
-          if (isScheduledDay) {
-            // Send notification to the user
-            await this.firebaseAdminService.sendPushNotification(
-              request.userId.toString(),
-              'Scheduled Aid Request Reminder',
-              `Your recurring aid request "${request.description}" is scheduled for today.`,
-            );
-
-            // Send notification to the organization if assigned
-            if (request.organizationId) {
-              // In a real app, you'd have organization notification tokens
-              // For now, we'll create an internal notification
-              await this.prisma.notification.create({
-                data: {
-                  content: `Recurring aid request #${request.id} for ${request.user.name} is scheduled for today.`,
-                  userId: 1, // Admin user
+          // Sahiplenme ve alt talep aynı işlemde yazılır; alt talep
+          // oluşturulamazsa takvim ilerlemez ve sonraki turda yeniden denenir
+          const outcome = await this.prisma.$transaction(async (tx) => {
+            // Takvimi sahiplen: başka bir örnek aynı çalışmayı işlediyse atla
+            const claimed = await tx.recurringSchedule.updateMany({
+              where: { id: schedule.id, nextRunAt: schedule.nextRunAt },
+              data: {
+                lastRunAt: now,
+                nextRunAt: computeNextRunAt(schedule, now, schedule.nextRunAt),
+              },
+            });
+            if (claimed.count === 0) return null;
+
+            const override = await tx.recurringOccurrenceOverride.findUnique({
+              where: {
+                scheduleId_occurrenceDate: {
+                  scheduleId: schedule.id,
+                  occurrenceDate: schedule.nextRunAt,
                 },
+              },
+            });
+
+            if (override?.skipped) {
+              await tx.recurringOccurrenceOverride.update({
+                where: { id: override.id },
+                data: { processedAt: now },
               });
+              return { skipped: true as const };
             }
-          }
+            // Taşınan tekrar, yeni zamanı geldiğinde aşağıda oluşturulur
+            if (override?.rescheduledTo) return null;
+
+            return {
+              occurrence: await this.createOccurrence(
+                tx,
+                schedule.aidRequest,
+                schedule.nextRunAt,
+              ),
+            };
+          });
+
+          if (outcome && 'skipped' in outcome) skipped++;
+          if (!outcome || !('occurrence' in outcome)) continue;
+
+          processed++;
+          await this.notifyOccurrence(schedule.aidRequest, outcome.occurrence);
         } catch (err) {
-          console.error(
-            `Error processing schedule for request ${request.id}:`,
-            err,
+          this.logger.error(
+            `Error processing schedule for request ${schedule.aidRequestId}`,
+            err.stack,
           );
         }
       }
+
+      processed += await this.processRescheduledOccurrences(now);
     } catch (err) {
-      console.error('Error in recurring requests scheduler:', err);
+      this.logger.error('Error in recurring requests scheduler', err.stack);
     }
+
+    return { processed, skipped };
   }
 
   // Get all recurring aid requests for a user
   async getUserRecurringRequests(userId: number) {
-    const requests = await this.prisma.aidRequest.findMany({
+    return this.prisma.aidRequest.findMany({
       where: {
         userId,
         recurring: true,
@@ -221,46 +363,297 @@ export class RecurringRequestsService {
       include: {
         organization: true,
         location: true,
+        schedule: true,
+      },
+    });
+  }
+
+  // Geçiş betiğiyle taşınan veya sonraki zamanı bilinmeyen takvimleri başlatır
+  private async initializeMissingRunTimes(now: Date) {
+    const schedules = await this.prisma.recurringSchedule.findMany({
+      where: {
+        paused: false,
+        nextRunAt: null,
+        lastRunAt: null,
+        OR: [{ endDate: null }, { endDate: { gt: now } }],
       },
     });
 
-    // For each request, get its schedule
-    const enhancedRequests = [];
+    for (const schedule of schedules) {
+      await this.prisma.recurringSchedule.update({
+        where: { id: schedule.id },
+        data: { nextRunAt: computeNextRunAt(schedule, now) },
+      });
+    }
+  }
+
+  // Yeni zamanı gelmiş taşınmış tekrarlar için alt talep oluşturur
+  private async processRescheduledOccurrences(now: Date) {
+    let processed = 0;
 
-    for (const request of requests) {
-      // Find the schedule for this request
-      const scheduleNotifications = await this.prisma.notification.findMany({
+    const dueOverrides = await this.prisma.recurringOccurrenceOverride.findMany(
+      {
         where: {
-          userId,
-          content: { contains: `"aidRequestId":${request.id}` },
+          skipped: false,
+          processedAt: null,
+          rescheduledTo: { lte: now },
+          schedule: { aidRequest: ACTIVE_PARENT_FILTER },
         },
-        orderBy: { createdAt: 'desc' },
-        take: 1,
-      });
+        include: {
+          schedule: {
+            include: { aidRequest: { include: { user: true } } },
+          },
+        },
+      },
+    );
 
-      let schedule = null;
-      let nextOccurrence = null;
+    for (const override of dueOverrides) {
+      try {
+        const occurrence = await this.prisma.$transaction(async (tx) => {
+          const claimed = await tx.recurringOccurrenceOverride.updateMany({
+            where: { id: override.id, processedAt: null },
+            data: { processedAt: now },
+          });
+          if (claimed.count === 0) return null;
 
-      if (scheduleNotifications.length > 0) {
-        try {
-          const scheduleData = JSON.parse(scheduleNotifications[0].content);
-          schedule = scheduleData.schedule;
-          nextOccurrence = this.calculateNextOccurrence(schedule);
-        } catch (err) {
-          console.error(
-            `Error parsing schedule for request ${request.id}:`,
-            err,
+          return this.createOccurrence(
+            tx,
+            override.schedule.aidRequest,
+            override.rescheduledTo,
           );
-        }
+        });
+        if (!occurrence) continue;
+
+        processed++;
+        await this.notifyOccurrence(override.schedule.aidRequest, occurrence);
+      } catch (err) {
+        this.logger.error(
+          `Error processing rescheduled occurrence ${override.id}`,
+          err.stack,
+        );
       }
+    }
 
-      enhancedRequests.push({
-        ...request,
-        schedule,
-        nextOccurrence,
-      });
+    return processed;
+  }
+
+  // Ana talebin kopyası olarak, kendi durumu ve QR kodu olan bir alt talep oluşturur
+  private async createOccurrence(
+    tx: Prisma.TransactionClient,
+    parent: AidRequest,
+    occurrenceDate: Date,
+  ) {
+    const occurrence = await tx.aidRequest.create({
+      data: {
+        type: parent.type,
+        description: parent.description,
+        status: AidRequestStatus.Pending,
+        userId: parent.userId,
+        organizationId: parent.organizationId,
+        locationId: parent.locationId,
+        isUrgent: parent.isUrgent,
+        parentRequestId: parent.id,
+        occurrenceDate,
+      },
+    });
+
+    const qrCodeUrl = await QRCode.toDataURL(`aidRequest:${occurrence.id}`);
+    await tx.aidRequest.update({
+      where: { id: occurrence.id },
+      data: { qrCodeUrl },
+    });
+
+    return { ...occurrence, qrCodeUrl };
+  }
+
+  private async notifyOccurrence(
+    parent: AidRequest & { user: Pick<User, 'name'> },
+    occurrence: AidRequest,
+  ) {
+    const data = { aidRequestId: occurrence.id, parentRequestId: parent.id };
+
+    // Send notification to the user
+    await this.notificationsService.notify(
+      parent.userId,
+      NotificationType.RecurringReminder,
+      { description: parent.description, occurrenceId: occurrence.id },
+      data,
+    );
+
+    // Organizasyon atanmışsa adminler bilgilendirilir
+    if (parent.organizationId) {
+      await this.notificationsService.notifyAdmins(
+        NotificationType.RecurringOccurrenceCreated,
+        {
+          userName: parent.user.name,
+          aidRequestId: parent.id,
+          occurrenceId: occurrence.id,
+        },
+        data,
+      );
+    }
+  }
+
+  // Takvimin şu andan sonraki ilk `count` çalışma zamanı
+  private projectOccurrences(schedule: RecurringSchedule, count: number) {
+    const now = new Date();
+    const dates: Date[] = [];
+    let next =
+      schedule.nextRunAt && schedule.nextRunAt > now
+        ? schedule.nextRunAt
+        : computeNextRunAt(schedule, now, schedule.lastRunAt);
+
+    while (next && dates.length < count) {
+      dates.push(next);
+      next = computeNextRunAt(schedule, next, next);
+    }
+    return dates;
+  }
+
+  // Verilen zamanın serinin yaklaşan bir tekrarına denk geldiğini doğrular
+  private findUpcomingOccurrence(schedule: RecurringSchedule, date: Date) {
+    if (isNaN(date.getTime()) || date <= new Date()) {
+      throw new BadRequestException(
+        'Yalnızca gelecekteki bir tekrar değiştirilebilir',
+      );
+    }
+
+    const match = this.projectOccurrences(
+      schedule,
+      MAX_OCCURRENCE_LOOKAHEAD,
+    ).find((occurrenceDate) => occurrenceDate.getTime() === date.getTime());
+
+    if (!match) {
+      throw new BadRequestException(
+        'Takvimde bu zamana denk gelen bir tekrar bulunamadı',
+      );
+    }
+    return match;
+  }
+
+  private async saveOverride(
+    scheduleId: number,
+    occurrenceDate: Date,
+    data: { skipped: boolean; rescheduledTo: Date | null; reason?: string },
+    user: Pick<User, 'id'>,
+  ) {
+    const where = { scheduleId_occurrenceDate: { scheduleId, occurrenceDate } };
+
+    const existing = await this.prisma.recurringOccurrenceOverride.findUnique({
+      where,
+    });
+    if (existing?.processedAt) {
+      throw new BadRequestException('Bu tekrar zaten işlenmiş');
+    }
+
+    return this.prisma.recurringOccurrenceOverride.upsert({
+      where,
+      create: {
+        scheduleId,
+        occurrenceDate,
+        ...data,
+        createdById: user.id,
+      },
+      update: data,
+    });
+  }
+
+  private buildRule(
+    scheduleDto: Partial<ScheduleRule> & {
+      frequency: RecurrenceFrequency;
+      timeOfDay: string;
+    },
+  ): ScheduleRule {
+    const timezone = scheduleDto.timezone || DEFAULT_TIMEZONE;
+
+    if (!Object.values(RecurrenceFrequency).includes(scheduleDto.frequency)) {
+      throw new BadRequestException(
+        `Geçersiz tekrar sıklığı: ${scheduleDto.frequency}`,
+      );
+    }
+    if (!isValidTimeOfDay(scheduleDto.timeOfDay)) {
+      throw new BadRequestException('Saat HH:MM formatında olmalıdır');
+    }
+    if (!isValidTimeZone(timezone)) {
+      throw new BadRequestException(`Geçersiz saat dilimi: ${timezone}`);
+    }
+
+    const isWeekly =
+      scheduleDto.frequency === RecurrenceFrequency.WEEKLY ||
+      scheduleDto.frequency === RecurrenceFrequency.BIWEEKLY;
+    const isMonthly = scheduleDto.frequency === RecurrenceFrequency.MONTHLY;
+    const dayOfWeek = isWeekly ? (scheduleDto.dayOfWeek ?? 0) : null;
+    const dayOfMonth = isMonthly ? (scheduleDto.dayOfMonth ?? 1) : null;
+
+    if (dayOfWeek !== null && (dayOfWeek < 0 || dayOfWeek > 6)) {
+      throw new BadRequestException('Haftanın günü 0 ile 6 arasında olmalıdır');
+    }
+    if (dayOfMonth !== null && (dayOfMonth < 1 || dayOfMonth > 31)) {
+      throw new BadRequestException('Ayın günü 1 ile 31 arasında olmalıdır');
+    }
+
+    const endDate = scheduleDto.endDate ? new Date(scheduleDto.endDate) : null;
+    if (endDate && (isNaN(endDate.getTime()) || endDate <= new Date())) {
+      throw new BadRequestException('Bitiş tarihi gelecekte olmalıdır');
+    }
+
+    return {
+      frequency: scheduleDto.frequency,
+      dayOfWeek,
+      dayOfMonth,
+      timeOfDay: scheduleDto.timeOfDay,
+      timezone,
+      endDate,
+    };
+  }
+
+  private async findAccessibleAidRequest(
+    aidRequestId: number,
+    user: AbilityUser,
+  ) {
+    const aidRequest = await this.prisma.aidRequest.findUnique({
+      where: { id: aidRequestId },
+    });
+
+    if (!aidRequest || aidRequest.isDeleted) {
+      throw new NotFoundException(
+        `${aidRequestId} ID'li yardım talebi bulunamadı`,
+      );
+    }
+
+    // Talep sahibi, admin ve talebin organizasyonunun staff üyeleri yönetebilir
+    const staffOf = organizationIdsWithRole(
+      user.memberships,
+      OrganizationMemberRole.Staff,
+    );
+    if (
+      user.role !== Role.Admin &&
+      aidRequest.userId !== user.id &&
+      !(
+        aidRequest.organizationId && staffOf.includes(aidRequest.organizationId)
+      )
+    ) {
+      throw new ForbiddenException(
+        'Bu yardım talebinin takvimini yönetme izniniz yok',
+      );
+    }
+
+    return aidRequest;
+  }
+
+  private async findScheduleOrFail(
+    aidRequestId: number,
+  ): Promise<RecurringSchedule> {
+    const schedule = await this.prisma.recurringSchedule.findUnique({
+      where: { aidRequestId },
+    });
+
+    if (!schedule) {
+      throw new NotFoundException(
+        `${aidRequestId} ID'li yardım talebi için takvim bulunamadı`,
+      );
     }
 
-    return enhancedRequests;
+    return schedule;
   }
 }
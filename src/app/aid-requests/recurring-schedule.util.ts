@@ -0,0 +1,190 @@
+import { RecurrenceFrequency } from '@prisma/client';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface ScheduleRule {
+  frequency: RecurrenceFrequency;
+  dayOfWeek?: number | null; // 0-6, Pazar-Cumartesi
+  dayOfMonth?: number | null; // 1-31
+  timeOfDay: string; // HH:MM
+  timezone: string;
+  endDate?: Date | null;
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+export function isValidTimeOfDay(timeOfDay: string): boolean {
+  return /^([01]\d|2[0-3]):[0-5]\d$/.test(timeOfDay ?? '');
+}
+
+// Verilen anda saat diliminin UTC'ye göre farkı (ms)
+function getTimeZoneOffset(date: Date, timeZone: string): number {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    hourCycle: 'h23',
+    year: 'numeric',
+    month: '2-digit',
+    day: '2-digit',
+    hour: '2-digit',
+    minute: '2-digit',
+    second: '2-digit',
+  }).formatToParts(date);
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type).value);
+  const asUtc = Date.UTC(
+    get('year'),
+    get('month') - 1,
+    get('day'),
+    get('hour'),
+    get('minute'),
+    get('second'),
+  );
+  return asUtc - Math.floor(date.getTime() / 1000) * 1000;
+}
+
+// Gerçek bir anı, UTC alanları yerel saati gösteren "duvar saati" tarihine çevirir
+export function toWallClock(date: Date, timeZone: string): Date {
+  return new Date(date.getTime() + getTimeZoneOffset(date, timeZone));
+}
+
+// Duvar saati tarihini saat dilimini dikkate alarak gerçek ana çevirir
+export function fromWallClock(wallClock: Date, timeZone: string): Date {
+  const guess = wallClock.getTime();
+  const firstOffset = getTimeZoneOffset(new Date(guess), timeZone);
+  const candidate = guess - firstOffset;
+  const secondOffset = getTimeZoneOffset(new Date(candidate), timeZone);
+  return new Date(
+    secondOffset === firstOffset ? candidate : guess - secondOffset,
+  );
+}
+
+function daysInMonth(year: number, monthIndex: number): number {
+  return new Date(Date.UTC(year, monthIndex + 1, 0)).getUTCDate();
+}
+
+function atTimeOfDay(
+  year: number,
+  monthIndex: number,
+  day: number,
+  timeOfDay: string,
+): Date {
+  const [hours, minutes] = timeOfDay.split(':').map(Number);
+  return new Date(Date.UTC(year, monthIndex, day, hours, minutes, 0, 0));
+}
+
+// Haftanın hedef gününe denk gelen, `after` anından sonraki ilk zaman
+function nextWeekday(wallNow: Date, rule: ScheduleRule, after: Date): Date {
+  const year = wallNow.getUTCFullYear();
+  const month = wallNow.getUTCMonth();
+  const day = wallNow.getUTCDate();
+  const daysToAdd = ((rule.dayOfWeek ?? 0) - wallNow.getUTCDay() + 7) % 7;
+
+  const next = fromWallClock(
+    atTimeOfDay(year, month, day + daysToAdd, rule.timeOfDay),
+    rule.timezone,
+  );
+  if (next > after) {
+    return next;
+  }
+  return fromWallClock(
+    atTimeOfDay(year, month, day + daysToAdd + 7, rule.timeOfDay),
+    rule.timezone,
+  );
+}
+
+/**
+ * Bir takvimin `after` anından sonraki ilk çalışma zamanını hesaplar.
+ * BIWEEKLY için `previousRunAt` verilirse iki haftalık aralık bu tarihe
+ * göre korunur. Bitiş tarihi aşılırsa null döner.
+ */
+export function computeNextRunAt(
+  rule: ScheduleRule,
+  after: Date,
+  previousRunAt?: Date | null,
+): Date | null {
+  const { timezone, timeOfDay } = rule;
+  const wallNow = toWallClock(after, timezone);
+  const year = wallNow.getUTCFullYear();
+  const month = wallNow.getUTCMonth();
+  const day = wallNow.getUTCDate();
+
+  let next: Date;
+
+  switch (rule.frequency) {
+    case RecurrenceFrequency.DAILY: {
+      next = fromWallClock(atTimeOfDay(year, month, day, timeOfDay), timezone);
+      if (next <= after) {
+        next = fromWallClock(
+          atTimeOfDay(year, month, day + 1, timeOfDay),
+          timezone,
+        );
+      }
+      break;
+    }
+    case RecurrenceFrequency.WEEKLY:
+      next = nextWeekday(wallNow, rule, after);
+      break;
+    case RecurrenceFrequency.BIWEEKLY: {
+      // İlk çalışma haftalık takvimle aynı şekilde hesaplanır
+      if (!previousRunAt) {
+        next = nextWeekday(wallNow, rule, after);
+        break;
+      }
+      const wallPrevious = toWallClock(previousRunAt, timezone);
+      let candidate = atTimeOfDay(
+        wallPrevious.getUTCFullYear(),
+        wallPrevious.getUTCMonth(),
+        wallPrevious.getUTCDate() + 14,
+        timeOfDay,
+      );
+      while (fromWallClock(candidate, timezone) <= after) {
+        candidate = new Date(candidate.getTime() + 14 * DAY_MS);
+      }
+      next = fromWallClock(candidate, timezone);
+      break;
+    }
+    case RecurrenceFrequency.MONTHLY: {
+      const targetDay = rule.dayOfMonth ?? 1;
+      next = fromWallClock(
+        atTimeOfDay(
+          year,
+          month,
+          Math.min(targetDay, daysInMonth(year, month)),
+          timeOfDay,
+        ),
+        timezone,
+      );
+      if (next <= after) {
+        const nextMonth = new Date(Date.UTC(year, month + 1, 1));
+        next = fromWallClock(
+          atTimeOfDay(
+            nextMonth.getUTCFullYear(),
+            nextMonth.getUTCMonth(),
+            Math.min(
+              targetDay,
+              daysInMonth(nextMonth.getUTCFullYear(), nextMonth.getUTCMonth()),
+            ),
+            timeOfDay,
+          ),
+          timezone,
+        );
+      }
+      break;
+    }
+    default:
+      return null;
+  }
+
+  if (rule.endDate && next > new Date(rule.endDate)) {
+    return null;
+  }
+
+  return next;
+}
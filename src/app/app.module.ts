@@ -1,5 +1,6 @@
 import { Module } from '@nestjs/common';
 import { ThrottlerModule, ThrottlerGuard } from '@nestjs/throttler';
+import { ScheduleModule } from '@nestjs/schedule';
 import { APP_GUARD, APP_INTERCEPTOR } from '@nestjs/core';
 
 import { AppController } from './app.controller';
@@ -22,8 +23,31 @@ import { DonorsModule } from './donors/donors.module';
 import { CampaignsModule } from './campaigns/campaigns.module';
 import { DashboardModule } from './dashboard/dashboard.module';
 import { MapModule } from './map/map.module';
+import { RouteOptimizationModule } from './route-optimization/route-optimization.module';
 import { AuditModule } from './audit/audit.module';
+import { NotificationsModule } from './notifications/notifications.module';
+import { DevicesModule } from './devices/devices.module';
+import { OutboxModule } from './outbox/outbox.module';
+import { ModerationModule } from './moderation/moderation.module';
+import { InventoryModule } from './inventory/inventory.module';
+import { PaymentsModule } from './payments/payments.module';
+import { ReceiptsModule } from './receipts/receipts.module';
+import { SUPPORTED_PAYMENT_PROVIDERS } from './payments/payment-provider.factory';
 import { AuditLogInterceptor } from './audit/audit-log.interceptor';
+import { OutboxJobType } from './outbox/outbox-job';
+import { TransportKind } from './outbox/outbox-transport';
+import { SUPPORTED_TRANSPORT_KINDS } from './outbox/outbox-transport.factory';
+
+const requiredForSmtp = (schema: Joi.StringSchema) =>
+  schema.when('EMAIL_TRANSPORT', {
+    is: Joi.valid(
+      TransportKind.Console,
+      TransportKind.FileOutbox,
+      TransportKind.Memory,
+    ).required(),
+    then: Joi.optional(),
+    otherwise: Joi.required(),
+  });
 
 @Module({
   imports: [
@@ -39,12 +63,40 @@ import { AuditLogInterceptor } from './audit/audit-log.interceptor';
         JWT_REFRESH_SECRET: Joi.string().required(),
         JWT_ACCESS_EXPIRES: Joi.string().default('1h'),
         JWT_REFRESH_EXPIRES: Joi.string().default('7d'),
-        MAIL_HOST: Joi.string().required(),
+        // SMTP ayarları yalnızca e-postalar gerçekten gönderilecekse zorunlu
+        MAIL_HOST: requiredForSmtp(Joi.string()),
         MAIL_PORT: Joi.number().default(587),
-        MAIL_USER: Joi.string().required(),
-        MAIL_PASSWORD: Joi.string().required(),
-        MAIL_FROM: Joi.string().required(),
+        MAIL_USER: requiredForSmtp(Joi.string()),
+        MAIL_PASSWORD: requiredForSmtp(Joi.string()),
+        MAIL_FROM: requiredForSmtp(Joi.string()),
         AUDIT_LOG_ENABLED: Joi.string().valid('true', 'false').optional(),
+        EMAIL_TRANSPORT: Joi.string()
+          .valid(...SUPPORTED_TRANSPORT_KINDS[OutboxJobType.Email])
+          .optional(),
+        PUSH_TRANSPORT: Joi.string()
+          .valid(...SUPPORTED_TRANSPORT_KINDS[OutboxJobType.Push])
+          .optional(),
+        SMS_TRANSPORT: Joi.string()
+          .valid(...SUPPORTED_TRANSPORT_KINDS[OutboxJobType.Sms])
+          .optional(),
+        OUTBOX_FILE_PATH: Joi.string().optional(),
+        DEV_OUTBOX_ENABLED: Joi.string().valid('true', 'false').optional(),
+        FIREBASE_PROJECT_ID: Joi.string().optional(),
+        FIREBASE_CLIENT_EMAIL: Joi.string().optional(),
+        FIREBASE_PRIVATE_KEY: Joi.string().optional(),
+        PAYMENT_PROVIDER: Joi.string()
+          .valid(...SUPPORTED_PAYMENT_PROVIDERS)
+          .optional(),
+        PAYMENT_WEBHOOK_SECRET: Joi.string().when('NODE_ENV', {
+          is: 'production',
+          then: Joi.required(),
+          otherwise: Joi.optional(),
+        }),
+        PAYMENT_MOCK_AUTHORIZE_ENABLED: Joi.string()
+          .valid('true', 'false')
+          .optional(),
+        // Virgülle ayrılmış, veritabanındaki listeye eklenen yasaklı ifadeler
+        MODERATION_BLOCKLIST: Joi.string().allow('').optional(),
       }),
     }),
     ThrottlerModule.forRoot([
@@ -53,6 +105,7 @@ import { AuditLogInterceptor } from './audit/audit-log.interceptor';
         limit: 100,
       },
     ]),
+    ScheduleModule.forRoot(),
     AuthModule,
     AidRequestsModule,
     OrganizationsModule,
@@ -67,7 +120,15 @@ import { AuditLogInterceptor } from './audit/audit-log.interceptor';
     DonorsModule,
     CampaignsModule,
     MapModule,
+    RouteOptimizationModule,
     AuditModule,
+    NotificationsModule,
+    DevicesModule,
+    OutboxModule,
+    ModerationModule,
+    InventoryModule,
+    PaymentsModule,
+    ReceiptsModule,
   ],
   controllers: [AppController],
   providers: [
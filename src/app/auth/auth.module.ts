@@ -8,6 +8,7 @@ import { PrismaModule } from '../prisma/prisma.module';
 import { LocalStrategy } from './strategies/local.strategy';
 import { ConfigModule, ConfigService } from '@nestjs/config';
 import { RoleGuard } from './role.guard';
+import { OutboxModule } from '../outbox/outbox.module';
 
 @Module({
   imports: [
@@ -25,6 +26,7 @@ import { RoleGuard } from './role.guard';
       }),
     }),
     PrismaModule,
+    OutboxModule,
   ],
   providers: [
     AuthService,
@@ -34,5 +36,6 @@ import { RoleGuard } from './role.guard';
     RoleGuard,
   ],
   controllers: [AuthController],
+  exports: [AuthService, JwtModule],
 })
 export class AuthModule {}
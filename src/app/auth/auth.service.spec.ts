@@ -4,11 +4,13 @@ import { PrismaService } from '../prisma/prisma.service';
 import { JwtService } from '@nestjs/jwt';
 import { HttpException } from '@nestjs/common';
 import * as bcrypt from 'bcrypt';
+import { OutboxService } from '../outbox/outbox.service';
 
 describe('AuthService', () => {
   let authService: AuthService;
   let prismaService: PrismaService;
   let jwtService: JwtService;
+  let outboxService: OutboxService;
 
   beforeEach(async () => {
     const moduleRef: TestingModule = await Test.createTestingModule({
@@ -24,6 +26,12 @@ describe('AuthService', () => {
             },
           },
         },
+        {
+          provide: OutboxService,
+          useValue: {
+            enqueueEmail: jest.fn(),
+          },
+        },
         {
           provide: JwtService,
           useValue: {
@@ -57,6 +65,7 @@ describe('AuthService', () => {
     authService = moduleRef.get<AuthService>(AuthService);
     prismaService = moduleRef.get<PrismaService>(PrismaService);
     jwtService = moduleRef.get<JwtService>(JwtService);
+    outboxService = moduleRef.get<OutboxService>(OutboxService);
   });
 
   describe('register', () => {
@@ -123,7 +132,6 @@ describe('AuthService', () => {
         tokenExpiresAt: new Date(Date.now() + 1000 * 60 * 30),
         category: 'NONE' as any,
       } as any);
-      process.env.NODE_ENV = 'test';
       const response = await authService.register({
         email: 'test@test.com',
         password: 'password',
@@ -134,6 +142,12 @@ describe('AuthService', () => {
       expect(response).toEqual({
         message: 'User registered successfully. Please verify your email.',
       });
+      expect(outboxService.enqueueEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'test@test.com',
+          subject: 'Verify your email',
+        }),
+      );
     });
   });
 
@@ -208,7 +222,7 @@ describe('AuthService', () => {
         .spyOn(prismaService.user, 'findUnique')
         .mockResolvedValueOnce(mockUser as any);
       // bcrypt.compare to succeed
-  jest.spyOn(bcrypt as any, 'compare').mockResolvedValue(true as any);
+      jest.spyOn(bcrypt as any, 'compare').mockResolvedValue(true as any);
       const tokens = await authService.refreshToken('valid_token');
       expect(tokens).toEqual({
         access_token: 'test_token',
@@ -1,5 +1,4 @@
 import * as crypto from 'crypto';
-import * as nodemailer from 'nodemailer';
 import { Injectable, HttpException, HttpStatus, Logger } from '@nestjs/common';
 import { JwtService } from '@nestjs/jwt';
 import { PrismaService } from '../prisma/prisma.service';
@@ -11,6 +10,7 @@ import { ResetPasswordDto } from './dto/reset-password.dto';
 import { VerifyEmailDto } from './dto/verify-email.dto';
 import { Throttle } from '@nestjs/throttler';
 import { ConfigService } from '@nestjs/config';
+import { OutboxService } from '../outbox/outbox.service';
 
 @Injectable()
 export class AuthService {
@@ -19,18 +19,9 @@ export class AuthService {
     private readonly prismaService: PrismaService,
     private readonly jwtService: JwtService,
     private readonly configService: ConfigService,
+    private readonly outboxService: OutboxService,
   ) {}
 
-  private transporter = nodemailer.createTransport({
-    host: this.configService.get<string>('MAIL_HOST'),
-    port: parseInt(this.configService.get<string>('MAIL_PORT') || '587'),
-    secure: false,
-    auth: {
-      user: this.configService.get<string>('MAIL_USER'),
-      pass: this.configService.get<string>('MAIL_PASSWORD'),
-    },
-  });
-
   // Register method
   async register(userDto: UserDto) {
     const existingUser = await this.prismaService.user.findUnique({
@@ -89,19 +80,11 @@ export class AuthService {
       user = userOrEmail;
     }
 
-    // Test ortamında e-posta gönderimi yapma
-    if (process.env.NODE_ENV === 'test') {
-      this.logger.debug(
-        `TEST MODE: Email would be sent to ${user.email} with token ${token}`,
-      );
-      return;
-    }
-    // Normal ortamda e-posta gönderimi
+    // E-posta kuyruğa yazılır; SMTP hatası kaydı bozmaz, worker yeniden dener
     const hostUrl = this.configService.get<string>('HOST_URL') || '';
     const verificationUrl = `${hostUrl}auth/verify-email?token=${token}&email=${encodeURIComponent(user.email)}`;
 
-    await this.transporter.sendMail({
-      from: this.configService.get<string>('MAIL_FROM'),
+    await this.outboxService.enqueueEmail({
       to: user.email,
       subject: 'Verify your email',
       text: `Please verify your email by clicking on the following link: ${verificationUrl}\n\nThis link contains both your verification token and email address to complete the verification process automatically.\n\nIf you need to enter these details manually:\n- Your verification token: ${token}\n- Your email: ${user.email}`,
@@ -160,15 +143,14 @@ export class AuthService {
     });
 
     try {
-      await this.transporter.sendMail({
-        from: this.configService.get<string>('MAIL_FROM'),
+      await this.outboxService.enqueueEmail({
         to: verifyEmailDto.email,
         subject: 'Welcome to Our Platform!',
         text: 'Your email has been successfully verified. Welcome to our platform!',
       });
     } catch (e) {
-      // Email gönderimi başarısız olsa bile doğrulama kalıcıdır; logla ve devam et
-      this.logger.warn(`Welcome email send failed: ${e.message}`);
+      // Email kuyruğa alınamasa bile doğrulama kalıcıdır; logla ve devam et
+      this.logger.warn(`Welcome email enqueue failed: ${e.message}`);
     }
 
     return { message: 'Email verified successfully' };
@@ -300,8 +282,12 @@ export class AuthService {
 
   // Validate user by ID
   async validateUserById(userId: number) {
+    // Üyelikler CASL kurallarında organizasyon koşulu için kullanılır
     const user = await this.prismaService.user.findUnique({
       where: { id: userId },
+      include: {
+        memberships: { select: { organizationId: true, role: true } },
+      },
     });
 
     if (!user) {
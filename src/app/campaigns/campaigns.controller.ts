@@ -7,6 +7,8 @@ import {
   Patch,
   Delete,
   UseGuards,
+  Req,
+  Query,
 } from '@nestjs/common';
 import { CampaignsService } from './campaigns.service';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
@@ -15,6 +17,7 @@ import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RoleGuard } from '../auth/role.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import { Role } from '../casl/action';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
 
 @Controller('campaigns')
 export class CampaignsController {
@@ -23,8 +26,11 @@ export class CampaignsController {
   @Post()
   @UseGuards(JwtAuthGuard, RoleGuard)
   @Roles(Role.Admin, Role.OrganizationOwner)
-  async createCampaign(@Body() createCampaignDto: CreateCampaignDto) {
-    return this.campaignsService.createCampaign(createCampaignDto);
+  async createCampaign(
+    @Body() createCampaignDto: CreateCampaignDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.campaignsService.createCampaign(createCampaignDto, req.user);
   }
 
   @Get()
@@ -37,21 +43,39 @@ export class CampaignsController {
     return this.campaignsService.findCampaignById(id);
   }
 
+  @Get(':id/progress')
+  async getProgress(@Param('id') id: number) {
+    return this.campaignsService.getProgress(id);
+  }
+
+  @Get(':id/leaderboard')
+  async getLeaderboard(
+    @Param('id') id: number,
+    @Query('limit') limit?: string,
+  ) {
+    return this.campaignsService.getLeaderboard(id, { limit });
+  }
+
   @Patch(':id')
   @UseGuards(JwtAuthGuard, RoleGuard)
   @Roles(Role.Admin, Role.OrganizationOwner)
   async updateCampaign(
     @Param('id') id: number,
     @Body() updateCampaignDto: CreateCampaignDto,
+    @Req() req: RequestWithUser,
   ) {
-    return this.campaignsService.updateCampaign(id, updateCampaignDto);
+    return this.campaignsService.updateCampaign(
+      id,
+      updateCampaignDto,
+      req.user,
+    );
   }
 
   @Delete(':id')
   @UseGuards(JwtAuthGuard, RoleGuard)
   @Roles(Role.Admin, Role.OrganizationOwner)
-  async deleteCampaign(@Param('id') id: number) {
-    return this.campaignsService.deleteCampaign(id);
+  async deleteCampaign(@Param('id') id: number, @Req() req: RequestWithUser) {
+    return this.campaignsService.deleteCampaign(id, req.user);
   }
 
   @Post(':id/events')
@@ -60,8 +84,9 @@ export class CampaignsController {
   async createEvent(
     @Param('id') id: number,
     @Body() createEventDto: CreateEventDto,
+    @Req() req: RequestWithUser,
   ) {
-    return this.campaignsService.createEvent(id, createEventDto);
+    return this.campaignsService.createEvent(id, createEventDto, req.user);
   }
 
   @Get(':id/events')
@@ -84,8 +109,14 @@ export class CampaignsController {
     @Param('id') id: number,
     @Param('eventId') eventId: number,
     @Body() updateEventDto: CreateEventDto,
+    @Req() req: RequestWithUser,
   ) {
-    return this.campaignsService.updateEvent(id, eventId, updateEventDto);
+    return this.campaignsService.updateEvent(
+      id,
+      eventId,
+      updateEventDto,
+      req.user,
+    );
   }
 
   @Delete(':id/events/:eventId')
@@ -94,7 +125,8 @@ export class CampaignsController {
   async deleteEvent(
     @Param('id') id: number,
     @Param('eventId') eventId: number,
+    @Req() req: RequestWithUser,
   ) {
-    return this.campaignsService.deleteEvent(id, eventId);
+    return this.campaignsService.deleteEvent(id, eventId, req.user);
   }
 }
@@ -2,10 +2,13 @@ import { Module } from '@nestjs/common';
 import { CampaignsService } from './campaigns.service';
 import { CampaignsController } from './campaigns.controller';
 import { PrismaService } from '../prisma/prisma.service';
+import { CaslModule } from '../casl/casl.module';
+import { NotificationsModule } from '../notifications/notifications.module';
 
 @Module({
-  imports: [],
+  imports: [CaslModule, NotificationsModule],
   providers: [CampaignsService, PrismaService],
   controllers: [CampaignsController],
+  exports: [CampaignsService],
 })
 export class CampaignsModule {}
@@ -1,17 +1,22 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ForbiddenException } from '@nestjs/common';
 import { CampaignsService } from './campaigns.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { CreateEventDto } from './dto/create-event.dto';
+import { CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { NotificationsService } from '../notifications/notifications.service';
 
 describe('CampaignsService', () => {
   let service: CampaignsService;
   let prismaService: PrismaService;
+  let notificationsService: NotificationsService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         CampaignsService,
+        CaslAbilityFactory,
         {
           provide: PrismaService,
           useValue: {
@@ -20,9 +25,19 @@ describe('CampaignsService', () => {
               findMany: jest.fn(),
               findUnique: jest.fn(),
               update: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
               delete: jest.fn(),
             },
             organization: { findUnique: jest.fn() },
+            organizationMember: {
+              findMany: jest.fn().mockResolvedValue([{ userId: 7 }]),
+            },
+            donation: {
+              aggregate: jest.fn(),
+              groupBy: jest.fn(),
+            },
+            donor: { findMany: jest.fn() },
+            $queryRaw: jest.fn(),
             event: {
               create: jest.fn(),
               findMany: jest.fn(),
@@ -33,11 +48,17 @@ describe('CampaignsService', () => {
             },
           },
         },
+        {
+          provide: NotificationsService,
+          useValue: { notify: jest.fn() },
+        },
       ],
     }).compile();
 
     service = module.get<CampaignsService>(CampaignsService);
     prismaService = module.get<PrismaService>(PrismaService);
+    notificationsService =
+      module.get<NotificationsService>(NotificationsService);
   });
 
   it('should be defined', () => {
@@ -54,9 +75,25 @@ describe('CampaignsService', () => {
     mission: 'm',
     type: 't',
     rating: 0,
+    reviewCount: 0,
     feedback: '',
+    suspendedAt: null,
+    suspensionReason: null,
+    verificationStatus: 'approved',
+    verificationRequestedAt: null,
+    verifiedAt: null,
+    verificationNote: null,
+    taxNumber: null,
+    charityRegistrationNo: null,
   });
 
+  // 1 numaralı organizasyonun yöneticisi
+  const manager = {
+    id: 7,
+    role: 'organization_owner',
+    memberships: [{ organizationId: 1, role: 'manager' }],
+  };
+
   const campaignMock = (overrides: Partial<any> = {}) => ({
     id: 1,
     name: 'Campaign 1',
@@ -100,7 +137,30 @@ describe('CampaignsService', () => {
       jest
         .spyOn(prismaService.campaign, 'create')
         .mockResolvedValue(result as any);
-      expect(await service.createCampaign(createCampaignDto)).toBe(result);
+      expect(await service.createCampaign(createCampaignDto, manager)).toBe(
+        result,
+      );
+    });
+
+    it('should not let members create campaigns for other organizations', async () => {
+      jest
+        .spyOn(prismaService.organization, 'findUnique')
+        .mockResolvedValue({ ...orgMock(), id: 2 });
+
+      await expect(
+        service.createCampaign(
+          {
+            name: 'Campaign 2',
+            description: 'Description 2',
+            startDate: new Date(),
+            endDate: new Date(Date.now() + 1000 * 60 * 60),
+            targetAmount: 1000,
+            organizationId: 2,
+          },
+          manager,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.campaign.create).not.toHaveBeenCalled();
     });
   });
 
@@ -146,7 +206,9 @@ describe('CampaignsService', () => {
       jest
         .spyOn(prismaService.campaign, 'update')
         .mockResolvedValue(updated as any);
-      expect(await service.updateCampaign(1, updateCampaignDto)).toBe(updated);
+      expect(await service.updateCampaign(1, updateCampaignDto, manager)).toBe(
+        updated,
+      );
     });
   });
 
@@ -160,7 +222,7 @@ describe('CampaignsService', () => {
       jest
         .spyOn(prismaService.campaign, 'delete')
         .mockResolvedValue(existing as any);
-      expect(await service.deleteCampaign(1)).toBe(existing);
+      expect(await service.deleteCampaign(1, manager)).toBe(existing);
     });
   });
 
@@ -185,7 +247,9 @@ describe('CampaignsService', () => {
       jest
         .spyOn(prismaService.event, 'create')
         .mockResolvedValue(result as any);
-      expect(await service.createEvent(1, createEventDto)).toBe(result);
+      expect(await service.createEvent(1, createEventDto, manager)).toBe(
+        result,
+      );
     });
   });
 
@@ -222,7 +286,7 @@ describe('CampaignsService', () => {
       const updateEventDto: CreateEventDto = {
         name: 'Updated Event',
         description: 'Updated Description',
-  date: new Date(Date.now() + 1000 * 60 * 60),
+        date: new Date(Date.now() + 1000 * 60 * 60),
         location: 'Updated Location',
         organizationId: 1,
       };
@@ -241,7 +305,9 @@ describe('CampaignsService', () => {
       jest
         .spyOn(prismaService.event, 'update')
         .mockResolvedValue(updated as any);
-      expect(await service.updateEvent(1, 1, updateEventDto)).toBe(updated);
+      expect(await service.updateEvent(1, 1, updateEventDto, manager)).toBe(
+        updated,
+      );
     });
   });
 
@@ -258,7 +324,158 @@ describe('CampaignsService', () => {
       jest
         .spyOn(prismaService.event, 'delete')
         .mockResolvedValue(existing as any);
-      expect(await service.deleteEvent(1, 1)).toBe(existing);
+      expect(await service.deleteEvent(1, 1, manager)).toBe(existing);
+    });
+
+    it('should not let staff members delete events', async () => {
+      const staff = {
+        ...manager,
+        memberships: [{ organizationId: 1, role: 'staff' }],
+      };
+      jest
+        .spyOn(prismaService.campaign, 'findUnique')
+        .mockResolvedValue(campaignMock() as any);
+      jest
+        .spyOn(prismaService.event, 'findFirst')
+        .mockResolvedValue(eventMock() as any);
+
+      await expect(service.deleteEvent(1, 1, staff)).rejects.toThrow(
+        ForbiddenException,
+      );
+      expect(prismaService.event.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getProgress', () => {
+    it('should report the raised amount, donors and a cumulative daily series', async () => {
+      jest
+        .spyOn(prismaService.campaign, 'findUnique')
+        .mockResolvedValue(
+          campaignMock({ endDate: new Date(Date.now() + 60_000) }) as any,
+        );
+      jest.spyOn(prismaService.donation, 'aggregate').mockResolvedValue({
+        _sum: { amount: 250 },
+        _count: { _all: 3 },
+      } as any);
+      (prismaService.donation.groupBy as jest.Mock).mockResolvedValue([
+        { donorId: 1 },
+        { donorId: 2 },
+      ] as any);
+      jest.spyOn(prismaService, '$queryRaw').mockResolvedValue([
+        { date: '2026-10-18', amount: 100, donations: 1 },
+        { date: '2026-10-19', amount: 150, donations: 2 },
+      ]);
+
+      expect(await service.getProgress(1)).toEqual(
+        expect.objectContaining({
+          raisedAmount: 250,
+          remainingAmount: 750,
+          percentage: 25,
+          donationCount: 3,
+          donorCount: 2,
+          acceptingDonations: true,
+          daily: [
+            {
+              date: '2026-10-18',
+              amount: 100,
+              donations: 1,
+              cumulativeAmount: 100,
+            },
+            {
+              date: '2026-10-19',
+              amount: 150,
+              donations: 2,
+              cumulativeAmount: 250,
+            },
+          ],
+        }),
+      );
+    });
+  });
+
+  describe('getLeaderboard', () => {
+    it('should hide the donor of anonymous donations', async () => {
+      jest
+        .spyOn(prismaService.campaign, 'findUnique')
+        .mockResolvedValue(campaignMock() as any);
+      (prismaService.donation.groupBy as jest.Mock).mockResolvedValue([
+        {
+          donorId: 5,
+          anonymous: true,
+          _sum: { amount: 500 },
+          _count: { _all: 1 },
+        },
+        {
+          donorId: 3,
+          anonymous: false,
+          _sum: { amount: 200 },
+          _count: { _all: 2 },
+        },
+      ] as any);
+      jest
+        .spyOn(prismaService.donor, 'findMany')
+        .mockResolvedValue([{ id: 3, name: 'Ayşe Yılmaz' }] as any);
+
+      const leaderboard = await service.getLeaderboard(1);
+
+      expect(prismaService.donor.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({ where: { id: { in: [3] } } }),
+      );
+      expect(leaderboard).toEqual([
+        expect.objectContaining({
+          rank: 1,
+          donorId: null,
+          donorName: 'Anonim bağışçı',
+          totalAmount: 500,
+        }),
+        expect.objectContaining({
+          rank: 2,
+          donorId: 3,
+          donorName: 'Ayşe Yılmaz',
+          totalAmount: 200,
+        }),
+      ]);
+    });
+  });
+
+  describe('syncGoalStatus', () => {
+    it('should close the campaign and notify managers when the target is met', async () => {
+      jest.spyOn(prismaService.campaign, 'findUnique').mockResolvedValue(
+        campaignMock({
+          goalReachedAt: null,
+          closeOnGoalReached: true,
+        }) as any,
+      );
+      jest.spyOn(prismaService.donation, 'aggregate').mockResolvedValue({
+        _sum: { amount: 1200 },
+      } as any);
+
+      await service.syncGoalStatus(1);
+
+      expect(prismaService.campaign.updateMany).toHaveBeenCalledWith({
+        where: { id: 1, goalReachedAt: null },
+        data: { goalReachedAt: expect.any(Date), closedAt: expect.any(Date) },
+      });
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        [7],
+        'campaign.goal-reached',
+        expect.objectContaining({
+          campaignName: 'Campaign 1',
+          raisedAmount: 1200,
+        }),
+        { campaignId: 1, organizationId: 1 },
+      );
+    });
+
+    it('should not notify twice once the goal has been reached', async () => {
+      jest
+        .spyOn(prismaService.campaign, 'findUnique')
+        .mockResolvedValue(campaignMock({ goalReachedAt: new Date() }) as any);
+
+      await service.syncGoalStatus(1);
+
+      expect(prismaService.campaign.updateMany).not.toHaveBeenCalled();
+      expect(notificationsService.notify).not.toHaveBeenCalled();
     });
   });
 });
@@ -1,17 +1,37 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
+import { Campaign } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateCampaignDto } from './dto/create-campaign.dto';
 import { CreateEventDto } from './dto/create-event.dto';
+import { Action } from '../casl/action';
+import { AbilityUser, CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/notification-templates';
+import { OrganizationMemberRole } from '../organizations/organization-member';
+import { DonationStatus } from '../donors/donation-status';
+
+const DEFAULT_LEADERBOARD_SIZE = 10;
+const MAX_LEADERBOARD_SIZE = 100;
 
 @Injectable()
 export class CampaignsService {
-  constructor(private readonly prisma: PrismaService) {}
+  private readonly logger = new Logger(CampaignsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+    private readonly notificationsService: NotificationsService,
+  ) {}
 
-  async createCampaign(createCampaignDto: CreateCampaignDto) {
+  async createCampaign(
+    createCampaignDto: CreateCampaignDto,
+    user: AbilityUser,
+  ) {
     // Organizasyonun var olduğunu kontrol et
     const organization = await this.prisma.organization.findUnique({
       where: { id: createCampaignDto.organizationId },
@@ -23,6 +43,11 @@ export class CampaignsService {
       );
     }
 
+    // Üyeler yalnızca kendi organizasyonları adına kampanya açabilir
+    this.caslAbilityFactory.assertCan(user, Action.Create, 'Campaign', {
+      organizationId: organization.id,
+    });
+
     // Kampanya isminin dolu olduğunu kontrol et
     if (!createCampaignDto.name || createCampaignDto.name.trim() === '') {
       throw new BadRequestException('Kampanya adı boş olamaz');
@@ -45,6 +70,7 @@ export class CampaignsService {
           description: createCampaignDto.description,
           endDate: createCampaignDto.endDate,
           targetAmount: createCampaignDto.targetAmount,
+          closeOnGoalReached: Boolean(createCampaignDto.closeOnGoalReached),
           organization: {
             connect: { id: createCampaignDto.organizationId },
           },
@@ -79,7 +105,182 @@ export class CampaignsService {
     return campaign;
   }
 
-  async updateCampaign(id: number, updateCampaignDto: CreateCampaignDto) {
+  // Toplanan tutar, hedefe oran, bağışçı sayısı ve günlük bağış serisi
+  async getProgress(id: number) {
+    const campaign = await this.findCampaignById(id);
+    // Yalnızca tahsil edilmiş bağışlar ilerlemeye sayılır
+    const where = {
+      campaignId: campaign.id,
+      status: DonationStatus.Succeeded,
+    };
+
+    const [totals, donors, daily] = await Promise.all([
+      this.prisma.donation.aggregate({
+        where,
+        _sum: { amount: true },
+        _count: { _all: true },
+      }),
+      this.prisma.donation.groupBy({ by: ['donorId'], where }),
+      this.prisma.$queryRaw<
+        { date: string; amount: number; donations: number }[]
+      >`
+        SELECT
+          TO_CHAR(DATE_TRUNC('day', "createdAt"), 'YYYY-MM-DD') AS date,
+          SUM(amount)::float AS amount,
+          COUNT(*)::int AS donations
+        FROM "Donation"
+        WHERE "campaignId" = ${campaign.id}
+          AND status = ${DonationStatus.Succeeded}
+        GROUP BY date
+        ORDER BY date
+      `,
+    ]);
+
+    const raisedAmount = this.roundAmount(totals._sum.amount ?? 0);
+    let cumulativeAmount = 0;
+
+    return {
+      campaignId: campaign.id,
+      targetAmount: campaign.targetAmount,
+      raisedAmount,
+      remainingAmount: this.roundAmount(
+        Math.max(0, campaign.targetAmount - raisedAmount),
+      ),
+      percentage:
+        campaign.targetAmount > 0
+          ? this.roundAmount((raisedAmount / campaign.targetAmount) * 100)
+          : 0,
+      donationCount: totals._count._all,
+      donorCount: donors.length,
+      goalReachedAt: campaign.goalReachedAt,
+      closedAt: campaign.closedAt,
+      acceptingDonations: this.isAcceptingDonations(campaign),
+      daily: daily.map((day) => {
+        cumulativeAmount = this.roundAmount(cumulativeAmount + day.amount);
+        return { ...day, cumulativeAmount };
+      }),
+    };
+  }
+
+  /**
+   * En çok bağış yapanlar. Anonim bağışlar bağışçı bilgisi gösterilmeden
+   * ayrı satır olarak sıralanır; bağışçının açık bağışlarıyla birleştirilmez.
+   */
+  async getLeaderboard(id: number, query: { limit?: unknown } = {}) {
+    const campaign = await this.findCampaignById(id);
+    const limit = Math.min(
+      MAX_LEADERBOARD_SIZE,
+      Math.max(1, Number(query.limit) || DEFAULT_LEADERBOARD_SIZE),
+    );
+
+    const groups = await this.prisma.donation.groupBy({
+      by: ['donorId', 'anonymous'],
+      where: { campaignId: campaign.id, status: DonationStatus.Succeeded },
+      _sum: { amount: true },
+      _count: { _all: true },
+      orderBy: { _sum: { amount: 'desc' } },
+      take: limit,
+    });
+
+    const donors = await this.prisma.donor.findMany({
+      where: {
+        id: {
+          in: groups
+            .filter((group) => !group.anonymous)
+            .map((group) => group.donorId),
+        },
+      },
+      select: { id: true, name: true },
+    });
+    const donorNames = new Map(donors.map((donor) => [donor.id, donor.name]));
+
+    return groups.map((group, index) => ({
+      rank: index + 1,
+      anonymous: group.anonymous,
+      donorId: group.anonymous ? null : group.donorId,
+      donorName: group.anonymous
+        ? 'Anonim bağışçı'
+        : (donorNames.get(group.donorId) ?? null),
+      totalAmount: this.roundAmount(group._sum.amount ?? 0),
+      donationCount: group._count._all,
+    }));
+  }
+
+  // Bitiş tarihi geçen veya kapatılan kampanyaya bağış yapılamaz
+  async assertAcceptsDonations(id: number) {
+    const campaign = await this.findCampaignById(id);
+
+    if (!this.isAcceptingDonations(campaign)) {
+      throw new BadRequestException(
+        `${campaign.name} kampanyası bağışlara kapalı`,
+      );
+    }
+
+    return campaign;
+  }
+
+  /**
+   * Bağış sonrası hedef kontrolü. Hedefe ulaşıldığında organizasyonun
+   * owner/manager üyelerine bir kez bildirim gider; kampanya hedefe
+   * ulaşınca kapanacak şekilde açıldıysa bağışlara kapatılır.
+   */
+  async syncGoalStatus(id: number) {
+    const campaign = await this.prisma.campaign.findUnique({ where: { id } });
+    if (!campaign || campaign.goalReachedAt || campaign.targetAmount <= 0) {
+      return;
+    }
+
+    const { _sum } = await this.prisma.donation.aggregate({
+      where: { campaignId: id, status: DonationStatus.Succeeded },
+      _sum: { amount: true },
+    });
+    const raisedAmount = this.roundAmount(_sum.amount ?? 0);
+    if (raisedAmount < campaign.targetAmount) return;
+
+    // Eş zamanlı bağışlarda bildirim yalnızca bir kez gönderilir
+    const reachedAt = new Date();
+    const { count } = await this.prisma.campaign.updateMany({
+      where: { id, goalReachedAt: null },
+      data: {
+        goalReachedAt: reachedAt,
+        ...(campaign.closeOnGoalReached && { closedAt: reachedAt }),
+      },
+    });
+    if (count === 0) return;
+
+    const members = await this.prisma.organizationMember.findMany({
+      where: {
+        organizationId: campaign.organizationId,
+        role: {
+          in: [OrganizationMemberRole.Owner, OrganizationMemberRole.Manager],
+        },
+      },
+      select: { userId: true },
+    });
+
+    await this.notificationsService.notify(
+      members.map((member) => member.userId),
+      NotificationType.CampaignGoalReached,
+      {
+        campaignName: campaign.name,
+        targetAmount: campaign.targetAmount,
+        raisedAmount,
+        closed: campaign.closeOnGoalReached
+          ? ' ve kampanya bağışlara kapatıldı'
+          : '',
+      },
+      { campaignId: id, organizationId: campaign.organizationId },
+    );
+    this.logger.log(
+      `Campaign ${id} reached its target of ${campaign.targetAmount}`,
+    );
+  }
+
+  async updateCampaign(
+    id: number,
+    updateCampaignDto: CreateCampaignDto,
+    user: AbilityUser,
+  ) {
     // Kampanyanın var olup olmadığını kontrol et
     const campaign = await this.prisma.campaign.findUnique({
       where: { id: Number(id) },
@@ -89,6 +290,13 @@ export class CampaignsService {
       throw new NotFoundException(`${id} ID'li kampanya bulunamadı`);
     }
 
+    this.caslAbilityFactory.assertCan(
+      user,
+      Action.Update,
+      'Campaign',
+      campaign,
+    );
+
     // Organizasyonun varlığını kontrol et (eğer güncelleme içeriyorsa)
     if (updateCampaignDto.organizationId) {
       const organization = await this.prisma.organization.findUnique({
@@ -100,6 +308,11 @@ export class CampaignsService {
           `${updateCampaignDto.organizationId} ID'li organizasyon bulunamadı`,
         );
       }
+
+      // Kampanya yalnızca yönetilen başka bir organizasyona taşınabilir
+      this.caslAbilityFactory.assertCan(user, Action.Update, 'Campaign', {
+        organizationId: organization.id,
+      });
     }
 
     // Hedef tarih geçerli mi kontrol et (eğer güncelleme içeriyorsa)
@@ -124,7 +337,7 @@ export class CampaignsService {
     }
   }
 
-  async deleteCampaign(id: number) {
+  async deleteCampaign(id: number, user: AbilityUser) {
     // Kampanyanın var olup olmadığını kontrol et
     const campaign = await this.prisma.campaign.findUnique({
       where: { id: Number(id) },
@@ -134,6 +347,13 @@ export class CampaignsService {
       throw new NotFoundException(`${id} ID'li kampanya bulunamadı`);
     }
 
+    this.caslAbilityFactory.assertCan(
+      user,
+      Action.Delete,
+      'Campaign',
+      campaign,
+    );
+
     // İlişkili etkinliklerin sayısını kontrol et
     const eventsCount = await this.prisma.event.count({
       where: { campaignId: Number(id) },
@@ -156,7 +376,11 @@ export class CampaignsService {
     }
   }
 
-  async createEvent(campaignId: number, createEventDto: CreateEventDto) {
+  async createEvent(
+    campaignId: number,
+    createEventDto: CreateEventDto,
+    user: AbilityUser,
+  ) {
     // Kampanyanın varlığını kontrol et
     const campaign = await this.prisma.campaign.findUnique({
       where: { id: campaignId },
@@ -177,6 +401,10 @@ export class CampaignsService {
       );
     }
 
+    this.caslAbilityFactory.assertCan(user, Action.Create, 'Event', {
+      organizationId: organization.id,
+    });
+
     // Etkinlik adının dolu olduğunu kontrol et
     if (!createEventDto.name || createEventDto.name.trim() === '') {
       throw new BadRequestException('Etkinlik adı boş olamaz');
@@ -261,9 +489,11 @@ export class CampaignsService {
     campaignId: number,
     eventId: number,
     updateEventDto: CreateEventDto,
+    user: AbilityUser,
   ) {
     // Kampanya ve etkinliğin varlığını kontrol et
-    await this.findEventById(campaignId, eventId);
+    const event = await this.findEventById(campaignId, eventId);
+    this.caslAbilityFactory.assertCan(user, Action.Update, 'Event', event);
 
     // Organizasyonun varlığını kontrol et (eğer güncelleme içeriyorsa)
     if (updateEventDto.organizationId) {
@@ -276,6 +506,10 @@ export class CampaignsService {
           `${updateEventDto.organizationId} ID'li organizasyon bulunamadı`,
         );
       }
+
+      this.caslAbilityFactory.assertCan(user, Action.Update, 'Event', {
+        organizationId: organization.id,
+      });
     }
 
     // Etkinlik tarihinin geçerli olup olmadığını kontrol et
@@ -295,9 +529,10 @@ export class CampaignsService {
     }
   }
 
-  async deleteEvent(campaignId: number, eventId: number) {
+  async deleteEvent(campaignId: number, eventId: number, user: AbilityUser) {
     // Kampanya ve etkinliğin varlığını kontrol et
-    await this.findEventById(campaignId, eventId);
+    const event = await this.findEventById(campaignId, eventId);
+    this.caslAbilityFactory.assertCan(user, Action.Delete, 'Event', event);
 
     try {
       return await this.prisma.event.delete({
@@ -309,4 +544,12 @@ export class CampaignsService {
       );
     }
   }
+
+  private isAcceptingDonations(campaign: Campaign) {
+    return !campaign.closedAt && campaign.endDate > new Date();
+  }
+
+  private roundAmount(amount: number) {
+    return Math.round(amount * 100) / 100;
+  }
 }
@@ -1,5 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger';
-import { IsString, IsDate, IsNumber } from 'class-validator';
+import {
+  IsString,
+  IsDate,
+  IsNumber,
+  IsBoolean,
+  IsOptional,
+} from 'class-validator';
 
 export class CreateCampaignDto {
   @ApiProperty()
@@ -25,4 +31,13 @@ export class CreateCampaignDto {
   @ApiProperty()
   @IsNumber()
   readonly organizationId: number;
+
+  @ApiProperty({
+    description: 'Hedefe ulaşıldığında kampanya bağışlara kapatılsın mı',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly closeOnGoalReached?: boolean;
 }
@@ -2,10 +2,12 @@ export enum Role {
   Admin = 'admin',
   OrganizationOwner = 'organization_owner',
   Volunteer = 'volunteer',
+  User = 'user',
 }
 
 export enum Action {
   Manage = 'manage',
+  Create = 'create',
   Read = 'read',
   Update = 'update',
   Delete = 'delete',
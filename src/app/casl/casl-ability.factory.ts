@@ -1,34 +1,75 @@
 import {
-  PureAbility,
   AbilityBuilder,
-  AbilityClass,
-  ExtractSubjectType,
+  ForcedSubject,
+  MongoAbility,
+  createMongoAbility,
+  subject,
 } from '@casl/ability';
-import { Injectable } from '@nestjs/common';
-import { Action } from './action';
+import { ForbiddenException, Injectable } from '@nestjs/common';
+import { Action, Role } from './action';
 import { User } from '@prisma/client'; // Prisma'dan gelen User modelini kullanıyoruz
+import {
+  OrganizationMemberRole,
+  OrganizationMembership,
+  organizationIdsWithRole,
+} from '../organizations/organization-member';
 
 // Uygulamadaki farklı nesne türleri
-export type Subjects = 'User' | 'Post' | 'Comment' | 'AidRequest' | 'all';
+export type Subjects =
+  | 'User'
+  | 'Post'
+  | 'Comment'
+  | 'AidRequest'
+  | 'Organization'
+  | 'OrganizationMember'
+  | 'Campaign'
+  | 'Event'
+  | 'Message'
+  | 'InventoryItem'
+  | 'StockMovement'
+  | 'InKindDonation'
+  | 'all';
+
+type SubjectType = Exclude<Subjects, 'all'>;
+
+// Koşullu kurallar için tür adı etiketlenmiş kayıt
+type SubjectRecord = {
+  [K in SubjectType]: ForcedSubject<K> & Record<string, unknown>;
+}[SubjectType];
 
-export type AppAbility = PureAbility<[Action, Subjects]>;
+export type AppAbility = MongoAbility<[Action, Subjects | SubjectRecord]>;
+
+// JwtStrategy kullanıcıyı organizasyon üyelikleriyle birlikte yükler
+export type AbilityUser = Pick<User, 'id' | 'role'> & {
+  memberships?: OrganizationMembership[];
+};
 
 @Injectable()
 export class CaslAbilityFactory {
-  createForUser(user: User) {
+  createForUser(user: AbilityUser) {
     // AbilityBuilder ile yetenekleri tanımlıyoruz
-    const { can, cannot, build } = new AbilityBuilder<
-      PureAbility<[Action, Subjects]>
-    >(PureAbility as AbilityClass<AppAbility>);
+    const { can, cannot, build } = new AbilityBuilder<AppAbility>(
+      createMongoAbility,
+    );
 
-    if (user.role === 'admin') {
+    if (user.role === Role.Admin) {
       // Admin can perform all actions on all resources
       can(Action.Manage, 'all');
-    } else if (user.role === 'organization_owner') {
-      // Organization owners can manage their own resources
-      can(Action.Manage, ['AidRequest', 'Post']);
+      return build();
+    }
+
+    if (user.role === Role.OrganizationOwner) {
+      can(Action.Manage, 'Post');
       can(Action.Read, 'all');
-    } else if (user.role === 'volunteer') {
+      // Mesajlar, üye listesi ve stoklar yalnızca organizasyonun üyelerine açıktır
+      cannot(Action.Read, [
+        'Message',
+        'OrganizationMember',
+        'InventoryItem',
+        'StockMovement',
+        'InKindDonation',
+      ]);
+    } else if (user.role === Role.Volunteer) {
       // Volunteers can read and update specific resources
       can(Action.Read, ['AidRequest', 'Post']);
       can(Action.Update, 'AidRequest', { assignedTo: user.id });
@@ -39,9 +80,96 @@ export class CaslAbilityFactory {
       cannot(Action.Update, 'AidRequest', { status: true });
     }
 
-    return build({
-      detectSubjectType: (item: unknown) =>
-        item.constructor.name as ExtractSubjectType<Subjects>,
+    this.defineMembershipRules(user, can);
+
+    return build();
+  }
+
+  /**
+   * Koşullu kurallar nesnenin kendisiyle kontrol edilmelidir; Prisma
+   * kayıtları düz nesne olduğu için tür adı ayrıca verilir.
+   */
+  can(
+    user: AbilityUser,
+    action: Action,
+    subjectType: SubjectType,
+    record: Record<string, unknown>,
+  ) {
+    return this.createForUser(user).can(
+      action,
+      subject(subjectType, { ...record }),
+    );
+  }
+
+  assertCan(
+    user: AbilityUser,
+    action: Action,
+    subjectType: SubjectType,
+    record: Record<string, unknown>,
+  ) {
+    if (!this.can(user, action, subjectType, record)) {
+      throw new ForbiddenException('Bu işlem için yetkiniz bulunmuyor');
+    }
+  }
+
+  // Organizasyon üyeleri yalnızca kendi organizasyonlarının kayıtlarını yönetir
+  private defineMembershipRules(
+    user: AbilityUser,
+    can: AbilityBuilder<AppAbility>['can'],
+  ) {
+    const memberships = user.memberships ?? [];
+    if (memberships.length === 0) return;
+
+    const viewerOf = organizationIdsWithRole(
+      memberships,
+      OrganizationMemberRole.Viewer,
+    );
+    const staffOf = organizationIdsWithRole(
+      memberships,
+      OrganizationMemberRole.Staff,
+    );
+    const managerOf = organizationIdsWithRole(
+      memberships,
+      OrganizationMemberRole.Manager,
+    );
+    const ownerOf = organizationIdsWithRole(
+      memberships,
+      OrganizationMemberRole.Owner,
+    );
+
+    can(Action.Read, ['AidRequest', 'Campaign', 'Event', 'Message'], {
+      organizationId: { $in: viewerOf },
     });
+    can(
+      Action.Read,
+      [
+        'OrganizationMember',
+        'InventoryItem',
+        'StockMovement',
+        'InKindDonation',
+      ],
+      { organizationId: { $in: viewerOf } },
+    );
+
+    can(Action.Update, 'AidRequest', { organizationId: { $in: staffOf } });
+    // Henüz bir organizasyona atanmamış talepler ortak havuzdadır; havuzdan
+    // talep alabilmek için en az bir organizasyonda staff olmak gerekir
+    if (user.role === Role.OrganizationOwner && staffOf.length > 0) {
+      can(Action.Update, 'AidRequest', { organizationId: null });
+    }
+    can(Action.Manage, 'Message', { organizationId: { $in: staffOf } });
+    // Staff stok hareketi girer, katalogu yöneticiler düzenler
+    can(Action.Create, 'StockMovement', { organizationId: { $in: staffOf } });
+    can(Action.Update, 'InKindDonation', { organizationId: { $in: staffOf } });
+
+    can(Action.Manage, ['AidRequest', 'Campaign', 'Event'], {
+      organizationId: { $in: managerOf },
+    });
+    can(Action.Update, 'Organization', { id: { $in: managerOf } });
+    can(Action.Manage, ['OrganizationMember', 'InventoryItem'], {
+      organizationId: { $in: managerOf },
+    });
+
+    can(Action.Manage, 'Organization', { id: { $in: ownerOf } });
   }
 }
@@ -1,5 +1,8 @@
 import { Injectable, InternalServerErrorException } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { FULFILLED_AID_REQUEST_STATUSES } from '../aid-requests/aid-request-status';
+import { getInKindDonationTotals } from '../donors/donation-statistics.util';
+import { DonationStatus } from '../donors/donation-status';
 
 @Injectable()
 export class DashboardService {
@@ -15,7 +18,7 @@ export class DashboardService {
       const deliveredAidRequests = await this.prisma.aidRequest.count({
         where: {
           isDeleted: false,
-          status: 'Delivered',
+          status: { in: FULFILLED_AID_REQUEST_STATUSES },
         },
       });
 
@@ -146,12 +149,14 @@ export class DashboardService {
 
   async getDonationStats() {
     try {
-      // Get all donations
-      const donations = await this.prisma.donation.findMany();
+      // Get all collected donations
+      const donations = await this.prisma.donation.findMany({
+        where: { status: DonationStatus.Succeeded },
+      });
 
       // Get anonymous donations
       const anonymousDonations = await this.prisma.donation.findMany({
-        where: { anonymous: true },
+        where: { anonymous: true, status: DonationStatus.Succeeded },
       });
 
       const totalAmount = donations.reduce(
@@ -169,11 +174,15 @@ export class DashboardService {
           DATE_TRUNC('month', "createdAt") as month, 
           SUM(amount) as total
         FROM "Donation"
+        WHERE status = ${DonationStatus.Succeeded}
         GROUP BY month
         ORDER BY month
       `;
 
-      return {
+      const inKind = await getInKindDonationTotals(this.prisma);
+
+      // Parasal alanlar üst düzeyde de korunur; ayni bağışlar ayrı raporlanır
+      const monetary = {
         totalDonations: donations.length,
         anonymousDonations: anonymousDonations.length,
         totalAmount,
@@ -184,6 +193,8 @@ export class DashboardService {
           donations.length > 0 ? totalAmount / donations.length : 0,
         donationsByMonth,
       };
+
+      return { ...monetary, monetary, inKind };
     } catch (error) {
       throw new InternalServerErrorException(
         `Bağış istatistikleri alınırken bir hata oluştu: ${error.message}`,
@@ -231,7 +242,7 @@ export class DashboardService {
 
         locationClusters[locationKey].totalRequests++;
 
-        if (request.status === 'Delivered') {
+        if (FULFILLED_AID_REQUEST_STATUSES.includes(request.status)) {
           locationClusters[locationKey].deliveredRequests++;
         }
 
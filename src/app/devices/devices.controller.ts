@@ -0,0 +1,77 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { DevicesService } from './devices.service';
+import { RegisterDeviceDto } from './dto/register-device.dto';
+
+@ApiTags('devices')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('devices')
+export class DevicesController {
+  constructor(private readonly devicesService: DevicesService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List devices registered for push notifications' })
+  @ApiResponse({ status: 200, description: 'Kayıtlı cihazlar' })
+  async list(@Req() req: RequestWithUser) {
+    return this.devicesService.list(req.user.id);
+  }
+
+  @Post()
+  @ApiOperation({ summary: 'Register or refresh a device push token' })
+  @ApiBody({ type: RegisterDeviceDto })
+  @ApiResponse({ status: 201, description: 'Cihaz kaydedildi' })
+  @ApiResponse({ status: 400, description: 'Geçersiz token veya platform' })
+  async register(
+    @Req() req: RequestWithUser,
+    @Body() registerDto: RegisterDeviceDto,
+  ) {
+    return this.devicesService.register(req.user, registerDto);
+  }
+
+  @Post('topics/:topic')
+  @ApiOperation({ summary: 'Subscribe all devices of the user to a topic' })
+  @ApiParam({ name: 'topic', description: 'Örn. organization-12' })
+  @ApiResponse({ status: 201, description: 'Konuya abone olundu' })
+  @ApiResponse({ status: 403, description: 'Organizasyon üyesi değilsiniz' })
+  async subscribe(@Req() req: RequestWithUser, @Param('topic') topic: string) {
+    return this.devicesService.subscribeToTopic(req.user, topic);
+  }
+
+  @Delete('topics/:topic')
+  @ApiOperation({ summary: 'Unsubscribe all devices of the user from a topic' })
+  @ApiParam({ name: 'topic', description: 'Örn. organization-12' })
+  @ApiResponse({ status: 200, description: 'Konu aboneliği kaldırıldı' })
+  async unsubscribe(
+    @Req() req: RequestWithUser,
+    @Param('topic') topic: string,
+  ) {
+    return this.devicesService.unsubscribeFromTopic(req.user.id, topic);
+  }
+
+  @Delete(':token')
+  @ApiOperation({ summary: 'Remove a registered device token' })
+  @ApiParam({ name: 'token', description: 'FCM kayıt token değeri' })
+  @ApiResponse({ status: 404, description: 'Cihaz kaydı bulunamadı' })
+  async remove(@Req() req: RequestWithUser, @Param('token') token: string) {
+    return this.devicesService.remove(req.user.id, token);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { FirebaseAdminService } from '../firebase/fcm/firebase-admin.service';
+import { DevicesService } from './devices.service';
+import { DevicesController } from './devices.controller';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [DevicesService, FirebaseAdminService],
+  controllers: [DevicesController],
+  exports: [DevicesService],
+})
+export class DevicesModule {}
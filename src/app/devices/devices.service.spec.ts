@@ -0,0 +1,181 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { DevicesService } from './devices.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { FirebaseAdminService } from '../firebase/fcm/firebase-admin.service';
+
+describe('DevicesService', () => {
+  let service: DevicesService;
+  let prismaService: PrismaService;
+  let firebaseAdminService: FirebaseAdminService;
+
+  const member = {
+    id: 3,
+    role: 'user',
+    memberships: [{ organizationId: 4, role: 'viewer' }],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DevicesService,
+        {
+          provide: PrismaService,
+          useValue: {
+            deviceToken: {
+              findMany: jest.fn().mockResolvedValue([]),
+              findUnique: jest.fn(),
+              upsert: jest.fn(),
+              update: jest.fn(),
+              delete: jest.fn(),
+            },
+            organization: {
+              findUnique: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: FirebaseAdminService,
+          useValue: {
+            subscribeToTopic: jest.fn(),
+            unsubscribeFromTopic: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DevicesService>(DevicesService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    firebaseAdminService =
+      module.get<FirebaseAdminService>(FirebaseAdminService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('register', () => {
+    it('should upsert the token and subscribe it to existing topics', async () => {
+      jest
+        .spyOn(prismaService.deviceToken, 'findMany')
+        .mockResolvedValue([{ topics: ['organization-4'] }] as any);
+
+      await service.register(member, { token: 'abc', platform: 'android' });
+
+      expect(prismaService.deviceToken.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { token: 'abc' },
+          update: expect.objectContaining({
+            userId: 3,
+            platform: 'android',
+            topics: ['organization-4'],
+          }),
+        }),
+      );
+      expect(firebaseAdminService.subscribeToTopic).toHaveBeenCalledWith(
+        ['abc'],
+        'organization-4',
+      );
+    });
+
+    it("should move a token off the previous user's topics", async () => {
+      jest.spyOn(prismaService.deviceToken, 'findUnique').mockResolvedValue({
+        token: 'abc',
+        userId: 2,
+        topics: ['organization-7'],
+      } as any);
+
+      await service.register(member, { token: 'abc', platform: 'android' });
+
+      expect(firebaseAdminService.unsubscribeFromTopic).toHaveBeenCalledWith(
+        ['abc'],
+        'organization-7',
+      );
+      expect(firebaseAdminService.subscribeToTopic).not.toHaveBeenCalled();
+    });
+
+    it('should not carry over topics of organizations the user left', async () => {
+      jest
+        .spyOn(prismaService.deviceToken, 'findMany')
+        .mockResolvedValue([
+          { topics: ['organization-4', 'organization-7'] },
+        ] as any);
+
+      await service.register(member, { token: 'abc', platform: 'ios' });
+
+      expect(prismaService.deviceToken.upsert).toHaveBeenCalledWith(
+        expect.objectContaining({
+          update: expect.objectContaining({ topics: ['organization-4'] }),
+        }),
+      );
+    });
+
+    it('should reject unknown platforms', async () => {
+      await expect(
+        service.register(member, { token: 'abc', platform: 'symbian' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('remove', () => {
+    it("should not remove another user's device", async () => {
+      jest
+        .spyOn(prismaService.deviceToken, 'findUnique')
+        .mockResolvedValue({ token: 'abc', userId: 2, topics: [] } as any);
+
+      await expect(service.remove(3, 'abc')).rejects.toThrow(NotFoundException);
+      expect(prismaService.deviceToken.delete).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('subscribeToTopic', () => {
+    it('should only subscribe devices missing the topic', async () => {
+      jest.spyOn(prismaService.organization, 'findUnique').mockResolvedValue({
+        id: 4,
+      } as any);
+      jest.spyOn(prismaService.deviceToken, 'findMany').mockResolvedValue([
+        { id: 1, token: 'a', topics: [] },
+        { id: 2, token: 'b', topics: ['organization-4'] },
+      ] as any);
+
+      await service.subscribeToTopic(member, 'organization-4');
+
+      expect(firebaseAdminService.subscribeToTopic).toHaveBeenCalledWith(
+        ['a'],
+        'organization-4',
+      );
+      expect(prismaService.deviceToken.update).toHaveBeenCalledTimes(1);
+    });
+
+    it('should reject topics of unknown organizations', async () => {
+      jest
+        .spyOn(prismaService.organization, 'findUnique')
+        .mockResolvedValue(null);
+
+      await expect(
+        service.subscribeToTopic(member, 'organization-99'),
+      ).rejects.toThrow(NotFoundException);
+    });
+
+    it('should not subscribe non-members to organization topics', async () => {
+      jest.spyOn(prismaService.organization, 'findUnique').mockResolvedValue({
+        id: 7,
+      } as any);
+
+      await expect(
+        service.subscribeToTopic(member, 'organization-7'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(firebaseAdminService.subscribeToTopic).not.toHaveBeenCalled();
+    });
+
+    it('should reject invalid topic names', async () => {
+      await expect(
+        service.subscribeToTopic(member, 'bad topic!'),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
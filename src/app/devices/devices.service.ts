@@ -0,0 +1,204 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { PrismaService } from '../prisma/prisma.service';
+import { FirebaseAdminService } from '../firebase/fcm/firebase-admin.service';
+import { Role } from '../casl/action';
+import { AbilityUser } from '../casl/casl-ability.factory';
+import {
+  OrganizationMemberRole,
+  organizationIdsWithRole,
+} from '../organizations/organization-member';
+import { DEVICE_PLATFORMS, RegisterDeviceDto } from './dto/register-device.dto';
+
+// FCM konu adı kuralı
+const TOPIC_PATTERN = /^[a-zA-Z0-9-_.~%]{1,900}$/;
+const ORGANIZATION_TOPIC_PATTERN = /^organization-(\d+)$/;
+const MAX_TOKEN_LENGTH = 4096;
+
+/**
+ * Kullanıcı cihazlarının FCM token kayıtları. Konu abonelikleri hem FCM'de hem
+ * token kaydında tutulur; böylece yeni cihaz kaydolduğunda kullanıcının
+ * mevcut konularına otomatik abone edilir.
+ */
+@Injectable()
+export class DevicesService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly firebaseAdminService: FirebaseAdminService,
+  ) {}
+
+  async list(userId: number) {
+    return this.prisma.deviceToken.findMany({
+      where: { userId },
+      orderBy: { lastSeenAt: 'desc' },
+    });
+  }
+
+  async register(user: AbilityUser, registerDto: RegisterDeviceDto) {
+    const token = registerDto.token?.trim();
+    if (!token || token.length > MAX_TOKEN_LENGTH) {
+      throw new BadRequestException('Geçerli bir cihaz token değeri gerekli');
+    }
+    if (!DEVICE_PLATFORMS.includes(registerDto.platform as any)) {
+      throw new BadRequestException(
+        `Geçersiz platform. Geçerli değerler: ${DEVICE_PLATFORMS.join(', ')}`,
+      );
+    }
+
+    // Aynı token başka bir hesapla kayıtlıysa son giriş yapan kullanıcıya
+    // geçer; önceki kullanıcının konularından çıkarılır
+    const existing = await this.prisma.deviceToken.findUnique({
+      where: { token },
+    });
+    if (existing && existing.userId !== user.id) {
+      await Promise.all(
+        existing.topics.map((topic) =>
+          this.firebaseAdminService.unsubscribeFromTopic([token], topic),
+        ),
+      );
+    }
+
+    // Üyeliği sona eren organizasyonların konuları yeni cihaza taşınmaz
+    const topics = (await this.getUserTopics(user.id)).filter((topic) =>
+      this.canSubscribe(user, topic),
+    );
+    const data = {
+      userId: user.id,
+      platform: registerDto.platform,
+      appVersion: registerDto.appVersion ?? null,
+      topics,
+      lastSeenAt: new Date(),
+    };
+
+    const device = await this.prisma.deviceToken.upsert({
+      where: { token },
+      create: { token, ...data },
+      update: data,
+    });
+
+    await Promise.all(
+      topics.map((topic) =>
+        this.firebaseAdminService.subscribeToTopic([token], topic),
+      ),
+    );
+
+    return device;
+  }
+
+  async remove(userId: number, token: string) {
+    const device = await this.prisma.deviceToken.findUnique({
+      where: { token },
+    });
+    if (!device || device.userId !== userId) {
+      throw new NotFoundException('Cihaz kaydı bulunamadı');
+    }
+
+    await Promise.all(
+      device.topics.map((topic) =>
+        this.firebaseAdminService.unsubscribeFromTopic([token], topic),
+      ),
+    );
+    await this.prisma.deviceToken.delete({ where: { token } });
+
+    return { message: 'Cihaz kaydı silindi' };
+  }
+
+  async subscribeToTopic(user: AbilityUser, topic: string) {
+    await this.validateTopic(topic);
+    if (!this.canSubscribe(user, topic)) {
+      throw new ForbiddenException(
+        'Bu organizasyonun bildirimlerine abone olma yetkiniz yok',
+      );
+    }
+    const devices = await this.prisma.deviceToken.findMany({
+      where: { userId: user.id },
+    });
+
+    const pending = devices.filter((device) => !device.topics.includes(topic));
+    await this.firebaseAdminService.subscribeToTopic(
+      pending.map((device) => device.token),
+      topic,
+    );
+    await Promise.all(
+      pending.map((device) =>
+        this.prisma.deviceToken.update({
+          where: { id: device.id },
+          data: { topics: { push: topic } },
+        }),
+      ),
+    );
+
+    return { topic, devices: devices.length };
+  }
+
+  // Üyelikten çıkan kullanıcılar da aboneliklerini kaldırabilmeli; burada
+  // yalnızca konu adı doğrulanır
+  async unsubscribeFromTopic(userId: number, topic: string) {
+    if (!TOPIC_PATTERN.test(topic ?? '')) {
+      throw new BadRequestException('Geçersiz konu adı');
+    }
+    const devices = await this.prisma.deviceToken.findMany({
+      where: { userId, topics: { has: topic } },
+    });
+
+    await this.firebaseAdminService.unsubscribeFromTopic(
+      devices.map((device) => device.token),
+      topic,
+    );
+    await Promise.all(
+      devices.map((device) =>
+        this.prisma.deviceToken.update({
+          where: { id: device.id },
+          data: { topics: device.topics.filter((item) => item !== topic) },
+        }),
+      ),
+    );
+
+    return { topic, devices: devices.length };
+  }
+
+  private async validateTopic(topic: string) {
+    if (!TOPIC_PATTERN.test(topic ?? '')) {
+      throw new BadRequestException('Geçersiz konu adı');
+    }
+
+    const match = ORGANIZATION_TOPIC_PATTERN.exec(topic);
+    if (match) {
+      const organization = await this.prisma.organization.findUnique({
+        where: { id: Number(match[1]) },
+        select: { id: true },
+      });
+      if (!organization) {
+        throw new NotFoundException(
+          `${match[1]} ID'li organizasyon bulunamadı`,
+        );
+      }
+    }
+  }
+
+  // Organizasyon konularına yalnızca o organizasyonun üyeleri abone olabilir
+  private canSubscribe(user: AbilityUser, topic: string) {
+    const match = ORGANIZATION_TOPIC_PATTERN.exec(topic);
+    if (!match || user.role === Role.Admin) {
+      return true;
+    }
+
+    return organizationIdsWithRole(
+      user.memberships,
+      OrganizationMemberRole.Viewer,
+    ).includes(Number(match[1]));
+  }
+
+  // Kullanıcının diğer cihazlarında abone olduğu konular
+  private async getUserTopics(userId: number) {
+    const devices = await this.prisma.deviceToken.findMany({
+      where: { userId },
+      select: { topics: true },
+    });
+    return [...new Set(devices.flatMap((device) => device.topics))];
+  }
+}
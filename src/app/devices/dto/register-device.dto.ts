@@ -0,0 +1,20 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsNotEmpty, IsOptional, IsString } from 'class-validator';
+
+export const DEVICE_PLATFORMS = ['ios', 'android', 'web'] as const;
+
+export class RegisterDeviceDto {
+  @ApiProperty({ description: 'FCM kayıt token değeri' })
+  @IsString()
+  @IsNotEmpty()
+  readonly token: string;
+
+  @ApiProperty({ enum: DEVICE_PLATFORMS, description: 'Cihaz platformu' })
+  @IsIn(DEVICE_PLATFORMS)
+  readonly platform: string;
+
+  @ApiProperty({ required: false, description: 'Uygulama sürümü' })
+  @IsOptional()
+  @IsString()
+  readonly appVersion?: string;
+}
@@ -0,0 +1,49 @@
+import { PrismaService } from '../prisma/prisma.service';
+import { InKindDonationStatus } from './in-kind-donation';
+
+// Teslim alınmış sayılan ayni bağışlar
+const RECEIVED_IN_KIND_STATUSES: string[] = [
+  InKindDonationStatus.Received,
+  InKindDonationStatus.Distributed,
+];
+
+/**
+ * Ayni bağış toplamları. Değer ve miktar toplamlarına yalnızca teslim
+ * alınan bağışlar girer; bekleyen taahhütler ayrıca raporlanır.
+ */
+export async function getInKindDonationTotals(prisma: PrismaService) {
+  const [byStatus, quantities] = await Promise.all([
+    prisma.inKindDonation.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+      _sum: { estimatedValue: true },
+    }),
+    prisma.inKindDonationItem.groupBy({
+      by: ['unit'],
+      where: { donation: { status: { in: RECEIVED_IN_KIND_STATUSES } } },
+      _sum: { quantity: true },
+    }),
+  ]);
+
+  const countOf = (statuses: string[]) =>
+    byStatus
+      .filter((group) => statuses.includes(group.status))
+      .reduce((sum, group) => sum + group._count._all, 0);
+  const valueOf = (statuses: string[]) =>
+    byStatus
+      .filter((group) => statuses.includes(group.status))
+      .reduce((sum, group) => sum + (group._sum.estimatedValue ?? 0), 0);
+
+  return {
+    receivedDonations: countOf(RECEIVED_IN_KIND_STATUSES),
+    pledgedDonations: countOf([InKindDonationStatus.Pledged]),
+    estimatedValue: valueOf(RECEIVED_IN_KIND_STATUSES),
+    pledgedValue: valueOf([InKindDonationStatus.Pledged]),
+    byStatus: Object.fromEntries(
+      byStatus.map((group) => [group.status, group._count._all]),
+    ),
+    quantitiesByUnit: Object.fromEntries(
+      quantities.map((group) => [group.unit, group._sum.quantity ?? 0]),
+    ),
+  };
+}
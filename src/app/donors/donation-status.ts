@@ -0,0 +1,6 @@
+export enum DonationStatus {
+  Pending = 'pending',
+  Succeeded = 'succeeded',
+  Failed = 'failed',
+  Refunded = 'refunded',
+}
@@ -0,0 +1,52 @@
+export enum DonationSubscriptionInterval {
+  Weekly = 'weekly',
+  Monthly = 'monthly',
+  Yearly = 'yearly',
+}
+
+export enum DonationSubscriptionStatus {
+  Active = 'active',
+  Paused = 'paused',
+  // Tüm yeniden denemeler başarısız oldu; bağışçı devam ettirene kadar çekim yapılmaz
+  PastDue = 'past_due',
+  Cancelled = 'cancelled',
+}
+
+// Başarısız çekimden sonraki yeniden deneme aralıkları (gün)
+export const DUNNING_RETRY_DAYS = [1, 3, 7];
+
+const MONTHS_PER_INTERVAL: Record<string, number> = {
+  [DonationSubscriptionInterval.Monthly]: 1,
+  [DonationSubscriptionInterval.Yearly]: 12,
+};
+
+// Serinin n'inci çekim tarihi; ay sonuna denk gelen gün kısa aylarda son güne çekilir
+function chargeDateAt(startDate: Date, interval: string, index: number): Date {
+  if (interval === DonationSubscriptionInterval.Weekly) {
+    return new Date(startDate.getTime() + index * 7 * 24 * 60 * 60 * 1000);
+  }
+
+  const date = new Date(startDate);
+  date.setUTCDate(1);
+  date.setUTCMonth(date.getUTCMonth() + index * MONTHS_PER_INTERVAL[interval]);
+  const daysInMonth = new Date(
+    Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0),
+  ).getUTCDate();
+  date.setUTCDate(Math.min(startDate.getUTCDate(), daysInMonth));
+  return date;
+}
+
+// Başlangıç tarihinden itibaren verilen andan sonraki ilk çekim tarihi
+export function nextChargeDate(
+  startDate: Date,
+  interval: string,
+  after: Date,
+): Date {
+  let index = 0;
+  let date = startDate;
+  while (date <= after) {
+    index++;
+    date = chargeDateAt(startDate, interval, index);
+  }
+  return date;
+}
@@ -0,0 +1,90 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { DonationSubscriptionsService } from './donation-subscriptions.service';
+import { CreateDonationSubscriptionDto } from './dto/create-donation-subscription.dto';
+
+@ApiTags('donors')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('donors')
+export class DonationSubscriptionsController {
+  constructor(
+    private readonly donationSubscriptionsService: DonationSubscriptionsService,
+  ) {}
+
+  @Post('subscriptions')
+  @ApiOperation({ summary: 'Start a recurring (monthly giving) donation' })
+  @ApiBody({ type: CreateDonationSubscriptionDto })
+  @ApiResponse({ status: 201, description: 'Düzenli bağış oluşturuldu' })
+  async create(
+    @Req() req: RequestWithUser,
+    @Body() createDto: CreateDonationSubscriptionDto,
+  ) {
+    return this.donationSubscriptionsService.create(req.user, createDto);
+  }
+
+  @Get('subscriptions/my')
+  @ApiOperation({ summary: 'Get current user recurring donations' })
+  async findMine(@Req() req: RequestWithUser) {
+    return this.donationSubscriptionsService.findMine(req.user.id);
+  }
+
+  @Get('subscriptions/:id')
+  @ApiOperation({ summary: 'Get a recurring donation with its charges' })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.donationSubscriptionsService.findOne(id, req.user);
+  }
+
+  @Patch('subscriptions/:id/pause')
+  @ApiOperation({ summary: 'Pause a recurring donation' })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  async pause(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.donationSubscriptionsService.pause(id, req.user);
+  }
+
+  @Patch('subscriptions/:id/resume')
+  @ApiOperation({ summary: 'Resume a paused or past due recurring donation' })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  async resume(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.donationSubscriptionsService.resume(id, req.user);
+  }
+
+  @Patch('subscriptions/:id/cancel')
+  @ApiOperation({ summary: 'Cancel a recurring donation' })
+  @ApiParam({ name: 'id', description: 'Subscription ID' })
+  async cancel(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.donationSubscriptionsService.cancel(id, req.user);
+  }
+}
@@ -0,0 +1,398 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { DonationSubscriptionsService } from './donation-subscriptions.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PaymentsService } from '../payments/payments.service';
+import {
+  DonationSubscriptionInterval,
+  nextChargeDate,
+} from './donation-subscription';
+
+describe('DonationSubscriptionsService', () => {
+  let service: DonationSubscriptionsService;
+  let prismaService: PrismaService;
+  let paymentsService: PaymentsService;
+  let outboxService: OutboxService;
+
+  const donorUser = { id: 9, role: 'user' };
+
+  const subscription = (overrides = {}) => ({
+    id: 11,
+    donorId: 3,
+    userId: 9,
+    amount: 100,
+    currency: 'TRY',
+    interval: 'monthly',
+    anonymous: false,
+    status: 'active',
+    startDate: new Date('2026-01-31T09:00:00Z'),
+    nextChargeAt: new Date('2026-03-31T09:00:00Z'),
+    retryAt: null,
+    failedAttempts: 0,
+    pendingDonationId: null,
+    donor: { id: 3, name: 'Ayşe Yılmaz', email: 'ayse@example.com' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DonationSubscriptionsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            donor: {
+              findUnique: jest.fn().mockResolvedValue({
+                id: 3,
+                name: 'Ayşe Yılmaz',
+                email: 'ayse@example.com',
+              }),
+            },
+            user: {
+              findUnique: jest
+                .fn()
+                .mockResolvedValue({ email: 'Ayse@example.com' }),
+            },
+            donation: {
+              create: jest.fn().mockResolvedValue({ id: 50, amount: 100 }),
+              delete: jest.fn(),
+            },
+            donationSubscription: {
+              create: jest.fn((args) =>
+                Promise.resolve(subscription({ ...args.data })),
+              ),
+              findUnique: jest.fn(),
+              findMany: jest.fn().mockResolvedValue([]),
+              update: jest.fn((args) =>
+                Promise.resolve(subscription({ ...args.data })),
+              ),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+          },
+        },
+        {
+          provide: PaymentsService,
+          useValue: { startPayment: jest.fn() },
+        },
+        {
+          provide: OutboxService,
+          useValue: { enqueueEmail: jest.fn() },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DonationSubscriptionsService>(
+      DonationSubscriptionsService,
+    );
+    prismaService = module.get<PrismaService>(PrismaService);
+    paymentsService = module.get<PaymentsService>(PaymentsService);
+    outboxService = module.get<OutboxService>(OutboxService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('nextChargeDate', () => {
+    it('should keep the billing day and clamp it to short months', () => {
+      const start = new Date('2026-01-31T09:00:00Z');
+
+      expect(
+        nextChargeDate(start, DonationSubscriptionInterval.Monthly, start),
+      ).toEqual(new Date('2026-02-28T09:00:00Z'));
+      expect(
+        nextChargeDate(
+          start,
+          DonationSubscriptionInterval.Monthly,
+          new Date('2026-02-28T09:00:00Z'),
+        ),
+      ).toEqual(new Date('2026-03-31T09:00:00Z'));
+    });
+  });
+
+  describe('create', () => {
+    it('should schedule the first charge and email a confirmation', async () => {
+      await service.create(donorUser, { donorId: 3, amount: 100 });
+
+      expect(prismaService.donationSubscription.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            donorId: 3,
+            userId: 9,
+            amount: 100,
+            currency: 'TRY',
+            interval: 'monthly',
+            nextChargeAt: expect.any(Date),
+          }),
+        }),
+      );
+      expect(outboxService.enqueueEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'ayse@example.com',
+          subject: 'Düzenli bağışınız oluşturuldu',
+        }),
+      );
+    });
+
+    it("should not subscribe on behalf of someone else's donor record", async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ email: 'mehmet@example.com' } as any);
+
+      await expect(
+        service.create(donorUser, { donorId: 3, amount: 100 }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.donationSubscription.create).not.toHaveBeenCalled();
+      expect(outboxService.enqueueEmail).not.toHaveBeenCalled();
+    });
+
+    it('should escape the donor name in the email body', async () => {
+      jest
+        .spyOn(prismaService.donationSubscription, 'create')
+        .mockResolvedValue(
+          subscription({
+            donor: {
+              id: 3,
+              name: '<img src=x onerror=alert(1)>',
+              email: 'ayse@example.com',
+            },
+          }) as any,
+        );
+
+      await service.create(donorUser, { donorId: 3, amount: 100 });
+
+      const { html } = (outboxService.enqueueEmail as jest.Mock).mock
+        .calls[0][0];
+      expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+      expect(html).not.toContain('<img');
+    });
+
+    it('should reject unsupported currencies', async () => {
+      await expect(
+        service.create(donorUser, { donorId: 3, amount: 100, currency: 'USD' }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.donationSubscription.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('pause/resume/cancel', () => {
+    it('should not let other users pause a subscription', async () => {
+      jest
+        .spyOn(prismaService.donationSubscription, 'findUnique')
+        .mockResolvedValue(subscription({ userId: 2 }) as any);
+
+      await expect(service.pause(11, donorUser)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+
+    it('should resume from the next period without charging missed ones', async () => {
+      jest
+        .spyOn(prismaService.donationSubscription, 'findUnique')
+        .mockResolvedValue(
+          subscription({
+            status: 'past_due',
+            failedAttempts: 3,
+            nextChargeAt: new Date('2020-01-31T09:00:00Z'),
+          }) as any,
+        );
+
+      await service.resume(11, donorUser);
+
+      expect(prismaService.donationSubscription.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 11, status: 'past_due' },
+          data: expect.objectContaining({
+            status: 'active',
+            failedAttempts: 0,
+            retryAt: null,
+            nextChargeAt: expect.any(Date),
+          }),
+        }),
+      );
+      const { data } = (prismaService.donationSubscription.update as jest.Mock)
+        .mock.calls[0][0];
+      expect(data.nextChargeAt.getTime()).toBeGreaterThan(Date.now());
+      expect(data.nextChargeAt.getUTCDate()).toBeGreaterThanOrEqual(28);
+    });
+
+    it('should not resume a cancelled subscription', async () => {
+      jest
+        .spyOn(prismaService.donationSubscription, 'findUnique')
+        .mockResolvedValue(subscription({ status: 'cancelled' }) as any);
+
+      await expect(service.resume(11, donorUser)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('processDueSubscriptions', () => {
+    it('should create a pending donation through the payment provider', async () => {
+      jest
+        .spyOn(prismaService.donationSubscription, 'findMany')
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([subscription()] as any);
+
+      const result = await service.processDueSubscriptions();
+
+      expect(result).toEqual({ charged: 1, settled: 0 });
+      expect(prismaService.donation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: 100,
+          status: 'pending',
+          subscriptionId: 11,
+        }),
+      });
+      expect(
+        prismaService.donationSubscription.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { id: 11, status: 'active', pendingDonationId: null },
+        data: { pendingDonationId: 50 },
+      });
+      expect(paymentsService.startPayment).toHaveBeenCalledWith(
+        expect.objectContaining({ id: 50 }),
+      );
+    });
+
+    it('should drop the donation when another run already claimed the charge', async () => {
+      jest
+        .spyOn(prismaService.donationSubscription, 'findMany')
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([subscription()] as any);
+      jest
+        .spyOn(prismaService.donationSubscription, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      const result = await service.processDueSubscriptions();
+
+      expect(result).toEqual({ charged: 0, settled: 0 });
+      expect(prismaService.donation.delete).toHaveBeenCalledWith({
+        where: { id: 50 },
+      });
+      expect(paymentsService.startPayment).not.toHaveBeenCalled();
+    });
+
+    it('should keep the charge when the provider is unavailable', async () => {
+      jest
+        .spyOn(prismaService.donationSubscription, 'findMany')
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([subscription()] as any);
+      jest
+        .spyOn(paymentsService, 'startPayment')
+        .mockRejectedValue(new ServiceUnavailableException());
+
+      const result = await service.processDueSubscriptions();
+
+      expect(result).toEqual({ charged: 1, settled: 0 });
+    });
+
+    it('should advance to the next period after a successful charge', async () => {
+      jest
+        .spyOn(prismaService.donationSubscription, 'findMany')
+        .mockResolvedValueOnce([
+          subscription({
+            pendingDonationId: 50,
+            pendingDonation: { id: 50, status: 'succeeded' },
+          }),
+        ] as any)
+        .mockResolvedValueOnce([]);
+
+      const result = await service.processDueSubscriptions();
+
+      expect(result).toEqual({ charged: 0, settled: 1 });
+      expect(
+        prismaService.donationSubscription.updateMany,
+      ).toHaveBeenCalledWith({
+        where: { id: 11, pendingDonationId: 50 },
+        data: expect.objectContaining({
+          pendingDonationId: null,
+          failedAttempts: 0,
+          retryAt: null,
+          lastChargedAt: expect.any(Date),
+        }),
+      });
+      expect(outboxService.enqueueEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ subject: 'Düzenli bağışınız alındı' }),
+      );
+    });
+
+    it('should schedule a retry after a failed charge', async () => {
+      jest
+        .spyOn(prismaService.donationSubscription, 'findMany')
+        .mockResolvedValueOnce([
+          subscription({
+            pendingDonationId: 50,
+            pendingDonation: {
+              id: 50,
+              status: 'failed',
+              failureReason: 'Yetersiz bakiye',
+            },
+          }),
+        ] as any)
+        .mockResolvedValueOnce([]);
+
+      await service.processDueSubscriptions();
+
+      expect(
+        prismaService.donationSubscription.updateMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          id: 11,
+          pendingDonationId: 50,
+          pendingDonation: { status: 'failed' },
+        },
+        data: {
+          pendingDonationId: null,
+          failedAttempts: 1,
+          retryAt: expect.any(Date),
+        },
+      });
+      expect(outboxService.enqueueEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          subject: 'Düzenli bağışınızın ödemesi alınamadı',
+          text: expect.stringContaining('Yetersiz bakiye'),
+        }),
+      );
+    });
+
+    it('should mark the subscription past due when the retries run out', async () => {
+      jest
+        .spyOn(prismaService.donationSubscription, 'findMany')
+        .mockResolvedValueOnce([
+          subscription({
+            failedAttempts: 3,
+            pendingDonationId: 50,
+            pendingDonation: { id: 50, status: 'failed', failureReason: null },
+          }),
+        ] as any)
+        .mockResolvedValueOnce([]);
+
+      await service.processDueSubscriptions();
+
+      expect(
+        prismaService.donationSubscription.updateMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          id: 11,
+          pendingDonationId: 50,
+          pendingDonation: { status: 'failed' },
+        },
+        data: {
+          pendingDonationId: null,
+          failedAttempts: 4,
+          status: 'past_due',
+          retryAt: null,
+        },
+      });
+      expect(outboxService.enqueueEmail).toHaveBeenCalledWith(
+        expect.objectContaining({ subject: 'Düzenli bağışınız askıya alındı' }),
+      );
+    });
+  });
+});
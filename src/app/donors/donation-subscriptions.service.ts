@@ -0,0 +1,508 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { PaymentsService } from '../payments/payments.service';
+import { PAYMENT_CURRENCY } from '../payments/payment';
+import { escapeHtml } from '../outbox/email-html.util';
+import { AbilityUser } from '../casl/casl-ability.factory';
+import { Role } from '../casl/action';
+import { DonationStatus } from './donation-status';
+import {
+  DUNNING_RETRY_DAYS,
+  DonationSubscriptionInterval,
+  DonationSubscriptionStatus,
+  nextChargeDate,
+} from './donation-subscription';
+import { CreateDonationSubscriptionDto } from './dto/create-donation-subscription.dto';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const SUBSCRIPTION_INCLUDE = {
+  donor: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.DonationSubscriptionInclude;
+
+type SubscriptionWithDonor = Prisma.DonationSubscriptionGetPayload<{
+  include: typeof SUBSCRIPTION_INCLUDE;
+}>;
+
+const INTERVAL_LABELS: Record<string, string> = {
+  [DonationSubscriptionInterval.Weekly]: 'haftalık',
+  [DonationSubscriptionInterval.Monthly]: 'aylık',
+  [DonationSubscriptionInterval.Yearly]: 'yıllık',
+};
+
+/**
+ * Düzenli bağışlar. Zamanı gelen her dönem için ödeme altyapısı üzerinden
+ * "pending" bir bağış oluşturulur; sonucu sonraki çalışmada okunur. Başarısız
+ * çekimler DUNNING_RETRY_DAYS aralıklarıyla yeniden denenir, denemeler
+ * tükenince abonelik past_due durumuna alınır.
+ */
+@Injectable()
+export class DonationSubscriptionsService {
+  private readonly logger = new Logger(DonationSubscriptionsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly paymentsService: PaymentsService,
+    private readonly outboxService: OutboxService,
+  ) {}
+
+  async create(user: AbilityUser, createDto: CreateDonationSubscriptionDto) {
+    const donor = await this.prisma.donor.findUnique({
+      where: { id: Number(createDto?.donorId) },
+    });
+    if (!donor) {
+      throw new NotFoundException(
+        `${createDto?.donorId} ID'li bağışçı bulunamadı`,
+      );
+    }
+    await this.assertOwnDonor(donor, user);
+
+    const amount = Number(createDto.amount);
+    if (!Number.isFinite(amount) || amount <= 0) {
+      throw new BadRequestException('Bağış miktarı sıfırdan büyük olmalıdır');
+    }
+
+    const currency = (createDto.currency ?? PAYMENT_CURRENCY).toUpperCase();
+    if (currency !== PAYMENT_CURRENCY) {
+      throw new BadRequestException(
+        `Düzenli bağışlar yalnızca ${PAYMENT_CURRENCY} ile yapılabilir`,
+      );
+    }
+
+    const interval = createDto.interval ?? DonationSubscriptionInterval.Monthly;
+    const intervals: string[] = Object.values(DonationSubscriptionInterval);
+    if (!intervals.includes(interval)) {
+      throw new BadRequestException(
+        `Geçersiz bağış sıklığı. Geçerli değerler: ${intervals.join(', ')}`,
+      );
+    }
+
+    const now = new Date();
+    const startDate = createDto.startDate ? new Date(createDto.startDate) : now;
+    if (isNaN(startDate.getTime())) {
+      throw new BadRequestException('Geçersiz başlangıç tarihi');
+    }
+    // Birkaç saniyelik saat farkı nedeniyle "şimdi" reddedilmesin
+    if (startDate.getTime() < now.getTime() - 60 * 1000) {
+      throw new BadRequestException('Başlangıç tarihi geçmişte olamaz');
+    }
+
+    const subscription = await this.prisma.donationSubscription.create({
+      data: {
+        donorId: donor.id,
+        userId: user.id,
+        amount: this.roundAmount(amount),
+        currency,
+        interval,
+        anonymous: Boolean(createDto.anonymous),
+        startDate,
+        nextChargeAt: startDate,
+      },
+      include: SUBSCRIPTION_INCLUDE,
+    });
+    this.logger.log(
+      `Donation subscription ${subscription.id} created for donor ${donor.id}`,
+    );
+
+    await this.sendEmail(
+      subscription,
+      'Düzenli bağışınız oluşturuldu',
+      `${this.describe(subscription)} düzenli bağışınız oluşturuldu. İlk çekim tarihi: ${this.formatDate(subscription.nextChargeAt)}`,
+    );
+
+    return subscription;
+  }
+
+  async findMine(userId: number) {
+    return this.prisma.donationSubscription.findMany({
+      where: { userId },
+      include: SUBSCRIPTION_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async findOne(id: number, user: AbilityUser) {
+    const subscription = await this.prisma.donationSubscription.findUnique({
+      where: { id },
+      include: {
+        ...SUBSCRIPTION_INCLUDE,
+        donations: { orderBy: { createdAt: 'desc' } },
+      },
+    });
+    if (!subscription) {
+      throw new NotFoundException(`${id} ID'li düzenli bağış bulunamadı`);
+    }
+
+    if (subscription.userId !== user.id && user.role !== Role.Admin) {
+      throw new ForbiddenException('Bu düzenli bağışı görüntüleme izniniz yok');
+    }
+
+    return subscription;
+  }
+
+  async pause(id: number, user: AbilityUser) {
+    const subscription = await this.findOwned(id, user);
+    if (subscription.status !== DonationSubscriptionStatus.Active) {
+      throw new BadRequestException(
+        'Yalnızca aktif düzenli bağışlar duraklatılabilir',
+      );
+    }
+
+    const paused = await this.updateStatus(subscription, {
+      status: DonationSubscriptionStatus.Paused,
+      pausedAt: new Date(),
+    });
+    await this.sendEmail(
+      paused,
+      'Düzenli bağışınız duraklatıldı',
+      `${this.describe(paused)} düzenli bağışınız duraklatıldı. Devam ettirene kadar çekim yapılmayacaktır.`,
+    );
+
+    return paused;
+  }
+
+  /**
+   * Duraklatılmış ya da ödemesi alınamamış abonelik bir sonraki dönemden
+   * devam eder; duraklatma süresince kaçırılan dönemler tahsil edilmez.
+   */
+  async resume(id: number, user: AbilityUser) {
+    const subscription = await this.findOwned(id, user);
+    const resumable: string[] = [
+      DonationSubscriptionStatus.Paused,
+      DonationSubscriptionStatus.PastDue,
+    ];
+    if (!resumable.includes(subscription.status)) {
+      throw new BadRequestException(
+        'Yalnızca duraklatılmış veya ödemesi alınamamış düzenli bağışlar devam ettirilebilir',
+      );
+    }
+
+    const now = new Date();
+    const nextChargeAt =
+      subscription.nextChargeAt > now
+        ? subscription.nextChargeAt
+        : nextChargeDate(subscription.startDate, subscription.interval, now);
+
+    const resumed = await this.updateStatus(subscription, {
+      status: DonationSubscriptionStatus.Active,
+      pausedAt: null,
+      nextChargeAt,
+      retryAt: null,
+      failedAttempts: 0,
+    });
+    await this.sendEmail(
+      resumed,
+      'Düzenli bağışınız yeniden başladı',
+      `${this.describe(resumed)} düzenli bağışınız yeniden başladı. Sonraki çekim tarihi: ${this.formatDate(nextChargeAt)}`,
+    );
+
+    return resumed;
+  }
+
+  // İptal kalıcıdır; sonucu beklenen son çekim yine de uzlaştırılır
+  async cancel(id: number, user: AbilityUser) {
+    const subscription = await this.findOwned(id, user);
+    if (subscription.status === DonationSubscriptionStatus.Cancelled) {
+      throw new BadRequestException('Düzenli bağış zaten iptal edilmiş');
+    }
+
+    const cancelled = await this.updateStatus(subscription, {
+      status: DonationSubscriptionStatus.Cancelled,
+      cancelledAt: new Date(),
+      retryAt: null,
+    });
+    await this.sendEmail(
+      cancelled,
+      'Düzenli bağışınız iptal edildi',
+      `${this.describe(cancelled)} düzenli bağışınız iptal edildi. Bundan sonra çekim yapılmayacaktır.`,
+    );
+
+    return cancelled;
+  }
+
+  // Sonuçlanan çekimleri uzlaştırır ve zamanı gelen abonelikler için çekim başlatır
+  @Cron(CronExpression.EVERY_MINUTE)
+  async processDueSubscriptions() {
+    const now = new Date();
+    let charged = 0;
+    let settled = 0;
+
+    try {
+      settled = await this.settleFinishedCharges(now);
+
+      const dueSubscriptions = await this.prisma.donationSubscription.findMany({
+        where: {
+          status: DonationSubscriptionStatus.Active,
+          pendingDonationId: null,
+          OR: [
+            { retryAt: null, nextChargeAt: { lte: now } },
+            { retryAt: { lte: now } },
+          ],
+        },
+        include: SUBSCRIPTION_INCLUDE,
+      });
+
+      for (const subscription of dueSubscriptions) {
+        try {
+          if (await this.charge(subscription)) charged++;
+        } catch (err) {
+          this.logger.error(
+            `Error charging donation subscription ${subscription.id}`,
+            err.stack,
+          );
+        }
+      }
+    } catch (err) {
+      this.logger.error('Error in donation subscriptions scheduler', err.stack);
+    }
+
+    return { charged, settled };
+  }
+
+  private async charge(subscription: SubscriptionWithDonor) {
+    const donation = await this.prisma.donation.create({
+      data: {
+        amount: subscription.amount,
+        donorId: subscription.donorId,
+        userId: subscription.userId,
+        anonymous: subscription.anonymous,
+        status: DonationStatus.Pending,
+        subscriptionId: subscription.id,
+      },
+    });
+
+    // Aboneliği sahiplen: başka bir örnek çekimi başlattıysa bağışı geri al
+    const claimed = await this.prisma.donationSubscription.updateMany({
+      where: {
+        id: subscription.id,
+        status: DonationSubscriptionStatus.Active,
+        pendingDonationId: null,
+      },
+      data: { pendingDonationId: donation.id },
+    });
+    if (claimed.count === 0) {
+      await this.prisma.donation.delete({ where: { id: donation.id } });
+      return false;
+    }
+
+    try {
+      await this.paymentsService.startPayment(donation);
+    } catch (err) {
+      // Bağış başarısız olarak işaretlendi; sonraki çalışmada yeniden denemeye alınır
+      this.logger.warn(
+        `Payment for subscription ${subscription.id} could not be started: ${err.message}`,
+      );
+    }
+    this.logger.log(
+      `Donation ${donation.id} created for subscription ${subscription.id}`,
+    );
+
+    return true;
+  }
+
+  private async settleFinishedCharges(now: Date) {
+    const finished = await this.prisma.donationSubscription.findMany({
+      where: {
+        pendingDonation: { status: { not: DonationStatus.Pending } },
+      },
+      include: { ...SUBSCRIPTION_INCLUDE, pendingDonation: true },
+    });
+
+    let settled = 0;
+    for (const subscription of finished) {
+      const donation = subscription.pendingDonation;
+      try {
+        if (donation.status === DonationStatus.Failed) {
+          await this.handleFailedCharge(subscription, donation.failureReason);
+        } else {
+          await this.handleSucceededCharge(subscription, donation.id, now);
+        }
+        settled++;
+      } catch (err) {
+        this.logger.error(
+          `Error settling donation ${donation.id} of subscription ${subscription.id}`,
+          err.stack,
+        );
+      }
+    }
+
+    return settled;
+  }
+
+  private async handleSucceededCharge(
+    subscription: SubscriptionWithDonor,
+    donationId: number,
+    now: Date,
+  ) {
+    const nextChargeAt = nextChargeDate(
+      subscription.startDate,
+      subscription.interval,
+      subscription.nextChargeAt > now ? subscription.nextChargeAt : now,
+    );
+
+    const { count } = await this.prisma.donationSubscription.updateMany({
+      where: { id: subscription.id, pendingDonationId: donationId },
+      data: {
+        pendingDonationId: null,
+        lastChargedAt: now,
+        nextChargeAt,
+        retryAt: null,
+        failedAttempts: 0,
+      },
+    });
+    if (count === 0) return;
+
+    await this.sendEmail(
+      subscription,
+      'Düzenli bağışınız alındı',
+      `${this.describe(subscription)} düzenli bağışınız başarıyla tahsil edildi. Desteğiniz için teşekkür ederiz.${
+        subscription.status === DonationSubscriptionStatus.Cancelled
+          ? ''
+          : ` Sonraki çekim tarihi: ${this.formatDate(nextChargeAt)}`
+      }`,
+    );
+  }
+
+  private async handleFailedCharge(
+    subscription: SubscriptionWithDonor,
+    failureReason: string | null,
+  ) {
+    const cancelled =
+      subscription.status === DonationSubscriptionStatus.Cancelled;
+    const failedAttempts = subscription.failedAttempts + 1;
+    const retryDays = DUNNING_RETRY_DAYS[failedAttempts - 1];
+    const suspended = !cancelled && retryDays === undefined;
+
+    const data: Prisma.DonationSubscriptionUncheckedUpdateManyInput = {
+      pendingDonationId: null,
+    };
+    if (!cancelled) {
+      data.failedAttempts = failedAttempts;
+      if (suspended) {
+        data.status = DonationSubscriptionStatus.PastDue;
+        data.retryAt = null;
+      } else {
+        data.retryAt = new Date(Date.now() + retryDays * DAY_MS);
+      }
+    }
+
+    // Ödeme bu sırada geç de olsa tahsil edildiyse çekim başarılı sayılır
+    const { count } = await this.prisma.donationSubscription.updateMany({
+      where: {
+        id: subscription.id,
+        pendingDonationId: subscription.pendingDonationId,
+        pendingDonation: { status: DonationStatus.Failed },
+      },
+      data,
+    });
+    if (count === 0 || cancelled) return;
+
+    const reason = failureReason ? ` (${failureReason})` : '';
+    if (suspended) {
+      this.logger.warn(
+        `Donation subscription ${subscription.id} is past due after ${failedAttempts} failed charges`,
+      );
+      await this.sendEmail(
+        subscription,
+        'Düzenli bağışınız askıya alındı',
+        `${this.describe(subscription)} düzenli bağışınızın ödemesi ${failedAttempts} denemede alınamadı${reason}. Ödeme bilgilerinizi kontrol ettikten sonra bağışınızı yeniden başlatabilirsiniz.`,
+      );
+      return;
+    }
+
+    await this.sendEmail(
+      subscription,
+      'Düzenli bağışınızın ödemesi alınamadı',
+      `${this.describe(subscription)} düzenli bağışınızın ödemesi alınamadı${reason}. Ödeme ${this.formatDate(data.retryAt as Date)} tarihinde yeniden denenecek.`,
+    );
+  }
+
+  // Bağışçı kaydı, e-posta adresi hesabınkiyle aynıysa kullanıcıya aittir
+  private async assertOwnDonor(donor: { email: string }, user: AbilityUser) {
+    if (user.role === Role.Admin) return;
+
+    const account = await this.prisma.user.findUnique({
+      where: { id: user.id },
+      select: { email: true },
+    });
+    if (account?.email.toLowerCase() !== donor.email.toLowerCase()) {
+      throw new ForbiddenException(
+        'Yalnızca kendi bağışçı kaydınız için düzenli bağış oluşturabilirsiniz',
+      );
+    }
+  }
+
+  private async findOwned(id: number, user: AbilityUser) {
+    const subscription = await this.prisma.donationSubscription.findUnique({
+      where: { id },
+    });
+    if (!subscription) {
+      throw new NotFoundException(`${id} ID'li düzenli bağış bulunamadı`);
+    }
+
+    if (subscription.userId !== user.id && user.role !== Role.Admin) {
+      throw new ForbiddenException('Bu düzenli bağışı değiştirme izniniz yok');
+    }
+
+    return subscription;
+  }
+
+  // Eş zamanlı bir güncelleme durumu değiştirdiyse kayıt bulunamaz
+  private async updateStatus(
+    subscription: { id: number; status: string },
+    data: Prisma.DonationSubscriptionUpdateInput,
+  ) {
+    const updated = await this.prisma.donationSubscription.update({
+      where: { id: subscription.id, status: subscription.status },
+      data,
+      include: SUBSCRIPTION_INCLUDE,
+    });
+    this.logger.log(
+      `Donation subscription ${subscription.id} marked as ${updated.status}`,
+    );
+
+    return updated;
+  }
+
+  private async sendEmail(
+    subscription: SubscriptionWithDonor,
+    subject: string,
+    message: string,
+  ) {
+    await this.outboxService.enqueueEmail({
+      to: subscription.donor.email,
+      subject,
+      text: `Sayın ${subscription.donor.name},\n\n${message}`,
+      html: `
+        <h2>${escapeHtml(subject)}</h2>
+        <p>Sayın ${escapeHtml(subscription.donor.name)},</p>
+        <p>${escapeHtml(message)}</p>
+      `,
+    });
+  }
+
+  private describe(subscription: {
+    amount: number;
+    currency: string;
+    interval: string;
+  }) {
+    return `${subscription.amount} ${subscription.currency} tutarındaki ${INTERVAL_LABELS[subscription.interval] ?? subscription.interval}`;
+  }
+
+  private formatDate(date: Date) {
+    return date.toLocaleDateString('tr-TR', { timeZone: 'Europe/Istanbul' });
+  }
+
+  private roundAmount(amount: number) {
+    return Math.round(amount * 100) / 100;
+  }
+}
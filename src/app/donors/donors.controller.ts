@@ -6,8 +6,12 @@ import {
   UseGuards,
   Req,
   Param,
+  Headers,
+  ParseIntPipe,
+  StreamableFile,
 } from '@nestjs/common';
 import { DonorsService } from './donors.service';
+import { ReceiptsService } from '../receipts/receipts.service';
 import { CreateDonationDto } from './dto/create-donation.dto';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RoleGuard } from '../auth/role.guard';
@@ -19,12 +23,17 @@ import {
   ApiResponse,
   ApiBearerAuth,
   ApiParam,
+  ApiHeader,
+  ApiProduces,
 } from '@nestjs/swagger';
 
 @ApiTags('donors')
 @Controller('donors')
 export class DonorsController {
-  constructor(private readonly donorsService: DonorsService) {}
+  constructor(
+    private readonly donorsService: DonorsService,
+    private readonly receiptsService: ReceiptsService,
+  ) {}
 
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -33,9 +42,17 @@ export class DonorsController {
     status: 201,
     description: 'The donation has been successfully created.',
   })
+  @ApiHeader({
+    name: 'Idempotency-Key',
+    description: 'Aynı anahtarla tekrarlanan istek yeni bağış oluşturmaz',
+    required: false,
+  })
   @Post('donations')
-  async createDonation(@Body() createDonationDto: CreateDonationDto) {
-    return this.donorsService.createDonation(createDonationDto);
+  async createDonation(
+    @Body() createDonationDto: CreateDonationDto,
+    @Headers('idempotency-key') idempotencyKey?: string,
+  ) {
+    return this.donorsService.createDonation(createDonationDto, idempotencyKey);
   }
 
   @UseGuards(JwtAuthGuard, RoleGuard)
@@ -100,4 +117,51 @@ export class DonorsController {
   async findDonationById(@Param('id') id: string, @Req() req) {
     return this.donorsService.findDonationById(id, req.user);
   }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Download the PDF receipt of a paid donation' })
+  @ApiProduces('application/pdf')
+  @ApiResponse({
+    status: 200,
+    description: 'Bağış makbuzu (PDF)',
+  })
+  @ApiParam({ name: 'id', description: 'Donation ID' })
+  @Get('donations/:id/receipt')
+  async getDonationReceipt(@Param('id', ParseIntPipe) id: number, @Req() req) {
+    const receipt = await this.receiptsService.getDonationReceipt(id, req.user);
+    return new StreamableFile(receipt.pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${receipt.fileName}"`,
+    });
+  }
+
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Download the annual donation statement of a donor for taxes',
+  })
+  @ApiProduces('application/pdf')
+  @ApiResponse({
+    status: 200,
+    description: 'Yıllık bağış dökümü (PDF)',
+  })
+  @ApiParam({ name: 'donorId', description: 'Donor ID' })
+  @ApiParam({ name: 'year', example: 2026 })
+  @Get(':donorId/tax-statements/:year')
+  async getTaxStatement(
+    @Param('donorId', ParseIntPipe) donorId: number,
+    @Param('year', ParseIntPipe) year: number,
+    @Req() req,
+  ) {
+    const statement = await this.receiptsService.getTaxStatement(
+      donorId,
+      year,
+      req.user,
+    );
+    return new StreamableFile(statement.pdf, {
+      type: 'application/pdf',
+      disposition: `attachment; filename="${statement.fileName}"`,
+    });
+  }
 }
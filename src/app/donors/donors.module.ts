@@ -1,11 +1,37 @@
 import { Module } from '@nestjs/common';
 import { DonorsService } from './donors.service';
 import { DonorsController } from './donors.controller';
+import { InKindDonationsService } from './in-kind-donations.service';
+import { InKindDonationsController } from './in-kind-donations.controller';
+import { DonationSubscriptionsService } from './donation-subscriptions.service';
+import { DonationSubscriptionsController } from './donation-subscriptions.controller';
 import { PrismaService } from '../prisma/prisma.service';
+import { CaslModule } from '../casl/casl.module';
+import { OutboxModule } from '../outbox/outbox.module';
+import { InventoryModule } from '../inventory/inventory.module';
+import { CampaignsModule } from '../campaigns/campaigns.module';
+import { PaymentsModule } from '../payments/payments.module';
+import { ReceiptsModule } from '../receipts/receipts.module';
 
 @Module({
-  imports: [],
-  providers: [DonorsService, PrismaService],
-  controllers: [DonorsController],
+  imports: [
+    CaslModule,
+    OutboxModule,
+    InventoryModule,
+    CampaignsModule,
+    PaymentsModule,
+    ReceiptsModule,
+  ],
+  providers: [
+    DonorsService,
+    InKindDonationsService,
+    DonationSubscriptionsService,
+    PrismaService,
+  ],
+  controllers: [
+    DonorsController,
+    InKindDonationsController,
+    DonationSubscriptionsController,
+  ],
 })
 export class DonorsModule {}
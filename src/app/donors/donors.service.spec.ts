@@ -1,11 +1,16 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { ConflictException } from '@nestjs/common';
 import { DonorsService } from './donors.service';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateDonorDto } from './dto/create-donor.dto';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { PaymentsService } from '../payments/payments.service';
 
 describe('DonorsService', () => {
   let service: DonorsService;
   let prismaService: PrismaService;
+  let campaignsService: CampaignsService;
+  let paymentsService: PaymentsService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
@@ -18,16 +23,36 @@ describe('DonorsService', () => {
               create: jest.fn(),
               findUnique: jest.fn(),
             },
+            user: {
+              findUnique: jest.fn(),
+            },
             donation: {
               findMany: jest.fn(),
+              findUnique: jest.fn(),
+              create: jest.fn().mockResolvedValue({ id: 1 }),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
             },
           },
         },
+        {
+          provide: CampaignsService,
+          useValue: {
+            assertAcceptsDonations: jest.fn(),
+          },
+        },
+        {
+          provide: PaymentsService,
+          useValue: {
+            startPayment: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<DonorsService>(DonorsService);
     prismaService = module.get<PrismaService>(PrismaService);
+    campaignsService = module.get<CampaignsService>(CampaignsService);
+    paymentsService = module.get<PaymentsService>(PaymentsService);
   });
 
   it('should be defined', () => {
@@ -83,7 +108,9 @@ describe('DonorsService', () => {
           updatedAt: new Date(),
         },
       ];
-      jest.spyOn(prismaService.donation, 'findMany').mockResolvedValue(result);
+      jest
+        .spyOn(prismaService.donation, 'findMany')
+        .mockResolvedValue(result as any);
 
       expect(await service.findDonations(1)).toBe(result);
     });
@@ -103,9 +130,107 @@ describe('DonorsService', () => {
           updatedAt: new Date(),
         },
       ];
-      jest.spyOn(prismaService.donation, 'findMany').mockResolvedValue(result);
+      jest
+        .spyOn(prismaService.donation, 'findMany')
+        .mockResolvedValue(result as any);
 
       expect(await service.findDonationHistory(1)).toBe(result);
     });
   });
+
+  describe('createDonation', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(prismaService.donor, 'findUnique')
+        .mockResolvedValue({ id: 1 } as any);
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ id: 2 } as any);
+    });
+
+    it('should record a pending campaign donation and start its payment', async () => {
+      jest
+        .spyOn(campaignsService, 'assertAcceptsDonations')
+        .mockResolvedValue({ id: 4 } as any);
+
+      await service.createDonation({
+        amount: 100,
+        donorId: 1,
+        userId: 2,
+        campaignId: 4,
+      });
+
+      expect(prismaService.donation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: 100,
+          status: 'pending',
+          campaign: { connect: { id: 4 } },
+        }),
+      });
+      expect(paymentsService.startPayment).toHaveBeenCalledWith({ id: 1 });
+    });
+
+    it('should return the original donation for a repeated idempotency key', async () => {
+      const existing = { id: 8, amount: 100, donorId: 1, campaignId: null };
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(existing as any);
+
+      const result = await service.createDonation(
+        { amount: 100, donorId: 1, userId: 2 },
+        'key-1',
+      );
+
+      expect(result).toBe(existing);
+      expect(prismaService.donation.findUnique).toHaveBeenCalledWith({
+        where: {
+          userId_idempotencyKey: { userId: 2, idempotencyKey: 'key-1' },
+        },
+      });
+      expect(prismaService.donation.create).not.toHaveBeenCalled();
+      expect(paymentsService.startPayment).not.toHaveBeenCalled();
+    });
+
+    it('should retry the payment when the donation of the key has failed', async () => {
+      jest.spyOn(prismaService.donation, 'findUnique').mockResolvedValue({
+        id: 8,
+        amount: 100,
+        donorId: 1,
+        campaignId: null,
+        status: 'failed',
+        idempotencyKey: 'key-1',
+      } as any);
+
+      await service.createDonation(
+        { amount: 100, donorId: 1, userId: 2 },
+        'key-1',
+      );
+
+      expect(prismaService.donation.updateMany).toHaveBeenCalledWith({
+        where: { id: 8, status: 'failed', idempotencyKey: 'key-1' },
+        data: { idempotencyKey: null },
+      });
+      expect(prismaService.donation.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          amount: 100,
+          status: 'pending',
+          idempotencyKey: 'key-1',
+        }),
+      });
+      expect(paymentsService.startPayment).toHaveBeenCalledWith({ id: 1 });
+    });
+
+    it('should reject an idempotency key reused for a different donation', async () => {
+      jest.spyOn(prismaService.donation, 'findUnique').mockResolvedValue({
+        id: 8,
+        amount: 50,
+        donorId: 1,
+        campaignId: null,
+      } as any);
+
+      await expect(
+        service.createDonation({ amount: 100, donorId: 1, userId: 2 }, 'key-1'),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
 });
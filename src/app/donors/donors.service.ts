@@ -3,15 +3,27 @@ import {
   ForbiddenException,
   NotFoundException,
   BadRequestException,
+  ConflictException,
 } from '@nestjs/common';
+import { Donation, Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { CreateDonationDto } from './dto/create-donation.dto';
 import { CreateDonorDto } from './dto/create-donor.dto';
 import { Role } from '../casl/action';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { PaymentsService } from '../payments/payments.service';
+import { DonationStatus } from './donation-status';
+import { getInKindDonationTotals } from './donation-statistics.util';
+
+const MAX_IDEMPOTENCY_KEY_LENGTH = 100;
 
 @Injectable()
 export class DonorsService {
-  constructor(private readonly prisma: PrismaService) {}
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly campaignsService: CampaignsService,
+    private readonly paymentsService: PaymentsService,
+  ) {}
 
   // === Donor (entity) operations added for backward compatibility with existing tests ===
   async create(createDonorDto: CreateDonorDto) {
@@ -41,8 +53,22 @@ export class DonorsService {
     });
   }
 
-  async createDonation(createDonationDto: CreateDonationDto) {
-    const { amount, donorId, userId, anonymous = false } = createDonationDto;
+  /**
+   * Bağış "pending" olarak kaydedilir ve ödeme başlatılır; tahsilat sonucu
+   * webhook ile gelir. Aynı Idempotency-Key ile tekrarlanan istek yeni bağış
+   * oluşturmaz, ilk isteğin bağışını döner.
+   */
+  async createDonation(
+    createDonationDto: CreateDonationDto,
+    idempotencyKey?: string,
+  ) {
+    const {
+      amount,
+      donorId,
+      userId,
+      anonymous = false,
+      campaignId,
+    } = createDonationDto;
 
     // Bağış miktarı kontrolü
     if (!amount || amount <= 0) {
@@ -67,8 +93,29 @@ export class DonorsService {
       throw new NotFoundException(`${userId} ID'li kullanıcı bulunamadı`);
     }
 
+    const key = idempotencyKey?.trim() || null;
+    if (key && key.length > MAX_IDEMPOTENCY_KEY_LENGTH) {
+      throw new BadRequestException(
+        `Idempotency-Key en fazla ${MAX_IDEMPOTENCY_KEY_LENGTH} karakter olabilir`,
+      );
+    }
+    if (key) {
+      const existing = await this.findByIdempotencyKey(userId, key);
+      if (existing?.status === DonationStatus.Failed) {
+        await this.releaseIdempotencyKey(existing);
+      } else if (existing) {
+        return this.replayDonation(existing, createDonationDto);
+      }
+    }
+
+    // Kampanya adına yapılan bağışta kampanyanın açık olduğunu kontrol ediyoruz
+    const campaign = campaignId
+      ? await this.campaignsService.assertAcceptsDonations(Number(campaignId))
+      : null;
+
+    let donation;
     try {
-      return await this.prisma.donation.create({
+      donation = await this.prisma.donation.create({
         data: {
           amount,
           donor: {
@@ -78,13 +125,67 @@ export class DonorsService {
             connect: { id: userId },
           },
           anonymous,
+          status: DonationStatus.Pending,
+          idempotencyKey: key,
+          ...(campaign && { campaign: { connect: { id: campaign.id } } }),
         },
       });
     } catch (error) {
+      // Aynı anahtarla eş zamanlı gelen ikinci istek ilk bağışı alır
+      if (
+        key &&
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        const existing = await this.findByIdempotencyKey(userId, key);
+        if (existing) return this.replayDonation(existing, createDonationDto);
+      }
       throw new BadRequestException(
         `Bağış oluşturulurken bir hata oluştu: ${error.message}`,
       );
     }
+
+    return this.paymentsService.startPayment(donation);
+  }
+
+  private async findByIdempotencyKey(userId: number, idempotencyKey: string) {
+    return this.prisma.donation.findUnique({
+      where: { userId_idempotencyKey: { userId, idempotencyKey } },
+    });
+  }
+
+  // Başarısız bağış tekrar döndürülmez; anahtar ödemenin yeniden denenmesi
+  // için bu bağıştan alınır ve yeni bağışa verilir
+  private async releaseIdempotencyKey(donation: Donation) {
+    await this.prisma.donation.updateMany({
+      where: {
+        id: donation.id,
+        status: DonationStatus.Failed,
+        idempotencyKey: donation.idempotencyKey,
+      },
+      data: { idempotencyKey: null },
+    });
+  }
+
+  // Anahtar farklı içerikli bir istekte tekrar kullanılamaz
+  private replayDonation(
+    donation: Donation,
+    createDonationDto: CreateDonationDto,
+  ) {
+    const campaignId = createDonationDto.campaignId
+      ? Number(createDonationDto.campaignId)
+      : null;
+    if (
+      donation.amount !== createDonationDto.amount ||
+      donation.donorId !== createDonationDto.donorId ||
+      donation.campaignId !== campaignId
+    ) {
+      throw new ConflictException(
+        'Idempotency-Key farklı bir bağış isteği için kullanılmış',
+      );
+    }
+
+    return donation;
   }
 
   async findAllDonations() {
@@ -168,11 +269,16 @@ export class DonorsService {
     });
   }
 
+  // Parasal ve ayni bağışlar ayrı raporlanır; ayni bağış değerleri tahminidir
   async getDonationStatistics() {
-    const allDonations = await this.prisma.donation.findMany();
+    // Yalnızca tahsil edilmiş bağışlar sayılır
+    const allDonations = await this.prisma.donation.findMany({
+      where: { status: DonationStatus.Succeeded },
+    });
     const anonymousDonations = await this.prisma.donation.findMany({
-      where: { anonymous: true },
+      where: { anonymous: true, status: DonationStatus.Succeeded },
     });
+    const inKind = await getInKindDonationTotals(this.prisma);
 
     const totalAmount = allDonations.reduce(
       (sum, donation) => sum + donation.amount,
@@ -183,12 +289,15 @@ export class DonorsService {
       0,
     );
 
-    return {
+    const monetary = {
       totalDonations: allDonations.length,
       anonymousDonations: anonymousDonations.length,
       totalAmount,
       anonymousAmount,
       averageDonation: totalAmount / (allDonations.length || 1),
     };
+
+    // Üst düzey alanlar geriye dönük uyumluluk için parasal toplamlardır
+    return { ...monetary, monetary, inKind };
   }
 }
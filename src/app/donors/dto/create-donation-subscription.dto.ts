@@ -0,0 +1,54 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsDateString,
+  IsEnum,
+  IsInt,
+  IsNumber,
+  IsOptional,
+  IsString,
+  Min,
+} from 'class-validator';
+import { DonationSubscriptionInterval } from '../donation-subscription';
+
+export class CreateDonationSubscriptionDto {
+  @ApiProperty({ description: 'ID of the donor' })
+  @IsInt()
+  readonly donorId: number;
+
+  @ApiProperty({ description: 'Her dönem çekilecek bağış tutarı' })
+  @IsNumber()
+  @Min(0)
+  readonly amount: number;
+
+  @ApiProperty({ required: false, default: 'TRY' })
+  @IsOptional()
+  @IsString()
+  readonly currency?: string;
+
+  @ApiProperty({
+    enum: DonationSubscriptionInterval,
+    required: false,
+    default: DonationSubscriptionInterval.Monthly,
+  })
+  @IsOptional()
+  @IsEnum(DonationSubscriptionInterval)
+  readonly interval?: DonationSubscriptionInterval;
+
+  @ApiProperty({
+    required: false,
+    description: 'İlk çekim tarihi; verilmezse hemen çekilir',
+  })
+  @IsOptional()
+  @IsDateString()
+  readonly startDate?: string;
+
+  @ApiProperty({
+    description: 'Whether the donations should be anonymous',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly anonymous?: boolean;
+}
@@ -16,4 +16,10 @@ export class CreateDonationDto {
     default: false,
   })
   anonymous?: boolean;
+
+  @ApiProperty({
+    description: 'ID of the campaign the donation is made for',
+    required: false,
+  })
+  campaignId?: number;
 }
@@ -0,0 +1,78 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsBoolean,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { InventoryCategory } from '../../inventory/inventory';
+
+export class InKindDonationItemDto {
+  @ApiProperty({ description: 'Ürün adı (ör. Battaniye)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  readonly name: string;
+
+  @ApiProperty({ enum: InventoryCategory, description: 'Ürün kategorisi' })
+  @IsEnum(InventoryCategory)
+  readonly category: InventoryCategory;
+
+  @ApiProperty({ description: 'Miktar' })
+  @IsInt()
+  @Min(1)
+  readonly quantity: number;
+
+  @ApiProperty({ description: 'Sayım birimi (ör. koli, adet, kg)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  readonly unit: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Kalemin toplam tahmini değeri (TL)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(0)
+  readonly estimatedValue?: number;
+}
+
+export class CreateInKindDonationDto {
+  @ApiProperty({ description: 'ID of the donor' })
+  @IsInt()
+  readonly donorId: number;
+
+  @ApiProperty({ description: 'Ürünlerin teslim edileceği organizasyon' })
+  @IsInt()
+  readonly organizationId: number;
+
+  @ApiProperty({
+    type: [InKindDonationItemDto],
+    description: 'Bağış kalemleri',
+  })
+  @IsArray()
+  readonly items: InKindDonationItemDto[];
+
+  @ApiProperty({
+    description: 'Whether the donation should be anonymous',
+    required: false,
+    default: false,
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly anonymous?: boolean;
+
+  @ApiProperty({ required: false, description: 'Teslimatla ilgili not' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  readonly note?: string;
+}
@@ -0,0 +1,13 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { InKindDonationStatus } from '../in-kind-donation';
+
+export class UpdateInKindDonationStatusDto {
+  @ApiProperty({
+    enum: InKindDonationStatus,
+    description:
+      'Yeni durum (pledged → received → distributed, veya cancelled)',
+  })
+  @IsEnum(InKindDonationStatus)
+  readonly status: InKindDonationStatus;
+}
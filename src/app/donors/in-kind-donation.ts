@@ -0,0 +1,24 @@
+import { IN_KIND_RECEIPT_PREFIX, receiptNumber } from '../receipts/receipt';
+
+export enum InKindDonationStatus {
+  Pledged = 'pledged',
+  Received = 'received',
+  Distributed = 'distributed',
+  Cancelled = 'cancelled',
+}
+
+// İzin verilen durum geçişleri; tabloda olmayan geçişler reddedilir
+export const IN_KIND_DONATION_TRANSITIONS: Record<string, string[]> = {
+  [InKindDonationStatus.Pledged]: [
+    InKindDonationStatus.Received,
+    InKindDonationStatus.Cancelled,
+  ],
+  [InKindDonationStatus.Received]: [InKindDonationStatus.Distributed],
+  [InKindDonationStatus.Distributed]: [],
+  [InKindDonationStatus.Cancelled]: [],
+};
+
+// Makbuz numarası, ör. AYN-2026-000042-7KQ3XM2D
+export function inKindReceiptNumber(donationId: number, receivedAt: Date) {
+  return receiptNumber(IN_KIND_RECEIPT_PREFIX, donationId, receivedAt);
+}
@@ -0,0 +1,116 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { InKindDonationsService } from './in-kind-donations.service';
+import { InKindDonationStatus } from './in-kind-donation';
+import { CreateInKindDonationDto } from './dto/create-in-kind-donation.dto';
+import { UpdateInKindDonationStatusDto } from './dto/update-in-kind-donation-status.dto';
+
+@ApiTags('donors')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('donors')
+export class InKindDonationsController {
+  constructor(
+    private readonly inKindDonationsService: InKindDonationsService,
+  ) {}
+
+  @Post('in-kind-donations')
+  @ApiOperation({ summary: 'Pledge an in-kind (goods) donation' })
+  @ApiBody({ type: CreateInKindDonationDto })
+  @ApiResponse({ status: 201, description: 'Bağış taahhüdü oluşturuldu' })
+  async create(
+    @Req() req: RequestWithUser,
+    @Body() createDto: CreateInKindDonationDto,
+  ) {
+    return this.inKindDonationsService.create(req.user, createDto);
+  }
+
+  @Get('in-kind-donations')
+  @ApiOperation({
+    summary: 'List in-kind donations of a drop-off center (admin: all)',
+  })
+  @ApiQuery({ name: 'organizationId', type: Number, required: false })
+  @ApiQuery({ name: 'status', enum: InKindDonationStatus, required: false })
+  @ApiQuery({ name: 'page', type: Number, required: false })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  async findAll(
+    @Req() req: RequestWithUser,
+    @Query('organizationId') organizationId?: string,
+    @Query('status') status?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.inKindDonationsService.findAll(req.user, {
+      organizationId,
+      status,
+      page,
+      limit,
+    });
+  }
+
+  @Get('in-kind-donations/my')
+  @ApiOperation({ summary: 'Get current user in-kind donations' })
+  async findMine(@Req() req: RequestWithUser) {
+    return this.inKindDonationsService.findMine(req.user.id);
+  }
+
+  @Get('in-kind-donations/:id')
+  @ApiOperation({ summary: 'Get an in-kind donation' })
+  @ApiParam({ name: 'id', description: 'In-kind donation ID' })
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.inKindDonationsService.findOne(id, req.user);
+  }
+
+  @Get('in-kind-donations/:id/receipt')
+  @ApiOperation({ summary: 'Get the receipt of a received in-kind donation' })
+  @ApiParam({ name: 'id', description: 'In-kind donation ID' })
+  async getReceipt(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.inKindDonationsService.getReceipt(id, req.user);
+  }
+
+  @Patch('in-kind-donations/:id/status')
+  @ApiOperation({
+    summary: 'Receive, distribute or cancel an in-kind donation',
+  })
+  @ApiParam({ name: 'id', description: 'In-kind donation ID' })
+  @ApiBody({ type: UpdateInKindDonationStatusDto })
+  @ApiResponse({ status: 400, description: 'Geçersiz durum geçişi' })
+  async updateStatus(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() updateDto: UpdateInKindDonationStatusDto,
+  ) {
+    return this.inKindDonationsService.updateStatus(
+      id,
+      req.user,
+      updateDto.status,
+    );
+  }
+}
@@ -0,0 +1,298 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { InKindDonationsService } from './in-kind-donations.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { InventoryService } from '../inventory/inventory.service';
+import { CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { InventoryCategory } from '../inventory/inventory';
+
+describe('InKindDonationsService', () => {
+  let service: InKindDonationsService;
+  let prismaService: PrismaService;
+  let inventoryService: InventoryService;
+  let outboxService: OutboxService;
+
+  const donorUser = { id: 9, role: 'user' };
+  const staff = {
+    id: 7,
+    role: 'organization_owner',
+    memberships: [{ organizationId: 4, role: 'staff' }],
+  };
+
+  const donation = (overrides = {}) => ({
+    id: 42,
+    donorId: 3,
+    userId: 9,
+    organizationId: 4,
+    status: 'pledged',
+    receiptNumber: null,
+    receivedAt: null,
+    estimatedValue: 300,
+    donor: { id: 3, name: 'Ayşe Yılmaz', email: 'ayse@example.com' },
+    organization: { id: 4, name: 'Gıda Bankası' },
+    items: [
+      {
+        name: 'Battaniye',
+        category: 'blanket',
+        quantity: 3,
+        unit: 'adet',
+        estimatedValue: 300,
+      },
+    ],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InKindDonationsService,
+        CaslAbilityFactory,
+        {
+          provide: PrismaService,
+          useValue: {
+            donor: {
+              findUnique: jest.fn().mockResolvedValue({
+                id: 3,
+                email: 'ayse@example.com',
+              }),
+            },
+            user: {
+              findUnique: jest
+                .fn()
+                .mockResolvedValue({ email: 'Ayse@example.com' }),
+            },
+            organization: {
+              findUnique: jest.fn().mockResolvedValue({
+                id: 4,
+                name: 'Gıda Bankası',
+                verificationStatus: 'approved',
+                suspendedAt: null,
+              }),
+            },
+            inKindDonation: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              count: jest.fn(),
+              create: jest.fn().mockResolvedValue({ id: 42 }),
+              update: jest.fn(),
+            },
+            $transaction: jest.fn((operations) => Promise.all(operations)),
+          },
+        },
+        {
+          provide: InventoryService,
+          useValue: {
+            donatedStockOperations: jest.fn().mockResolvedValue([]),
+            syncLowStockAlerts: jest.fn(),
+          },
+        },
+        {
+          provide: OutboxService,
+          useValue: {
+            enqueueEmail: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<InKindDonationsService>(InKindDonationsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    inventoryService = module.get<InventoryService>(InventoryService);
+    outboxService = module.get<OutboxService>(OutboxService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should pledge the items with their total estimated value', async () => {
+      await service.create(donorUser, {
+        donorId: 3,
+        organizationId: 4,
+        items: [
+          {
+            name: ' Battaniye ',
+            category: InventoryCategory.Blanket,
+            quantity: 3,
+            unit: 'adet',
+            estimatedValue: 250.5,
+          },
+          {
+            name: 'Su',
+            category: InventoryCategory.Water,
+            quantity: 10,
+            unit: 'litre',
+            estimatedValue: 49.5,
+          },
+        ],
+      });
+
+      expect(prismaService.inKindDonation.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            donorId: 3,
+            userId: 9,
+            organizationId: 4,
+            estimatedValue: 300,
+            items: {
+              create: [
+                expect.objectContaining({ name: 'Battaniye', quantity: 3 }),
+                expect.objectContaining({ name: 'Su', quantity: 10 }),
+              ],
+            },
+          }),
+        }),
+      );
+    });
+
+    it("should not pledge on behalf of someone else's donor record", async () => {
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ email: 'mehmet@example.com' } as any);
+
+      await expect(
+        service.create(donorUser, {
+          donorId: 3,
+          organizationId: 4,
+          items: [
+            {
+              name: 'Battaniye',
+              category: InventoryCategory.Blanket,
+              quantity: 3,
+              unit: 'adet',
+            },
+          ],
+        }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.inKindDonation.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject fractional quantities', async () => {
+      await expect(
+        service.create(donorUser, {
+          donorId: 3,
+          organizationId: 4,
+          items: [
+            {
+              name: 'Battaniye',
+              category: InventoryCategory.Blanket,
+              quantity: 1.5,
+              unit: 'adet',
+            },
+          ],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.inKindDonation.create).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('updateStatus', () => {
+    it('should add the items to stock and email a receipt on receipt', async () => {
+      jest
+        .spyOn(prismaService.inKindDonation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+      jest.spyOn(prismaService.inKindDonation, 'update').mockResolvedValue(
+        donation({
+          status: 'received',
+          receiptNumber: 'AYN-2026-000042',
+          receivedAt: new Date(),
+        }) as any,
+      );
+
+      await service.updateStatus(42, staff, 'received');
+
+      expect(inventoryService.donatedStockOperations).toHaveBeenCalledWith(
+        4,
+        expect.any(Array),
+        7,
+        'Ayni bağış #42',
+      );
+      expect(prismaService.inKindDonation.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 42, status: 'pledged' },
+          data: expect.objectContaining({
+            status: 'received',
+            receiptNumber: expect.stringMatching(
+              /^AYN-\d{4}-000042-[0-9A-Z]{8}$/,
+            ),
+          }),
+        }),
+      );
+      expect(outboxService.enqueueEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'ayse@example.com',
+          subject: 'Bağış makbuzunuz: AYN-2026-000042',
+        }),
+      );
+    });
+
+    it('should escape donor supplied values in the receipt email', async () => {
+      jest
+        .spyOn(prismaService.inKindDonation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+      jest.spyOn(prismaService.inKindDonation, 'update').mockResolvedValue(
+        donation({
+          status: 'received',
+          receiptNumber: 'AYN-2026-000042',
+          receivedAt: new Date(),
+          donor: { id: 3, name: '<b>Ayşe</b>', email: 'ayse@example.com' },
+          items: [
+            {
+              name: '<img src=x onerror=alert(1)>',
+              category: 'blanket',
+              quantity: 3,
+              unit: 'adet',
+              estimatedValue: 300,
+            },
+          ],
+        }) as any,
+      );
+
+      await service.updateStatus(42, staff, 'received');
+
+      const { html } = (outboxService.enqueueEmail as jest.Mock).mock
+        .calls[0][0];
+      expect(html).toContain('Sayın &lt;b&gt;Ayşe&lt;/b&gt;');
+      expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+      expect(html).not.toContain('<img');
+    });
+
+    it('should reject transitions outside the lifecycle', async () => {
+      jest
+        .spyOn(prismaService.inKindDonation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+
+      await expect(
+        service.updateStatus(42, staff, 'distributed'),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should let the donor cancel a pledge', async () => {
+      jest
+        .spyOn(prismaService.inKindDonation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+
+      await service.updateStatus(42, donorUser, 'cancelled');
+
+      expect(prismaService.inKindDonation.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 42, status: 'pledged' },
+          data: { status: 'cancelled', cancelledAt: expect.any(Date) },
+        }),
+      );
+    });
+
+    it('should not let the donor mark the donation as received', async () => {
+      jest
+        .spyOn(prismaService.inKindDonation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+
+      await expect(
+        service.updateStatus(42, donorUser, 'received'),
+      ).rejects.toThrow(ForbiddenException);
+      expect(inventoryService.donatedStockOperations).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,389 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InventoryItem, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { escapeHtml } from '../outbox/email-html.util';
+import { InventoryService } from '../inventory/inventory.service';
+import { InventoryCategory } from '../inventory/inventory';
+import { Action, Role } from '../casl/action';
+import { AbilityUser, CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { isOrganizationActive } from '../organizations/organization-visibility';
+import {
+  IN_KIND_DONATION_TRANSITIONS,
+  InKindDonationStatus,
+  inKindReceiptNumber,
+} from './in-kind-donation';
+import { CreateInKindDonationDto } from './dto/create-in-kind-donation.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_ITEM_COUNT = 50;
+const MAX_NOTE_LENGTH = 1000;
+
+const DONATION_INCLUDE = {
+  items: true,
+  donor: { select: { id: true, name: true, email: true } },
+  organization: { select: { id: true, name: true } },
+} satisfies Prisma.InKindDonationInclude;
+
+type InKindDonationWithDetails = Prisma.InKindDonationGetPayload<{
+  include: typeof DONATION_INCLUDE;
+}>;
+
+/**
+ * Ayni (eşya) bağışlar. Bağışçı ürünleri bir yardım merkezine teslim etmeyi
+ * taahhüt eder; merkez teslim aldığında ürünler stoğa eklenir ve bağışçıya
+ * makbuz gönderilir, dağıtıldığında bağış kapanır.
+ */
+@Injectable()
+export class InKindDonationsService {
+  private readonly logger = new Logger(InKindDonationsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly inventoryService: InventoryService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+    private readonly outboxService: OutboxService,
+  ) {}
+
+  async create(user: AbilityUser, createDto: CreateInKindDonationDto) {
+    const donor = await this.prisma.donor.findUnique({
+      where: { id: Number(createDto?.donorId) },
+    });
+    if (!donor) {
+      throw new NotFoundException(
+        `${createDto?.donorId} ID'li bağışçı bulunamadı`,
+      );
+    }
+    await this.assertOwnDonor(donor, user);
+
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: Number(createDto.organizationId) },
+    });
+    if (!organization) {
+      throw new NotFoundException(
+        `Organizasyon bulunamadı. ID: ${createDto.organizationId}`,
+      );
+    }
+    if (!isOrganizationActive(organization)) {
+      throw new BadRequestException(
+        `${organization.name} organizasyonu şu anda bağış kabul etmiyor`,
+      );
+    }
+
+    const note = createDto.note?.trim() || null;
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      throw new BadRequestException(
+        `Not en fazla ${MAX_NOTE_LENGTH} karakter olabilir`,
+      );
+    }
+
+    const items = this.validateItems(createDto.items);
+    const estimatedValue = this.roundAmount(
+      items.reduce((sum, item) => sum + item.estimatedValue, 0),
+    );
+
+    const donation = await this.prisma.inKindDonation.create({
+      data: {
+        donorId: donor.id,
+        userId: user.id,
+        organizationId: organization.id,
+        anonymous: Boolean(createDto.anonymous),
+        note,
+        estimatedValue,
+        items: { create: items },
+      },
+      include: DONATION_INCLUDE,
+    });
+    this.logger.log(
+      `In-kind donation ${donation.id} pledged to organization ${organization.id}`,
+    );
+
+    return donation;
+  }
+
+  async findMine(userId: number) {
+    return this.prisma.inKindDonation.findMany({
+      where: { userId },
+      include: DONATION_INCLUDE,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  // Adminler tüm bağışları, organizasyon üyeleri kendi merkezlerine gelenleri görür
+  async findAll(
+    user: AbilityUser,
+    query: {
+      organizationId?: unknown;
+      status?: string;
+      page?: unknown;
+      limit?: unknown;
+    } = {},
+  ) {
+    const organizationId = query.organizationId
+      ? Number(query.organizationId)
+      : null;
+
+    if (user.role !== Role.Admin) {
+      if (!organizationId) {
+        throw new BadRequestException('Organizasyon belirtilmelidir');
+      }
+      this.caslAbilityFactory.assertCan(user, Action.Read, 'InKindDonation', {
+        organizationId,
+      });
+    }
+
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE),
+    );
+    const where: Prisma.InKindDonationWhereInput = {
+      ...(organizationId && { organizationId }),
+      ...(query.status && { status: query.status }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.inKindDonation.findMany({
+        where,
+        include: DONATION_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.inKindDonation.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async findOne(id: number, user: AbilityUser) {
+    const donation = await this.findDonation(id);
+
+    const allowed =
+      donation.userId === user.id ||
+      this.caslAbilityFactory.can(user, Action.Read, 'InKindDonation', {
+        organizationId: donation.organizationId,
+      });
+    if (!allowed) {
+      throw new ForbiddenException('Bu bağışı görüntüleme izniniz yok');
+    }
+
+    return donation;
+  }
+
+  /**
+   * Teslim alma ve dağıtım merkezin staff ve üzeri üyelerince yapılır;
+   * teslim alınmamış bağışı bağışçı da iptal edebilir.
+   */
+  async updateStatus(id: number, user: AbilityUser, status: string) {
+    const donation = await this.findDonation(id);
+
+    if (!IN_KIND_DONATION_TRANSITIONS[donation.status]?.includes(status)) {
+      throw new BadRequestException(
+        `Bağış ${donation.status} durumundan ${status} durumuna geçirilemez`,
+      );
+    }
+
+    const isDonor = donation.userId === user.id;
+    if (!(status === InKindDonationStatus.Cancelled && isDonor)) {
+      this.caslAbilityFactory.assertCan(user, Action.Update, 'InKindDonation', {
+        organizationId: donation.organizationId,
+      });
+    }
+
+    if (status === InKindDonationStatus.Received) {
+      return this.receive(donation, user);
+    }
+
+    // Eş zamanlı bir güncelleme durumu değiştirdiyse kayıt bulunamaz
+    const updated = await this.prisma.inKindDonation.update({
+      where: { id, status: donation.status },
+      data: {
+        status,
+        ...(status === InKindDonationStatus.Distributed
+          ? { distributedAt: new Date() }
+          : { cancelledAt: new Date() }),
+      },
+      include: DONATION_INCLUDE,
+    });
+    this.logger.log(`In-kind donation ${id} marked as ${status}`);
+
+    return updated;
+  }
+
+  async getReceipt(id: number, user: AbilityUser) {
+    const donation = await this.findOne(id, user);
+
+    if (!donation.receiptNumber) {
+      throw new BadRequestException(
+        'Makbuz yalnızca teslim alınmış bağışlar için düzenlenir',
+      );
+    }
+
+    return this.buildReceipt(donation);
+  }
+
+  // Ürünler stoğa eklenir ve makbuz numarası aynı transaction içinde verilir
+  private async receive(
+    donation: InKindDonationWithDetails,
+    user: AbilityUser,
+  ) {
+    const receivedAt = new Date();
+    const stockOperations = await this.inventoryService.donatedStockOperations(
+      donation.organizationId,
+      donation.items,
+      user.id,
+      `Ayni bağış #${donation.id}`,
+    );
+
+    const [received, ...items] = await this.prisma.$transaction([
+      this.prisma.inKindDonation.update({
+        where: { id: donation.id, status: InKindDonationStatus.Pledged },
+        data: {
+          status: InKindDonationStatus.Received,
+          receivedAt,
+          receiptNumber: inKindReceiptNumber(donation.id, receivedAt),
+        },
+        include: DONATION_INCLUDE,
+      }),
+      ...stockOperations,
+    ]);
+    this.logger.log(
+      `In-kind donation ${donation.id} received by organization ${donation.organizationId}`,
+    );
+
+    await this.inventoryService.syncLowStockAlerts(items as InventoryItem[]);
+    await this.sendReceipt(received as InKindDonationWithDetails);
+
+    return received;
+  }
+
+  private async findDonation(id: number) {
+    const donation = await this.prisma.inKindDonation.findUnique({
+      where: { id },
+      include: DONATION_INCLUDE,
+    });
+
+    if (!donation) {
+      throw new NotFoundException(`${id} ID'li ayni bağış bulunamadı`);
+    }
+
+    return donation;
+  }
+
+  private buildReceipt(donation: InKindDonationWithDetails) {
+    return {
+      receiptNumber: donation.receiptNumber,
+      donationId: donation.id,
+      donor: { id: donation.donor.id, name: donation.donor.name },
+      organization: donation.organization,
+      receivedAt: donation.receivedAt,
+      items: donation.items.map(({ name, quantity, unit, estimatedValue }) => ({
+        name,
+        quantity,
+        unit,
+        estimatedValue,
+      })),
+      estimatedValue: donation.estimatedValue,
+    };
+  }
+
+  private async sendReceipt(donation: InKindDonationWithDetails) {
+    const receipt = this.buildReceipt(donation);
+    const lines = receipt.items.map(
+      (item) =>
+        `${item.quantity} ${item.unit} ${item.name} (tahmini ${item.estimatedValue} TL)`,
+    );
+    const donorName = escapeHtml(receipt.donor.name);
+    const organizationName = escapeHtml(receipt.organization.name);
+    const receiptNumber = escapeHtml(receipt.receiptNumber);
+
+    await this.outboxService.enqueueEmail({
+      to: donation.donor.email,
+      subject: `Bağış makbuzunuz: ${receipt.receiptNumber}`,
+      text: `Sayın ${receipt.donor.name},\n\n${receipt.organization.name} bağışınızı teslim aldı. Makbuz no: ${receipt.receiptNumber}\n\n${lines.join('\n')}\n\nToplam tahmini değer: ${receipt.estimatedValue} TL`,
+      html: `
+        <h2>Bağışınız teslim alındı</h2>
+        <p>Sayın ${donorName}, <strong>${organizationName}</strong> bağışınızı teslim aldı.</p>
+        <p>Makbuz no: <strong>${receiptNumber}</strong></p>
+        <ul>${lines.map((line) => `<li>${escapeHtml(line)}</li>`).join('')}</ul>
+        <p>Toplam tahmini değer: ${escapeHtml(receipt.estimatedValue)} TL</p>
+      `,
+    });
+  }
+
+  // Bağışçı kaydı, e-posta adresi hesabınkiyle aynıysa kullanıcıya aittir
+  private async assertOwnDonor(donor: { email: string }, user: AbilityUser) {
+    if (user.role === Role.Admin) return;
+
+    const account = await this.prisma.user.findUnique({
+      where: { id: user.id },
+      select: { email: true },
+    });
+    if (account?.email.toLowerCase() !== donor.email.toLowerCase()) {
+      throw new ForbiddenException(
+        'Yalnızca kendi bağışçı kaydınız adına ayni bağış yapabilirsiniz',
+      );
+    }
+  }
+
+  private validateItems(items: unknown) {
+    if (!Array.isArray(items) || items.length === 0) {
+      throw new BadRequestException('En az bir bağış kalemi belirtilmelidir');
+    }
+    if (items.length > MAX_ITEM_COUNT) {
+      throw new BadRequestException(
+        `En fazla ${MAX_ITEM_COUNT} bağış kalemi girilebilir`,
+      );
+    }
+
+    const categories: string[] = Object.values(InventoryCategory);
+    return items.map((item) => {
+      const name = item?.name?.trim();
+      const unit = item?.unit?.trim();
+      const quantity = Number(item?.quantity);
+      const estimatedValue = Number(item?.estimatedValue ?? 0);
+
+      if (!name || name.length > 100 || !unit || unit.length > 20) {
+        throw new BadRequestException(
+          'Her kalem için ürün adı (en fazla 100) ve birim (en fazla 20 karakter) belirtilmelidir',
+        );
+      }
+      if (!categories.includes(item.category)) {
+        throw new BadRequestException(
+          `Geçersiz ürün kategorisi. Geçerli kategoriler: ${categories.join(', ')}`,
+        );
+      }
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        throw new BadRequestException('Miktar pozitif bir tam sayı olmalıdır');
+      }
+      if (!Number.isFinite(estimatedValue) || estimatedValue < 0) {
+        throw new BadRequestException(
+          'Tahmini değer sıfır veya pozitif olmalıdır',
+        );
+      }
+
+      return {
+        name,
+        category: item.category as string,
+        quantity,
+        unit,
+        estimatedValue: this.roundAmount(estimatedValue),
+      };
+    });
+  }
+
+  private roundAmount(amount: number) {
+    return Math.round(amount * 100) / 100;
+  }
+}
@@ -1,26 +1,68 @@
 // firebase-admin.service.ts
 
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import axios from 'axios';
 import { GoogleAuth } from 'google-auth-library';
+import { PrismaService } from '../../prisma/prisma.service';
+
+export interface PushResult {
+  success: boolean;
+  // FCM token'ı artık geçerli saymıyorsa true olur, token silinmelidir
+  unregistered: boolean;
+}
+
+export interface PushFanOutResult {
+  sent: number;
+  failed: number;
+  pruned: number;
+}
 
 @Injectable()
 export class FirebaseAdminService {
-  private readonly messagingUrl =
-    'https://fcm.googleapis.com/v1/projects/turdes-f2e8d/messages:send';
+  private readonly logger = new Logger(FirebaseAdminService.name);
+  // Konu abonelikleri Instance ID API üzerinden yönetilir
+  private readonly instanceIdUrl = 'https://iid.googleapis.com/iid/v1';
+  private readonly projectId: string;
+  private readonly clientEmail: string;
+  private readonly privateKey: string;
+  private auth: GoogleAuth;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {
+    this.projectId = this.configService.get<string>('FIREBASE_PROJECT_ID');
+    // Eski client_email/private_key değişkenleri de desteklenir
+    this.clientEmail =
+      this.configService.get<string>('FIREBASE_CLIENT_EMAIL') ||
+      this.configService.get<string>('client_email');
+    this.privateKey = (
+      this.configService.get<string>('FIREBASE_PRIVATE_KEY') ||
+      this.configService.get<string>('private_key') ||
+      ''
+    ).replace(/\\n/g, '\n');
+  }
+
+  isConfigured() {
+    return Boolean(this.projectId && this.clientEmail && this.privateKey);
+  }
+
+  private get messagingUrl() {
+    return `https://fcm.googleapis.com/v1/projects/${this.projectId}/messages:send`;
+  }
 
   // Google Cloud Authentication için JWT oluşturuyoruz
   private async getAccessToken(): Promise<string> {
-    const client = new GoogleAuth({
+    this.auth ??= new GoogleAuth({
       credentials: {
-        client_email: process.env.client_email,
-        private_key: process.env.private_key,
+        client_email: this.clientEmail,
+        private_key: this.privateKey,
       },
       scopes: ['https://www.googleapis.com/auth/firebase.messaging'],
     });
 
-    const accessToken = await client.getAccessToken();
-    return accessToken;
+    return this.auth.getAccessToken();
   }
 
   // Push notification gönderme fonksiyonu
@@ -28,8 +70,14 @@ export class FirebaseAdminService {
     deviceToken: string,
     title: string,
     body: string,
-  ) {
-    const accessToken = await this.getAccessToken();
+    data?: Record<string, unknown>,
+  ): Promise<PushResult> {
+    if (!this.isConfigured()) {
+      this.logger.error(
+        'Firebase is not configured (FIREBASE_PROJECT_ID, FIREBASE_CLIENT_EMAIL, FIREBASE_PRIVATE_KEY)',
+      );
+      return { success: false, unregistered: false };
+    }
 
     const payload = {
       message: {
@@ -38,23 +86,148 @@ export class FirebaseAdminService {
           title,
           body,
         },
+        // FCM veri alanlarında yalnızca metin kabul eder
+        ...(data && {
+          data: Object.fromEntries(
+            Object.entries(data).map(([key, value]) => [key, String(value)]),
+          ),
+        }),
       },
     };
 
     try {
-      const response = await axios.post(this.messagingUrl, payload, {
+      const accessToken = await this.getAccessToken();
+      await axios.post(this.messagingUrl, payload, {
         headers: {
           Authorization: `Bearer ${accessToken}`,
           'Content-Type': 'application/json',
         },
       });
+      return { success: true, unregistered: false };
+    } catch (error) {
+      const unregistered = this.isUnregisteredError(error);
+      if (!unregistered) {
+        this.logger.error(
+          'Error sending push notification',
+          JSON.stringify(error.response?.data ?? error.message),
+        );
+      }
+      return { success: false, unregistered };
+    }
+  }
+
+  /**
+   * Kullanıcının kayıtlı tüm cihazlarına gönderir. FCM'in geçersiz saydığı
+   * token'lar silinir.
+   */
+  public async sendToUser(
+    userId: number,
+    title: string,
+    body: string,
+    data?: Record<string, unknown>,
+  ): Promise<PushFanOutResult> {
+    const devices = await this.prisma.deviceToken.findMany({
+      where: { userId },
+      select: { token: true },
+    });
+
+    const results = await Promise.all(
+      devices.map((device) =>
+        this.sendPushNotification(device.token, title, body, data),
+      ),
+    );
 
-      console.log('Successfully sent message:', response.data);
+    const unregistered = devices
+      .filter((_, index) => results[index].unregistered)
+      .map((device) => device.token);
+    const pruned = await this.pruneTokens(unregistered);
+
+    return {
+      sent: results.filter((result) => result.success).length,
+      failed: results.filter((result) => !result.success).length,
+      pruned,
+    };
+  }
+
+  public async subscribeToTopic(tokens: string[], topic: string) {
+    return this.manageTopic('batchAdd', tokens, topic);
+  }
+
+  public async unsubscribeFromTopic(tokens: string[], topic: string) {
+    return this.manageTopic('batchRemove', tokens, topic);
+  }
+
+  private async manageTopic(
+    operation: 'batchAdd' | 'batchRemove',
+    tokens: string[],
+    topic: string,
+  ) {
+    if (tokens.length === 0) {
+      return { success: 0, failed: 0, pruned: 0 };
+    }
+    // Yerel geliştirmede FCM olmadan cihaz kaydı yapılabilsin
+    if (!this.isConfigured()) {
+      this.logger.debug(`Skipping ${operation} for topic ${topic}`);
+      return { success: 0, failed: 0, pruned: 0 };
+    }
+
+    try {
+      const accessToken = await this.getAccessToken();
+      const response = await axios.post(
+        `${this.instanceIdUrl}:${operation}`,
+        { to: `/topics/${topic}`, registration_tokens: tokens },
+        {
+          headers: {
+            Authorization: `Bearer ${accessToken}`,
+            access_token_auth: 'true',
+            'Content-Type': 'application/json',
+          },
+        },
+      );
+
+      const results: { error?: string }[] = response.data?.results ?? [];
+      const notFound = tokens.filter(
+        (_, index) => results[index]?.error === 'NOT_FOUND',
+      );
+      const failed = results.filter((result) => result.error).length;
+
+      return {
+        success: tokens.length - failed,
+        failed,
+        pruned: await this.pruneTokens(notFound),
+      };
     } catch (error) {
-      console.error(
-        'Error sending push notification:',
-        error.response?.data || error.message,
+      this.logger.error(
+        `Error running ${operation} for topic ${topic}`,
+        JSON.stringify(error.response?.data ?? error.message),
       );
+      return { success: 0, failed: tokens.length, pruned: 0 };
+    }
+  }
+
+  private async pruneTokens(tokens: string[]) {
+    if (tokens.length === 0) {
+      return 0;
     }
+
+    const { count } = await this.prisma.deviceToken.deleteMany({
+      where: { token: { in: tokens } },
+    });
+    this.logger.log(`Pruned ${count} unregistered device tokens`);
+    return count;
+  }
+
+  // FCM v1: kaldırılmış veya hiç geçerli olmamış kayıt token'ları
+  private isUnregisteredError(error: any) {
+    const details: { errorCode?: string }[] =
+      error.response?.data?.error?.details ?? [];
+    if (details.some((detail) => detail.errorCode === 'UNREGISTERED')) {
+      return true;
+    }
+
+    return (
+      error.response?.status === 400 &&
+      /registration token/i.test(error.response?.data?.error?.message ?? '')
+    );
   }
 }
@@ -67,8 +67,17 @@ describe('HistoryService', () => {
         updatedAt: new Date(),
         contactInfoId: 1,
         addressId: 1,
-  rating: 0,
-  feedback: '',
+        rating: 0,
+        reviewCount: 0,
+        feedback: '',
+        suspendedAt: null,
+        suspensionReason: null,
+        verificationStatus: 'approved',
+        verificationRequestedAt: null,
+        verifiedAt: null,
+        verificationNote: null,
+        taxNumber: null,
+        charityRegistrationNo: null,
         aidRequest: [{ id: 1, type: 'Food', description: 'Need food' }],
       };
       jest
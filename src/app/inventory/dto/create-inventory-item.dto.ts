@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { InventoryCategory } from '../inventory';
+
+export class CreateInventoryItemDto {
+  @ApiProperty({ description: 'Ürün adı (ör. Gıda kolisi)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  readonly name: string;
+
+  @ApiProperty({ enum: InventoryCategory, description: 'Ürün kategorisi' })
+  @IsEnum(InventoryCategory)
+  readonly category: InventoryCategory;
+
+  @ApiProperty({ description: 'Sayım birimi (ör. koli, adet, kg)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  readonly unit: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Kullanılabilir stok bu değere düştüğünde uyarı gönderilir',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  readonly lowStockThreshold?: number;
+}
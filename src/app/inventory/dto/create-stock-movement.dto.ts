@@ -0,0 +1,51 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { MANUAL_STOCK_MOVEMENT_TYPES } from '../inventory';
+
+export class CreateStockMovementDto {
+  @ApiProperty({ description: 'Stok kalemi ID' })
+  @IsInt()
+  readonly itemId: number;
+
+  @ApiProperty({
+    enum: MANUAL_STOCK_MOVEMENT_TYPES,
+    description: 'Hareket türü',
+  })
+  @IsIn(MANUAL_STOCK_MOVEMENT_TYPES)
+  readonly type: string;
+
+  @ApiProperty({ description: 'Miktar (birim cinsinden, pozitif)' })
+  @IsInt()
+  @Min(1)
+  readonly quantity: number;
+
+  @ApiProperty({
+    required: false,
+    description:
+      'Rezervasyon ve serbest bırakmada zorunlu: stoğun ayrıldığı yardım talebi. Rezerve stok talep teslim edildiğinde dağıtılmış sayılır.',
+  })
+  @IsOptional()
+  @IsInt()
+  readonly aidRequestId?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Transferlerde zorunlu: stoğun gönderildiği organizasyon',
+  })
+  @IsOptional()
+  @IsInt()
+  readonly targetOrganizationId?: number;
+
+  @ApiProperty({ required: false, description: 'Açıklama' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  readonly note?: string;
+}
@@ -0,0 +1,45 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { InventoryCategory } from '../inventory';
+
+export class UpdateInventoryItemDto {
+  @ApiProperty({ required: false, description: 'Ürün adı' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  readonly name?: string;
+
+  @ApiProperty({
+    required: false,
+    enum: InventoryCategory,
+    description: 'Ürün kategorisi',
+  })
+  @IsOptional()
+  @IsEnum(InventoryCategory)
+  readonly category?: InventoryCategory;
+
+  @ApiProperty({ required: false, description: 'Sayım birimi' })
+  @IsOptional()
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(20)
+  readonly unit?: string;
+
+  @ApiProperty({
+    required: false,
+    description: 'Kullanılabilir stok bu değere düştüğünde uyarı gönderilir',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  readonly lowStockThreshold?: number;
+}
@@ -0,0 +1,130 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { InventoryService } from './inventory.service';
+import {
+  InventoryCategory,
+  MANUAL_STOCK_MOVEMENT_TYPES,
+  StockMovementType,
+} from './inventory';
+import { CreateInventoryItemDto } from './dto/create-inventory-item.dto';
+import { UpdateInventoryItemDto } from './dto/update-inventory-item.dto';
+import { CreateStockMovementDto } from './dto/create-stock-movement.dto';
+
+@ApiTags('inventory')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('organizations')
+export class InventoryController {
+  constructor(private readonly inventoryService: InventoryService) {}
+
+  @Get(':id/inventory')
+  @ApiOperation({ summary: 'List stock levels of an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiQuery({ name: 'category', enum: InventoryCategory, required: false })
+  @ApiQuery({
+    name: 'lowStock',
+    type: Boolean,
+    required: false,
+    description: 'Yalnızca uyarı eşiğine düşmüş kalemler',
+  })
+  async findInventory(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Query('category') category?: string,
+    @Query('lowStock') lowStock?: string,
+  ) {
+    return this.inventoryService.findInventory(id, req.user, {
+      category,
+      lowStock,
+    });
+  }
+
+  @Post(':id/inventory/items')
+  @ApiOperation({ summary: 'Add an item to the inventory catalogue' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiBody({ type: CreateInventoryItemDto })
+  @ApiResponse({ status: 409, description: 'Aynı adlı kalem zaten tanımlı' })
+  async createItem(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() createDto: CreateInventoryItemDto,
+  ) {
+    return this.inventoryService.createItem(id, req.user, createDto);
+  }
+
+  @Patch(':id/inventory/items/:itemId')
+  @ApiOperation({ summary: 'Update an inventory item' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'itemId', description: 'Inventory item ID' })
+  @ApiBody({ type: UpdateInventoryItemDto })
+  async updateItem(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('itemId', ParseIntPipe) itemId: number,
+    @Req() req: RequestWithUser,
+    @Body() updateDto: UpdateInventoryItemDto,
+  ) {
+    return this.inventoryService.updateItem(id, itemId, req.user, updateDto);
+  }
+
+  @Get(':id/inventory/movements')
+  @ApiOperation({ summary: 'List stock movements of an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiQuery({ name: 'itemId', type: Number, required: false })
+  @ApiQuery({ name: 'type', enum: StockMovementType, required: false })
+  @ApiQuery({ name: 'aidRequestId', type: Number, required: false })
+  @ApiQuery({ name: 'page', type: Number, required: false })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  async findMovements(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Query('itemId') itemId?: string,
+    @Query('type') type?: string,
+    @Query('aidRequestId') aidRequestId?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.inventoryService.findMovements(id, req.user, {
+      itemId,
+      type,
+      aidRequestId,
+      page,
+      limit,
+    });
+  }
+
+  @Post(':id/inventory/movements')
+  @ApiOperation({
+    summary: `Record a stock movement (${MANUAL_STOCK_MOVEMENT_TYPES.join(', ')})`,
+  })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiBody({ type: CreateStockMovementDto })
+  @ApiResponse({ status: 400, description: 'Yetersiz stok' })
+  async recordMovement(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() movementDto: CreateStockMovementDto,
+  ) {
+    return this.inventoryService.recordMovement(id, req.user, movementDto);
+  }
+}
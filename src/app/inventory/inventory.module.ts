@@ -0,0 +1,14 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { CaslModule } from '../casl/casl.module';
+import { InventoryService } from './inventory.service';
+import { InventoryController } from './inventory.controller';
+
+@Module({
+  imports: [PrismaModule, NotificationsModule, CaslModule],
+  providers: [InventoryService],
+  controllers: [InventoryController],
+  exports: [InventoryService],
+})
+export class InventoryModule {}
@@ -0,0 +1,362 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { InventoryService } from './inventory.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { InventoryCategory, StockMovementType } from './inventory';
+
+describe('InventoryService', () => {
+  let service: InventoryService;
+  let prismaService: PrismaService;
+  let notificationsService: NotificationsService;
+
+  const staff = {
+    id: 7,
+    role: 'organization_owner',
+    memberships: [{ organizationId: 4, role: 'staff' }],
+  };
+
+  const item = (overrides = {}) => ({
+    id: 2,
+    organizationId: 4,
+    name: 'Gıda kolisi',
+    category: 'food_parcel',
+    unit: 'koli',
+    availableQuantity: 30,
+    reservedQuantity: 0,
+    lowStockThreshold: 10,
+    lowStockAlertedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        InventoryService,
+        CaslAbilityFactory,
+        {
+          provide: PrismaService,
+          useValue: {
+            organization: {
+              findUnique: jest
+                .fn()
+                .mockResolvedValue({ id: 4, name: 'Gıda Bankası' }),
+            },
+            organizationMember: {
+              findMany: jest.fn().mockResolvedValue([{ userId: 7 }]),
+            },
+            aidRequest: {
+              findUnique: jest.fn(),
+            },
+            inventoryItem: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              create: jest.fn(),
+              update: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+              upsert: jest.fn(),
+            },
+            stockMovement: {
+              findMany: jest.fn(),
+              count: jest.fn(),
+              create: jest.fn(),
+            },
+            $transaction: jest.fn((operations) => Promise.all(operations)),
+          },
+        },
+        {
+          provide: NotificationsService,
+          useValue: {
+            notify: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<InventoryService>(InventoryService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    notificationsService =
+      module.get<NotificationsService>(NotificationsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('findInventory', () => {
+    it('should flag items at or below their threshold', async () => {
+      jest
+        .spyOn(prismaService.inventoryItem, 'findMany')
+        .mockResolvedValue([
+          item(),
+          item({ id: 3, name: 'Battaniye', availableQuantity: 5 }),
+        ] as any);
+
+      const result = await service.findInventory(4, staff, {
+        lowStock: 'true',
+      });
+
+      expect(result).toEqual([
+        expect.objectContaining({ id: 3, lowStock: true, totalQuantity: 5 }),
+      ]);
+    });
+
+    it('should hide the inventory from other organizations', async () => {
+      await expect(
+        service.findInventory(4, { id: 8, role: 'organization_owner' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('createItem', () => {
+    it('should only let managers change the catalogue', async () => {
+      await expect(
+        service.createItem(4, staff, {
+          name: 'Hijyen kiti',
+          category: InventoryCategory.HygieneKit,
+          unit: 'adet',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject duplicate item names', async () => {
+      jest
+        .spyOn(prismaService.inventoryItem, 'findUnique')
+        .mockResolvedValue(item() as any);
+
+      await expect(
+        service.createItem(
+          4,
+          { ...staff, memberships: [{ organizationId: 4, role: 'manager' }] },
+          {
+            name: ' Gıda kolisi ',
+            category: InventoryCategory.FoodParcel,
+            unit: 'koli',
+          },
+        ),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('recordMovement', () => {
+    beforeEach(() => {
+      jest
+        .spyOn(prismaService.inventoryItem, 'findUnique')
+        .mockResolvedValue(item() as any);
+    });
+
+    it('should move reserved stock out of the available quantity', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue({ id: 9, organizationId: 4 } as any);
+      jest
+        .spyOn(prismaService.inventoryItem, 'update')
+        .mockResolvedValue(item({ availableQuantity: 25 }) as any);
+
+      await service.recordMovement(4, staff, {
+        itemId: 2,
+        type: StockMovementType.Reserved,
+        quantity: 5,
+        aidRequestId: 9,
+      });
+
+      expect(prismaService.inventoryItem.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: {
+          availableQuantity: { decrement: 5 },
+          reservedQuantity: { increment: 5 },
+        },
+      });
+      expect(prismaService.stockMovement.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            type: 'reserved',
+            quantity: 5,
+            aidRequestId: 9,
+            createdById: 7,
+          }),
+        }),
+      );
+    });
+
+    it('should not reserve stock for requests of other organizations', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue({ id: 9, organizationId: 5 } as any);
+
+      await expect(
+        service.recordMovement(4, staff, {
+          itemId: 2,
+          type: StockMovementType.Reserved,
+          quantity: 5,
+          aidRequestId: 9,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject movements larger than the available stock', async () => {
+      await expect(
+        service.recordMovement(4, staff, {
+          itemId: 2,
+          type: StockMovementType.Expired,
+          quantity: 31,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should return released stock to the available quantity', async () => {
+      jest
+        .spyOn(prismaService.stockMovement, 'findMany')
+        .mockResolvedValue([
+          { itemId: 2, organizationId: 4, type: 'reserved', quantity: 5 },
+        ] as any);
+      jest
+        .spyOn(prismaService.inventoryItem, 'update')
+        .mockResolvedValue(item({ availableQuantity: 33 }) as any);
+
+      await service.recordMovement(4, staff, {
+        itemId: 2,
+        type: StockMovementType.Released,
+        quantity: 3,
+        aidRequestId: 9,
+      });
+
+      expect(prismaService.inventoryItem.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: {
+          availableQuantity: { increment: 3 },
+          reservedQuantity: { decrement: 3 },
+        },
+      });
+    });
+
+    it('should not release more than was reserved for the request', async () => {
+      jest.spyOn(prismaService.stockMovement, 'findMany').mockResolvedValue([
+        { itemId: 2, organizationId: 4, type: 'reserved', quantity: 5 },
+        { itemId: 2, organizationId: 4, type: 'released', quantity: 4 },
+      ] as any);
+
+      await expect(
+        service.recordMovement(4, staff, {
+          itemId: 2,
+          type: StockMovementType.Released,
+          quantity: 2,
+          aidRequestId: 9,
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.$transaction).not.toHaveBeenCalled();
+    });
+
+    it('should report concurrent overdrafts as insufficient stock', async () => {
+      jest
+        .spyOn(prismaService, '$transaction')
+        .mockRejectedValue(
+          new Prisma.PrismaClientUnknownRequestError(
+            'new row for relation "InventoryItem" violates check constraint "InventoryItem_quantities_check"',
+            { clientVersion: '6.5.0' },
+          ),
+        );
+
+      await expect(
+        service.recordMovement(4, staff, {
+          itemId: 2,
+          type: StockMovementType.Expired,
+          quantity: 5,
+        }),
+      ).rejects.toThrow('Yetersiz stok');
+    });
+
+    it('should alert owners once when stock drops below the threshold', async () => {
+      jest
+        .spyOn(prismaService.inventoryItem, 'update')
+        .mockResolvedValue(item({ availableQuantity: 8 }) as any);
+
+      await service.recordMovement(4, staff, {
+        itemId: 2,
+        type: StockMovementType.Distributed,
+        quantity: 22,
+      });
+
+      expect(prismaService.inventoryItem.updateMany).toHaveBeenCalledWith({
+        where: { id: 2, lowStockAlertedAt: null },
+        data: { lowStockAlertedAt: expect.any(Date) },
+      });
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        [7],
+        'inventory.low-stock',
+        expect.objectContaining({
+          itemName: 'Gıda kolisi',
+          availableQuantity: 8,
+        }),
+        { organizationId: 4 },
+      );
+    });
+  });
+
+  describe('releaseReservedStock', () => {
+    it('should return what is still reserved to the available stock', async () => {
+      jest.spyOn(prismaService.stockMovement, 'findMany').mockResolvedValue([
+        { itemId: 2, organizationId: 4, type: 'reserved', quantity: 5 },
+        { itemId: 2, organizationId: 4, type: 'released', quantity: 2 },
+      ] as any);
+      jest
+        .spyOn(prismaService.inventoryItem, 'update')
+        .mockResolvedValue(item({ availableQuantity: 33 }) as any);
+
+      const result = await service.releaseReservedStock(prismaService, 9, 7);
+
+      expect(result).toEqual([item({ availableQuantity: 33 })]);
+      expect(prismaService.inventoryItem.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: {
+          reservedQuantity: { decrement: 3 },
+          availableQuantity: { increment: 3 },
+        },
+      });
+      expect(prismaService.stockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: 'released',
+          quantity: 3,
+          aidRequestId: 9,
+        }),
+      });
+    });
+  });
+
+  describe('distributeReservedStock', () => {
+    it('should distribute only the stock still reserved for the request', async () => {
+      jest.spyOn(prismaService.stockMovement, 'findMany').mockResolvedValue([
+        { itemId: 2, organizationId: 4, type: 'reserved', quantity: 5 },
+        { itemId: 2, organizationId: 4, type: 'reserved', quantity: 3 },
+        { itemId: 3, organizationId: 4, type: 'reserved', quantity: 2 },
+        { itemId: 3, organizationId: 4, type: 'distributed', quantity: 2 },
+      ] as any);
+      jest
+        .spyOn(prismaService.inventoryItem, 'update')
+        .mockResolvedValue(item({ reservedQuantity: 0 }) as any);
+
+      const result = await service.distributeReservedStock(prismaService, 9, 7);
+
+      expect(result).toEqual([item({ reservedQuantity: 0 })]);
+      expect(prismaService.inventoryItem.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { reservedQuantity: { decrement: 8 } },
+      });
+      expect(prismaService.stockMovement.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          itemId: 2,
+          type: 'distributed',
+          quantity: 8,
+          aidRequestId: 9,
+        }),
+      });
+    });
+  });
+});
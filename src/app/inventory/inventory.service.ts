@@ -0,0 +1,781 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { InventoryItem, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/notification-templates';
+import { Action } from '../casl/action';
+import { AbilityUser, CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { OrganizationMemberRole } from '../organizations/organization-member';
+import { isOrganizationActive } from '../organizations/organization-visibility';
+import {
+  InventoryCategory,
+  MANUAL_STOCK_MOVEMENT_TYPES,
+  StockMovementType,
+} from './inventory';
+import { CreateInventoryItemDto } from './dto/create-inventory-item.dto';
+import { UpdateInventoryItemDto } from './dto/update-inventory-item.dto';
+import { CreateStockMovementDto } from './dto/create-stock-movement.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_NOTE_LENGTH = 1000;
+
+// Eşzamanlı hareketler stoğu negatife düşürmeye çalıştığında CHECK kısıtı
+// devreye girer
+const isQuantityCheckViolation = (error: unknown) =>
+  (error instanceof Prisma.PrismaClientKnownRequestError ||
+    error instanceof Prisma.PrismaClientUnknownRequestError) &&
+  error.message.includes('InventoryItem_quantities_check');
+
+const MOVEMENT_INCLUDE = {
+  item: { select: { id: true, name: true, unit: true } },
+  counterpartOrganization: { select: { id: true, name: true } },
+  createdBy: { select: { id: true, name: true } },
+} satisfies Prisma.StockMovementInclude;
+
+/**
+ * Organizasyonların ayni yardım stokları. Kullanılabilir ve rezerve stok
+ * ayrı tutulur; her değişiklik bir stok hareketiyle birlikte kaydedilir.
+ * Stok seviyeleri veritabanında negatife düşemez (CHECK kısıtı).
+ */
+@Injectable()
+export class InventoryService {
+  private readonly logger = new Logger(InventoryService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  async findInventory(
+    organizationId: number,
+    user: AbilityUser,
+    query: { category?: string; lowStock?: unknown } = {},
+  ) {
+    await this.findOrganization(organizationId);
+    this.caslAbilityFactory.assertCan(user, Action.Read, 'InventoryItem', {
+      organizationId,
+    });
+
+    const items = await this.prisma.inventoryItem.findMany({
+      where: {
+        organizationId,
+        ...(query.category && {
+          category: this.parseCategory(query.category),
+        }),
+      },
+      orderBy: { name: 'asc' },
+    });
+
+    const data = items.map((item) => ({
+      ...item,
+      totalQuantity: item.availableQuantity + item.reservedQuantity,
+      lowStock: this.isLowStock(item),
+    }));
+
+    return String(query.lowStock) === 'true'
+      ? data.filter((item) => item.lowStock)
+      : data;
+  }
+
+  async createItem(
+    organizationId: number,
+    user: AbilityUser,
+    createDto: CreateInventoryItemDto,
+  ) {
+    await this.findOrganization(organizationId);
+    this.caslAbilityFactory.assertCan(user, Action.Create, 'InventoryItem', {
+      organizationId,
+    });
+
+    const data = this.validateItem(createDto);
+    await this.assertNameAvailable(organizationId, data.name);
+
+    return this.prisma.inventoryItem.create({
+      data: { organizationId, ...data },
+    });
+  }
+
+  // Stok miktarları yalnızca hareketlerle değişir
+  async updateItem(
+    organizationId: number,
+    itemId: number,
+    user: AbilityUser,
+    updateDto: UpdateInventoryItemDto,
+  ) {
+    const item = await this.findItem(organizationId, itemId);
+    this.caslAbilityFactory.assertCan(user, Action.Update, 'InventoryItem', {
+      organizationId,
+    });
+
+    const data = this.validateItem({
+      name: item.name,
+      category: item.category as InventoryCategory,
+      unit: item.unit,
+      lowStockThreshold: item.lowStockThreshold,
+      ...updateDto,
+    });
+    if (data.name !== item.name) {
+      await this.assertNameAvailable(organizationId, data.name);
+    }
+
+    const updated = await this.prisma.inventoryItem.update({
+      where: { id: itemId },
+      data,
+    });
+    await this.syncLowStockAlert(updated);
+
+    return updated;
+  }
+
+  async findMovements(
+    organizationId: number,
+    user: AbilityUser,
+    query: {
+      itemId?: unknown;
+      type?: string;
+      aidRequestId?: unknown;
+      page?: unknown;
+      limit?: unknown;
+    } = {},
+  ) {
+    await this.findOrganization(organizationId);
+    this.caslAbilityFactory.assertCan(user, Action.Read, 'StockMovement', {
+      organizationId,
+    });
+
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE),
+    );
+    const where: Prisma.StockMovementWhereInput = {
+      organizationId,
+      ...(query.itemId && { itemId: Number(query.itemId) }),
+      ...(query.type && { type: query.type }),
+      ...(query.aidRequestId && { aidRequestId: Number(query.aidRequestId) }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.stockMovement.findMany({
+        where,
+        include: MOVEMENT_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.stockMovement.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async recordMovement(
+    organizationId: number,
+    user: AbilityUser,
+    movementDto: CreateStockMovementDto,
+  ) {
+    const item = await this.findItem(
+      organizationId,
+      Number(movementDto?.itemId),
+    );
+    this.caslAbilityFactory.assertCan(user, Action.Create, 'StockMovement', {
+      organizationId,
+    });
+
+    const type = movementDto.type;
+    if (!MANUAL_STOCK_MOVEMENT_TYPES.includes(type)) {
+      throw new BadRequestException(
+        `Geçersiz hareket türü. Geçerli türler: ${MANUAL_STOCK_MOVEMENT_TYPES.join(', ')}`,
+      );
+    }
+
+    const quantity = Number(movementDto.quantity);
+    if (!Number.isInteger(quantity) || quantity <= 0) {
+      throw new BadRequestException('Miktar pozitif bir tam sayı olmalıdır');
+    }
+
+    const note = movementDto.note?.trim() || null;
+    if (note && note.length > MAX_NOTE_LENGTH) {
+      throw new BadRequestException(
+        `Açıklama en fazla ${MAX_NOTE_LENGTH} karakter olabilir`,
+      );
+    }
+
+    // Giriş ve serbest bırakma dışındaki tüm hareketler kullanılabilir
+    // stoktan düşer
+    if (
+      type !== StockMovementType.Received &&
+      type !== StockMovementType.Released &&
+      item.availableQuantity < quantity
+    ) {
+      throw new BadRequestException(
+        `Yetersiz stok: ${item.name} için kullanılabilir miktar ${item.availableQuantity} ${item.unit}`,
+      );
+    }
+
+    const movement = {
+      itemId: item.id,
+      organizationId,
+      type,
+      quantity,
+      note,
+      createdById: user.id,
+    };
+    const operations: Prisma.PrismaPromise<unknown>[] = [];
+
+    if (type === StockMovementType.Received) {
+      operations.push(
+        this.prisma.inventoryItem.update({
+          where: { id: item.id },
+          data: { availableQuantity: { increment: quantity } },
+        }),
+        this.prisma.stockMovement.create({
+          data: movement,
+          include: MOVEMENT_INCLUDE,
+        }),
+      );
+    } else if (type === StockMovementType.Reserved) {
+      const aidRequestId = await this.findReservableAidRequest(
+        organizationId,
+        movementDto.aidRequestId,
+      );
+      operations.push(
+        this.prisma.inventoryItem.update({
+          where: { id: item.id },
+          data: {
+            availableQuantity: { decrement: quantity },
+            reservedQuantity: { increment: quantity },
+          },
+        }),
+        this.prisma.stockMovement.create({
+          data: { ...movement, aidRequestId },
+          include: MOVEMENT_INCLUDE,
+        }),
+      );
+    } else if (type === StockMovementType.Released) {
+      const aidRequestId = Number(movementDto.aidRequestId);
+      if (!aidRequestId) {
+        throw new BadRequestException(
+          'Serbest bırakma için yardım talebi belirtilmelidir',
+        );
+      }
+      const reserved =
+        (await this.findOutstandingReservations(aidRequestId)).get(item.id)
+          ?.quantity ?? 0;
+      if (reserved < quantity) {
+        throw new BadRequestException(
+          `${item.name} için bu talebe ayrılmış miktar ${reserved} ${item.unit}`,
+        );
+      }
+      operations.push(
+        this.prisma.inventoryItem.update({
+          where: { id: item.id },
+          data: {
+            availableQuantity: { increment: quantity },
+            reservedQuantity: { decrement: quantity },
+          },
+        }),
+        this.prisma.stockMovement.create({
+          data: { ...movement, aidRequestId },
+          include: MOVEMENT_INCLUDE,
+        }),
+      );
+    } else if (type === StockMovementType.TransferredOut) {
+      const target = await this.findTransferTarget(
+        organizationId,
+        movementDto.targetOrganizationId,
+      );
+      operations.push(
+        this.prisma.inventoryItem.update({
+          where: { id: item.id },
+          data: { availableQuantity: { decrement: quantity } },
+        }),
+        this.prisma.stockMovement.create({
+          data: { ...movement, counterpartOrganizationId: target.id },
+          include: MOVEMENT_INCLUDE,
+        }),
+        // Alıcı organizasyonda aynı adlı kalem yoksa oluşturulur
+        this.prisma.inventoryItem.upsert({
+          where: {
+            organizationId_name: { organizationId: target.id, name: item.name },
+          },
+          create: {
+            organizationId: target.id,
+            name: item.name,
+            category: item.category,
+            unit: item.unit,
+            availableQuantity: quantity,
+            movements: {
+              create: this.transferInMovement(target.id, movement),
+            },
+          },
+          update: {
+            availableQuantity: { increment: quantity },
+            movements: {
+              create: this.transferInMovement(target.id, movement),
+            },
+          },
+        }),
+      );
+    } else {
+      // Talebe bağlı olmayan dağıtım veya son kullanma tarihi geçen stok.
+      // Talebe bağlı dağıtımlar rezervasyondan teslimatla oluşur.
+      operations.push(
+        this.prisma.inventoryItem.update({
+          where: { id: item.id },
+          data: { availableQuantity: { decrement: quantity } },
+        }),
+        this.prisma.stockMovement.create({
+          data: movement,
+          include: MOVEMENT_INCLUDE,
+        }),
+      );
+    }
+
+    let updatedItem: InventoryItem;
+    let created: unknown;
+    try {
+      [updatedItem, created] = (await this.prisma.$transaction(operations)) as [
+        InventoryItem,
+        unknown,
+      ];
+    } catch (error) {
+      if (isQuantityCheckViolation(error)) {
+        throw new BadRequestException(
+          `Yetersiz stok: ${item.name} için stok bu sırada değişti, lütfen tekrar deneyin`,
+        );
+      }
+      throw error;
+    }
+    this.logger.log(
+      `Stock movement ${type} of ${quantity} recorded for item ${item.id}`,
+    );
+
+    await this.syncLowStockAlert(updatedItem);
+
+    return created;
+  }
+
+  /**
+   * Talep teslim edildiğinde, ona ayrılıp henüz dağıtılmamış stok rezerveden
+   * düşülür ve dağıtım hareketi oluşturulur. Talebin durum güncellemesiyle
+   * aynı transaction içinde çalışır; güncellenen kalemler döner ve stok
+   * uyarıları commit sonrasında syncLowStockAlerts ile güncellenir.
+   */
+  async distributeReservedStock(
+    tx: Prisma.TransactionClient,
+    aidRequestId: number,
+    userId?: number,
+    note = 'Teslimat doğrulaması',
+  ) {
+    const items = await this.settleReservations(
+      tx,
+      aidRequestId,
+      StockMovementType.Distributed,
+      note,
+      userId,
+    );
+    if (items.length > 0) {
+      this.logger.log(
+        `Reserved stock of ${items.length} item(s) distributed for aid request ${aidRequestId}`,
+      );
+    }
+
+    return items;
+  }
+
+  /**
+   * Talep iptal edildiğinde, reddedildiğinde veya organizasyondan geri
+   * alındığında ona ayrılmış stok kullanılabilir stoğa geri döner.
+   * distributeReservedStock gibi çağıranın transaction'ı içinde çalışır.
+   */
+  async releaseReservedStock(
+    tx: Prisma.TransactionClient,
+    aidRequestId: number,
+    userId?: number,
+    note = 'Talep için ayrılan stok serbest bırakıldı',
+  ) {
+    const items = await this.settleReservations(
+      tx,
+      aidRequestId,
+      StockMovementType.Released,
+      note,
+      userId,
+    );
+    if (items.length > 0) {
+      this.logger.log(
+        `Reserved stock of ${items.length} item(s) released for aid request ${aidRequestId}`,
+      );
+    }
+
+    return items;
+  }
+
+  /**
+   * Teslim alınan ayni bağış kalemlerini stoğa ekleyen işlemler. Çağıran
+   * servis bunları kendi güncellemesiyle aynı transaction içinde çalıştırır;
+   * katalogda olmayan kalemler oluşturulur.
+   */
+  async donatedStockOperations(
+    organizationId: number,
+    lines: { name: string; category: string; unit: string; quantity: number }[],
+    userId: number,
+    note: string,
+  ) {
+    const existing = await this.prisma.inventoryItem.findMany({
+      where: { organizationId, name: { in: lines.map((line) => line.name) } },
+    });
+    for (const line of lines) {
+      const item = existing.find((candidate) => candidate.name === line.name);
+      if (item && item.unit !== line.unit) {
+        throw new BadRequestException(
+          `${line.name} stokta ${item.unit} birimiyle tutuluyor`,
+        );
+      }
+    }
+
+    return lines.map((line) => {
+      const movements = {
+        create: {
+          organizationId,
+          type: StockMovementType.Received,
+          quantity: line.quantity,
+          note,
+          createdById: userId,
+        },
+      };
+
+      return this.prisma.inventoryItem.upsert({
+        where: { organizationId_name: { organizationId, name: line.name } },
+        create: {
+          organizationId,
+          name: line.name,
+          category: this.parseCategory(line.category),
+          unit: line.unit,
+          availableQuantity: line.quantity,
+          movements,
+        },
+        update: {
+          availableQuantity: { increment: line.quantity },
+          movements,
+        },
+      });
+    });
+  }
+
+  // Stok girişlerinden sonra eşiğin üzerine çıkan kalemlerin uyarısı sıfırlanır
+  async syncLowStockAlerts(items: InventoryItem[]) {
+    for (const item of items) {
+      await this.syncLowStockAlert(item);
+    }
+  }
+
+  private async findOrganization(organizationId: number) {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+    });
+
+    if (!organization) {
+      throw new NotFoundException(
+        `Organizasyon bulunamadı. ID: ${organizationId}`,
+      );
+    }
+
+    return organization;
+  }
+
+  private async findItem(organizationId: number, itemId: number) {
+    const item = Number.isInteger(itemId)
+      ? await this.prisma.inventoryItem.findUnique({ where: { id: itemId } })
+      : null;
+
+    if (!item || item.organizationId !== organizationId) {
+      throw new NotFoundException(`${itemId} ID'li stok kalemi bulunamadı`);
+    }
+
+    return item;
+  }
+
+  private async assertNameAvailable(organizationId: number, name: string) {
+    const existing = await this.prisma.inventoryItem.findUnique({
+      where: { organizationId_name: { organizationId, name } },
+    });
+    if (existing) {
+      throw new ConflictException(`${name} adlı stok kalemi zaten tanımlı`);
+    }
+  }
+
+  // Stok yalnızca organizasyona atanmış ve sonuçlanmamış talepler için ayrılır
+  // Talep için ayrılıp henüz dağıtılmamış veya serbest bırakılmamış stok
+  private async findOutstandingReservations(
+    aidRequestId: number,
+    client: Prisma.TransactionClient = this.prisma,
+  ) {
+    const movements = await client.stockMovement.findMany({
+      where: {
+        aidRequestId,
+        type: {
+          in: [
+            StockMovementType.Reserved,
+            StockMovementType.Distributed,
+            StockMovementType.Released,
+          ],
+        },
+      },
+    });
+
+    const outstanding = new Map<
+      number,
+      { organizationId: number; quantity: number }
+    >();
+    for (const movement of movements) {
+      const entry = outstanding.get(movement.itemId) ?? {
+        organizationId: movement.organizationId,
+        quantity: 0,
+      };
+      entry.quantity +=
+        movement.type === StockMovementType.Reserved
+          ? movement.quantity
+          : -movement.quantity;
+      outstanding.set(movement.itemId, entry);
+    }
+
+    return outstanding;
+  }
+
+  // Kalan rezervasyonları dağıtır veya kullanılabilir stoğa geri aktarır
+  private async settleReservations(
+    tx: Prisma.TransactionClient,
+    aidRequestId: number,
+    type: StockMovementType.Distributed | StockMovementType.Released,
+    note: string,
+    userId?: number,
+  ) {
+    const outstanding = await this.findOutstandingReservations(
+      aidRequestId,
+      tx,
+    );
+
+    const items: InventoryItem[] = [];
+    for (const [itemId, { organizationId, quantity }] of outstanding) {
+      if (quantity <= 0) continue;
+
+      try {
+        items.push(
+          await tx.inventoryItem.update({
+            where: { id: itemId },
+            data: {
+              reservedQuantity: { decrement: quantity },
+              ...(type === StockMovementType.Released && {
+                availableQuantity: { increment: quantity },
+              }),
+            },
+          }),
+        );
+      } catch (error) {
+        if (isQuantityCheckViolation(error)) {
+          throw new BadRequestException(
+            `Yetersiz stok: ${itemId} ID'li kalemin rezerve stoğu bu sırada değişti, lütfen tekrar deneyin`,
+          );
+        }
+        throw error;
+      }
+      await tx.stockMovement.create({
+        data: {
+          itemId,
+          organizationId,
+          type,
+          quantity,
+          aidRequestId,
+          note,
+          createdById: userId ?? null,
+        },
+      });
+    }
+
+    return items;
+  }
+
+  private async findReservableAidRequest(
+    organizationId: number,
+    aidRequestId: unknown,
+  ) {
+    if (!aidRequestId) {
+      throw new BadRequestException(
+        'Rezervasyon için yardım talebi belirtilmelidir',
+      );
+    }
+
+    const aidRequest = await this.prisma.aidRequest.findUnique({
+      where: { id: Number(aidRequestId) },
+    });
+    if (!aidRequest || aidRequest.isDeleted) {
+      throw new NotFoundException(
+        `${aidRequestId} ID'li yardım talebi bulunamadı`,
+      );
+    }
+    if (aidRequest.organizationId !== organizationId) {
+      throw new BadRequestException(
+        'Stok yalnızca organizasyona atanmış talepler için ayrılabilir',
+      );
+    }
+
+    return aidRequest.id;
+  }
+
+  private async findTransferTarget(
+    organizationId: number,
+    targetOrganizationId: unknown,
+  ) {
+    if (!targetOrganizationId) {
+      throw new BadRequestException(
+        'Transfer için alıcı organizasyon belirtilmelidir',
+      );
+    }
+    if (Number(targetOrganizationId) === organizationId) {
+      throw new BadRequestException(
+        'Stok aynı organizasyona transfer edilemez',
+      );
+    }
+
+    const target = await this.findOrganization(Number(targetOrganizationId));
+    if (!isOrganizationActive(target)) {
+      throw new BadRequestException(
+        `${target.name} organizasyonu doğrulanmadığı veya askıya alındığı için transfer yapılamaz`,
+      );
+    }
+
+    return target;
+  }
+
+  private transferInMovement(
+    targetOrganizationId: number,
+    movement: {
+      organizationId: number;
+      quantity: number;
+      note: string | null;
+      createdById: number;
+    },
+  ) {
+    return {
+      organizationId: targetOrganizationId,
+      type: StockMovementType.TransferredIn,
+      quantity: movement.quantity,
+      counterpartOrganizationId: movement.organizationId,
+      note: movement.note,
+      createdById: movement.createdById,
+    };
+  }
+
+  private isLowStock(
+    item: Pick<InventoryItem, 'availableQuantity' | 'lowStockThreshold'>,
+  ) {
+    return (
+      item.lowStockThreshold > 0 &&
+      item.availableQuantity <= item.lowStockThreshold
+    );
+  }
+
+  /**
+   * Stok eşiğe düştüğünde organizasyonun owner/manager üyelerine bir kez
+   * bildirim gider; stok eşiğin üzerine çıkınca uyarı sıfırlanır.
+   */
+  private async syncLowStockAlert(item: InventoryItem) {
+    if (!this.isLowStock(item)) {
+      if (item.lowStockAlertedAt) {
+        await this.prisma.inventoryItem.update({
+          where: { id: item.id },
+          data: { lowStockAlertedAt: null },
+        });
+      }
+      return;
+    }
+    if (item.lowStockAlertedAt) return;
+
+    // Eş zamanlı hareketlerde uyarı yalnızca bir kez gönderilir
+    const { count } = await this.prisma.inventoryItem.updateMany({
+      where: { id: item.id, lowStockAlertedAt: null },
+      data: { lowStockAlertedAt: new Date() },
+    });
+    if (count === 0) return;
+
+    const [organization, members] = await Promise.all([
+      this.prisma.organization.findUnique({
+        where: { id: item.organizationId },
+        select: { name: true },
+      }),
+      this.prisma.organizationMember.findMany({
+        where: {
+          organizationId: item.organizationId,
+          role: {
+            in: [OrganizationMemberRole.Owner, OrganizationMemberRole.Manager],
+          },
+        },
+        select: { userId: true },
+      }),
+    ]);
+
+    await this.notificationsService.notify(
+      members.map((member) => member.userId),
+      NotificationType.InventoryLowStock,
+      {
+        organizationName: organization?.name,
+        itemName: item.name,
+        availableQuantity: item.availableQuantity,
+        unit: item.unit,
+        lowStockThreshold: item.lowStockThreshold,
+      },
+      { organizationId: item.organizationId },
+    );
+    this.logger.warn(
+      `Item ${item.id} of organization ${item.organizationId} is low on stock`,
+    );
+  }
+
+  private validateItem(itemDto: CreateInventoryItemDto) {
+    const name = itemDto?.name?.trim();
+    if (!name || name.length > 100) {
+      throw new BadRequestException('Ürün adı 1-100 karakter olmalıdır');
+    }
+
+    const unit = itemDto.unit?.trim();
+    if (!unit || unit.length > 20) {
+      throw new BadRequestException('Birim 1-20 karakter olmalıdır');
+    }
+
+    const lowStockThreshold = Number(itemDto.lowStockThreshold ?? 0);
+    if (!Number.isInteger(lowStockThreshold) || lowStockThreshold < 0) {
+      throw new BadRequestException(
+        'Stok uyarı eşiği sıfır veya pozitif bir tam sayı olmalıdır',
+      );
+    }
+
+    return {
+      name,
+      category: this.parseCategory(itemDto.category),
+      unit,
+      lowStockThreshold,
+    };
+  }
+
+  private parseCategory(category: string) {
+    const categories: string[] = Object.values(InventoryCategory);
+    if (!categories.includes(category)) {
+      throw new BadRequestException(
+        `Geçersiz ürün kategorisi. Geçerli kategoriler: ${categories.join(', ')}`,
+      );
+    }
+    return category;
+  }
+}
@@ -0,0 +1,29 @@
+export enum InventoryCategory {
+  FoodParcel = 'food_parcel',
+  Blanket = 'blanket',
+  HygieneKit = 'hygiene_kit',
+  Clothing = 'clothing',
+  Water = 'water',
+  Medical = 'medical',
+  Other = 'other',
+}
+
+export enum StockMovementType {
+  Received = 'received',
+  Reserved = 'reserved',
+  Released = 'released',
+  Distributed = 'distributed',
+  Expired = 'expired',
+  TransferredOut = 'transferred_out',
+  TransferredIn = 'transferred_in',
+}
+
+// Kullanıcıların doğrudan girebildiği hareketler; transfer girişi otomatik oluşur
+export const MANUAL_STOCK_MOVEMENT_TYPES: string[] = [
+  StockMovementType.Received,
+  StockMovementType.Reserved,
+  StockMovementType.Released,
+  StockMovementType.Distributed,
+  StockMovementType.Expired,
+  StockMovementType.TransferredOut,
+];
@@ -0,0 +1,18 @@
+export interface ClusterablePoint {
+  id: number;
+  latitude: number;
+  longitude: number;
+}
+
+// boyut -> değer -> adet, ör. { status: { approved: 3 }, urgency: { urgent: 1 } }
+export type MapClusterBreakdown = Record<string, Record<string, number>>;
+
+export interface MapCluster {
+  id: string;
+  latitude: number;
+  longitude: number;
+  count: number;
+  breakdown: MapClusterBreakdown;
+}
+
+export type MapClusterLayer = 'aid-requests' | 'aid-centers';
@@ -0,0 +1,19 @@
+export type MapLayer = 'aid-centers' | 'aid-requests' | 'tasks';
+
+export type GeoJsonProperties = Record<string, string | number | boolean>;
+
+export interface GeoJsonFeature {
+  type: 'Feature';
+  id: number;
+  geometry: {
+    type: 'Point';
+    coordinates: [number, number];
+  };
+  properties: GeoJsonProperties;
+}
+
+export interface GeoJsonFeatureCollection {
+  type: 'FeatureCollection';
+  name: MapLayer;
+  features: GeoJsonFeature[];
+}
@@ -0,0 +1,101 @@
+import { BadRequestException } from '@nestjs/common';
+import {
+  ClusterablePoint,
+  MapCluster,
+  MapClusterBreakdown,
+} from './interfaces/map-cluster.interface';
+
+export const MIN_CLUSTER_ZOOM = 0;
+export const MAX_MAP_ZOOM = 22;
+// Bu yakınlaştırmadan itibaren noktalar kümelenmeden tek tek döner
+export const MAX_CLUSTER_ZOOM = 16;
+// 256 piksellik bir karo kenarına düşen hücre sayısı (~64 piksel hücre)
+const CELLS_PER_TILE = 4;
+
+export function parseZoom(zoom: unknown): number {
+  const value = Number(zoom);
+  if (
+    zoom === undefined ||
+    zoom === null ||
+    zoom === '' ||
+    !Number.isInteger(value) ||
+    value < MIN_CLUSTER_ZOOM ||
+    value > MAX_MAP_ZOOM
+  ) {
+    throw new BadRequestException(
+      `Yakınlaştırma seviyesi ${MIN_CLUSTER_ZOOM} ile ${MAX_MAP_ZOOM} arasında bir tam sayı olmalıdır`,
+    );
+  }
+  return value;
+}
+
+// Verilen yakınlaştırmadaki ızgara hücresinin kenar uzunluğu (derece)
+export function clusterCellSize(zoom: number) {
+  return 360 / (Math.pow(2, zoom) * CELLS_PER_TILE);
+}
+
+/**
+ * Noktaları yakınlaştırmaya göre ızgara hücrelerinde toplar. Her küme için
+ * `categorize` ile dönen boyutlara (ör. durum, tür) göre sayımlar çıkarılır.
+ * Tek noktalı hücreler ve MAX_CLUSTER_ZOOM üstündeki tüm noktalar tek tek döner.
+ */
+export function clusterPoints<T extends ClusterablePoint>(
+  points: T[],
+  zoom: number,
+  categorize: (point: T) => Record<string, string>,
+): { clusters: MapCluster[]; points: T[] } {
+  if (zoom >= MAX_CLUSTER_ZOOM) {
+    return { clusters: [], points };
+  }
+
+  const cellSize = clusterCellSize(zoom);
+  const cells = new Map<string, T[]>();
+  for (const point of points) {
+    const key = `${zoom}:${Math.floor(point.latitude / cellSize)}:${Math.floor(
+      point.longitude / cellSize,
+    )}`;
+    const members = cells.get(key) ?? [];
+    members.push(point);
+    cells.set(key, members);
+  }
+
+  const clusters: MapCluster[] = [];
+  const singles: T[] = [];
+  for (const [key, members] of cells) {
+    if (members.length === 1) {
+      singles.push(members[0]);
+      continue;
+    }
+
+    const breakdown: MapClusterBreakdown = {};
+    for (const member of members) {
+      for (const [dimension, value] of Object.entries(categorize(member))) {
+        breakdown[dimension] = breakdown[dimension] ?? {};
+        breakdown[dimension][value] = (breakdown[dimension][value] ?? 0) + 1;
+      }
+    }
+
+    clusters.push({
+      id: key,
+      latitude: round(
+        members.reduce((sum, member) => sum + member.latitude, 0) /
+          members.length,
+      ),
+      longitude: round(
+        members.reduce((sum, member) => sum + member.longitude, 0) /
+          members.length,
+      ),
+      count: members.length,
+      breakdown,
+    });
+  }
+
+  return {
+    clusters: clusters.sort((a, b) => b.count - a.count),
+    points: singles,
+  };
+}
+
+function round(value: number) {
+  return parseFloat(value.toFixed(6));
+}
@@ -2,23 +2,32 @@ import {
   Body,
   Controller,
   Get,
+  Header,
+  Param,
   Post,
   Query,
   Req,
+  StreamableFile,
   UseGuards,
 } from '@nestjs/common';
-import { MapService } from './map.service';
+import { MAP_LAYERS, MapService } from './map.service';
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
 import { RoleGuard } from '../auth/role.guard';
 import { Roles } from '../auth/decorators/roles.decorator';
 import {
   ApiBearerAuth,
   ApiBody,
+  ApiParam,
+  ApiProduces,
   ApiQuery,
   ApiResponse,
   ApiTags,
 } from '@nestjs/swagger';
 import { Role } from '../casl/action';
+import { parseGeoPolygon, parseGeoRadius } from '../prisma/geo-query.util';
+import { MAX_CLUSTER_ZOOM, MAX_MAP_ZOOM, parseZoom } from './map-cluster.util';
+import { MapClusterLayer } from './interfaces/map-cluster.interface';
+import { MapLayer } from './interfaces/map-layer.interface';
 
 @ApiTags('map')
 @Controller('map')
@@ -29,15 +38,54 @@ export class MapController {
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
   @ApiResponse({ description: 'Harita bölgesindeki yardım merkezleri' })
-  @ApiQuery({ name: 'north', type: Number, required: true })
-  @ApiQuery({ name: 'south', type: Number, required: true })
-  @ApiQuery({ name: 'east', type: Number, required: true })
-  @ApiQuery({ name: 'west', type: Number, required: true })
+  @ApiQuery({ name: 'north', type: Number, required: false })
+  @ApiQuery({ name: 'south', type: Number, required: false })
+  @ApiQuery({ name: 'east', type: Number, required: false })
+  @ApiQuery({ name: 'west', type: Number, required: false })
+  @ApiQuery({ name: 'latitude', type: Number, required: false })
+  @ApiQuery({ name: 'longitude', type: Number, required: false })
+  @ApiQuery({
+    name: 'radiusKm',
+    type: Number,
+    required: false,
+    description: 'Konum verildiğinde yarıçap (varsayılan 10 km)',
+  })
+  @ApiQuery({
+    name: 'polygon',
+    type: String,
+    required: false,
+    description: 'Çizilen bölge, JSON: [[boylam, enlem], ...]',
+  })
+  @ApiQuery({
+    name: 'servesLatitude',
+    type: Number,
+    required: false,
+    description: 'Hizmet bölgesi bu konumu kapsayan merkezler (enlem)',
+  })
+  @ApiQuery({
+    name: 'servesLongitude',
+    type: Number,
+    required: false,
+    description: 'Hizmet bölgesi bu konumu kapsayan merkezler (boylam)',
+  })
+  @ApiQuery({
+    name: 'aidType',
+    type: String,
+    required: false,
+    description: 'Hizmet konumuyla birlikte: bu yardım türünü karşılayanlar',
+  })
   async getAidCenters(
     @Query('north') north: number,
     @Query('south') south: number,
     @Query('east') east: number,
     @Query('west') west: number,
+    @Query('latitude') latitude?: number,
+    @Query('longitude') longitude?: number,
+    @Query('radiusKm') radiusKm?: number,
+    @Query('polygon') polygon?: string,
+    @Query('servesLatitude') servesLatitude?: number,
+    @Query('servesLongitude') servesLongitude?: number,
+    @Query('aidType') aidType?: string,
   ) {
     // String olarak gelen değerleri sayıya çevirme
     const bounds = {
@@ -46,8 +94,17 @@ export class MapController {
       east: parseFloat(east as any),
       west: parseFloat(west as any),
     };
+    const served = parseGeoRadius(servesLatitude, servesLongitude, undefined);
 
-    const aidCenters = await this.mapService.getActiveAidCenters(bounds);
+    const aidCenters = await this.mapService.getActiveAidCenters(bounds, {
+      radius: parseGeoRadius(latitude, longitude, radiusKm),
+      polygon: parseGeoPolygon(polygon),
+      serves: served && {
+        latitude: served.latitude,
+        longitude: served.longitude,
+        aidType,
+      },
+    });
 
     return {
       success: true,
@@ -79,6 +136,99 @@ export class MapController {
     };
   }
 
+  @Get('clusters')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiResponse({
+    description:
+      'Harita bölgesindeki yardım talebi veya merkez kümeleri - rol bazlı erişim',
+  })
+  @ApiQuery({ name: 'north', type: Number, required: true })
+  @ApiQuery({ name: 'south', type: Number, required: true })
+  @ApiQuery({ name: 'east', type: Number, required: true })
+  @ApiQuery({ name: 'west', type: Number, required: true })
+  @ApiQuery({
+    name: 'zoom',
+    type: Number,
+    required: true,
+    description: `0-${MAX_MAP_ZOOM}; ${MAX_CLUSTER_ZOOM} ve üzerinde noktalar tek tek döner`,
+  })
+  @ApiQuery({
+    name: 'layer',
+    enum: ['aid-requests', 'aid-centers'],
+    required: false,
+  })
+  async getClusters(
+    @Req() req,
+    @Query('north') north: number,
+    @Query('south') south: number,
+    @Query('east') east: number,
+    @Query('west') west: number,
+    @Query('zoom') zoom: number,
+    @Query('layer') layer: MapClusterLayer = 'aid-requests',
+  ) {
+    const bounds = {
+      north: parseFloat(north as any),
+      south: parseFloat(south as any),
+      east: parseFloat(east as any),
+      west: parseFloat(west as any),
+    };
+
+    const clusters = await this.mapService.getClusters(
+      bounds,
+      parseZoom(zoom),
+      layer,
+      req.user.id,
+      req.user.role,
+    );
+
+    return {
+      success: true,
+      data: clusters,
+    };
+  }
+
+  @Get('layers/:layer.geojson')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @Header('Content-Type', 'application/geo+json')
+  @ApiParam({ name: 'layer', enum: MAP_LAYERS })
+  @ApiResponse({
+    description:
+      'Katmanı GeoJSON FeatureCollection olarak dışa aktarır - rol bazlı erişim',
+  })
+  async getLayerGeoJson(@Req() req, @Param('layer') layer: MapLayer) {
+    return this.mapService.getLayerGeoJson(layer, req.user);
+  }
+
+  @Get('tiles/:layer/:z/:x/:y.mvt')
+  @ApiBearerAuth()
+  @UseGuards(JwtAuthGuard)
+  @ApiParam({ name: 'layer', enum: MAP_LAYERS })
+  @ApiProduces('application/vnd.mapbox-vector-tile')
+  @ApiResponse({
+    description: 'Katmanın Mapbox Vector Tile karosu - rol bazlı erişim',
+  })
+  async getLayerTile(
+    @Req() req,
+    @Param('layer') layer: MapLayer,
+    @Param('z') z: string,
+    @Param('x') x: string,
+    @Param('y') y: string,
+  ) {
+    const tile = await this.mapService.getLayerTile(
+      layer,
+      parseZoom(z),
+      Number(x),
+      Number(y),
+      req.user,
+    );
+
+    return new StreamableFile(tile, {
+      type: 'application/vnd.mapbox-vector-tile',
+    });
+  }
+
   @Post('aid-location')
   @ApiBearerAuth()
   @UseGuards(JwtAuthGuard)
@@ -122,15 +272,34 @@ export class MapController {
   @UseGuards(JwtAuthGuard, RoleGuard)
   @Roles(Role.Admin, Role.OrganizationOwner)
   @ApiResponse({ description: 'Harita bölgesindeki görevler' })
-  @ApiQuery({ name: 'north', type: Number, required: true })
-  @ApiQuery({ name: 'south', type: Number, required: true })
-  @ApiQuery({ name: 'east', type: Number, required: true })
-  @ApiQuery({ name: 'west', type: Number, required: true })
+  @ApiQuery({ name: 'north', type: Number, required: false })
+  @ApiQuery({ name: 'south', type: Number, required: false })
+  @ApiQuery({ name: 'east', type: Number, required: false })
+  @ApiQuery({ name: 'west', type: Number, required: false })
+  @ApiQuery({ name: 'latitude', type: Number, required: false })
+  @ApiQuery({ name: 'longitude', type: Number, required: false })
+  @ApiQuery({
+    name: 'radiusKm',
+    type: Number,
+    required: false,
+    description: 'Konum verildiğinde yarıçap (varsayılan 10 km)',
+  })
+  @ApiQuery({
+    name: 'polygon',
+    type: String,
+    required: false,
+    description: 'Çizilen bölge, JSON: [[boylam, enlem], ...]',
+  })
   async getTasks(
+    @Req() req,
     @Query('north') north: number,
     @Query('south') south: number,
     @Query('east') east: number,
     @Query('west') west: number,
+    @Query('latitude') latitude?: number,
+    @Query('longitude') longitude?: number,
+    @Query('radiusKm') radiusKm?: number,
+    @Query('polygon') polygon?: string,
   ) {
     // String olarak gelen değerleri sayıya çevirme
     const bounds = {
@@ -140,7 +309,10 @@ export class MapController {
       west: parseFloat(west as any),
     };
 
-    const tasks = await this.mapService.getTasksForMap(bounds);
+    const tasks = await this.mapService.getTasksForMap(bounds, req.user, {
+      radius: parseGeoRadius(latitude, longitude, radiusKm),
+      polygon: parseGeoPolygon(polygon),
+    });
 
     return {
       success: true,
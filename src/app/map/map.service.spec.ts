@@ -0,0 +1,228 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
+import { MapService } from './map.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AidRequestsService } from '../aid-requests/aid-requests.service';
+
+const aidRequest = (
+  id: number,
+  latitude: number,
+  longitude: number,
+  status = 'approved',
+  isUrgent = false,
+) => ({
+  id,
+  type: 'Gıda',
+  status,
+  isUrgent,
+  location: { latitude, longitude },
+});
+
+describe('MapService', () => {
+  let service: MapService;
+  let prismaService: PrismaService;
+
+  const bounds = { north: 42, south: 40, east: 30, west: 28 };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        MapService,
+        {
+          provide: PrismaService,
+          useValue: {
+            aidRequest: {
+              findMany: jest.fn().mockResolvedValue([]),
+            },
+            organization: {
+              findMany: jest.fn().mockResolvedValue([]),
+            },
+            task: {
+              findMany: jest.fn().mockResolvedValue([]),
+            },
+            $queryRaw: jest.fn(),
+          },
+        },
+        {
+          provide: AidRequestsService,
+          useValue: {},
+        },
+      ],
+    }).compile();
+
+    service = module.get<MapService>(MapService);
+    prismaService = module.get<PrismaService>(PrismaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('getClusters', () => {
+    it('should group nearby requests with a breakdown', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findMany')
+        .mockResolvedValue([
+          aidRequest(1, 41.01, 29.01, 'approved', true),
+          aidRequest(2, 41.02, 29.02, 'pending'),
+          aidRequest(3, 41.03, 29.03, 'approved'),
+          aidRequest(4, 40.5, 28.5),
+        ] as any);
+
+      const result = await service.getClusters(bounds, 8, 'aid-requests');
+
+      expect(result.clusters).toHaveLength(1);
+      expect(result.clusters[0].count).toBe(3);
+      expect(result.clusters[0].breakdown).toEqual({
+        urgency: { urgent: 1, normal: 2 },
+        status: { approved: 2, pending: 1 },
+        type: { Gıda: 3 },
+      });
+      expect(result.points.map((point) => point.id)).toEqual([4]);
+    });
+
+    it('should return individual points at high zoom', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findMany')
+        .mockResolvedValue([
+          aidRequest(1, 41.01, 29.01),
+          aidRequest(2, 41.0101, 29.0101),
+        ] as any);
+
+      const result = await service.getClusters(bounds, 17, 'aid-requests');
+
+      expect(result.clusters).toEqual([]);
+      expect(result.points).toHaveLength(2);
+    });
+
+    it('should only cluster the own requests of regular users', async () => {
+      await service.getClusters(bounds, 10, 'aid-requests', 7, 'user');
+
+      expect(prismaService.aidRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ userId: 7, isDeleted: false }),
+        }),
+      );
+    });
+
+    it('should require map bounds', async () => {
+      await expect(
+        service.getClusters(
+          { ...bounds, north: NaN },
+          10,
+          'aid-requests',
+          1,
+          'admin',
+        ),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('getLayerGeoJson', () => {
+    const located = {
+      id: 1,
+      type: 'Gıda',
+      status: 'approved',
+      isUrgent: false,
+      userId: 7,
+      location: { latitude: 41, longitude: 29 },
+      user: { name: 'Ayşe', phone: '5551234567', category: 'ELDERLY' },
+    };
+
+    it('should export points as a GeoJSON feature collection', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findMany')
+        .mockResolvedValue([located] as any);
+
+      const result = await service.getLayerGeoJson('aid-requests', {
+        id: 1,
+        role: 'admin',
+      });
+
+      expect(result.type).toBe('FeatureCollection');
+      expect(result.features[0]).toEqual({
+        type: 'Feature',
+        id: 1,
+        geometry: { type: 'Point', coordinates: [29, 41] },
+        properties: expect.objectContaining({
+          'user.name': 'Ayşe',
+          'user.phone': '5551234567',
+        }),
+      });
+    });
+
+    it('should strip personal data for regular users', async () => {
+      jest
+        .spyOn(prismaService.aidRequest, 'findMany')
+        .mockResolvedValue([located] as any);
+
+      const result = await service.getLayerGeoJson('aid-requests', {
+        id: 7,
+        role: 'user',
+      });
+
+      expect(result.features[0].properties).not.toHaveProperty('user.phone');
+      expect(prismaService.aidRequest.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({ userId: 7 }),
+        }),
+      );
+    });
+
+    it("should only show phone numbers to staff of the request's organization", async () => {
+      jest.spyOn(prismaService.aidRequest, 'findMany').mockResolvedValue([
+        { ...located, organizationId: 4 },
+        { ...located, id: 2, organizationId: 5 },
+      ] as any);
+
+      const result = await service.getLayerGeoJson('aid-requests', {
+        id: 9,
+        role: 'organization_owner',
+        memberships: [{ organizationId: 4, role: 'staff' }],
+      });
+
+      expect(result.features[0].properties['user.phone']).toBe('5551234567');
+      expect(result.features[1].properties).not.toHaveProperty('user.phone');
+      expect(result.features[0].properties).not.toHaveProperty(
+        'organizationId',
+      );
+    });
+
+    it('should not export tasks to regular users', async () => {
+      await expect(
+        service.getLayerGeoJson('tasks', { id: 7, role: 'user' }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should not export tasks to organization accounts without staff memberships', async () => {
+      await expect(
+        service.getLayerGeoJson('tasks', {
+          id: 9,
+          role: 'organization_owner',
+          memberships: [{ organizationId: 4, role: 'viewer' }],
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('getLayerTile', () => {
+    it('should return the vector tile produced by the database', async () => {
+      (prismaService.$queryRaw as jest.Mock).mockResolvedValue([
+        { mvt: Uint8Array.from([26, 2]) },
+      ]);
+
+      const tile = await service.getLayerTile('aid-centers', 3, 4, 2, {
+        id: 1,
+        role: 'user',
+      });
+
+      expect(tile).toEqual(Buffer.from([26, 2]));
+    });
+
+    it('should reject tile coordinates outside the zoom level', async () => {
+      await expect(
+        service.getLayerTile('aid-centers', 2, 4, 0, { id: 1, role: 'admin' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
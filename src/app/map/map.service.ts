@@ -1,6 +1,121 @@
-import { Injectable, Logger } from '@nestjs/common';
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
 import { PrismaService } from '../prisma/prisma.service';
 import { AidRequestsService } from '../aid-requests/aid-requests.service';
+import { AidRequestStatus } from '../aid-requests/aid-request-status';
+import {
+  distanceKm,
+  GeoPolygon,
+  GeoRadius,
+  withinPolygon,
+  withinRadius,
+} from '../prisma/geo-query.util';
+import { clusterPoints } from './map-cluster.util';
+import { MapClusterLayer } from './interfaces/map-cluster.interface';
+import {
+  GeoJsonFeature,
+  GeoJsonFeatureCollection,
+  GeoJsonProperties,
+  MapLayer,
+} from './interfaces/map-layer.interface';
+import { ACTIVE_ORGANIZATION_WHERE } from '../organizations/organization-visibility';
+import { OrganizationVerificationStatus } from '../organizations/organization-verification';
+import {
+  findServingOrganizationIds,
+  ServedLocation,
+} from '../organizations/organization-service-area.util';
+import {
+  OrganizationMemberRole,
+  organizationIdsWithRole,
+} from '../organizations/organization-member';
+import { Role } from '../casl/action';
+import { AbilityUser } from '../casl/casl-ability.factory';
+
+export interface MapBounds {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface MapAreaFilter {
+  radius?: GeoRadius | null;
+  polygon?: GeoPolygon | null;
+  // Yalnızca yardım merkezleri: hizmet bölgesi bu konumu kapsayanlar
+  serves?: ServedLocation | null;
+}
+
+export const MAP_LAYERS: MapLayer[] = ['aid-centers', 'aid-requests', 'tasks'];
+// Talebin organizasyonunda staff olmayanlara dışa aktarımda gönderilmeyen kişisel veriler
+const PII_PROPERTIES = ['user.phone'];
+
+// Harita katmanlarında ortak kullanılan alanlar
+const AID_CENTER_SELECT = {
+  id: true,
+  name: true,
+  type: true,
+  mission: true,
+  rating: true,
+  address: {
+    select: {
+      address: true,
+      latitude: true,
+      longitude: true,
+    },
+  },
+  contactInfo: {
+    select: {
+      phone: true,
+      email: true,
+      contactName: true,
+    },
+  },
+} satisfies Prisma.OrganizationSelect;
+
+const AID_REQUEST_SELECT = {
+  id: true,
+  type: true,
+  description: true,
+  status: true,
+  isUrgent: true,
+  verified: true,
+  userId: true,
+  location: {
+    select: {
+      latitude: true,
+      longitude: true,
+    },
+  },
+  user: {
+    select: {
+      name: true,
+      phone: true,
+      category: true,
+    },
+  },
+} satisfies Prisma.AidRequestSelect;
+
+const TASK_SELECT = {
+  id: true,
+  name: true,
+  description: true,
+  latitude: true,
+  longitude: true,
+  TaskAssignment: {
+    select: {
+      volunteer: {
+        select: {
+          name: true,
+        },
+      },
+    },
+  },
+} satisfies Prisma.TaskSelect;
 
 @Injectable()
 export class MapService {
@@ -13,43 +128,40 @@ export class MapService {
   /**
    * Belirli bir bölgedeki aktif yardım merkezlerini harita için getirir
    * @param bounds Harita görünüm alanı sınırları: {north, south, east, west}
+   * @param area Opsiyonel yarıçap, çizilmiş çokgen ve/veya hizmet verilen konum filtresi
    */
-  async getActiveAidCenters(bounds: {
-    north: number;
-    south: number;
-    east: number;
-    west: number;
-  }) {
+  async getActiveAidCenters(
+    bounds: MapBounds | null,
+    area: MapAreaFilter = {},
+  ) {
+    this.assertAreaGiven(bounds, area);
+
+    const distances = await this.findIdsInArea(
+      '"Organization" t JOIN "Address" a ON a."id" = t."addressId"',
+      'a."geom"',
+      area,
+    );
+    const servingIds = area.serves
+      ? await findServingOrganizationIds(this.prisma, area.serves)
+      : null;
+
     // Organization modeli üzerinden (Address tablosu ile bağlantılı) konum bilgisi olan yardım merkezlerini al
-    return this.prisma.organization.findMany({
+    const organizations = await this.prisma.organization.findMany({
       where: {
-        address: {
-          latitude: { lte: bounds.north, gte: bounds.south },
-          longitude: { lte: bounds.east, gte: bounds.west },
-        },
-      },
-      select: {
-        id: true,
-        name: true,
-        type: true,
-        mission: true,
-        rating: true,
-        address: {
-          select: {
-            address: true,
-            latitude: true,
-            longitude: true,
+        ...ACTIVE_ORGANIZATION_WHERE,
+        ...(distances && { id: { in: [...distances.keys()] } }),
+        ...(servingIds && { AND: [{ id: { in: servingIds } }] }),
+        ...(this.hasBounds(bounds) && {
+          address: {
+            latitude: { lte: bounds.north, gte: bounds.south },
+            longitude: { lte: bounds.east, gte: bounds.west },
           },
-        },
-        contactInfo: {
-          select: {
-            phone: true,
-            email: true,
-            contactName: true,
-          },
-        },
+        }),
       },
+      select: AID_CENTER_SELECT,
     });
+
+    return this.orderByDistance(organizations, distances, area);
   }
 
   /**
@@ -59,44 +171,205 @@ export class MapService {
    */
   async getAidRequestsForMap(userId?: number, userRole?: string) {
     const filter: any = {
-      isDeleted: false,
+      ...this.aidRequestVisibilityFilter(userId, userRole),
       locationId: {
         // "not: null" yerine alternatif sorgu kullan
         not: undefined,
       },
     };
 
-    // Admin ve organizasyon sahipleri tüm talepleri görebilir
-    // Standart kullanıcılar sadece kendi taleplerini görebilir
-    if (userRole !== 'admin' && userRole !== 'organization_owner' && userId) {
-      filter.userId = userId;
-    }
-
     return this.prisma.aidRequest.findMany({
       where: filter,
+      select: AID_REQUEST_SELECT,
+    });
+  }
+
+  /**
+   * Harita görünümündeki yardım taleplerini veya merkezlerini yakınlaştırmaya
+   * göre kümeler. Yüksek yakınlaştırmada noktalar tek tek döner.
+   * @param bounds Harita görünüm alanı sınırları: {north, south, east, west}
+   * @param zoom Harita yakınlaştırma seviyesi
+   * @param layer Kümelenecek katman
+   */
+  async getClusters(
+    bounds: MapBounds,
+    zoom: number,
+    layer: MapClusterLayer,
+    userId?: number,
+    userRole?: string,
+  ) {
+    if (!this.hasBounds(bounds)) {
+      throw new BadRequestException('Harita sınırları gereklidir');
+    }
+
+    if (layer === 'aid-centers') {
+      const organizations = await this.prisma.organization.findMany({
+        where: {
+          ...ACTIVE_ORGANIZATION_WHERE,
+          address: {
+            latitude: { lte: bounds.north, gte: bounds.south },
+            longitude: { lte: bounds.east, gte: bounds.west },
+          },
+        },
+        select: {
+          id: true,
+          name: true,
+          type: true,
+          address: { select: { latitude: true, longitude: true } },
+        },
+      });
+
+      const points = organizations.map((organization) => ({
+        id: organization.id,
+        name: organization.name,
+        type: organization.type,
+        latitude: organization.address.latitude,
+        longitude: organization.address.longitude,
+      }));
+
+      return {
+        layer,
+        zoom,
+        ...clusterPoints(points, zoom, (point) => ({ type: point.type })),
+      };
+    }
+
+    if (layer !== 'aid-requests') {
+      throw new BadRequestException(`Bilinmeyen harita katmanı: ${layer}`);
+    }
+
+    const aidRequests = await this.prisma.aidRequest.findMany({
+      where: {
+        ...this.aidRequestVisibilityFilter(userId, userRole),
+        location: {
+          latitude: { lte: bounds.north, gte: bounds.south },
+          longitude: { lte: bounds.east, gte: bounds.west },
+        },
+      },
       select: {
         id: true,
         type: true,
-        description: true,
         status: true,
         isUrgent: true,
-        verified: true,
-        userId: true,
-        location: {
-          select: {
-            latitude: true,
-            longitude: true,
-          },
-        },
-        user: {
-          select: {
-            name: true,
-            phone: true,
-            category: true,
-          },
-        },
+        location: { select: { latitude: true, longitude: true } },
       },
     });
+
+    const points = aidRequests.map((aidRequest) => ({
+      id: aidRequest.id,
+      type: aidRequest.type,
+      status: aidRequest.status,
+      isUrgent: aidRequest.isUrgent,
+      latitude: aidRequest.location.latitude,
+      longitude: aidRequest.location.longitude,
+    }));
+
+    return {
+      layer,
+      zoom,
+      ...clusterPoints(points, zoom, (point) => ({
+        urgency: point.isUrgent ? 'urgent' : 'normal',
+        status: point.status,
+        type: point.type,
+      })),
+    };
+  }
+
+  /**
+   * Katmanı GeoJSON FeatureCollection olarak döner (QGIS ve web haritası için)
+   * @param layer Dışa aktarılacak katman
+   * @param user İsteği yapan kullanıcı
+   */
+  async getLayerGeoJson(
+    layer: MapLayer,
+    user: AbilityUser,
+  ): Promise<GeoJsonFeatureCollection> {
+    this.assertLayerAccess(layer, user);
+    let features: GeoJsonFeature[];
+
+    if (layer === 'aid-centers') {
+      const organizations = await this.prisma.organization.findMany({
+        where: ACTIVE_ORGANIZATION_WHERE,
+        select: AID_CENTER_SELECT,
+      });
+      features = organizations
+        .filter((organization) => organization.address)
+        .map(({ id, address, ...properties }) =>
+          this.toFeature(id, address.latitude, address.longitude, {
+            ...properties,
+            address: { address: address.address },
+          }),
+        );
+    } else if (layer === 'aid-requests') {
+      const aidRequests = await this.prisma.aidRequest.findMany({
+        where: {
+          ...this.aidRequestVisibilityFilter(user.id, user.role),
+          location: { isNot: null },
+        },
+        select: { ...AID_REQUEST_SELECT, organizationId: true },
+      });
+      features = aidRequests
+        .filter((aidRequest) => aidRequest.location)
+        .map(({ id, location, organizationId, ...properties }) =>
+          this.toFeature(
+            id,
+            location.latitude,
+            location.longitude,
+            properties,
+            this.canSeeContactDetails(user, organizationId),
+          ),
+        );
+    } else {
+      const tasks = await this.prisma.task.findMany({ select: TASK_SELECT });
+      features = tasks.map(
+        ({ id, latitude, longitude, TaskAssignment, ...properties }) =>
+          this.toFeature(id, latitude, longitude, {
+            ...properties,
+            volunteers: TaskAssignment.map(
+              (assignment) => assignment.volunteer?.name,
+            )
+              .filter(Boolean)
+              .join(', '),
+          }),
+      );
+    }
+
+    return { type: 'FeatureCollection', name: layer, features };
+  }
+
+  /**
+   * Katmanın verilen karodaki noktalarını Mapbox Vector Tile olarak döner.
+   * Karo PostGIS (ST_AsMVT) ile veritabanında üretilir.
+   */
+  async getLayerTile(
+    layer: MapLayer,
+    z: number,
+    x: number,
+    y: number,
+    user: AbilityUser,
+  ): Promise<Buffer> {
+    this.assertLayerAccess(layer, user);
+
+    const tileCount = Math.pow(2, z);
+    if (
+      ![x, y].every(
+        (value) => Number.isInteger(value) && value >= 0 && value < tileCount,
+      )
+    ) {
+      throw new BadRequestException(
+        `Karo koordinatları 0 ile ${tileCount - 1} arasında olmalıdır`,
+      );
+    }
+
+    const envelope = Prisma.sql`ST_TileEnvelope(${z}::int, ${x}::int, ${y}::int)`;
+    const features = this.tileFeaturesSql(layer, envelope, user);
+
+    const [tile] = await this.prisma.$queryRaw<{ mvt: Uint8Array | null }[]>`
+      SELECT ST_AsMVT(features, ${layer}, 4096, 'geom') AS "mvt"
+      FROM (${features}) features
+    `;
+
+    return Buffer.from(tile?.mvt ?? []);
   }
 
   /**
@@ -133,7 +406,7 @@ export class MapService {
         data: {
           type: data.type,
           description: data.description,
-          status: 'pending',
+          status: AidRequestStatus.Pending,
           isUrgent: data.isUrgent || false,
           userId: userId,
           locationId: location.id,
@@ -164,35 +437,31 @@ export class MapService {
   /**
    * Belirli bir konumun çevresindeki görevleri/etkinlikleri harita için getirir
    * @param bounds Harita görünüm alanı sınırları: {north, south, east, west}
+   * @param user İsteği yapan kullanıcı
+   * @param area Opsiyonel yarıçap ve/veya çizilmiş çokgen filtresi
    */
-  async getTasksForMap(bounds: {
-    north: number;
-    south: number;
-    east: number;
-    west: number;
-  }) {
-    return this.prisma.task.findMany({
+  async getTasksForMap(
+    bounds: MapBounds | null,
+    user: AbilityUser,
+    area: MapAreaFilter = {},
+  ) {
+    this.assertLayerAccess('tasks', user);
+    this.assertAreaGiven(bounds, area);
+
+    const distances = await this.findIdsInArea('"Task" t', 't."geom"', area);
+
+    const tasks = await this.prisma.task.findMany({
       where: {
-        latitude: { lte: bounds.north, gte: bounds.south },
-        longitude: { lte: bounds.east, gte: bounds.west },
-      },
-      select: {
-        id: true,
-        name: true,
-        description: true,
-        latitude: true,
-        longitude: true,
-        TaskAssignment: {
-          select: {
-            volunteer: {
-              select: {
-                name: true,
-              },
-            },
-          },
-        },
+        ...(distances && { id: { in: [...distances.keys()] } }),
+        ...(this.hasBounds(bounds) && {
+          latitude: { lte: bounds.north, gte: bounds.south },
+          longitude: { lte: bounds.east, gte: bounds.west },
+        }),
       },
+      select: TASK_SELECT,
     });
+
+    return this.orderByDistance(tasks, distances, area);
   }
 
   /**
@@ -224,4 +493,227 @@ export class MapService {
 
     return response;
   }
+
+  private isPrivileged(userRole?: string) {
+    return userRole === 'admin' || userRole === 'organization_owner';
+  }
+
+  private staffOrganizationIds(user: AbilityUser) {
+    return organizationIdsWithRole(
+      user.memberships,
+      OrganizationMemberRole.Staff,
+    );
+  }
+
+  // Talep sahibinin iletişim bilgileri yalnızca admin ve talebin
+  // organizasyonunun staff üyelerine gösterilir
+  private canSeeContactDetails(
+    user: AbilityUser,
+    organizationId: number | null,
+  ) {
+    return (
+      user.role === Role.Admin ||
+      (organizationId !== null &&
+        this.staffOrganizationIds(user).includes(organizationId))
+    );
+  }
+
+  // Görevler katmanı yalnızca admin ve en az bir organizasyonda staff olanlara açıktır
+  private assertLayerAccess(layer: MapLayer, user: AbilityUser) {
+    if (!MAP_LAYERS.includes(layer)) {
+      throw new BadRequestException(`Bilinmeyen harita katmanı: ${layer}`);
+    }
+
+    if (
+      layer === 'tasks' &&
+      user.role !== Role.Admin &&
+      this.staffOrganizationIds(user).length === 0
+    ) {
+      throw new ForbiddenException(
+        'Bu harita katmanını görüntüleme yetkiniz bulunmuyor',
+      );
+    }
+  }
+
+  /**
+   * İç içe seçimleri düz özelliklere çevirir (ör. user.name) ve yetkisiz
+   * roller için kişisel verileri çıkarır.
+   */
+  private toFeature(
+    id: number,
+    latitude: number,
+    longitude: number,
+    properties: Record<string, unknown>,
+    privileged = true,
+  ): GeoJsonFeature {
+    const flat: GeoJsonProperties = {};
+    const flatten = (value: Record<string, unknown>, prefix: string) => {
+      for (const [key, nested] of Object.entries(value)) {
+        if (nested === null || nested === undefined) continue;
+        if (typeof nested === 'object' && !(nested instanceof Date)) {
+          flatten(nested as Record<string, unknown>, `${prefix}${key}.`);
+        } else {
+          flat[`${prefix}${key}`] =
+            nested instanceof Date
+              ? nested.toISOString()
+              : (nested as string | number | boolean);
+        }
+      }
+    };
+    flatten(properties, '');
+
+    if (!privileged) {
+      PII_PROPERTIES.forEach((key) => delete flat[key]);
+    }
+
+    return {
+      type: 'Feature',
+      id,
+      geometry: { type: 'Point', coordinates: [longitude, latitude] },
+      properties: flat,
+    };
+  }
+
+  // Karo içindeki noktaları özellikleriyle seçen alt sorgu
+  private tileFeaturesSql(
+    layer: MapLayer,
+    envelope: Prisma.Sql,
+    user: AbilityUser,
+  ): Prisma.Sql {
+    const tileGeom = (column: string) =>
+      Prisma.sql`ST_AsMVTGeom(ST_Transform(${Prisma.raw(column)}::geometry, 3857), ${envelope}) AS "geom"`;
+    const inTile = (column: string) =>
+      Prisma.sql`ST_Transform(${Prisma.raw(column)}::geometry, 3857) && ${envelope}`;
+
+    if (layer === 'aid-centers') {
+      return Prisma.sql`
+        SELECT o."id", o."name", o."type", o."rating", ${tileGeom('a."geom"')}
+        FROM "Organization" o
+        JOIN "Address" a ON a."id" = o."addressId"
+        WHERE o."suspendedAt" IS NULL
+          AND o."verificationStatus" = ${OrganizationVerificationStatus.Approved}
+          AND ${inTile('a."geom"')}
+      `;
+    }
+
+    if (layer === 'tasks') {
+      return Prisma.sql`
+        SELECT t."id", t."name", t."description", ${tileGeom('t."geom"')}
+        FROM "Task" t
+        WHERE ${inTile('t."geom"')}
+      `;
+    }
+
+    const conditions = [Prisma.sql`r."isDeleted" = false`, inTile('l."geom"')];
+    if (!this.isPrivileged(user.role)) {
+      conditions.push(Prisma.sql`r."userId" = ${user.id}`);
+    }
+
+    const staffOf = this.staffOrganizationIds(user);
+    let phone = Prisma.sql`NULL`;
+    if (user.role === Role.Admin) {
+      phone = Prisma.sql`u."phone"`;
+    } else if (staffOf.length > 0) {
+      phone = Prisma.sql`CASE WHEN r."organizationId" IN (${Prisma.join(staffOf)}) THEN u."phone" END`;
+    }
+
+    return Prisma.sql`
+      SELECT r."id", r."type", r."status", r."isUrgent", r."verified",
+        r."userId", u."name" AS "user.name",
+        u."category"::text AS "user.category",
+        ${phone} AS "user.phone",
+        ${tileGeom('l."geom"')}
+      FROM "AidRequest" r
+      JOIN "Location" l ON l."id" = r."locationId"
+      JOIN "User" u ON u."id" = r."userId"
+      WHERE ${Prisma.join(conditions, ' AND ')}
+    `;
+  }
+
+  // Admin ve organizasyon sahipleri tüm talepleri görebilir
+  // Standart kullanıcılar sadece kendi taleplerini görebilir
+  private aidRequestVisibilityFilter(userId?: number, userRole?: string) {
+    const filter: Prisma.AidRequestWhereInput = { isDeleted: false };
+    if (!this.isPrivileged(userRole) && userId) {
+      filter.userId = userId;
+    }
+    return filter;
+  }
+
+  private hasBounds(bounds: MapBounds | null) {
+    return (
+      !!bounds &&
+      [bounds.north, bounds.south, bounds.east, bounds.west].every((value) =>
+        Number.isFinite(value),
+      )
+    );
+  }
+
+  private assertAreaGiven(bounds: MapBounds | null, area: MapAreaFilter) {
+    if (
+      !this.hasBounds(bounds) &&
+      !area.radius &&
+      !area.polygon &&
+      !area.serves
+    ) {
+      throw new BadRequestException(
+        'Harita sınırları, yarıçap, çokgen veya hizmet konumu bilgisi gereklidir',
+      );
+    }
+  }
+
+  /**
+   * Yarıçap/çokgen filtresine uyan kayıtların id'lerini PostGIS ile bulur.
+   * Filtre yoksa null döner. `from` ve `column` sabit değerlerdir.
+   */
+  private async findIdsInArea(
+    from: string,
+    column: string,
+    area: MapAreaFilter,
+  ): Promise<Map<number, number | null> | null> {
+    if (!area.radius && !area.polygon) {
+      return null;
+    }
+
+    const conditions: Prisma.Sql[] = [];
+    if (area.radius) {
+      conditions.push(withinRadius(column, area.radius));
+    }
+    if (area.polygon) {
+      conditions.push(withinPolygon(column, area.polygon));
+    }
+    const distanceSql = area.radius
+      ? distanceKm(column, area.radius.latitude, area.radius.longitude)
+      : Prisma.sql`NULL`;
+
+    const rows = await this.prisma.$queryRaw<
+      { id: number; distanceKm: number | null }[]
+    >`
+      SELECT t."id", ${distanceSql} AS "distanceKm"
+      FROM ${Prisma.raw(from)}
+      WHERE ${Prisma.join(conditions, ' AND ')}
+      ORDER BY "distanceKm" ASC NULLS LAST, t."id" ASC
+    `;
+
+    return new Map(rows.map((row) => [row.id, row.distanceKm]));
+  }
+
+  // Yarıçap verildiyse kayıtları veritabanındaki uzaklık sırasına koyar
+  private orderByDistance<T extends { id: number }>(
+    records: T[],
+    distances: Map<number, number | null> | null,
+    area: MapAreaFilter,
+  ) {
+    if (!distances || !area.radius) {
+      return records;
+    }
+
+    const order = [...distances.keys()];
+    return records
+      .sort((a, b) => order.indexOf(a.id) - order.indexOf(b.id))
+      .map((record) => ({
+        ...record,
+        distanceKm: parseFloat((distances.get(record.id) ?? 0).toFixed(2)),
+      }));
+  }
 }
@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateBlockedTermDto {
+  @ApiProperty({ description: 'İncelemeye alınacak kelime veya ifade' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  readonly term: string;
+}
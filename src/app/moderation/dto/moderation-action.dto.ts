@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ModerationActionDto {
+  @ApiProperty({ description: 'İşlem gerekçesi, bildirenlere ve kayda yansır' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  readonly reason: string;
+}
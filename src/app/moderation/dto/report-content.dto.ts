@@ -0,0 +1,19 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsIn, IsInt, IsNotEmpty, IsString, MaxLength } from 'class-validator';
+import { ModeratedContentType } from '../moderation-content';
+
+export class ReportContentDto {
+  @ApiProperty({ enum: ModeratedContentType, description: 'İçerik türü' })
+  @IsIn(Object.values(ModeratedContentType))
+  readonly contentType: string;
+
+  @ApiProperty({ description: 'Yorum, değerlendirme veya mesaj ID' })
+  @IsInt()
+  readonly contentId: number;
+
+  @ApiProperty({ description: 'Bildirme sebebi' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(500)
+  readonly reason: string;
+}
@@ -0,0 +1,31 @@
+export const MAX_BLOCKED_TERM_LENGTH = 100;
+
+export function normalizeBlockedTerm(term: string) {
+  return (term ?? '').trim().toLocaleLowerCase('tr-TR');
+}
+
+const escapeRegExp = (value: string) =>
+  value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Metinde geçen yasaklı ifadeleri döner. İfadeler kelime sınırında aranır,
+ * böylece "kot" yasaklıyken "kotlin" takılmaz.
+ */
+export function findBlockedTerms(text: string, terms: string[]) {
+  const normalized = (text ?? '').toLocaleLowerCase('tr-TR');
+  if (!normalized.trim()) return [];
+
+  return [
+    ...new Set(
+      terms
+        .map(normalizeBlockedTerm)
+        .filter(Boolean)
+        .filter((term) =>
+          new RegExp(
+            `(?<![\\p{L}\\p{N}])${escapeRegExp(term)}(?![\\p{L}\\p{N}])`,
+            'u',
+          ).test(normalized),
+        ),
+    ),
+  ];
+}
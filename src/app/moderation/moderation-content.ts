@@ -0,0 +1,25 @@
+export enum ModeratedContentType {
+  Comment = 'comment',
+  Review = 'review',
+  Message = 'message',
+}
+
+export enum ModerationStatus {
+  Published = 'published',
+  // Ön filtreye takıldı, moderatör onayı bekliyor
+  PendingReview = 'pending_review',
+  Hidden = 'hidden',
+}
+
+export enum ModerationAction {
+  Hide = 'hide',
+  Restore = 'restore',
+  Delete = 'delete',
+}
+
+export enum ModerationFlagSource {
+  Report = 'report',
+  Blocklist = 'blocklist',
+  // Bildirim olmadan doğrudan moderatör işlemi
+  Moderator = 'moderator',
+}
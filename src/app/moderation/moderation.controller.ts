@@ -0,0 +1,164 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RoleGuard } from '../auth/role.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../casl/action';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { ModerationService } from './moderation.service';
+import { ModeratedContentType, ModerationAction } from './moderation-content';
+import { ReportContentDto } from './dto/report-content.dto';
+import { ModerationActionDto } from './dto/moderation-action.dto';
+import { CreateBlockedTermDto } from './dto/create-blocked-term.dto';
+
+@ApiTags('moderation')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RoleGuard)
+@Controller('moderation')
+export class ModerationController {
+  constructor(private readonly moderationService: ModerationService) {}
+
+  @Post('reports')
+  @ApiOperation({ summary: 'Report a comment, review or message' })
+  @ApiBody({ type: ReportContentDto })
+  @ApiResponse({ status: 201, description: 'İçerik bildirildi' })
+  @ApiResponse({ status: 409, description: 'İçerik zaten bildirilmiş' })
+  async report(
+    @Req() req: RequestWithUser,
+    @Body() reportDto: ReportContentDto,
+  ) {
+    return this.moderationService.report(
+      reportDto.contentType,
+      reportDto.contentId,
+      req.user.id,
+      reportDto.reason,
+    );
+  }
+
+  @Get('queue')
+  @Roles(Role.Admin)
+  @ApiOperation({ summary: 'List flagged content awaiting moderation' })
+  @ApiQuery({
+    name: 'contentType',
+    enum: ModeratedContentType,
+    required: false,
+  })
+  @ApiQuery({ name: 'page', type: Number, required: false })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @ApiResponse({ status: 200, description: 'Moderasyon kuyruğu' })
+  async getQueue(
+    @Query('contentType') contentType?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.moderationService.getQueue({ contentType, page, limit });
+  }
+
+  @Get('blocklist')
+  @Roles(Role.Admin)
+  @ApiOperation({ summary: 'List blocked terms used by the pre-filter' })
+  @ApiResponse({ status: 200, description: 'Yasaklı ifadeler' })
+  async listBlockedTerms() {
+    return this.moderationService.listBlockedTerms();
+  }
+
+  @Post('blocklist')
+  @Roles(Role.Admin)
+  @ApiOperation({ summary: 'Add a blocked term' })
+  @ApiBody({ type: CreateBlockedTermDto })
+  @ApiResponse({ status: 409, description: 'İfade zaten listede' })
+  async addBlockedTerm(@Body() createDto: CreateBlockedTermDto) {
+    return this.moderationService.addBlockedTerm(createDto.term);
+  }
+
+  @Delete('blocklist/:id')
+  @Roles(Role.Admin)
+  @ApiOperation({ summary: 'Remove a blocked term' })
+  @ApiParam({ name: 'id', description: 'Blocked term ID' })
+  @ApiResponse({ status: 404, description: 'İfade bulunamadı' })
+  async removeBlockedTerm(@Param('id', ParseIntPipe) id: number) {
+    return this.moderationService.removeBlockedTerm(id);
+  }
+
+  @Post(':contentType/:contentId/hide')
+  @Roles(Role.Admin)
+  @ApiOperation({ summary: 'Hide content and resolve its flags' })
+  @ApiParam({ name: 'contentType', enum: ModeratedContentType })
+  @ApiParam({ name: 'contentId', description: 'Content ID' })
+  @ApiBody({ type: ModerationActionDto })
+  async hide(
+    @Param('contentType') contentType: string,
+    @Param('contentId', ParseIntPipe) contentId: number,
+    @Req() req: RequestWithUser,
+    @Body() actionDto: ModerationActionDto,
+  ) {
+    return this.moderationService.moderate(
+      contentType,
+      contentId,
+      ModerationAction.Hide,
+      req.user.id,
+      actionDto.reason,
+    );
+  }
+
+  @Post(':contentType/:contentId/restore')
+  @Roles(Role.Admin)
+  @ApiOperation({ summary: 'Publish held or hidden content again' })
+  @ApiParam({ name: 'contentType', enum: ModeratedContentType })
+  @ApiParam({ name: 'contentId', description: 'Content ID' })
+  @ApiBody({ type: ModerationActionDto })
+  async restore(
+    @Param('contentType') contentType: string,
+    @Param('contentId', ParseIntPipe) contentId: number,
+    @Req() req: RequestWithUser,
+    @Body() actionDto: ModerationActionDto,
+  ) {
+    return this.moderationService.moderate(
+      contentType,
+      contentId,
+      ModerationAction.Restore,
+      req.user.id,
+      actionDto.reason,
+    );
+  }
+
+  @Post(':contentType/:contentId/delete')
+  @Roles(Role.Admin)
+  @ApiOperation({ summary: 'Delete content permanently' })
+  @ApiParam({ name: 'contentType', enum: ModeratedContentType })
+  @ApiParam({ name: 'contentId', description: 'Content ID' })
+  @ApiBody({ type: ModerationActionDto })
+  async delete(
+    @Param('contentType') contentType: string,
+    @Param('contentId', ParseIntPipe) contentId: number,
+    @Req() req: RequestWithUser,
+    @Body() actionDto: ModerationActionDto,
+  ) {
+    return this.moderationService.moderate(
+      contentType,
+      contentId,
+      ModerationAction.Delete,
+      req.user.id,
+      actionDto.reason,
+    );
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ModerationService } from './moderation.service';
+import { ModerationController } from './moderation.controller';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [ModerationService],
+  controllers: [ModerationController],
+  exports: [ModerationService],
+})
+export class ModerationModule {}
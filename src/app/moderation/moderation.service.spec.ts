@@ -0,0 +1,267 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ModerationService } from './moderation.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { ModerationAction } from './moderation-content';
+
+describe('ModerationService', () => {
+  let service: ModerationService;
+  let prismaService: PrismaService;
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ModerationService,
+        {
+          provide: PrismaService,
+          useValue: {
+            moderationFlag: {
+              create: jest.fn(),
+              findFirst: jest.fn(),
+              findMany: jest.fn(),
+              groupBy: jest.fn(),
+              updateMany: jest.fn(),
+            },
+            blockedTerm: {
+              findMany: jest.fn().mockResolvedValue([{ term: 'dolandırıcı' }]),
+              findUnique: jest.fn(),
+              create: jest.fn(),
+              delete: jest.fn(),
+            },
+            comment: {
+              findUnique: jest.fn(),
+              update: jest.fn(),
+              delete: jest.fn(),
+            },
+            organizationReview: {
+              findUnique: jest.fn(),
+              update: jest.fn(),
+              delete: jest.fn(),
+              aggregate: jest.fn().mockResolvedValue({ _avg: { rating: 4 } }),
+              count: jest.fn().mockResolvedValue(1),
+            },
+            organization: {
+              update: jest.fn(),
+            },
+            message: {
+              findUnique: jest.fn(),
+              update: jest.fn(),
+              delete: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn().mockReturnValue('spam, Reklam'),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ModerationService>(ModerationService);
+    prismaService = module.get<PrismaService>(PrismaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('prescreen', () => {
+    it('should hold text containing stored or configured terms', async () => {
+      const result = await service.prescreen('DOLANDIRICI firma, REKLAM!');
+
+      expect(result).toEqual({
+        status: 'pending_review',
+        matches: ['dolandırıcı', 'reklam'],
+      });
+    });
+
+    it('should only match whole words', async () => {
+      const result = await service.prescreen('spamlanmış değil, reklamcılık');
+
+      expect(result).toEqual({ status: 'published', matches: [] });
+    });
+  });
+
+  describe('report', () => {
+    it('should open a flag for the reported content', async () => {
+      jest
+        .spyOn(prismaService.comment, 'findUnique')
+        .mockResolvedValue({ id: 5, moderationStatus: 'published' } as any);
+      jest
+        .spyOn(prismaService.moderationFlag, 'findFirst')
+        .mockResolvedValue(null);
+
+      await service.report('comment', 5, 3, ' Hakaret içeriyor ');
+
+      expect(prismaService.moderationFlag.create).toHaveBeenCalledWith({
+        data: {
+          contentType: 'comment',
+          contentId: 5,
+          source: 'report',
+          reporterId: 3,
+          reason: 'Hakaret içeriyor',
+        },
+      });
+    });
+
+    it('should not accept duplicate open reports from the same user', async () => {
+      jest
+        .spyOn(prismaService.comment, 'findUnique')
+        .mockResolvedValue({ id: 5, moderationStatus: 'published' } as any);
+      jest
+        .spyOn(prismaService.moderationFlag, 'findFirst')
+        .mockResolvedValue({ id: 1 } as any);
+
+      await expect(service.report('comment', 5, 3, 'Spam')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should reject hidden content', async () => {
+      jest
+        .spyOn(prismaService.message, 'findUnique')
+        .mockResolvedValue({ id: 5, moderationStatus: 'hidden' } as any);
+
+      await expect(service.report('message', 5, 3, 'Spam')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+
+    it('should reject unknown content types', async () => {
+      await expect(service.report('campaign', 5, 3, 'Spam')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
+  describe('getQueue', () => {
+    it('should group open flags per content', async () => {
+      const firstFlaggedAt = new Date('2026-10-19T08:00:00Z');
+      (prismaService.moderationFlag.groupBy as jest.Mock)
+        .mockResolvedValueOnce([
+          {
+            contentType: 'comment',
+            contentId: 5,
+            _min: { createdAt: firstFlaggedAt },
+          },
+        ])
+        .mockResolvedValueOnce([{ contentType: 'comment', contentId: 5 }]);
+      jest
+        .spyOn(prismaService.comment, 'findUnique')
+        .mockResolvedValue({ id: 5, content: 'spam' } as any);
+      jest
+        .spyOn(prismaService.moderationFlag, 'findMany')
+        .mockResolvedValue([{ id: 1 }, { id: 2 }] as any);
+
+      const result = await service.getQueue({ page: 1, limit: 10 });
+
+      expect(result.data).toEqual([
+        {
+          contentType: 'comment',
+          contentId: 5,
+          firstFlaggedAt,
+          reportCount: 2,
+          content: { id: 5, content: 'spam' },
+          flags: [{ id: 1 }, { id: 2 }],
+        },
+      ]);
+      expect(result.meta).toEqual({
+        total: 1,
+        page: 1,
+        limit: 10,
+        totalPages: 1,
+      });
+    });
+  });
+
+  describe('moderate', () => {
+    it('should hide a review, refresh the rating and resolve its flags', async () => {
+      jest
+        .spyOn(prismaService.organizationReview, 'findUnique')
+        .mockResolvedValue({ id: 8, organizationId: 4 } as any);
+      jest
+        .spyOn(prismaService.moderationFlag, 'updateMany')
+        .mockResolvedValue({ count: 2 });
+
+      const result = await service.moderate(
+        'review',
+        8,
+        ModerationAction.Hide,
+        1,
+        'Hakaret',
+      );
+
+      expect(prismaService.organizationReview.update).toHaveBeenCalledWith({
+        where: { id: 8 },
+        data: { moderationStatus: 'hidden' },
+      });
+      expect(prismaService.organization.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: { rating: 4, reviewCount: 1 },
+      });
+      expect(result.resolvedFlags).toBe(2);
+      expect(prismaService.moderationFlag.create).not.toHaveBeenCalled();
+    });
+
+    it('should record a moderator flag when deleting unflagged content', async () => {
+      jest
+        .spyOn(prismaService.message, 'findUnique')
+        .mockResolvedValue({ id: 9 } as any);
+      jest
+        .spyOn(prismaService.moderationFlag, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+
+      await service.moderate('message', 9, ModerationAction.Delete, 1, 'Spam');
+
+      expect(prismaService.message.delete).toHaveBeenCalledWith({
+        where: { id: 9 },
+      });
+      expect(prismaService.moderationFlag.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          contentType: 'message',
+          contentId: 9,
+          source: 'moderator',
+          resolution: 'delete',
+          resolvedById: 1,
+        }),
+      });
+    });
+
+    it('should require a reason', async () => {
+      await expect(
+        service.moderate('comment', 5, ModerationAction.Hide, 1, ' '),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('addBlockedTerm', () => {
+    it('should store the normalized term', async () => {
+      jest
+        .spyOn(prismaService.blockedTerm, 'findUnique')
+        .mockResolvedValue(null);
+
+      await service.addBlockedTerm('  İSTİSMAR ');
+
+      expect(prismaService.blockedTerm.create).toHaveBeenCalledWith({
+        data: { term: 'istismar' },
+      });
+    });
+
+    it('should reject duplicate terms', async () => {
+      jest
+        .spyOn(prismaService.blockedTerm, 'findUnique')
+        .mockResolvedValue({ id: 1 } as any);
+
+      await expect(service.addBlockedTerm('spam')).rejects.toThrow(
+        ConflictException,
+      );
+    });
+  });
+});
@@ -0,0 +1,406 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { refreshOrganizationRating } from '../organizations/organization-rating.util';
+import {
+  ModeratedContentType,
+  ModerationAction,
+  ModerationFlagSource,
+  ModerationStatus,
+} from './moderation-content';
+import {
+  findBlockedTerms,
+  MAX_BLOCKED_TERM_LENGTH,
+  normalizeBlockedTerm,
+} from './moderation-blocklist.util';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_REASON_LENGTH = 500;
+
+type ModeratedContent = {
+  id: number;
+  content: string | null;
+  moderationStatus: string;
+  organizationId?: number | null;
+};
+
+/**
+ * Yorum, organizasyon değerlendirmesi ve mesajların moderasyonu. Yeni içerik
+ * yasaklı ifade listesine göre ön filtreden geçer; takılan içerik moderatör
+ * onayına kadar yayınlanmaz. Kullanıcı bildirimleri ve ön filtre işaretleri
+ * aynı kuyrukta toplanır.
+ */
+@Injectable()
+export class ModerationService {
+  private readonly logger = new Logger(ModerationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  // İçerik kaydedilmeden önce çağrılır; dönen durum içerikle birlikte yazılır
+  async prescreen(text: string | null | undefined) {
+    if (!text?.trim()) {
+      return { status: ModerationStatus.Published, matches: [] as string[] };
+    }
+
+    const matches = findBlockedTerms(text, await this.getBlockedTerms());
+    return {
+      status: matches.length
+        ? ModerationStatus.PendingReview
+        : ModerationStatus.Published,
+      matches,
+    };
+  }
+
+  // Ön filtreye takılan içerik için kuyrukta işaret açar
+  async holdForReview(
+    contentType: ModeratedContentType,
+    contentId: number,
+    matches: string[],
+  ) {
+    if (matches.length === 0) return;
+
+    await this.prisma.moderationFlag.create({
+      data: {
+        contentType,
+        contentId,
+        source: ModerationFlagSource.Blocklist,
+        reason: `Yasaklı ifade: ${matches.join(', ')}`,
+      },
+    });
+    this.logger.log(`Held ${contentType} ${contentId} for moderation review`);
+  }
+
+  async report(
+    contentType: string,
+    contentId: number,
+    reporterId: number,
+    reason: string,
+  ) {
+    const type = this.parseContentType(contentType);
+    const trimmedReason = this.parseReason(reason);
+
+    const content = await this.findContent(type, Number(contentId));
+    if (!content || content.moderationStatus === ModerationStatus.Hidden) {
+      throw new NotFoundException('Bildirilen içerik bulunamadı');
+    }
+
+    const existing = await this.prisma.moderationFlag.findFirst({
+      where: {
+        contentType: type,
+        contentId: content.id,
+        reporterId,
+        resolvedAt: null,
+      },
+    });
+    if (existing) {
+      throw new ConflictException('Bu içeriği zaten bildirdiniz');
+    }
+
+    await this.prisma.moderationFlag.create({
+      data: {
+        contentType: type,
+        contentId: content.id,
+        source: ModerationFlagSource.Report,
+        reporterId,
+        reason: trimmedReason,
+      },
+    });
+
+    return { message: 'İçerik incelenmek üzere bildirildi' };
+  }
+
+  async getQueue(
+    query: { contentType?: string; page?: unknown; limit?: unknown } = {},
+  ) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE),
+    );
+    const where: Prisma.ModerationFlagWhereInput = {
+      resolvedAt: null,
+      ...(query.contentType && {
+        contentType: this.parseContentType(query.contentType),
+      }),
+    };
+
+    // Her içerik kuyrukta bir kez görünür, en eski işaretten başlayarak
+    const [groups, allGroups] = await Promise.all([
+      this.prisma.moderationFlag.groupBy({
+        by: ['contentType', 'contentId'],
+        where,
+        _min: { createdAt: true },
+        orderBy: { _min: { createdAt: 'asc' } },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.moderationFlag.groupBy({
+        by: ['contentType', 'contentId'],
+        where,
+      }),
+    ]);
+
+    const data = await Promise.all(
+      groups.map(async (group) => {
+        const type = group.contentType as ModeratedContentType;
+        const [content, flags] = await Promise.all([
+          this.findContent(type, group.contentId),
+          this.prisma.moderationFlag.findMany({
+            where: {
+              contentType: type,
+              contentId: group.contentId,
+              resolvedAt: null,
+            },
+            select: {
+              id: true,
+              source: true,
+              reason: true,
+              reporterId: true,
+              createdAt: true,
+            },
+            orderBy: { createdAt: 'asc' },
+          }),
+        ]);
+
+        return {
+          contentType: type,
+          contentId: group.contentId,
+          firstFlaggedAt: group._min.createdAt,
+          reportCount: flags.length,
+          content,
+          flags,
+        };
+      }),
+    );
+
+    const total = allGroups.length;
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async moderate(
+    contentType: string,
+    contentId: number,
+    action: ModerationAction,
+    moderatorId: number,
+    reason: string,
+  ) {
+    const type = this.parseContentType(contentType);
+    const note = this.parseReason(reason);
+
+    const content = await this.findContent(type, contentId);
+    if (!content) {
+      throw new NotFoundException(
+        `${contentId} ID'li ${type} içeriği bulunamadı`,
+      );
+    }
+
+    let moderationStatus: ModerationStatus | null = null;
+    if (action === ModerationAction.Delete) {
+      await this.deleteContent(type, contentId);
+    } else {
+      moderationStatus =
+        action === ModerationAction.Hide
+          ? ModerationStatus.Hidden
+          : ModerationStatus.Published;
+      await this.updateStatus(type, contentId, moderationStatus);
+    }
+
+    if (type === ModeratedContentType.Review) {
+      await refreshOrganizationRating(this.prisma, content.organizationId);
+    }
+
+    const resolution = {
+      resolvedAt: new Date(),
+      resolvedById: moderatorId,
+      resolution: action,
+      resolutionNote: note,
+    };
+    const { count } = await this.prisma.moderationFlag.updateMany({
+      where: { contentType: type, contentId, resolvedAt: null },
+      data: resolution,
+    });
+
+    // Bildirim olmadan yapılan işlemler de kayıt altına alınır
+    if (count === 0) {
+      await this.prisma.moderationFlag.create({
+        data: {
+          contentType: type,
+          contentId,
+          source: ModerationFlagSource.Moderator,
+          reason: note,
+          ...resolution,
+        },
+      });
+    }
+
+    return {
+      contentType: type,
+      contentId,
+      action,
+      moderationStatus,
+      resolvedFlags: count,
+    };
+  }
+
+  async listBlockedTerms() {
+    const terms = await this.prisma.blockedTerm.findMany({
+      orderBy: { term: 'asc' },
+    });
+    return { terms, configuredTerms: this.getConfiguredTerms() };
+  }
+
+  async addBlockedTerm(term: string) {
+    const normalized = normalizeBlockedTerm(term);
+    if (!normalized || normalized.length > MAX_BLOCKED_TERM_LENGTH) {
+      throw new BadRequestException(
+        `İfade 1-${MAX_BLOCKED_TERM_LENGTH} karakter olmalıdır`,
+      );
+    }
+
+    const existing = await this.prisma.blockedTerm.findUnique({
+      where: { term: normalized },
+    });
+    if (existing) {
+      throw new ConflictException('Bu ifade zaten listede');
+    }
+
+    return this.prisma.blockedTerm.create({ data: { term: normalized } });
+  }
+
+  async removeBlockedTerm(id: number) {
+    const term = await this.prisma.blockedTerm.findUnique({ where: { id } });
+    if (!term) {
+      throw new NotFoundException(`${id} ID'li ifade bulunamadı`);
+    }
+
+    await this.prisma.blockedTerm.delete({ where: { id } });
+    return { message: 'İfade listeden çıkarıldı' };
+  }
+
+  private async getBlockedTerms() {
+    const terms = await this.prisma.blockedTerm.findMany({
+      select: { term: true },
+    });
+    return [
+      ...terms.map((blockedTerm) => blockedTerm.term),
+      ...this.getConfiguredTerms(),
+    ];
+  }
+
+  // MODERATION_BLOCKLIST: virgülle ayrılmış ek ifadeler
+  private getConfiguredTerms() {
+    return (this.configService.get<string>('MODERATION_BLOCKLIST') ?? '')
+      .split(',')
+      .map(normalizeBlockedTerm)
+      .filter(Boolean);
+  }
+
+  private async findContent(
+    type: ModeratedContentType,
+    id: number,
+  ): Promise<ModeratedContent | null> {
+    switch (type) {
+      case ModeratedContentType.Comment:
+        return this.prisma.comment.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            content: true,
+            moderationStatus: true,
+            userId: true,
+            aidRequestId: true,
+            createdAt: true,
+          },
+        });
+      case ModeratedContentType.Review:
+        return this.prisma.organizationReview.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            content: true,
+            moderationStatus: true,
+            rating: true,
+            userId: true,
+            organizationId: true,
+            createdAt: true,
+          },
+        });
+      case ModeratedContentType.Message:
+        return this.prisma.message.findUnique({
+          where: { id },
+          select: {
+            id: true,
+            content: true,
+            moderationStatus: true,
+            senderId: true,
+            receiverId: true,
+            organizationId: true,
+            createdAt: true,
+          },
+        });
+    }
+  }
+
+  private async updateStatus(
+    type: ModeratedContentType,
+    id: number,
+    moderationStatus: ModerationStatus,
+  ) {
+    const args = { where: { id }, data: { moderationStatus } };
+    switch (type) {
+      case ModeratedContentType.Comment:
+        return this.prisma.comment.update(args);
+      case ModeratedContentType.Review:
+        return this.prisma.organizationReview.update(args);
+      case ModeratedContentType.Message:
+        return this.prisma.message.update(args);
+    }
+  }
+
+  private async deleteContent(type: ModeratedContentType, id: number) {
+    switch (type) {
+      case ModeratedContentType.Comment:
+        return this.prisma.comment.delete({ where: { id } });
+      case ModeratedContentType.Review:
+        return this.prisma.organizationReview.delete({ where: { id } });
+      case ModeratedContentType.Message:
+        return this.prisma.message.delete({ where: { id } });
+    }
+  }
+
+  private parseContentType(value: string) {
+    if (!(Object.values(ModeratedContentType) as string[]).includes(value)) {
+      throw new BadRequestException(
+        `Geçersiz içerik türü. Geçerli değerler: ${Object.values(ModeratedContentType).join(', ')}`,
+      );
+    }
+    return value as ModeratedContentType;
+  }
+
+  private parseReason(reason: string) {
+    const trimmed = reason?.trim();
+    if (!trimmed) {
+      throw new BadRequestException('Gerekçe belirtilmelidir');
+    }
+    if (trimmed.length > MAX_REASON_LENGTH) {
+      throw new BadRequestException(
+        `Gerekçe en fazla ${MAX_REASON_LENGTH} karakter olabilir`,
+      );
+    }
+    return trimmed;
+  }
+}
@@ -0,0 +1,36 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsArray, IsBoolean, IsIn, IsOptional } from 'class-validator';
+import { NotificationType } from '../notification-templates';
+
+export class UpdateNotificationPreferencesDto {
+  @ApiProperty({ required: false, description: 'Mobil push bildirimleri' })
+  @IsOptional()
+  @IsBoolean()
+  readonly push?: boolean;
+
+  @ApiProperty({ required: false, description: 'E-posta bildirimleri' })
+  @IsOptional()
+  @IsBoolean()
+  readonly email?: boolean;
+
+  @ApiProperty({ required: false, description: 'SMS bildirimleri' })
+  @IsOptional()
+  @IsBoolean()
+  readonly sms?: boolean;
+
+  @ApiProperty({ required: false, description: 'Uygulama içi bildirim kutusu' })
+  @IsOptional()
+  @IsBoolean()
+  readonly inApp?: boolean;
+
+  @ApiProperty({
+    required: false,
+    enum: NotificationType,
+    isArray: true,
+    description: 'Hiçbir kanaldan gönderilmeyecek bildirim türleri',
+  })
+  @IsOptional()
+  @IsArray()
+  @IsIn(Object.values(NotificationType), { each: true })
+  readonly mutedTypes?: string[];
+}
@@ -0,0 +1,107 @@
+// Bildirimin gönderilebileceği kanallar
+export enum NotificationChannel {
+  Push = 'push',
+  Email = 'email',
+  Sms = 'sms',
+  InApp = 'inApp',
+}
+
+export enum NotificationType {
+  AidRequestStatusChanged = 'aid-request.status-changed',
+  AidRequestAssigned = 'aid-request.assigned',
+  AidRequestDeliveryUpdated = 'aid-request.delivery-updated',
+  RecurringReminder = 'recurring.reminder',
+  RecurringSupportNeeded = 'recurring.support-needed',
+  RecurringOccurrenceCreated = 'recurring.occurrence-created',
+  OrganizationReported = 'organization.reported',
+  OrganizationReportClosed = 'organization.report-closed',
+  OrganizationRated = 'organization.rated',
+  OrganizationVerificationRequested = 'organization.verification-requested',
+  OrganizationVerificationApproved = 'organization.verification-approved',
+  OrganizationVerificationRejected = 'organization.verification-rejected',
+  InventoryLowStock = 'inventory.low-stock',
+  CampaignGoalReached = 'campaign.goal-reached',
+}
+
+export interface NotificationTemplate {
+  title: string;
+  body: string;
+}
+
+// Gövdelerdeki {{değişken}} alanları gönderimde doldurulur
+export const NOTIFICATION_TEMPLATES: Record<
+  NotificationType,
+  NotificationTemplate
+> = {
+  [NotificationType.AidRequestStatusChanged]: {
+    title: 'Yardım Talebi Durum Güncellemesi',
+    body: 'Yardım talebinizin durumu güncellendi: {{status}}',
+  },
+  [NotificationType.AidRequestAssigned]: {
+    title: 'Yardım Talebi Atandı',
+    body: 'Yardım talebiniz {{organizationName}} organizasyonuna atandı',
+  },
+  [NotificationType.AidRequestDeliveryUpdated]: {
+    title: 'Yardım Teslim Güncelleme',
+    body: 'Yardım talebiniz (ID: {{aidRequestId}}) durumu: {{status}}',
+  },
+  [NotificationType.RecurringReminder]: {
+    title: 'Tekrarlayan Yardım Talebi Hatırlatması',
+    body: '"{{description}}" tekrarlayan yardım talebiniz bugün için planlandı (#{{occurrenceId}}).',
+  },
+  [NotificationType.RecurringSupportNeeded]: {
+    title: 'Planlı Destek Bildirimi',
+    body: 'Tekrarlayan yardım talebi için planlı destek gerekiyor: {{description}}',
+  },
+  [NotificationType.RecurringOccurrenceCreated]: {
+    title: 'Tekrarlayan Talep Oluşturuldu',
+    body: '{{userName}} için #{{aidRequestId}} tekrarlayan yardım talebi bugün planlandı (tekrar #{{occurrenceId}}).',
+  },
+  [NotificationType.OrganizationReported]: {
+    title: 'Organizasyon Şikayeti',
+    body: 'Organizasyon {{organizationName}} şikayet edildi. Sebep: {{reason}}',
+  },
+  [NotificationType.OrganizationReportClosed]: {
+    title: 'Şikayetiniz Sonuçlandı',
+    body: '{{organizationName}} hakkındaki şikayetiniz {{outcome}}. Not: {{resolutionNote}}',
+  },
+  [NotificationType.OrganizationRated]: {
+    title: 'Organizasyon Değerlendirmesi',
+    body: '{{organizationName}} organizasyonu{{anonymous}} {{rating}} yıldız değerlendirme aldı: "{{feedback}}"',
+  },
+  [NotificationType.OrganizationVerificationRequested]: {
+    title: 'Organizasyon Doğrulama Başvurusu',
+    body: '{{organizationName}} organizasyonu doğrulama için belgelerini gönderdi',
+  },
+  [NotificationType.OrganizationVerificationApproved]: {
+    title: 'Organizasyonunuz Doğrulandı',
+    body: '{{organizationName}} organizasyonu doğrulandı ve artık haritada görünüyor',
+  },
+  [NotificationType.OrganizationVerificationRejected]: {
+    title: 'Doğrulama Başvurusu Reddedildi',
+    body: '{{organizationName}} organizasyonunun doğrulama başvurusu reddedildi. Gerekçe: {{reason}}',
+  },
+  [NotificationType.InventoryLowStock]: {
+    title: 'Stok Azaldı',
+    body: '{{organizationName}} stoğunda {{itemName}} {{availableQuantity}} {{unit}} kaldı (eşik: {{lowStockThreshold}})',
+  },
+  [NotificationType.CampaignGoalReached]: {
+    title: 'Kampanya Hedefine Ulaştı',
+    body: '{{campaignName}} kampanyası {{targetAmount}} TL hedefine ulaştı (toplanan: {{raisedAmount}} TL){{closed}}',
+  },
+};
+
+export function renderNotificationTemplate(
+  type: NotificationType,
+  variables: Record<string, unknown> = {},
+): NotificationTemplate {
+  const template = NOTIFICATION_TEMPLATES[type];
+  const render = (text: string) =>
+    text.replace(/{{\s*(\w+)\s*}}/g, (_, key) =>
+      variables[key] === undefined || variables[key] === null
+        ? ''
+        : String(variables[key]),
+    );
+
+  return { title: render(template.title), body: render(template.body) };
+}
@@ -0,0 +1,108 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { NotificationsService } from './notifications.service';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+
+@ApiTags('notifications')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('notifications')
+export class NotificationsController {
+  constructor(private readonly notificationsService: NotificationsService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List notifications in the current user inbox' })
+  @ApiQuery({ name: 'unreadOnly', type: Boolean, required: false })
+  @ApiQuery({ name: 'page', type: Number, required: false })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @ApiResponse({ status: 200, description: 'Bildirimler ve sayfa bilgisi' })
+  async findAll(
+    @Req() req: RequestWithUser,
+    @Query('unreadOnly') unreadOnly?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.notificationsService.findAll(req.user.id, {
+      unreadOnly,
+      page,
+      limit,
+    });
+  }
+
+  @Get('unread-count')
+  @ApiOperation({ summary: 'Get the number of unread notifications' })
+  @ApiResponse({ status: 200, description: 'Okunmamış bildirim sayısı' })
+  async getUnreadCount(@Req() req: RequestWithUser) {
+    return this.notificationsService.getUnreadCount(req.user.id);
+  }
+
+  @Get('preferences')
+  @ApiOperation({ summary: 'Get notification channel preferences' })
+  @ApiResponse({ status: 200, description: 'Kanal tercihleri' })
+  async getPreferences(@Req() req: RequestWithUser) {
+    return this.notificationsService.getPreferences(req.user.id);
+  }
+
+  @Patch('preferences')
+  @ApiOperation({ summary: 'Update notification channel preferences' })
+  @ApiBody({ type: UpdateNotificationPreferencesDto })
+  @ApiResponse({ status: 200, description: 'Güncellenmiş kanal tercihleri' })
+  async updatePreferences(
+    @Req() req: RequestWithUser,
+    @Body() updateDto: UpdateNotificationPreferencesDto,
+  ) {
+    return this.notificationsService.updatePreferences(req.user.id, updateDto);
+  }
+
+  @Patch('read-all')
+  @ApiOperation({ summary: 'Mark every notification as read' })
+  @ApiResponse({
+    status: 200,
+    description: 'Okundu işaretlenen bildirim sayısı',
+  })
+  async markAllRead(@Req() req: RequestWithUser) {
+    return this.notificationsService.markAllRead(req.user.id);
+  }
+
+  @Patch(':id/read')
+  @ApiOperation({ summary: 'Mark a notification as read' })
+  @ApiParam({ name: 'id', description: 'Notification ID' })
+  @ApiResponse({ status: 404, description: 'Bildirim bulunamadı' })
+  async markRead(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.notificationsService.markRead(id, req.user.id);
+  }
+
+  @Patch(':id/unread')
+  @ApiOperation({ summary: 'Mark a notification as unread' })
+  @ApiParam({ name: 'id', description: 'Notification ID' })
+  @ApiResponse({ status: 404, description: 'Bildirim bulunamadı' })
+  async markUnread(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.notificationsService.markUnread(id, req.user.id);
+  }
+}
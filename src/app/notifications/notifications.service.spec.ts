@@ -0,0 +1,177 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, NotFoundException } from '@nestjs/common';
+import { NotificationsService } from './notifications.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import {
+  NotificationType,
+  renderNotificationTemplate,
+} from './notification-templates';
+
+describe('renderNotificationTemplate', () => {
+  it('should fill template variables', () => {
+    expect(
+      renderNotificationTemplate(NotificationType.AidRequestAssigned, {
+        organizationName: 'Gıda Bankası',
+      }),
+    ).toEqual({
+      title: 'Yardım Talebi Atandı',
+      body: 'Yardım talebiniz Gıda Bankası organizasyonuna atandı',
+    });
+  });
+});
+
+describe('NotificationsService', () => {
+  let service: NotificationsService;
+  let prismaService: PrismaService;
+  let outboxService: OutboxService;
+
+  const recipient = (id: number, notificationPreference = null) => ({
+    id,
+    email: `user${id}@test.com`,
+    phone: null,
+    notificationPreference,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        NotificationsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            user: {
+              findMany: jest.fn(),
+            },
+            notification: {
+              create: jest.fn(),
+              findUnique: jest.fn(),
+              update: jest.fn(),
+            },
+            notificationPreference: {
+              upsert: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: OutboxService,
+          useValue: {
+            enqueuePush: jest.fn(),
+            enqueueEmail: jest.fn(),
+            enqueueSms: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<NotificationsService>(NotificationsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    outboxService = module.get<OutboxService>(OutboxService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('notify', () => {
+    it('should write to the inbox and send a push by default', async () => {
+      jest
+        .spyOn(prismaService.user, 'findMany')
+        .mockResolvedValue([recipient(3)] as any);
+
+      const result = await service.notify(
+        3,
+        NotificationType.AidRequestStatusChanged,
+        { status: 'approved' },
+        { aidRequestId: 9 },
+      );
+
+      expect(result).toEqual({ delivered: 1 });
+      expect(prismaService.notification.create).toHaveBeenCalledWith({
+        data: {
+          userId: 3,
+          type: NotificationType.AidRequestStatusChanged,
+          title: 'Yardım Talebi Durum Güncellemesi',
+          content: 'Yardım talebinizin durumu güncellendi: approved',
+          data: { aidRequestId: 9 },
+        },
+      });
+      expect(outboxService.enqueuePush).toHaveBeenCalledWith({
+        userId: 3,
+        title: 'Yardım Talebi Durum Güncellemesi',
+        body: 'Yardım talebinizin durumu güncellendi: approved',
+        data: {
+          type: NotificationType.AidRequestStatusChanged,
+          aidRequestId: 9,
+        },
+      });
+      expect(outboxService.enqueueEmail).toHaveBeenCalledTimes(1);
+    });
+
+    it('should respect disabled channels and muted types', async () => {
+      jest.spyOn(prismaService.user, 'findMany').mockResolvedValue([
+        recipient(3, {
+          push: false,
+          email: false,
+          sms: false,
+          inApp: true,
+          mutedTypes: [],
+        }),
+        recipient(4, {
+          push: true,
+          email: true,
+          sms: false,
+          inApp: true,
+          mutedTypes: [NotificationType.AidRequestAssigned],
+        }),
+      ] as any);
+
+      const result = await service.notify(
+        [3, 4],
+        NotificationType.AidRequestAssigned,
+      );
+
+      expect(result).toEqual({ delivered: 1 });
+      expect(prismaService.notification.create).toHaveBeenCalledTimes(1);
+      expect(outboxService.enqueuePush).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('notifyAdmins', () => {
+    it('should fan out to every admin', async () => {
+      jest
+        .spyOn(prismaService.user, 'findMany')
+        .mockResolvedValueOnce([{ id: 1 }, { id: 8 }] as any)
+        .mockResolvedValueOnce([recipient(1), recipient(8)] as any);
+
+      const result = await service.notifyAdmins(
+        NotificationType.OrganizationReported,
+        { organizationName: 'Test', reason: 'Sahte' },
+      );
+
+      expect(prismaService.user.findMany).toHaveBeenNthCalledWith(1, {
+        where: { role: 'admin' },
+        select: { id: true },
+      });
+      expect(result).toEqual({ delivered: 2 });
+    });
+  });
+
+  describe('markRead', () => {
+    it("should not mark another user's notification", async () => {
+      jest
+        .spyOn(prismaService.notification, 'findUnique')
+        .mockResolvedValue({ id: 5, userId: 2 } as any);
+
+      await expect(service.markRead(5, 3)).rejects.toThrow(NotFoundException);
+    });
+  });
+
+  describe('updatePreferences', () => {
+    it('should reject unknown notification types', async () => {
+      await expect(
+        service.updatePreferences(3, { mutedTypes: ['unknown'] }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+});
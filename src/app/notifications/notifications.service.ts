@@ -0,0 +1,313 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { NotificationPreference, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { Role } from '../casl/action';
+import {
+  NotificationChannel,
+  NotificationType,
+  renderNotificationTemplate,
+} from './notification-templates';
+import { UpdateNotificationPreferencesDto } from './dto/update-notification-preferences.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+// Notification.content sütununun uzunluğu
+const MAX_CONTENT_LENGTH = 255;
+
+// Tercih kaydı olmayan kullanıcılar için geçerli kanallar
+const DEFAULT_PREFERENCES = {
+  push: true,
+  email: true,
+  sms: false,
+  inApp: true,
+  mutedTypes: [] as string[],
+};
+
+type Recipient = {
+  id: number;
+  email: string;
+  phone: string | null;
+  notificationPreference: NotificationPreference | null;
+};
+
+/**
+ * Tüm bildirimler buradan geçer: şablon işlenir, kullanıcının kanal
+ * tercihlerine göre uygulama içi kutuya yazılır, push/e-posta/SMS gönderimleri
+ * ise kalıcı gönderim kuyruğuna (outbox) alınır.
+ */
+@Injectable()
+export class NotificationsService {
+  private readonly logger = new Logger(NotificationsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly outboxService: OutboxService,
+  ) {}
+
+  async notify(
+    userIds: number | number[],
+    type: NotificationType,
+    variables: Record<string, unknown> = {},
+    data?: Prisma.InputJsonValue,
+  ) {
+    const ids = [
+      ...new Set(
+        (Array.isArray(userIds) ? userIds : [userIds]).filter(Boolean),
+      ),
+    ];
+    if (ids.length === 0) {
+      return { delivered: 0 };
+    }
+
+    const { title, body } = renderNotificationTemplate(type, variables);
+    const recipients: Recipient[] = await this.prisma.user.findMany({
+      where: { id: { in: ids } },
+      select: {
+        id: true,
+        email: true,
+        phone: true,
+        notificationPreference: true,
+      },
+    });
+
+    let delivered = 0;
+    for (const recipient of recipients) {
+      const channels = this.resolveChannels(recipient, type);
+      if (channels.length === 0) continue;
+
+      await Promise.all(
+        channels.map((channel) =>
+          this.deliver(channel, recipient, type, title, body, data),
+        ),
+      );
+      delivered++;
+    }
+
+    return { delivered };
+  }
+
+  // Kullanıcı 1 yerine tüm adminlere gönderir
+  async notifyAdmins(
+    type: NotificationType,
+    variables: Record<string, unknown> = {},
+    data?: Prisma.InputJsonValue,
+  ) {
+    const admins = await this.prisma.user.findMany({
+      where: { role: Role.Admin },
+      select: { id: true },
+    });
+
+    if (admins.length === 0) {
+      this.logger.warn(`No admin users to receive ${type} notification`);
+      return { delivered: 0 };
+    }
+
+    return this.notify(
+      admins.map((admin) => admin.id),
+      type,
+      variables,
+      data,
+    );
+  }
+
+  async findAll(
+    userId: number,
+    query: { unreadOnly?: unknown; page?: unknown; limit?: unknown } = {},
+  ) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE),
+    );
+    const where: Prisma.NotificationWhereInput = {
+      userId,
+      ...((query.unreadOnly === true || query.unreadOnly === 'true') && {
+        readAt: null,
+      }),
+    };
+
+    const [data, total, unread] = await Promise.all([
+      this.prisma.notification.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.notification.count({ where }),
+      this.prisma.notification.count({ where: { userId, readAt: null } }),
+    ]);
+
+    return {
+      data,
+      meta: {
+        total,
+        unread,
+        page,
+        limit,
+        totalPages: Math.ceil(total / limit),
+      },
+    };
+  }
+
+  async getUnreadCount(userId: number) {
+    const count = await this.prisma.notification.count({
+      where: { userId, readAt: null },
+    });
+    return { count };
+  }
+
+  async markRead(id: number, userId: number) {
+    await this.findOwnNotification(id, userId);
+    return this.prisma.notification.update({
+      where: { id },
+      data: { readAt: new Date() },
+    });
+  }
+
+  async markUnread(id: number, userId: number) {
+    await this.findOwnNotification(id, userId);
+    return this.prisma.notification.update({
+      where: { id },
+      data: { readAt: null },
+    });
+  }
+
+  async markAllRead(userId: number) {
+    const { count } = await this.prisma.notification.updateMany({
+      where: { userId, readAt: null },
+      data: { readAt: new Date() },
+    });
+    return { updated: count };
+  }
+
+  async getPreferences(userId: number) {
+    const preference = await this.prisma.notificationPreference.findUnique({
+      where: { userId },
+    });
+    return preference ?? { userId, ...DEFAULT_PREFERENCES };
+  }
+
+  async updatePreferences(
+    userId: number,
+    updateDto: UpdateNotificationPreferencesDto,
+  ) {
+    const knownTypes: string[] = Object.values(NotificationType);
+    const unknownTypes = (updateDto.mutedTypes ?? []).filter(
+      (type) => !knownTypes.includes(type),
+    );
+    if (unknownTypes.length > 0) {
+      throw new BadRequestException(
+        `Bilinmeyen bildirim türü: ${unknownTypes.join(', ')}`,
+      );
+    }
+
+    const data = {
+      push: updateDto.push,
+      email: updateDto.email,
+      sms: updateDto.sms,
+      inApp: updateDto.inApp,
+      mutedTypes: updateDto.mutedTypes,
+    };
+
+    return this.prisma.notificationPreference.upsert({
+      where: { userId },
+      create: {
+        userId,
+        ...DEFAULT_PREFERENCES,
+        ...this.withoutUndefined(data),
+      },
+      update: this.withoutUndefined(data),
+    });
+  }
+
+  private resolveChannels(
+    recipient: Recipient,
+    type: NotificationType,
+  ): NotificationChannel[] {
+    const preference = recipient.notificationPreference ?? DEFAULT_PREFERENCES;
+    if (preference.mutedTypes.includes(type)) {
+      return [];
+    }
+
+    return Object.values(NotificationChannel).filter(
+      (channel) => preference[channel],
+    );
+  }
+
+  private async deliver(
+    channel: NotificationChannel,
+    recipient: Recipient,
+    type: NotificationType,
+    title: string,
+    body: string,
+    data?: Prisma.InputJsonValue,
+  ) {
+    try {
+      switch (channel) {
+        case NotificationChannel.InApp:
+          await this.prisma.notification.create({
+            data: {
+              userId: recipient.id,
+              type,
+              title,
+              content: body.slice(0, MAX_CONTENT_LENGTH),
+              data,
+            },
+          });
+          break;
+        case NotificationChannel.Push:
+          await this.outboxService.enqueuePush({
+            userId: recipient.id,
+            title,
+            body,
+            data: { type, ...(data as Record<string, unknown>) },
+          });
+          break;
+        case NotificationChannel.Email:
+          await this.outboxService.enqueueEmail({
+            to: recipient.email,
+            subject: title,
+            text: body,
+          });
+          break;
+        case NotificationChannel.Sms:
+          if (recipient.phone) {
+            await this.outboxService.enqueueSms({
+              to: recipient.phone,
+              body: `${title}: ${body}`,
+            });
+          }
+          break;
+      }
+    } catch (error) {
+      this.logger.error(
+        `Error delivering ${type} via ${channel} to user ${recipient.id}`,
+        error.stack,
+      );
+    }
+  }
+
+  private async findOwnNotification(id: number, userId: number) {
+    const notification = await this.prisma.notification.findUnique({
+      where: { id },
+    });
+
+    if (!notification || notification.userId !== userId) {
+      throw new NotFoundException(`${id} ID'li bildirim bulunamadı`);
+    }
+
+    return notification;
+  }
+
+  private withoutUndefined<T extends Record<string, unknown>>(value: T) {
+    return Object.fromEntries(
+      Object.entries(value).filter(([, field]) => field !== undefined),
+    ) as Partial<T>;
+  }
+}
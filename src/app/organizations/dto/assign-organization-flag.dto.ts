@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsInt, IsOptional } from 'class-validator';
+
+export class AssignOrganizationFlagDto {
+  @ApiProperty({
+    required: false,
+    description: 'Vakayı üstlenecek admin; boş bırakılırsa isteği yapan admin',
+  })
+  @IsOptional()
+  @IsInt()
+  readonly assigneeId?: number;
+}
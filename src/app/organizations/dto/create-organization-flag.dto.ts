@@ -0,0 +1,46 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUrl,
+  MaxLength,
+} from 'class-validator';
+import { OrganizationFlagCategory } from '../organization-flag';
+
+export class OrganizationFlagEvidenceDto {
+  @ApiProperty({ description: 'Kanıt dosyasının adı' })
+  @IsString()
+  @IsNotEmpty()
+  readonly name: string;
+
+  @ApiProperty({ description: 'Kanıt dosyasının adresi' })
+  @IsUrl()
+  readonly url: string;
+}
+
+export class CreateOrganizationFlagDto {
+  @ApiProperty({
+    enum: OrganizationFlagCategory,
+    description: 'Şikayet kategorisi',
+  })
+  @IsEnum(OrganizationFlagCategory)
+  readonly category: OrganizationFlagCategory;
+
+  @ApiProperty({ description: 'Şikayet sebebi' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  readonly reason: string;
+
+  @ApiProperty({
+    type: [OrganizationFlagEvidenceDto],
+    required: false,
+    description: 'Ekran görüntüsü, belge gibi kanıtlar',
+  })
+  @IsOptional()
+  @IsArray()
+  readonly evidence?: OrganizationFlagEvidenceDto[];
+}
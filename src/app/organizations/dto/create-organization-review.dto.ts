@@ -0,0 +1,41 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class CreateOrganizationReviewDto {
+  @ApiProperty({ description: 'Puan (1-5)', minimum: 1, maximum: 5 })
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  readonly rating: number;
+
+  @ApiProperty({ required: false, description: 'Değerlendirme metni' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  readonly content?: string;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'İsim gizlenerek yayınlansın mı',
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly anonymous?: boolean;
+
+  @ApiProperty({
+    required: false,
+    description: 'Değerlendirmenin ilgili olduğu yardım talebi',
+  })
+  @IsOptional()
+  @IsInt()
+  readonly aidRequestId?: number;
+}
@@ -0,0 +1,71 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsEnum,
+  IsInt,
+  IsNotEmpty,
+  IsNumber,
+  IsObject,
+  IsOptional,
+  IsString,
+  MaxLength,
+  Min,
+} from 'class-validator';
+import { ServiceAreaKind } from '../organization-service-area';
+
+export class CreateOrganizationServiceAreaDto {
+  @ApiProperty({ description: 'Bölgenin adı (ör. Kadıköy ve çevresi)' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(100)
+  readonly name: string;
+
+  @ApiProperty({
+    enum: ServiceAreaKind,
+    description: 'Adres çevresinde yarıçap veya haritada çizilmiş çokgen',
+  })
+  @IsEnum(ServiceAreaKind)
+  readonly kind: ServiceAreaKind;
+
+  @ApiProperty({
+    required: false,
+    description: 'Yarıçaplı bölgelerde organizasyon adresinden uzaklık (km)',
+  })
+  @IsOptional()
+  @IsNumber()
+  readonly radiusKm?: number;
+
+  @ApiProperty({
+    required: false,
+    description: 'Çokgen bölgelerde köşeler, [[boylam, enlem], ...]',
+  })
+  @IsOptional()
+  @IsArray()
+  readonly polygon?: [number, number][];
+
+  @ApiProperty({
+    required: false,
+    type: [String],
+    description: 'Bölgede karşılanan yardım türleri (boşsa tüm türler)',
+  })
+  @IsOptional()
+  @IsArray()
+  readonly aidTypes?: string[];
+
+  @ApiProperty({
+    required: false,
+    description: 'Gün bazında çalışma saatleri, ör. {"mon": ["09:00-18:00"]}',
+  })
+  @IsOptional()
+  @IsObject()
+  readonly openingHours?: Record<string, string[]>;
+
+  @ApiProperty({
+    required: false,
+    description: 'Bölgede günlük karşılanabilecek talep sayısı',
+  })
+  @IsOptional()
+  @IsInt()
+  @Min(0)
+  readonly dailyCapacity?: number;
+}
@@ -0,0 +1,16 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEmail, IsEnum } from 'class-validator';
+import { OrganizationMemberRole } from '../organization-member';
+
+export class InviteOrganizationMemberDto {
+  @ApiProperty({ description: 'Davet edilecek kişinin e-posta adresi' })
+  @IsEmail()
+  readonly email: string;
+
+  @ApiProperty({
+    enum: OrganizationMemberRole,
+    description: 'Davet kabul edildiğinde verilecek üyelik rolü',
+  })
+  @IsEnum(OrganizationMemberRole)
+  readonly role: OrganizationMemberRole;
+}
@@ -1,17 +1,11 @@
 import { ApiProperty } from '@nestjs/swagger';
 
 export class OrganizationRatingDto {
-  @ApiProperty({ description: 'Organization ID' })
-  organizationId: number;
-
   @ApiProperty({ description: 'Rating value (1-5)' })
   rating: number;
 
-  @ApiProperty({ description: 'Feedback comment' })
-  feedback: string;
-
-  @ApiProperty({ description: 'User ID providing the rating' })
-  userId: number;
+  @ApiProperty({ description: 'Feedback comment', required: false })
+  feedback?: string;
 
   @ApiProperty({
     description: 'Whether the rating should be anonymous',
@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class RejectOrganizationVerificationDto {
+  @ApiProperty({
+    description: 'Ret gerekçesi; organizasyon düzeltip yeniden başvurabilir',
+  })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  readonly reason: string;
+}
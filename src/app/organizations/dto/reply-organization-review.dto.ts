@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class ReplyOrganizationReviewDto {
+  @ApiProperty({ description: 'Organizasyonun değerlendirmeye yanıtı' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  readonly reply: string;
+}
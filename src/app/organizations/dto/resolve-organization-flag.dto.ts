@@ -0,0 +1,25 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+
+export class ResolveOrganizationFlagDto {
+  @ApiProperty({ description: 'Vaka sonucu ve alınan aksiyonlar' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  readonly resolutionNote: string;
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Organizasyon askıya alınsın mı (yalnızca çözümlemede)',
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly suspendOrganization?: boolean;
+}
@@ -0,0 +1,49 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsArray,
+  IsEnum,
+  IsNotEmpty,
+  IsString,
+  IsUrl,
+  Matches,
+  MaxLength,
+} from 'class-validator';
+import { OrganizationDocumentType } from '../organization-verification';
+
+export class OrganizationDocumentDto {
+  @ApiProperty({
+    enum: OrganizationDocumentType,
+    description: 'Belge türü',
+  })
+  @IsEnum(OrganizationDocumentType)
+  readonly type: OrganizationDocumentType;
+
+  @ApiProperty({ description: 'Belgenin adı' })
+  @IsString()
+  @IsNotEmpty()
+  readonly name: string;
+
+  @ApiProperty({ description: 'Belge dosyasının adresi' })
+  @IsUrl()
+  readonly url: string;
+}
+
+export class SubmitOrganizationVerificationDto {
+  @ApiProperty({ description: 'Vergi kimlik numarası (10 veya 11 hane)' })
+  @Matches(/^\d{10,11}$/)
+  readonly taxNumber: string;
+
+  @ApiProperty({ description: 'Dernek/vakıf kütük veya sicil numarası' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(50)
+  readonly charityRegistrationNo: string;
+
+  @ApiProperty({
+    type: [OrganizationDocumentDto],
+    description:
+      'Vergi levhası ve dernek/vakıf kayıt belgesi dahil kayıt belgeleri',
+  })
+  @IsArray()
+  readonly documents: OrganizationDocumentDto[];
+}
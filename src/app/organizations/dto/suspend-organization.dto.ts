@@ -0,0 +1,10 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class SuspendOrganizationDto {
+  @ApiProperty({ description: 'Askıya alma gerekçesi' })
+  @IsString()
+  @IsNotEmpty()
+  @MaxLength(2000)
+  readonly reason: string;
+}
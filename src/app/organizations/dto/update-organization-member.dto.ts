@@ -0,0 +1,12 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { IsEnum } from 'class-validator';
+import { OrganizationMemberRole } from '../organization-member';
+
+export class UpdateOrganizationMemberDto {
+  @ApiProperty({
+    enum: OrganizationMemberRole,
+    description: 'Üyenin yeni rolü',
+  })
+  @IsEnum(OrganizationMemberRole)
+  readonly role: OrganizationMemberRole;
+}
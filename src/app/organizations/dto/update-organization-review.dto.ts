@@ -0,0 +1,38 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  IsBoolean,
+  IsInt,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class UpdateOrganizationReviewDto {
+  @ApiProperty({ required: false, description: 'Puan (1-5)' })
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Max(5)
+  readonly rating?: number;
+
+  @ApiProperty({ required: false, description: 'Değerlendirme metni' })
+  @IsOptional()
+  @IsString()
+  @MaxLength(2000)
+  readonly content?: string;
+
+  @ApiProperty({ required: false, description: 'İsim gizlensin mi' })
+  @IsOptional()
+  @IsBoolean()
+  readonly anonymous?: boolean;
+
+  @ApiProperty({
+    required: false,
+    description: 'Değerlendirmenin ilgili olduğu yardım talebi',
+  })
+  @IsOptional()
+  @IsInt()
+  readonly aidRequestId?: number;
+}
@@ -0,0 +1,20 @@
+export enum OrganizationFlagCategory {
+  Fraud = 'fraud',
+  Misconduct = 'misconduct',
+  Misinformation = 'misinformation',
+  Inactive = 'inactive',
+  Other = 'other',
+}
+
+export enum OrganizationFlagStatus {
+  Open = 'open',
+  Investigating = 'investigating',
+  Resolved = 'resolved',
+  Dismissed = 'dismissed',
+}
+
+// Kapanan vakalar yeniden açılmaz, yeni şikayet oluşturulur
+export const CLOSED_FLAG_STATUSES: string[] = [
+  OrganizationFlagStatus.Resolved,
+  OrganizationFlagStatus.Dismissed,
+];
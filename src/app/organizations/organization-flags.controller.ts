@@ -0,0 +1,147 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RoleGuard } from '../auth/role.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../casl/action';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { OrganizationFlagsService } from './organization-flags.service';
+import { OrganizationService } from './organizations.service';
+import {
+  OrganizationFlagCategory,
+  OrganizationFlagStatus,
+} from './organization-flag';
+import { AssignOrganizationFlagDto } from './dto/assign-organization-flag.dto';
+import { ResolveOrganizationFlagDto } from './dto/resolve-organization-flag.dto';
+import { SuspendOrganizationDto } from './dto/suspend-organization.dto';
+
+@ApiTags('admin-organizations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RoleGuard)
+@Roles(Role.Admin)
+@Controller('admin')
+export class OrganizationFlagsController {
+  constructor(
+    private readonly flagsService: OrganizationFlagsService,
+    private readonly organizationService: OrganizationService,
+  ) {}
+
+  @Get('organization-flags')
+  @ApiOperation({ summary: 'List organization flag cases' })
+  @ApiQuery({ name: 'status', enum: OrganizationFlagStatus, required: false })
+  @ApiQuery({
+    name: 'category',
+    enum: OrganizationFlagCategory,
+    required: false,
+  })
+  @ApiQuery({ name: 'organizationId', type: Number, required: false })
+  @ApiQuery({ name: 'assigneeId', type: Number, required: false })
+  @ApiQuery({ name: 'page', type: Number, required: false })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @ApiResponse({ status: 200, description: 'Şikayet vakaları' })
+  async findAll(
+    @Query('status') status?: string,
+    @Query('category') category?: string,
+    @Query('organizationId') organizationId?: string,
+    @Query('assigneeId') assigneeId?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.flagsService.findAll({
+      status,
+      category,
+      organizationId,
+      assigneeId,
+      page,
+      limit,
+    });
+  }
+
+  @Get('organization-flags/:id')
+  @ApiOperation({ summary: 'Get a flag case with its evidence' })
+  @ApiParam({ name: 'id', description: 'Flag ID' })
+  @ApiResponse({ status: 404, description: 'Şikayet bulunamadı' })
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.flagsService.findOne(id);
+  }
+
+  @Post('organization-flags/:id/assign')
+  @ApiOperation({
+    summary: 'Assign a case to an admin and start investigating',
+  })
+  @ApiParam({ name: 'id', description: 'Flag ID' })
+  @ApiBody({ type: AssignOrganizationFlagDto })
+  async assign(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() assignDto: AssignOrganizationFlagDto,
+  ) {
+    return this.flagsService.assign(id, assignDto.assigneeId ?? req.user.id);
+  }
+
+  @Post('organization-flags/:id/resolve')
+  @ApiOperation({
+    summary: 'Resolve a case, optionally suspending the organization',
+  })
+  @ApiParam({ name: 'id', description: 'Flag ID' })
+  @ApiBody({ type: ResolveOrganizationFlagDto })
+  async resolve(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() resolveDto: ResolveOrganizationFlagDto,
+  ) {
+    return this.flagsService.resolve(id, req.user.id, resolveDto);
+  }
+
+  @Post('organization-flags/:id/dismiss')
+  @ApiOperation({ summary: 'Dismiss a case without action' })
+  @ApiParam({ name: 'id', description: 'Flag ID' })
+  @ApiBody({ type: ResolveOrganizationFlagDto })
+  async dismiss(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() resolveDto: ResolveOrganizationFlagDto,
+  ) {
+    return this.flagsService.dismiss(
+      id,
+      req.user.id,
+      resolveDto.resolutionNote,
+    );
+  }
+
+  @Post('organizations/:id/suspend')
+  @ApiOperation({ summary: 'Suspend an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiBody({ type: SuspendOrganizationDto })
+  async suspend(
+    @Param('id', ParseIntPipe) id: number,
+    @Body() suspendDto: SuspendOrganizationDto,
+  ) {
+    return this.organizationService.suspend(id, suspendDto.reason);
+  }
+
+  @Post('organizations/:id/reinstate')
+  @ApiOperation({ summary: 'Lift the suspension of an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  async reinstate(@Param('id', ParseIntPipe) id: number) {
+    return this.organizationService.reinstate(id);
+  }
+}
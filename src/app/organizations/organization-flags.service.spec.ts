@@ -0,0 +1,229 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ConflictException } from '@nestjs/common';
+import { OrganizationFlagsService } from './organization-flags.service';
+import { OrganizationService } from './organizations.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+
+describe('OrganizationFlagsService', () => {
+  let service: OrganizationFlagsService;
+  let prismaService: PrismaService;
+  let organizationService: OrganizationService;
+  let notificationsService: NotificationsService;
+
+  const flag = (overrides = {}) => ({
+    id: 3,
+    organizationId: 4,
+    reporterId: 7,
+    category: 'fraud',
+    reason: 'Toplanan bağışlar dağıtılmıyor',
+    status: 'open',
+    assigneeId: null,
+    organization: { id: 4, name: 'Gıda Bankası', suspendedAt: null },
+    evidence: [],
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationFlagsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            organizationFlag: {
+              findFirst: jest.fn(),
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              count: jest.fn(),
+              create: jest.fn(),
+              update: jest.fn(),
+            },
+            user: {
+              findUnique: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: OrganizationService,
+          useValue: {
+            findOne: jest
+              .fn()
+              .mockResolvedValue({ id: 4, name: 'Gıda Bankası' }),
+            suspend: jest.fn(),
+          },
+        },
+        {
+          provide: NotificationsService,
+          useValue: {
+            notify: jest.fn(),
+            notifyAdmins: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationFlagsService>(OrganizationFlagsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    organizationService = module.get<OrganizationService>(OrganizationService);
+    notificationsService =
+      module.get<NotificationsService>(NotificationsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should open a case with evidence and notify admins', async () => {
+      jest
+        .spyOn(prismaService.organizationFlag, 'findFirst')
+        .mockResolvedValue(null);
+      jest
+        .spyOn(prismaService.organizationFlag, 'create')
+        .mockResolvedValue(flag() as any);
+
+      await service.create(4, 7, {
+        category: 'fraud' as any,
+        reason: ' Toplanan bağışlar dağıtılmıyor ',
+        evidence: [{ name: 'dekont.pdf', url: 'https://example.com/d.pdf' }],
+      });
+
+      expect(prismaService.organizationFlag.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            organizationId: 4,
+            reporterId: 7,
+            category: 'fraud',
+            reason: 'Toplanan bağışlar dağıtılmıyor',
+            evidence: {
+              create: [
+                { name: 'dekont.pdf', url: 'https://example.com/d.pdf' },
+              ],
+            },
+          },
+        }),
+      );
+      expect(notificationsService.notifyAdmins).toHaveBeenCalledWith(
+        'organization.reported',
+        {
+          organizationName: 'Gıda Bankası',
+          reason: 'Toplanan bağışlar dağıtılmıyor',
+        },
+        { organizationId: 4, flagId: 3 },
+      );
+    });
+
+    it('should not open a second case while one is open', async () => {
+      jest
+        .spyOn(prismaService.organizationFlag, 'findFirst')
+        .mockResolvedValue(flag() as any);
+
+      await expect(
+        service.create(4, 7, { category: 'fraud' as any, reason: 'Tekrar' }),
+      ).rejects.toThrow(ConflictException);
+    });
+
+    it('should reject unknown categories', async () => {
+      await expect(
+        service.create(4, 7, { category: 'spam' as any, reason: 'Spam' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('assign', () => {
+    it('should move the case to investigating', async () => {
+      jest
+        .spyOn(prismaService.organizationFlag, 'findUnique')
+        .mockResolvedValue(flag() as any);
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ role: 'admin' } as any);
+
+      await service.assign(3, 1);
+
+      expect(prismaService.organizationFlag.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 3 },
+          data: { assigneeId: 1, status: 'investigating' },
+        }),
+      );
+    });
+
+    it('should only assign cases to admins', async () => {
+      jest
+        .spyOn(prismaService.organizationFlag, 'findUnique')
+        .mockResolvedValue(flag() as any);
+      jest
+        .spyOn(prismaService.user, 'findUnique')
+        .mockResolvedValue({ role: 'user' } as any);
+
+      await expect(service.assign(3, 9)).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('resolve', () => {
+    it('should suspend the organization and notify the reporter', async () => {
+      jest
+        .spyOn(prismaService.organizationFlag, 'findUnique')
+        .mockResolvedValue(
+          flag({ status: 'investigating', assigneeId: 2 }) as any,
+        );
+
+      await service.resolve(3, 1, {
+        resolutionNote: 'Belgeler doğrulandı',
+        suspendOrganization: true,
+      });
+
+      expect(organizationService.suspend).toHaveBeenCalledWith(
+        4,
+        'Belgeler doğrulandı',
+      );
+      expect(prismaService.organizationFlag.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'resolved',
+            resolutionNote: 'Belgeler doğrulandı',
+            assigneeId: 2,
+          }),
+        }),
+      );
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        7,
+        'organization.report-closed',
+        expect.objectContaining({ organizationName: 'Gıda Bankası' }),
+        { organizationId: 4, flagId: 3 },
+      );
+    });
+
+    it('should not reopen closed cases', async () => {
+      jest
+        .spyOn(prismaService.organizationFlag, 'findUnique')
+        .mockResolvedValue(flag({ status: 'dismissed' }) as any);
+
+      await expect(
+        service.resolve(3, 1, { resolutionNote: 'Tekrar inceleme' }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('dismiss', () => {
+    it('should close the case without suspending', async () => {
+      jest
+        .spyOn(prismaService.organizationFlag, 'findUnique')
+        .mockResolvedValue(flag() as any);
+
+      await service.dismiss(3, 1, 'Kanıt yetersiz');
+
+      expect(organizationService.suspend).not.toHaveBeenCalled();
+      expect(prismaService.organizationFlag.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'dismissed',
+            assigneeId: 1,
+          }),
+        }),
+      );
+    });
+  });
+});
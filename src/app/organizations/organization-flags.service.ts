@@ -0,0 +1,296 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/notification-templates';
+import { Role } from '../casl/action';
+import { OrganizationService } from './organizations.service';
+import {
+  CLOSED_FLAG_STATUSES,
+  OrganizationFlagCategory,
+  OrganizationFlagStatus,
+} from './organization-flag';
+import { CreateOrganizationFlagDto } from './dto/create-organization-flag.dto';
+import { ResolveOrganizationFlagDto } from './dto/resolve-organization-flag.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_TEXT_LENGTH = 2000;
+const MAX_EVIDENCE_COUNT = 10;
+
+const FLAG_INCLUDE = {
+  organization: { select: { id: true, name: true, suspendedAt: true } },
+  reporter: { select: { id: true, name: true } },
+  assignee: { select: { id: true, name: true } },
+  evidence: true,
+} satisfies Prisma.OrganizationFlagInclude;
+
+/**
+ * Organizasyon şikayetleri. Her şikayet bir vaka olarak açılır; adminler vakayı
+ * üstlenir, inceler ve sonuçlandırır. Çözümlemede organizasyon askıya
+ * alınabilir, şikayet eden kullanıcıya sonuç bildirilir.
+ */
+@Injectable()
+export class OrganizationFlagsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly organizationService: OrganizationService,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  async create(
+    organizationId: number,
+    reporterId: number,
+    createDto: CreateOrganizationFlagDto,
+  ) {
+    const organization = await this.organizationService.findOne(organizationId);
+    const { category, reason, evidence } = this.validateFlag(createDto);
+
+    const existing = await this.prisma.organizationFlag.findFirst({
+      where: {
+        organizationId,
+        reporterId,
+        status: { notIn: CLOSED_FLAG_STATUSES },
+      },
+    });
+    if (existing) {
+      throw new ConflictException(
+        'Bu organizasyon için incelenmekte olan bir şikayetiniz zaten var',
+      );
+    }
+
+    const flag = await this.prisma.organizationFlag.create({
+      data: {
+        organizationId,
+        reporterId,
+        category,
+        reason,
+        evidence: { create: evidence },
+      },
+      include: FLAG_INCLUDE,
+    });
+
+    await this.notificationsService.notifyAdmins(
+      NotificationType.OrganizationReported,
+      { organizationName: organization.name, reason },
+      { organizationId, flagId: flag.id },
+    );
+
+    return flag;
+  }
+
+  async findAll(
+    query: {
+      status?: string;
+      category?: string;
+      organizationId?: unknown;
+      assigneeId?: unknown;
+      page?: unknown;
+      limit?: unknown;
+    } = {},
+  ) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE),
+    );
+    const where: Prisma.OrganizationFlagWhereInput = {
+      ...(query.status && { status: query.status }),
+      ...(query.category && { category: query.category }),
+      ...(query.organizationId && {
+        organizationId: Number(query.organizationId),
+      }),
+      ...(query.assigneeId && { assigneeId: Number(query.assigneeId) }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.organizationFlag.findMany({
+        where,
+        include: FLAG_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.organizationFlag.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async findOne(id: number) {
+    const flag = await this.prisma.organizationFlag.findUnique({
+      where: { id },
+      include: FLAG_INCLUDE,
+    });
+
+    if (!flag) {
+      throw new NotFoundException(`${id} ID'li şikayet bulunamadı`);
+    }
+
+    return flag;
+  }
+
+  // Vakayı bir admine atar; açık vaka incelemeye alınır
+  async assign(id: number, assigneeId: number) {
+    const flag = await this.findOpenFlag(id);
+
+    const assignee = await this.prisma.user.findUnique({
+      where: { id: assigneeId },
+      select: { role: true },
+    });
+    if (!assignee || assignee.role !== Role.Admin) {
+      throw new BadRequestException('Vakalar yalnızca adminlere atanabilir');
+    }
+
+    return this.prisma.organizationFlag.update({
+      where: { id: flag.id },
+      data: { assigneeId, status: OrganizationFlagStatus.Investigating },
+      include: FLAG_INCLUDE,
+    });
+  }
+
+  async resolve(
+    id: number,
+    adminId: number,
+    resolveDto: ResolveOrganizationFlagDto,
+  ) {
+    const flag = await this.findOpenFlag(id);
+    const resolutionNote = this.parseResolutionNote(resolveDto.resolutionNote);
+
+    if (resolveDto.suspendOrganization && !flag.organization.suspendedAt) {
+      await this.organizationService.suspend(
+        flag.organizationId,
+        resolutionNote,
+      );
+    }
+
+    return this.close(
+      flag,
+      adminId,
+      OrganizationFlagStatus.Resolved,
+      resolutionNote,
+    );
+  }
+
+  async dismiss(id: number, adminId: number, resolutionNote: string) {
+    const flag = await this.findOpenFlag(id);
+
+    return this.close(
+      flag,
+      adminId,
+      OrganizationFlagStatus.Dismissed,
+      this.parseResolutionNote(resolutionNote),
+    );
+  }
+
+  private async close(
+    flag: Prisma.OrganizationFlagGetPayload<{ include: typeof FLAG_INCLUDE }>,
+    adminId: number,
+    status: OrganizationFlagStatus,
+    resolutionNote: string,
+  ) {
+    const closed = await this.prisma.organizationFlag.update({
+      where: { id: flag.id },
+      data: {
+        status,
+        resolutionNote,
+        resolvedAt: new Date(),
+        // Üstlenilmeden kapatılan vaka kapatan admine yazılır
+        assigneeId: flag.assigneeId ?? adminId,
+      },
+      include: FLAG_INCLUDE,
+    });
+
+    if (flag.reporterId) {
+      await this.notificationsService.notify(
+        flag.reporterId,
+        NotificationType.OrganizationReportClosed,
+        {
+          organizationName: flag.organization.name,
+          outcome:
+            status === OrganizationFlagStatus.Resolved
+              ? 'sonuçlandırıldı'
+              : 'incelendi ve işlem gerektirmediğine karar verildi',
+          resolutionNote,
+        },
+        { organizationId: flag.organizationId, flagId: flag.id },
+      );
+    }
+
+    return closed;
+  }
+
+  private async findOpenFlag(id: number) {
+    const flag = await this.findOne(id);
+
+    if (CLOSED_FLAG_STATUSES.includes(flag.status)) {
+      throw new BadRequestException(`${id} ID'li şikayet zaten kapatılmış`);
+    }
+
+    return flag;
+  }
+
+  private validateFlag(createDto: CreateOrganizationFlagDto) {
+    if (
+      !(Object.values(OrganizationFlagCategory) as string[]).includes(
+        createDto.category,
+      )
+    ) {
+      throw new BadRequestException(
+        `Geçersiz şikayet kategorisi. Geçerli değerler: ${Object.values(OrganizationFlagCategory).join(', ')}`,
+      );
+    }
+
+    const reason = createDto.reason?.trim();
+    if (!reason) {
+      throw new BadRequestException(
+        'Organizasyon için şikayet sebebi belirtilmelidir',
+      );
+    }
+    if (reason.length > MAX_TEXT_LENGTH) {
+      throw new BadRequestException(
+        `Şikayet sebebi en fazla ${MAX_TEXT_LENGTH} karakter olabilir`,
+      );
+    }
+
+    const evidence = createDto.evidence ?? [];
+    if (evidence.length > MAX_EVIDENCE_COUNT) {
+      throw new BadRequestException(
+        `En fazla ${MAX_EVIDENCE_COUNT} kanıt eklenebilir`,
+      );
+    }
+    if (evidence.some((item) => !item?.name?.trim() || !item?.url?.trim())) {
+      throw new BadRequestException('Her kanıt için ad ve adres gereklidir');
+    }
+
+    return {
+      category: createDto.category,
+      reason,
+      evidence: evidence.map((item) => ({
+        name: item.name.trim(),
+        url: item.url.trim(),
+      })),
+    };
+  }
+
+  private parseResolutionNote(note: string) {
+    const trimmed = note?.trim();
+    if (!trimmed) {
+      throw new BadRequestException('Sonuç notu belirtilmelidir');
+    }
+    if (trimmed.length > MAX_TEXT_LENGTH) {
+      throw new BadRequestException(
+        `Sonuç notu en fazla ${MAX_TEXT_LENGTH} karakter olabilir`,
+      );
+    }
+    return trimmed;
+  }
+}
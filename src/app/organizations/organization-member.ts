@@ -0,0 +1,41 @@
+export enum OrganizationMemberRole {
+  Owner = 'owner',
+  Manager = 'manager',
+  Staff = 'staff',
+  Viewer = 'viewer',
+}
+
+// Yüksek değer daha geniş yetki demektir
+const MEMBER_ROLE_RANK: Record<string, number> = {
+  [OrganizationMemberRole.Viewer]: 1,
+  [OrganizationMemberRole.Staff]: 2,
+  [OrganizationMemberRole.Manager]: 3,
+  [OrganizationMemberRole.Owner]: 4,
+};
+
+export interface OrganizationMembership {
+  organizationId: number;
+  role: string;
+}
+
+export function isOrganizationMemberRole(
+  role: string,
+): role is OrganizationMemberRole {
+  return role in MEMBER_ROLE_RANK;
+}
+
+export function hasMemberRole(role: string, minimum: string) {
+  return (
+    (MEMBER_ROLE_RANK[role] ?? 0) >= (MEMBER_ROLE_RANK[minimum] ?? Infinity)
+  );
+}
+
+// Kullanıcının en az verilen rolle üye olduğu organizasyonlar
+export function organizationIdsWithRole(
+  memberships: OrganizationMembership[] = [],
+  minimum: OrganizationMemberRole,
+) {
+  return memberships
+    .filter((membership) => hasMemberRole(membership.role, minimum))
+    .map((membership) => membership.organizationId);
+}
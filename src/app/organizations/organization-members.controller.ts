@@ -0,0 +1,119 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { OrganizationMembersService } from './organization-members.service';
+import { InviteOrganizationMemberDto } from './dto/invite-organization-member.dto';
+import { UpdateOrganizationMemberDto } from './dto/update-organization-member.dto';
+
+@ApiTags('organization-members')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('organizations')
+export class OrganizationMembersController {
+  constructor(private readonly membersService: OrganizationMembersService) {}
+
+  @Post('invitations/:token/accept')
+  @ApiOperation({ summary: 'Accept an organization invitation' })
+  @ApiParam({ name: 'token', description: 'E-postayla gönderilen davet kodu' })
+  @ApiResponse({ status: 201, description: 'Üyelik oluşturuldu' })
+  @ApiResponse({
+    status: 403,
+    description: 'Davet başka bir e-posta adresine gönderilmiş',
+  })
+  async acceptInvitation(
+    @Param('token') token: string,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.membersService.acceptInvitation(token, req.user);
+  }
+
+  @Get(':id/members')
+  @ApiOperation({ summary: 'List members of an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  async findMembers(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.membersService.findMembers(id, req.user);
+  }
+
+  @Patch(':id/members/:userId')
+  @ApiOperation({ summary: 'Change the role of a member' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'userId', description: 'Üye kullanıcının ID değeri' })
+  @ApiBody({ type: UpdateOrganizationMemberDto })
+  async updateRole(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Req() req: RequestWithUser,
+    @Body() updateDto: UpdateOrganizationMemberDto,
+  ) {
+    return this.membersService.updateRole(id, userId, updateDto.role, req.user);
+  }
+
+  @Delete(':id/members/:userId')
+  @ApiOperation({ summary: 'Remove a member or leave the organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'userId', description: 'Üye kullanıcının ID değeri' })
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('userId', ParseIntPipe) userId: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.membersService.remove(id, userId, req.user);
+  }
+
+  @Get(':id/invitations')
+  @ApiOperation({ summary: 'List pending invitations of an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  async findInvitations(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.membersService.findInvitations(id, req.user);
+  }
+
+  @Post(':id/invitations')
+  @ApiOperation({ summary: 'Invite a member by email' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiBody({ type: InviteOrganizationMemberDto })
+  @ApiResponse({ status: 409, description: 'Kullanıcı zaten üye' })
+  async invite(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() inviteDto: InviteOrganizationMemberDto,
+  ) {
+    return this.membersService.invite(id, req.user, inviteDto);
+  }
+
+  @Delete(':id/invitations/:invitationId')
+  @ApiOperation({ summary: 'Revoke a pending invitation' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'invitationId', description: 'Invitation ID' })
+  async revokeInvitation(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('invitationId', ParseIntPipe) invitationId: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.membersService.revokeInvitation(id, invitationId, req.user);
+  }
+}
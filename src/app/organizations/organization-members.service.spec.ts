@@ -0,0 +1,315 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { OrganizationMembersService } from './organization-members.service';
+import { OrganizationService } from './organizations.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { OrganizationMemberRole } from './organization-member';
+
+describe('OrganizationMembersService', () => {
+  let service: OrganizationMembersService;
+  let prismaService: PrismaService;
+  let outboxService: OutboxService;
+  let organizationService: OrganizationService;
+
+  const manager = {
+    id: 7,
+    role: 'organization_owner',
+    memberships: [{ organizationId: 4, role: 'manager' }],
+  };
+
+  const invitation = (overrides = {}) => ({
+    id: 2,
+    organizationId: 4,
+    email: 'gonullu@example.com',
+    role: 'staff',
+    token: 'abc',
+    expiresAt: new Date(Date.now() + 60 * 60 * 1000),
+    acceptedAt: null,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationMembersService,
+        CaslAbilityFactory,
+        {
+          provide: PrismaService,
+          useValue: {
+            organizationMember: {
+              findFirst: jest.fn(),
+              findUnique: jest.fn(),
+              findMany: jest.fn().mockResolvedValue([]),
+              count: jest.fn(),
+              create: jest.fn(),
+              update: jest.fn(),
+              delete: jest.fn(),
+            },
+            organizationInvitation: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              deleteMany: jest.fn(),
+              create: jest.fn().mockResolvedValue({ id: 2 }),
+              update: jest.fn(),
+              delete: jest.fn(),
+            },
+            user: {
+              update: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 0 }),
+            },
+            $transaction: jest.fn((operations) => Promise.all(operations)),
+          },
+        },
+        {
+          provide: OrganizationService,
+          useValue: {
+            findOne: jest
+              .fn()
+              .mockResolvedValue({ id: 4, name: 'Gıda Bankası' }),
+          },
+        },
+        {
+          provide: OutboxService,
+          useValue: {
+            enqueueEmail: jest.fn(),
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn().mockReturnValue('https://app.example.com'),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationMembersService>(
+      OrganizationMembersService,
+    );
+    prismaService = module.get<PrismaService>(PrismaService);
+    outboxService = module.get<OutboxService>(OutboxService);
+    organizationService = module.get<OrganizationService>(OrganizationService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('invite', () => {
+    it('should replace pending invitations and email the new token', async () => {
+      jest
+        .spyOn(prismaService.organizationMember, 'findFirst')
+        .mockResolvedValue(null);
+
+      await service.invite(4, manager, {
+        email: ' Gonullu@Example.com ',
+        role: OrganizationMemberRole.Staff,
+      });
+
+      expect(
+        prismaService.organizationInvitation.deleteMany,
+      ).toHaveBeenCalledWith({
+        where: {
+          organizationId: 4,
+          email: 'gonullu@example.com',
+          acceptedAt: null,
+        },
+      });
+      const { data } = (
+        prismaService.organizationInvitation.create as jest.Mock
+      ).mock.calls[0][0];
+      expect(data).toEqual(
+        expect.objectContaining({
+          organizationId: 4,
+          email: 'gonullu@example.com',
+          role: 'staff',
+          invitedById: 7,
+        }),
+      );
+      expect(outboxService.enqueueEmail).toHaveBeenCalledWith(
+        expect.objectContaining({
+          to: 'gonullu@example.com',
+          text: expect.stringContaining(
+            `https://app.example.com/invitations/${data.token}`,
+          ),
+        }),
+      );
+    });
+
+    it('should escape the organization name in the email body', async () => {
+      jest
+        .spyOn(prismaService.organizationMember, 'findFirst')
+        .mockResolvedValue(null);
+      jest
+        .spyOn(organizationService, 'findOne')
+        .mockResolvedValue({ id: 4, name: '<a href="x">Gıda</a>' } as any);
+
+      await service.invite(4, manager, {
+        email: 'gonullu@example.com',
+        role: OrganizationMemberRole.Staff,
+      });
+
+      const { html } = (outboxService.enqueueEmail as jest.Mock).mock
+        .calls[0][0];
+      expect(html).toContain('&lt;a href=&quot;x&quot;&gt;Gıda&lt;/a&gt;');
+      expect(html).not.toContain('<a href="x">');
+    });
+
+    it('should not let managers grant the owner role', async () => {
+      await expect(
+        service.invite(4, manager, {
+          email: 'gonullu@example.com',
+          role: OrganizationMemberRole.Owner,
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should not let members of other organizations invite', async () => {
+      await expect(
+        service.invite(5, manager, {
+          email: 'gonullu@example.com',
+          role: OrganizationMemberRole.Viewer,
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject existing members', async () => {
+      jest
+        .spyOn(prismaService.organizationMember, 'findFirst')
+        .mockResolvedValue({ id: 1 } as any);
+
+      await expect(
+        service.invite(4, manager, {
+          email: 'gonullu@example.com',
+          role: OrganizationMemberRole.Viewer,
+        }),
+      ).rejects.toThrow(ConflictException);
+    });
+  });
+
+  describe('acceptInvitation', () => {
+    it('should add the member and upgrade a standard user account', async () => {
+      jest
+        .spyOn(prismaService.organizationInvitation, 'findUnique')
+        .mockResolvedValue(invitation() as any);
+      jest
+        .spyOn(prismaService.organizationMember, 'findUnique')
+        .mockResolvedValue(null);
+
+      await service.acceptInvitation('abc', {
+        id: 9,
+        role: 'user',
+        email: 'GONULLU@example.com',
+      });
+
+      expect(prismaService.organizationMember.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: { organizationId: 4, userId: 9, role: 'staff' },
+        }),
+      );
+      expect(prismaService.organizationInvitation.update).toHaveBeenCalledWith({
+        where: { id: 2 },
+        data: { acceptedAt: expect.any(Date) },
+      });
+      expect(prismaService.user.update).toHaveBeenCalledWith({
+        where: { id: 9 },
+        data: { role: 'organization_owner' },
+      });
+    });
+
+    it('should only accept the invited email address', async () => {
+      jest
+        .spyOn(prismaService.organizationInvitation, 'findUnique')
+        .mockResolvedValue(invitation() as any);
+
+      await expect(
+        service.acceptInvitation('abc', {
+          id: 9,
+          role: 'user',
+          email: 'baska@example.com',
+        }),
+      ).rejects.toThrow(ForbiddenException);
+    });
+
+    it('should reject expired invitations', async () => {
+      jest
+        .spyOn(prismaService.organizationInvitation, 'findUnique')
+        .mockResolvedValue(
+          invitation({ expiresAt: new Date(Date.now() - 1000) }) as any,
+        );
+
+      await expect(
+        service.acceptInvitation('abc', {
+          id: 9,
+          role: 'user',
+          email: 'gonullu@example.com',
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('remove', () => {
+    it('should let members leave the organization', async () => {
+      jest
+        .spyOn(prismaService.organizationMember, 'findUnique')
+        .mockResolvedValue({ id: 3, role: 'viewer' } as any);
+      const viewer = {
+        id: 9,
+        role: 'user',
+        memberships: [{ organizationId: 4, role: 'viewer' }],
+      };
+
+      await service.remove(4, 9, viewer);
+
+      expect(prismaService.organizationMember.delete).toHaveBeenCalledWith({
+        where: { id: 3 },
+      });
+    });
+
+    it('should demote a removed staff member without other staff memberships', async () => {
+      jest
+        .spyOn(prismaService.organizationMember, 'findUnique')
+        .mockResolvedValue({ id: 5, role: 'staff' } as any);
+      jest
+        .spyOn(prismaService.organizationMember, 'findMany')
+        .mockResolvedValue([{ organizationId: 6, role: 'viewer' }] as any);
+      const owner = {
+        id: 7,
+        role: 'organization_owner',
+        memberships: [{ organizationId: 4, role: 'owner' }],
+      };
+
+      await service.remove(4, 9, owner);
+
+      expect(prismaService.user.updateMany).toHaveBeenCalledWith({
+        where: { id: 9, role: 'organization_owner' },
+        data: { role: 'user' },
+      });
+    });
+
+    it('should not remove the last owner', async () => {
+      jest
+        .spyOn(prismaService.organizationMember, 'findUnique')
+        .mockResolvedValue({ id: 1, role: 'owner' } as any);
+      jest
+        .spyOn(prismaService.organizationMember, 'count')
+        .mockResolvedValue(1);
+
+      await expect(
+        service.remove(4, 7, {
+          id: 7,
+          role: 'organization_owner',
+          memberships: [{ organizationId: 4, role: 'owner' }],
+        }),
+      ).rejects.toThrow(BadRequestException);
+      expect(prismaService.organizationMember.delete).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,416 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma, User } from '@prisma/client';
+import * as crypto from 'crypto';
+import { PrismaService } from '../prisma/prisma.service';
+import { OutboxService } from '../outbox/outbox.service';
+import { escapeHtml } from '../outbox/email-html.util';
+import { Action, Role } from '../casl/action';
+import { AbilityUser, CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { OrganizationService } from './organizations.service';
+import {
+  OrganizationMemberRole,
+  hasMemberRole,
+  isOrganizationMemberRole,
+} from './organization-member';
+import { InviteOrganizationMemberDto } from './dto/invite-organization-member.dto';
+
+const INVITATION_TTL_DAYS = 7;
+
+const MEMBER_INCLUDE = {
+  user: { select: { id: true, name: true, email: true } },
+} satisfies Prisma.OrganizationMemberInclude;
+
+// Davet token'ı yalnızca e-postayla iletilir, API yanıtlarında dönmez
+const INVITATION_SELECT = {
+  id: true,
+  organizationId: true,
+  email: true,
+  role: true,
+  invitedById: true,
+  expiresAt: true,
+  acceptedAt: true,
+  createdAt: true,
+} satisfies Prisma.OrganizationInvitationSelect;
+
+/**
+ * Organizasyon üyelikleri ve e-posta davetleri. Üyeler organizasyon içindeki
+ * rollerine göre (owner, manager, staff, viewer) yalnızca kendi
+ * organizasyonlarının kayıtlarını yönetebilir.
+ */
+@Injectable()
+export class OrganizationMembersService {
+  private readonly logger = new Logger(OrganizationMembersService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly organizationService: OrganizationService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+    private readonly outboxService: OutboxService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async findMembers(organizationId: number, user: AbilityUser) {
+    await this.organizationService.findOne(organizationId);
+    this.caslAbilityFactory.assertCan(user, Action.Read, 'OrganizationMember', {
+      organizationId,
+    });
+
+    return this.prisma.organizationMember.findMany({
+      where: { organizationId },
+      include: MEMBER_INCLUDE,
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findInvitations(organizationId: number, user: AbilityUser) {
+    await this.organizationService.findOne(organizationId);
+    this.caslAbilityFactory.assertCan(
+      user,
+      Action.Manage,
+      'OrganizationMember',
+      { organizationId },
+    );
+
+    return this.prisma.organizationInvitation.findMany({
+      where: {
+        organizationId,
+        acceptedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: INVITATION_SELECT,
+      orderBy: { createdAt: 'desc' },
+    });
+  }
+
+  async invite(
+    organizationId: number,
+    user: AbilityUser,
+    inviteDto: InviteOrganizationMemberDto,
+  ) {
+    const organization = await this.organizationService.findOne(organizationId);
+    this.caslAbilityFactory.assertCan(
+      user,
+      Action.Create,
+      'OrganizationMember',
+      { organizationId },
+    );
+
+    const email = inviteDto.email?.trim().toLowerCase();
+    if (!email || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(email)) {
+      throw new BadRequestException('Geçerli bir e-posta adresi girilmelidir');
+    }
+    const role = this.parseRole(inviteDto.role);
+    this.assertCanGrant(user, organizationId, role);
+
+    const existingMember = await this.prisma.organizationMember.findFirst({
+      where: {
+        organizationId,
+        user: { email: { equals: email, mode: 'insensitive' } },
+      },
+    });
+    if (existingMember) {
+      throw new ConflictException('Bu kullanıcı zaten organizasyonun üyesi');
+    }
+
+    const token = crypto.randomBytes(32).toString('hex');
+    const expiresAt = new Date(
+      Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000,
+    );
+
+    // Aynı adrese gönderilmiş bekleyen davet yenisiyle değiştirilir
+    const [, invitation] = await this.prisma.$transaction([
+      this.prisma.organizationInvitation.deleteMany({
+        where: { organizationId, email, acceptedAt: null },
+      }),
+      this.prisma.organizationInvitation.create({
+        data: {
+          organizationId,
+          email,
+          role,
+          token,
+          invitedById: user.id,
+          expiresAt,
+        },
+        select: INVITATION_SELECT,
+      }),
+    ]);
+
+    const frontend = this.configService.get<string>('FRONTEND_URL') || '';
+    const acceptUrl = `${frontend}/invitations/${token}`;
+    const organizationName = escapeHtml(organization.name);
+    const acceptLink = escapeHtml(acceptUrl);
+
+    await this.outboxService.enqueueEmail({
+      to: email,
+      subject: `${organization.name} organizasyonuna davet edildiniz`,
+      text: `${organization.name} organizasyonuna ${role} rolüyle katılmak için davet edildiniz. Daveti kabul etmek için bu e-posta adresiyle giriş yapıp şu bağlantıyı açın: ${acceptUrl}\n\nDavet kodu: ${token}\nDavet ${INVITATION_TTL_DAYS} gün geçerlidir.`,
+      html: `
+        <h2>${organizationName} organizasyonuna davet edildiniz</h2>
+        <p>Organizasyona <strong>${escapeHtml(role)}</strong> rolüyle katılmak için bu e-posta adresiyle giriş yapıp daveti kabul edin:</p>
+        <p><a href="${acceptLink}">${acceptLink}</a></p>
+        <p>Davet kodu: ${token}</p>
+        <p>Davet ${INVITATION_TTL_DAYS} gün geçerlidir.</p>
+      `,
+    });
+    this.logger.log(
+      `Invitation ${invitation.id} sent for organization ${organizationId}`,
+    );
+
+    return invitation;
+  }
+
+  async revokeInvitation(
+    organizationId: number,
+    invitationId: number,
+    user: AbilityUser,
+  ) {
+    const invitation = await this.prisma.organizationInvitation.findUnique({
+      where: { id: invitationId },
+    });
+
+    if (!invitation || invitation.organizationId !== organizationId) {
+      throw new NotFoundException(`${invitationId} ID'li davet bulunamadı`);
+    }
+    this.caslAbilityFactory.assertCan(
+      user,
+      Action.Delete,
+      'OrganizationMember',
+      { organizationId },
+    );
+    if (invitation.acceptedAt) {
+      throw new BadRequestException('Kabul edilmiş davet geri alınamaz');
+    }
+
+    await this.prisma.organizationInvitation.delete({
+      where: { id: invitationId },
+    });
+    return { message: 'Davet geri alındı' };
+  }
+
+  /**
+   * Davet yalnızca davet edilen e-posta adresine sahip kullanıcı tarafından
+   * kabul edilebilir. Staff ve üzeri roller talepler üzerinde işlem
+   * yapabilsin diye standart kullanıcılar organizasyon hesabına yükseltilir.
+   */
+  async acceptInvitation(
+    token: string,
+    user: Pick<User, 'id' | 'role' | 'email'>,
+  ) {
+    const invitation = await this.prisma.organizationInvitation.findUnique({
+      where: { token },
+    });
+
+    if (!invitation) {
+      throw new NotFoundException('Davet bulunamadı');
+    }
+    if (invitation.acceptedAt) {
+      throw new BadRequestException('Bu davet zaten kabul edilmiş');
+    }
+    if (invitation.expiresAt < new Date()) {
+      throw new BadRequestException('Davetin süresi dolmuş');
+    }
+    if (invitation.email !== user.email?.trim().toLowerCase()) {
+      throw new ForbiddenException(
+        'Bu davet başka bir e-posta adresine gönderilmiş',
+      );
+    }
+
+    const existingMember = await this.prisma.organizationMember.findUnique({
+      where: {
+        organizationId_userId: {
+          organizationId: invitation.organizationId,
+          userId: user.id,
+        },
+      },
+    });
+    if (existingMember) {
+      throw new ConflictException('Zaten bu organizasyonun üyesisiniz');
+    }
+
+    const promote =
+      user.role === Role.User &&
+      hasMemberRole(invitation.role, OrganizationMemberRole.Staff);
+
+    const [member] = await this.prisma.$transaction([
+      this.prisma.organizationMember.create({
+        data: {
+          organizationId: invitation.organizationId,
+          userId: user.id,
+          role: invitation.role,
+        },
+        include: MEMBER_INCLUDE,
+      }),
+      this.prisma.organizationInvitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: new Date() },
+      }),
+      ...(promote
+        ? [
+            this.prisma.user.update({
+              where: { id: user.id },
+              data: { role: Role.OrganizationOwner },
+            }),
+          ]
+        : []),
+    ]);
+    this.logger.log(
+      `User ${user.id} joined organization ${invitation.organizationId}`,
+    );
+
+    return member;
+  }
+
+  async updateRole(
+    organizationId: number,
+    memberUserId: number,
+    role: string,
+    user: AbilityUser,
+  ) {
+    const member = await this.findMember(organizationId, memberUserId);
+    this.caslAbilityFactory.assertCan(
+      user,
+      Action.Update,
+      'OrganizationMember',
+      { organizationId },
+    );
+
+    const newRole = this.parseRole(role);
+    // Hem mevcut hem yeni rol, işlemi yapanın verebileceği roller olmalı
+    this.assertCanGrant(user, organizationId, member.role);
+    this.assertCanGrant(user, organizationId, newRole);
+
+    if (
+      member.role === OrganizationMemberRole.Owner &&
+      newRole !== OrganizationMemberRole.Owner
+    ) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    const updated = await this.prisma.organizationMember.update({
+      where: { id: member.id },
+      data: { role: newRole },
+      include: MEMBER_INCLUDE,
+    });
+    await this.demoteIfNoLongerStaff(memberUserId);
+
+    return updated;
+  }
+
+  // Üyeler organizasyondan kendileri ayrılabilir; son sahip ayrılamaz
+  async remove(
+    organizationId: number,
+    memberUserId: number,
+    user: AbilityUser,
+  ) {
+    const member = await this.findMember(organizationId, memberUserId);
+
+    if (memberUserId !== user.id) {
+      this.caslAbilityFactory.assertCan(
+        user,
+        Action.Delete,
+        'OrganizationMember',
+        { organizationId },
+      );
+      this.assertCanGrant(user, organizationId, member.role);
+    }
+
+    if (member.role === OrganizationMemberRole.Owner) {
+      await this.assertNotLastOwner(organizationId);
+    }
+
+    await this.prisma.organizationMember.delete({ where: { id: member.id } });
+    await this.demoteIfNoLongerStaff(memberUserId);
+
+    return { message: 'Üyelik sonlandırıldı' };
+  }
+
+  /**
+   * Davet kabulünde staff ve üzeri üyeler organization_owner rolüne
+   * yükseltilir; hiçbir organizasyonda staff ve üzeri üyeliği kalmayan
+   * kullanıcı bu rolü kaybeder.
+   */
+  private async demoteIfNoLongerStaff(userId: number) {
+    const memberships = await this.prisma.organizationMember.findMany({
+      where: { userId },
+      select: { organizationId: true, role: true },
+    });
+    const stillStaff = memberships.some((membership) =>
+      hasMemberRole(membership.role, OrganizationMemberRole.Staff),
+    );
+    if (stillStaff) return;
+
+    const { count } = await this.prisma.user.updateMany({
+      where: { id: userId, role: Role.OrganizationOwner },
+      data: { role: Role.User },
+    });
+    if (count > 0) {
+      this.logger.log(
+        `User ${userId} demoted to ${Role.User} after losing staff memberships`,
+      );
+    }
+  }
+
+  private async findMember(organizationId: number, userId: number) {
+    const member = await this.prisma.organizationMember.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+
+    if (!member) {
+      throw new NotFoundException(
+        `${userId} ID'li kullanıcı bu organizasyonun üyesi değil`,
+      );
+    }
+
+    return member;
+  }
+
+  private async assertNotLastOwner(organizationId: number) {
+    const owners = await this.prisma.organizationMember.count({
+      where: { organizationId, role: OrganizationMemberRole.Owner },
+    });
+    if (owners <= 1) {
+      throw new BadRequestException(
+        'Organizasyonun son sahibi kaldırılamaz veya rolü düşürülemez',
+      );
+    }
+  }
+
+  // Sahipler her rolü, diğer üyeler yalnızca kendi rollerinin altındakileri verebilir
+  private assertCanGrant(
+    user: AbilityUser,
+    organizationId: number,
+    role: string,
+  ) {
+    if (user.role === Role.Admin) return;
+
+    const ownRole = user.memberships?.find(
+      (membership) => membership.organizationId === organizationId,
+    )?.role;
+    const allowed =
+      ownRole === OrganizationMemberRole.Owner ||
+      (!!ownRole && ownRole !== role && hasMemberRole(ownRole, role));
+
+    if (!allowed) {
+      throw new ForbiddenException(`${role} rolünü yönetme yetkiniz yok`);
+    }
+  }
+
+  private parseRole(role: string) {
+    if (!role || !isOrganizationMemberRole(role)) {
+      throw new BadRequestException(
+        `Geçersiz üyelik rolü. Geçerli roller: ${Object.values(
+          OrganizationMemberRole,
+        ).join(', ')}`,
+      );
+    }
+    return role;
+  }
+}
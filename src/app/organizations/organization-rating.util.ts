@@ -0,0 +1,22 @@
+import { PrismaService } from '../prisma/prisma.service';
+import { ModerationStatus } from '../moderation/moderation-content';
+
+// Organization.rating ve reviewCount yalnızca yayındaki değerlendirmelerden hesaplanır
+export async function refreshOrganizationRating(
+  prisma: PrismaService,
+  organizationId: number,
+) {
+  const where = {
+    organizationId,
+    moderationStatus: ModerationStatus.Published,
+  };
+  const [{ _avg }, reviewCount] = await Promise.all([
+    prisma.organizationReview.aggregate({ where, _avg: { rating: true } }),
+    prisma.organizationReview.count({ where }),
+  ]);
+
+  await prisma.organization.update({
+    where: { id: organizationId },
+    data: { rating: _avg.rating, reviewCount },
+  });
+}
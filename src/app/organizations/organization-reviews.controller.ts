@@ -0,0 +1,163 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RoleGuard } from '../auth/role.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../casl/action';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { OrganizationReviewsService } from './organization-reviews.service';
+import { CreateOrganizationReviewDto } from './dto/create-organization-review.dto';
+import { UpdateOrganizationReviewDto } from './dto/update-organization-review.dto';
+import { ReplyOrganizationReviewDto } from './dto/reply-organization-review.dto';
+import { OrganizationRatingDto } from './dto/organization-rating.dto';
+
+@ApiTags('organizations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('organizations')
+export class OrganizationReviewsController {
+  constructor(private readonly reviewsService: OrganizationReviewsService) {}
+
+  @Get(':id/reviews')
+  @ApiOperation({ summary: 'List reviews of an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiQuery({ name: 'rating', type: Number, required: false })
+  @ApiQuery({ name: 'page', type: Number, required: false })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @ApiResponse({
+    status: 200,
+    description: 'Değerlendirmeler ve sayfa bilgisi',
+  })
+  async findAll(
+    @Param('id', ParseIntPipe) id: number,
+    @Query('rating') rating?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.reviewsService.findAll(id, { rating, page, limit });
+  }
+
+  @Get(':id/reviews/summary')
+  @ApiOperation({ summary: 'Get average rating and rating distribution' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiResponse({ status: 200, description: 'Ortalama puan ve dağılım' })
+  async getSummary(@Param('id', ParseIntPipe) id: number) {
+    return this.reviewsService.getSummary(id);
+  }
+
+  @Post(':id/reviews')
+  @ApiOperation({ summary: 'Review an organization (one review per user)' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiBody({ type: CreateOrganizationReviewDto })
+  @ApiResponse({ status: 201, description: 'Değerlendirme oluşturuldu' })
+  @ApiResponse({ status: 409, description: 'Kullanıcı zaten değerlendirmiş' })
+  async create(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() createDto: CreateOrganizationReviewDto,
+  ) {
+    return this.reviewsService.create(id, req.user.id, createDto);
+  }
+
+  @Patch(':id/reviews/:reviewId')
+  @ApiOperation({ summary: 'Edit your own review' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'reviewId', description: 'Review ID' })
+  @ApiBody({ type: UpdateOrganizationReviewDto })
+  @ApiResponse({ status: 403, description: 'Değerlendirme size ait değil' })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('reviewId', ParseIntPipe) reviewId: number,
+    @Req() req: RequestWithUser,
+    @Body() updateDto: UpdateOrganizationReviewDto,
+  ) {
+    return this.reviewsService.update(id, reviewId, req.user.id, updateDto);
+  }
+
+  @Delete(':id/reviews/:reviewId')
+  @ApiOperation({ summary: 'Delete your own review (admins: any review)' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'reviewId', description: 'Review ID' })
+  @ApiResponse({ status: 403, description: 'Değerlendirme size ait değil' })
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('reviewId', ParseIntPipe) reviewId: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.reviewsService.remove(id, reviewId, req.user);
+  }
+
+  @Post(':id/reviews/:reviewId/reply')
+  @UseGuards(RoleGuard)
+  @Roles(Role.Admin, Role.OrganizationOwner)
+  @ApiOperation({ summary: 'Reply to a review as the organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'reviewId', description: 'Review ID' })
+  @ApiBody({ type: ReplyOrganizationReviewDto })
+  @ApiResponse({ status: 201, description: 'Yanıt kaydedildi' })
+  async reply(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('reviewId', ParseIntPipe) reviewId: number,
+    @Req() req: RequestWithUser,
+    @Body() replyDto: ReplyOrganizationReviewDto,
+  ) {
+    return this.reviewsService.reply(id, reviewId, req.user, replyDto);
+  }
+
+  @Post(':id/ratings')
+  @ApiOperation({
+    summary: 'Rate an organization and provide feedback',
+    deprecated: true,
+    description: 'POST /organizations/:id/reviews kullanın',
+  })
+  @ApiBody({ type: OrganizationRatingDto })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully rated the organization.',
+  })
+  async rateOrganization(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() organizationRatingDto: OrganizationRatingDto,
+  ) {
+    return this.reviewsService.upsert(id, req.user.id, {
+      rating: organizationRatingDto.rating,
+      content: organizationRatingDto.feedback,
+      anonymous: organizationRatingDto.anonymous,
+    });
+  }
+
+  @Get(':id/ratings')
+  @ApiOperation({
+    summary: 'Get ratings for an organization',
+    deprecated: true,
+    description: 'GET /organizations/:id/reviews/summary kullanın',
+  })
+  @ApiResponse({
+    status: 200,
+    description: 'Successfully retrieved organization ratings.',
+  })
+  async getOrganizationRatings(@Param('id', ParseIntPipe) id: number) {
+    return this.reviewsService.getSummary(id);
+  }
+}
@@ -0,0 +1,267 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { OrganizationReviewsService } from './organization-reviews.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { CaslAbilityFactory } from '../casl/casl-ability.factory';
+
+describe('OrganizationReviewsService', () => {
+  let service: OrganizationReviewsService;
+  let prismaService: PrismaService;
+  let moderationService: ModerationService;
+
+  const review = (overrides = {}) => ({
+    id: 11,
+    organizationId: 4,
+    userId: 3,
+    rating: 4,
+    content: 'Hızlı yardım',
+    anonymous: false,
+    user: { id: 3, name: 'Ayşe' },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationReviewsService,
+        CaslAbilityFactory,
+        {
+          provide: PrismaService,
+          useValue: {
+            organization: {
+              findUnique: jest
+                .fn()
+                .mockResolvedValue({ id: 4, name: 'Gıda Bankası' }),
+              update: jest.fn(),
+            },
+            organizationReview: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              count: jest.fn().mockResolvedValue(2),
+              create: jest.fn(),
+              update: jest.fn(),
+              aggregate: jest.fn().mockResolvedValue({
+                _avg: { rating: 4.5 },
+              }),
+              groupBy: jest.fn(),
+            },
+            aidRequest: {
+              findUnique: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: NotificationsService,
+          useValue: {
+            notifyAdmins: jest.fn(),
+          },
+        },
+        {
+          provide: ModerationService,
+          useValue: {
+            prescreen: jest
+              .fn()
+              .mockResolvedValue({ status: 'published', matches: [] }),
+            holdForReview: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationReviewsService>(
+      OrganizationReviewsService,
+    );
+    prismaService = module.get<PrismaService>(PrismaService);
+    moderationService = module.get<ModerationService>(ModerationService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should store the review and recompute the true average', async () => {
+      jest
+        .spyOn(prismaService.organizationReview, 'findUnique')
+        .mockResolvedValue(null);
+      jest
+        .spyOn(prismaService.organizationReview, 'create')
+        .mockResolvedValue(review({ rating: 5 }) as any);
+
+      const result = await service.create(4, 3, { rating: 5 });
+
+      expect(prismaService.organization.update).toHaveBeenCalledWith({
+        where: { id: 4 },
+        data: { rating: 4.5, reviewCount: 2 },
+      });
+      expect(result.author).toEqual({ id: 3, name: 'Ayşe' });
+    });
+
+    it('should hold reviews matching the blocklist for moderation', async () => {
+      jest
+        .spyOn(prismaService.organizationReview, 'findUnique')
+        .mockResolvedValue(null);
+      jest
+        .spyOn(prismaService.organizationReview, 'create')
+        .mockResolvedValue(
+          review({ id: 12, moderationStatus: 'pending_review' }) as any,
+        );
+      jest.spyOn(moderationService, 'prescreen').mockResolvedValue({
+        status: 'pending_review',
+        matches: ['dolandırıcı'],
+      } as any);
+
+      await service.create(4, 3, { rating: 1, content: 'Dolandırıcı!' });
+
+      expect(prismaService.organizationReview.create).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({ moderationStatus: 'pending_review' }),
+        }),
+      );
+      expect(moderationService.holdForReview).toHaveBeenCalledWith(
+        'review',
+        12,
+        ['dolandırıcı'],
+      );
+      expect(prismaService.organizationReview.aggregate).toHaveBeenCalledWith({
+        where: { organizationId: 4, moderationStatus: 'published' },
+        _avg: { rating: true },
+      });
+    });
+
+    it('should allow only one review per user', async () => {
+      jest
+        .spyOn(prismaService.organizationReview, 'findUnique')
+        .mockResolvedValue(review() as any);
+
+      await expect(service.create(4, 3, { rating: 5 })).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should reject ratings outside 1-5', async () => {
+      jest
+        .spyOn(prismaService.organizationReview, 'findUnique')
+        .mockResolvedValue(null);
+
+      await expect(service.create(4, 3, { rating: 6 })).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it("should reject linking another user's aid request", async () => {
+      jest
+        .spyOn(prismaService.organizationReview, 'findUnique')
+        .mockResolvedValue(null);
+      jest
+        .spyOn(prismaService.aidRequest, 'findUnique')
+        .mockResolvedValue({ userId: 9, organizationId: 4 } as any);
+
+      await expect(
+        service.create(4, 3, { rating: 5, aidRequestId: 20 }),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('update', () => {
+    it("should not edit another user's review", async () => {
+      jest
+        .spyOn(prismaService.organizationReview, 'findUnique')
+        .mockResolvedValue(review({ userId: 8 }) as any);
+
+      await expect(service.update(4, 11, 3, { rating: 2 })).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('reply', () => {
+    const manager = {
+      id: 5,
+      role: 'organization_owner',
+      memberships: [{ organizationId: 4, role: 'manager' }],
+    };
+
+    it('should store the reply of an organization manager', async () => {
+      jest
+        .spyOn(prismaService.organizationReview, 'findUnique')
+        .mockResolvedValue(review() as any);
+      jest
+        .spyOn(prismaService.organizationReview, 'update')
+        .mockResolvedValue(review({ reply: 'Teşekkürler' }) as any);
+
+      await service.reply(4, 11, manager as any, { reply: 'Teşekkürler' });
+
+      expect(prismaService.organizationReview.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 11 },
+          data: expect.objectContaining({
+            reply: 'Teşekkürler',
+            repliedById: 5,
+          }),
+        }),
+      );
+    });
+
+    it('should not let owners of other organizations reply', async () => {
+      const outsider = {
+        ...manager,
+        memberships: [{ organizationId: 7, role: 'owner' }],
+      };
+
+      await expect(
+        service.reply(4, 11, outsider as any, { reply: 'Teşekkürler' }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.organizationReview.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('findAll', () => {
+    it('should hide the author of anonymous reviews', async () => {
+      jest
+        .spyOn(prismaService.organizationReview, 'findMany')
+        .mockResolvedValue([review({ anonymous: true })] as any);
+      jest
+        .spyOn(prismaService.organizationReview, 'count')
+        .mockResolvedValue(1);
+
+      const result = await service.findAll(4, { page: 1, limit: 10 });
+
+      expect(result.data[0].author).toBeNull();
+      expect(result.data[0]).not.toHaveProperty('userId');
+      expect(result.meta).toEqual({
+        total: 1,
+        page: 1,
+        limit: 10,
+        totalPages: 1,
+      });
+    });
+  });
+
+  describe('getSummary', () => {
+    it('should return the average and rating distribution', async () => {
+      (prismaService.organizationReview.groupBy as jest.Mock).mockResolvedValue(
+        [
+          { rating: 5, _count: { _all: 3 } },
+          { rating: 2, _count: { _all: 1 } },
+        ],
+      );
+
+      const result = await service.getSummary(4);
+
+      expect(result).toEqual({
+        id: 4,
+        name: 'Gıda Bankası',
+        rating: 4.25,
+        reviewCount: 4,
+        distribution: { 1: 0, 2: 1, 3: 0, 4: 0, 5: 3 },
+      });
+    });
+  });
+});
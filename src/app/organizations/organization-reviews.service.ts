@@ -0,0 +1,378 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/notification-templates';
+import { Action, Role } from '../casl/action';
+import { AbilityUser, CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { ModerationService } from '../moderation/moderation.service';
+import {
+  ModeratedContentType,
+  ModerationStatus,
+} from '../moderation/moderation-content';
+import { refreshOrganizationRating } from './organization-rating.util';
+import { CreateOrganizationReviewDto } from './dto/create-organization-review.dto';
+import { UpdateOrganizationReviewDto } from './dto/update-organization-review.dto';
+import { ReplyOrganizationReviewDto } from './dto/reply-organization-review.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_TEXT_LENGTH = 2000;
+
+const REVIEW_INCLUDE = {
+  user: { select: { id: true, name: true } },
+} satisfies Prisma.OrganizationReviewInclude;
+
+type ReviewWithUser = Prisma.OrganizationReviewGetPayload<{
+  include: typeof REVIEW_INCLUDE;
+}>;
+
+/**
+ * Organizasyon değerlendirmeleri. Her kullanıcı bir organizasyon için tek
+ * değerlendirme yapar; Organization.rating ve reviewCount her değişiklikte
+ * yayındaki değerlendirmelerden yeniden hesaplanır. Metinler moderasyon ön
+ * filtresinden geçer, takılanlar onaylanana kadar listelenmez.
+ */
+@Injectable()
+export class OrganizationReviewsService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly notificationsService: NotificationsService,
+    private readonly moderationService: ModerationService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+  ) {}
+
+  async create(
+    organizationId: number,
+    userId: number,
+    createDto: CreateOrganizationReviewDto,
+  ) {
+    const organization = await this.findOrganization(organizationId);
+
+    const existing = await this.prisma.organizationReview.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+    if (existing) {
+      throw new ConflictException(
+        'Bu organizasyonu zaten değerlendirdiniz, mevcut değerlendirmenizi düzenleyebilirsiniz',
+      );
+    }
+
+    await this.validateReview(organizationId, userId, createDto, true);
+
+    const content = createDto.content?.trim() || null;
+    const screening = await this.moderationService.prescreen(content);
+
+    const review = await this.prisma.organizationReview.create({
+      data: {
+        organizationId,
+        userId,
+        rating: Number(createDto.rating),
+        content,
+        anonymous: Boolean(createDto.anonymous),
+        aidRequestId: createDto.aidRequestId ?? null,
+        moderationStatus: screening.status,
+      },
+      include: REVIEW_INCLUDE,
+    });
+
+    await this.moderationService.holdForReview(
+      ModeratedContentType.Review,
+      review.id,
+      screening.matches,
+    );
+    await refreshOrganizationRating(this.prisma, organizationId);
+    await this.notificationsService.notifyAdmins(
+      NotificationType.OrganizationRated,
+      {
+        organizationName: organization.name,
+        anonymous: review.anonymous ? ' anonim olarak' : '',
+        rating: review.rating,
+        feedback: review.content ?? '',
+      },
+      { organizationId, reviewId: review.id },
+    );
+
+    return this.toPublicReview(review);
+  }
+
+  async update(
+    organizationId: number,
+    reviewId: number,
+    userId: number,
+    updateDto: UpdateOrganizationReviewDto,
+  ) {
+    const review = await this.findReview(organizationId, reviewId);
+    if (review.userId !== userId) {
+      throw new ForbiddenException(
+        'Yalnızca kendi değerlendirmenizi düzenleyebilirsiniz',
+      );
+    }
+
+    await this.validateReview(organizationId, userId, updateDto, false);
+
+    // Metni değişen değerlendirme ön filtreden yeniden geçer
+    const contentChanged = updateDto.content !== undefined;
+    const content = updateDto.content?.trim() || null;
+    const screening = contentChanged
+      ? await this.moderationService.prescreen(content)
+      : null;
+    if (
+      screening &&
+      review.moderationStatus === ModerationStatus.Hidden &&
+      screening.status === ModerationStatus.Published
+    ) {
+      // Gizlenen değerlendirme düzenlenerek yeniden yayınlanamaz
+      screening.status = ModerationStatus.PendingReview;
+    }
+
+    const updated = await this.prisma.organizationReview.update({
+      where: { id: reviewId },
+      data: {
+        ...(updateDto.rating !== undefined && {
+          rating: Number(updateDto.rating),
+        }),
+        ...(screening && {
+          content,
+          moderationStatus: screening.status,
+        }),
+        ...(updateDto.anonymous !== undefined && {
+          anonymous: Boolean(updateDto.anonymous),
+        }),
+        ...(updateDto.aidRequestId !== undefined && {
+          aidRequestId: updateDto.aidRequestId,
+        }),
+      },
+      include: REVIEW_INCLUDE,
+    });
+
+    if (screening) {
+      await this.moderationService.holdForReview(
+        ModeratedContentType.Review,
+        reviewId,
+        screening.matches,
+      );
+    }
+    if (updateDto.rating !== undefined || contentChanged) {
+      await refreshOrganizationRating(this.prisma, organizationId);
+    }
+
+    return this.toPublicReview(updated);
+  }
+
+  // Eski POST /organizations/:id/ratings uç noktası için: varsa düzenler
+  async upsert(
+    organizationId: number,
+    userId: number,
+    createDto: CreateOrganizationReviewDto,
+  ) {
+    const existing = await this.prisma.organizationReview.findUnique({
+      where: { organizationId_userId: { organizationId, userId } },
+    });
+
+    return existing
+      ? this.update(organizationId, existing.id, userId, createDto)
+      : this.create(organizationId, userId, createDto);
+  }
+
+  async remove(
+    organizationId: number,
+    reviewId: number,
+    user: { id: number; role: string },
+  ) {
+    const review = await this.findReview(organizationId, reviewId);
+    if (review.userId !== user.id && user.role !== Role.Admin) {
+      throw new ForbiddenException(
+        'Yalnızca kendi değerlendirmenizi silebilirsiniz',
+      );
+    }
+
+    await this.prisma.organizationReview.delete({ where: { id: reviewId } });
+    await refreshOrganizationRating(this.prisma, organizationId);
+
+    return { message: 'Değerlendirme silindi' };
+  }
+
+  async reply(
+    organizationId: number,
+    reviewId: number,
+    user: AbilityUser,
+    replyDto: ReplyOrganizationReviewDto,
+  ) {
+    // Organizasyon adına yalnızca yöneticileri (veya admin) yanıt verebilir
+    this.caslAbilityFactory.assertCan(user, Action.Update, 'Organization', {
+      id: organizationId,
+    });
+
+    const reply = replyDto.reply?.trim();
+    if (!reply) {
+      throw new BadRequestException('Yanıt metni boş olamaz');
+    }
+    if (reply.length > MAX_TEXT_LENGTH) {
+      throw new BadRequestException(
+        `Yanıt en fazla ${MAX_TEXT_LENGTH} karakter olabilir`,
+      );
+    }
+
+    await this.findReview(organizationId, reviewId);
+
+    const updated = await this.prisma.organizationReview.update({
+      where: { id: reviewId },
+      data: { reply, repliedAt: new Date(), repliedById: user.id },
+      include: REVIEW_INCLUDE,
+    });
+
+    return this.toPublicReview(updated);
+  }
+
+  async findAll(
+    organizationId: number,
+    query: { rating?: unknown; page?: unknown; limit?: unknown } = {},
+  ) {
+    await this.findOrganization(organizationId);
+
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE),
+    );
+    const where: Prisma.OrganizationReviewWhereInput = {
+      organizationId,
+      moderationStatus: ModerationStatus.Published,
+      ...(query.rating !== undefined && {
+        rating: this.parseRating(query.rating),
+      }),
+    };
+
+    const [reviews, total] = await Promise.all([
+      this.prisma.organizationReview.findMany({
+        where,
+        include: REVIEW_INCLUDE,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.organizationReview.count({ where }),
+    ]);
+
+    return {
+      data: reviews.map((review) => this.toPublicReview(review)),
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async getSummary(organizationId: number) {
+    const organization = await this.findOrganization(organizationId);
+
+    const groups = await this.prisma.organizationReview.groupBy({
+      by: ['rating'],
+      where: { organizationId, moderationStatus: ModerationStatus.Published },
+      _count: { _all: true },
+    });
+
+    const distribution = Object.fromEntries(
+      [1, 2, 3, 4, 5].map((rating) => [
+        rating,
+        groups.find((group) => group.rating === rating)?._count._all ?? 0,
+      ]),
+    );
+    const reviewCount = groups.reduce(
+      (sum, group) => sum + group._count._all,
+      0,
+    );
+    const total = groups.reduce(
+      (sum, group) => sum + group.rating * group._count._all,
+      0,
+    );
+
+    return {
+      id: organization.id,
+      name: organization.name,
+      rating: reviewCount ? Math.round((total / reviewCount) * 100) / 100 : 0,
+      reviewCount,
+      distribution,
+    };
+  }
+
+  private async validateReview(
+    organizationId: number,
+    userId: number,
+    dto: UpdateOrganizationReviewDto,
+    requireRating: boolean,
+  ) {
+    if (requireRating || dto.rating !== undefined) {
+      this.parseRating(dto.rating);
+    }
+    if (dto.content && dto.content.length > MAX_TEXT_LENGTH) {
+      throw new BadRequestException(
+        `Değerlendirme metni en fazla ${MAX_TEXT_LENGTH} karakter olabilir`,
+      );
+    }
+
+    if (dto.aidRequestId !== undefined && dto.aidRequestId !== null) {
+      const aidRequest = await this.prisma.aidRequest.findUnique({
+        where: { id: Number(dto.aidRequestId) },
+        select: { userId: true, organizationId: true },
+      });
+      if (
+        !aidRequest ||
+        aidRequest.userId !== userId ||
+        aidRequest.organizationId !== organizationId
+      ) {
+        throw new BadRequestException(
+          'Değerlendirme yalnızca bu organizasyonun size ait yardım talepleriyle ilişkilendirilebilir',
+        );
+      }
+    }
+  }
+
+  private parseRating(value: unknown) {
+    const rating = Number(value);
+    if (!Number.isInteger(rating) || rating < 1 || rating > 5) {
+      throw new BadRequestException('Değerlendirme 1 ile 5 arasında olmalıdır');
+    }
+    return rating;
+  }
+
+  private async findOrganization(organizationId: number) {
+    const organization = await this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: { id: true, name: true },
+    });
+
+    if (!organization) {
+      throw new NotFoundException(
+        `${organizationId} ID'li organizasyon bulunamadı`,
+      );
+    }
+
+    return organization;
+  }
+
+  private async findReview(organizationId: number, reviewId: number) {
+    const review = await this.prisma.organizationReview.findUnique({
+      where: { id: reviewId },
+    });
+
+    if (!review || review.organizationId !== organizationId) {
+      throw new NotFoundException(`${reviewId} ID'li değerlendirme bulunamadı`);
+    }
+
+    return review;
+  }
+
+  // Anonim değerlendirmelerde yazar bilgisi gizlenir
+  private toPublicReview(review: ReviewWithUser) {
+    const { user, userId, ...rest } = review; // eslint-disable-line @typescript-eslint/no-unused-vars
+    return {
+      ...rest,
+      author: review.anonymous ? null : user,
+    };
+  }
+}
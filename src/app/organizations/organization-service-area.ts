@@ -0,0 +1,17 @@
+export enum ServiceAreaKind {
+  Radius = 'radius',
+  Polygon = 'polygon',
+}
+
+// Çalışma saatlerinde kullanılan gün anahtarları
+export const WEEKDAYS = ['mon', 'tue', 'wed', 'thu', 'fri', 'sat', 'sun'];
+
+// "09:00-18:00" biçiminde saat aralığı
+export const OPENING_HOURS_PATTERN =
+  /^([01]\d|2[0-3]):[0-5]\d-([01]\d|2[0-3]):[0-5]\d$/;
+
+export const MAX_SERVICE_AREA_RADIUS_KM = 500;
+
+export function normalizeAidType(aidType: string) {
+  return (aidType ?? '').trim().toLocaleLowerCase('tr');
+}
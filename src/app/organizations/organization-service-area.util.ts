@@ -0,0 +1,72 @@
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { geoPoint } from '../prisma/geo-query.util';
+import { ServiceAreaKind, normalizeAidType } from './organization-service-area';
+
+export interface ServedLocation {
+  latitude: number;
+  longitude: number;
+  aidType?: string | null;
+}
+
+/**
+ * Yarıçaplı bölgeler organizasyon adresinden, çizilmiş bölgeler kendi
+ * geometrisinden ölçülür. Yardım türü listesi boş olan bölgeler tüm türleri
+ * karşılar. Sorguda `s` hizmet bölgesi, `a` adres tablosudur.
+ */
+function servesLocationSql(location: ServedLocation): Prisma.Sql {
+  const point = geoPoint(location.latitude, location.longitude);
+  const aidType = location.aidType ? normalizeAidType(location.aidType) : null;
+
+  return Prisma.sql`(
+    (s."kind" = ${ServiceAreaKind.Radius}
+      AND ST_DWithin(a."geom", ${point}, s."radiusKm" * 1000))
+    OR (s."kind" = ${ServiceAreaKind.Polygon} AND ST_Covers(s."geom", ${point}))
+  )${aidType ? Prisma.sql` AND (cardinality(s."aidTypes") = 0 OR ${aidType} = ANY(s."aidTypes"))` : Prisma.empty}`;
+}
+
+// Konuma (ve verilirse yardım türüne) hizmet veren organizasyonlar
+export async function findServingOrganizationIds(
+  prisma: PrismaService,
+  location: ServedLocation,
+) {
+  const rows = await prisma.$queryRaw<{ organizationId: number }[]>`
+    SELECT DISTINCT s."organizationId"
+    FROM "OrganizationServiceArea" s
+    JOIN "Organization" o ON o."id" = s."organizationId"
+    JOIN "Address" a ON a."id" = o."addressId"
+    WHERE ${servesLocationSql(location)}
+  `;
+
+  return rows.map((row) => row.organizationId);
+}
+
+/**
+ * Organizasyonun konuma hizmet verip vermediği. Hiç bölge tanımlamamış
+ * organizasyonlar için `declared` false döner.
+ */
+export async function checkOrganizationServesLocation(
+  prisma: PrismaService,
+  organizationId: number,
+  location: ServedLocation,
+) {
+  const declared = await prisma.organizationServiceArea.count({
+    where: { organizationId },
+  });
+  if (declared === 0) {
+    return { declared: false, serves: false };
+  }
+
+  const [row] = await prisma.$queryRaw<{ serves: boolean }[]>`
+    SELECT EXISTS (
+      SELECT 1
+      FROM "OrganizationServiceArea" s
+      JOIN "Organization" o ON o."id" = s."organizationId"
+      JOIN "Address" a ON a."id" = o."addressId"
+      WHERE s."organizationId" = ${organizationId}
+        AND ${servesLocationSql(location)}
+    ) AS "serves"
+  `;
+
+  return { declared: true, serves: Boolean(row?.serves) };
+}
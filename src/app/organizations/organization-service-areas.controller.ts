@@ -0,0 +1,90 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { OrganizationServiceAreasService } from './organization-service-areas.service';
+import { CreateOrganizationServiceAreaDto } from './dto/create-organization-service-area.dto';
+import { UpdateOrganizationServiceAreaDto } from './dto/update-organization-service-area.dto';
+
+@ApiTags('organization-service-areas')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard)
+@Controller('organizations')
+export class OrganizationServiceAreasController {
+  constructor(
+    private readonly serviceAreasService: OrganizationServiceAreasService,
+  ) {}
+
+  @Get(':id/service-areas')
+  @ApiOperation({ summary: 'List service areas of an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  async findAll(@Param('id', ParseIntPipe) id: number) {
+    return this.serviceAreasService.findAll(id);
+  }
+
+  @Get(':id/service-areas/:areaId')
+  @ApiOperation({ summary: 'Get a service area' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'areaId', description: 'Service area ID' })
+  async findOne(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('areaId', ParseIntPipe) areaId: number,
+  ) {
+    return this.serviceAreasService.findOne(id, areaId);
+  }
+
+  @Post(':id/service-areas')
+  @ApiOperation({ summary: 'Declare a service area' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiBody({ type: CreateOrganizationServiceAreaDto })
+  async create(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() createDto: CreateOrganizationServiceAreaDto,
+  ) {
+    return this.serviceAreasService.create(id, req.user, createDto);
+  }
+
+  @Patch(':id/service-areas/:areaId')
+  @ApiOperation({ summary: 'Update a service area' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'areaId', description: 'Service area ID' })
+  @ApiBody({ type: UpdateOrganizationServiceAreaDto })
+  async update(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('areaId', ParseIntPipe) areaId: number,
+    @Req() req: RequestWithUser,
+    @Body() updateDto: UpdateOrganizationServiceAreaDto,
+  ) {
+    return this.serviceAreasService.update(id, areaId, req.user, updateDto);
+  }
+
+  @Delete(':id/service-areas/:areaId')
+  @ApiOperation({ summary: 'Delete a service area' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiParam({ name: 'areaId', description: 'Service area ID' })
+  async remove(
+    @Param('id', ParseIntPipe) id: number,
+    @Param('areaId', ParseIntPipe) areaId: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.serviceAreasService.remove(id, areaId, req.user);
+  }
+}
@@ -0,0 +1,190 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { OrganizationServiceAreasService } from './organization-service-areas.service';
+import { OrganizationService } from './organizations.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { ServiceAreaKind } from './organization-service-area';
+
+describe('OrganizationServiceAreasService', () => {
+  let service: OrganizationServiceAreasService;
+  let prismaService: PrismaService;
+
+  const manager = {
+    id: 7,
+    role: 'organization_owner',
+    memberships: [{ organizationId: 4, role: 'manager' }],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationServiceAreasService,
+        CaslAbilityFactory,
+        {
+          provide: PrismaService,
+          useValue: {
+            organizationServiceArea: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              create: jest.fn().mockResolvedValue({ id: 1 }),
+              update: jest.fn(),
+              delete: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: OrganizationService,
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({ id: 4 }),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationServiceAreasService>(
+      OrganizationServiceAreasService,
+    );
+    prismaService = module.get<PrismaService>(PrismaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('create', () => {
+    it('should store a radius area with normalized aid types', async () => {
+      await service.create(4, manager, {
+        name: ' Kadıköy ',
+        kind: ServiceAreaKind.Radius,
+        radiusKm: 15,
+        aidTypes: [' GIDA ', 'gıda', 'Barınma'],
+        openingHours: { mon: ['09:00-18:00'], sat: ['10:00-14:00'] },
+        dailyCapacity: 40,
+      });
+
+      expect(prismaService.organizationServiceArea.create).toHaveBeenCalledWith(
+        {
+          data: {
+            organizationId: 4,
+            name: 'Kadıköy',
+            kind: 'radius',
+            radiusKm: 15,
+            polygon: Prisma.DbNull,
+            aidTypes: ['gıda', 'barınma'],
+            openingHours: { mon: ['09:00-18:00'], sat: ['10:00-14:00'] },
+            dailyCapacity: 40,
+          },
+        },
+      );
+    });
+
+    it('should store drawn areas as a closed GeoJSON polygon', async () => {
+      await service.create(4, manager, {
+        name: 'Merkez',
+        kind: ServiceAreaKind.Polygon,
+        polygon: [
+          [29, 41],
+          [29.1, 41],
+          [29.1, 41.1],
+        ],
+      });
+
+      const { data } = (
+        prismaService.organizationServiceArea.create as jest.Mock
+      ).mock.calls[0][0];
+      expect(data.radiusKm).toBeNull();
+      expect(data.polygon).toEqual({
+        type: 'Polygon',
+        coordinates: [
+          [
+            [29, 41],
+            [29.1, 41],
+            [29.1, 41.1],
+            [29, 41],
+          ],
+        ],
+      });
+    });
+
+    it('should reject invalid opening hours', async () => {
+      await expect(
+        service.create(4, manager, {
+          name: 'Kadıköy',
+          kind: ServiceAreaKind.Radius,
+          radiusKm: 5,
+          openingHours: { monday: ['18:00-09:00'] },
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should require a radius for radius areas', async () => {
+      await expect(
+        service.create(4, manager, {
+          name: 'Kadıköy',
+          kind: ServiceAreaKind.Radius,
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should not let members of other organizations declare areas', async () => {
+      await expect(
+        service.create(5, manager, {
+          name: 'Kadıköy',
+          kind: ServiceAreaKind.Radius,
+          radiusKm: 5,
+        }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(
+        prismaService.organizationServiceArea.create,
+      ).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('update', () => {
+    it('should keep the stored fields that are not sent', async () => {
+      jest
+        .spyOn(prismaService.organizationServiceArea, 'findUnique')
+        .mockResolvedValue({
+          id: 1,
+          organizationId: 4,
+          name: 'Kadıköy',
+          kind: 'radius',
+          radiusKm: 10,
+          polygon: null,
+          aidTypes: ['gıda'],
+          openingHours: null,
+          dailyCapacity: 20,
+        } as any);
+
+      await service.update(4, 1, manager, { dailyCapacity: 35 });
+
+      expect(prismaService.organizationServiceArea.update).toHaveBeenCalledWith(
+        {
+          where: { id: 1 },
+          data: expect.objectContaining({
+            name: 'Kadıköy',
+            radiusKm: 10,
+            aidTypes: ['gıda'],
+            dailyCapacity: 35,
+          }),
+        },
+      );
+    });
+
+    it('should not update areas of another organization', async () => {
+      jest
+        .spyOn(prismaService.organizationServiceArea, 'findUnique')
+        .mockResolvedValue({ id: 1, organizationId: 5 } as any);
+
+      await expect(
+        service.update(4, 1, manager, { dailyCapacity: 35 }),
+      ).rejects.toThrow(NotFoundException);
+    });
+  });
+});
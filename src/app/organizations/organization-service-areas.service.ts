@@ -0,0 +1,233 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { parseGeoPolygon } from '../prisma/geo-query.util';
+import { Action } from '../casl/action';
+import { AbilityUser, CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { OrganizationService } from './organizations.service';
+import {
+  MAX_SERVICE_AREA_RADIUS_KM,
+  OPENING_HOURS_PATTERN,
+  ServiceAreaKind,
+  WEEKDAYS,
+  normalizeAidType,
+} from './organization-service-area';
+import { CreateOrganizationServiceAreaDto } from './dto/create-organization-service-area.dto';
+import { UpdateOrganizationServiceAreaDto } from './dto/update-organization-service-area.dto';
+
+const MAX_NAME_LENGTH = 100;
+const MAX_AID_TYPE_COUNT = 50;
+
+/**
+ * Organizasyonların hizmet verdiği bölgeler. Bir bölge ya organizasyon
+ * adresinin çevresindeki yarıçap ya da haritada çizilmiş bir çokgendir;
+ * karşılanan yardım türleri, çalışma saatleri ve günlük kapasite bölge
+ * bazında tutulur.
+ */
+@Injectable()
+export class OrganizationServiceAreasService {
+  private readonly logger = new Logger(OrganizationServiceAreasService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly organizationService: OrganizationService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+  ) {}
+
+  async findAll(organizationId: number) {
+    await this.organizationService.findOne(organizationId);
+
+    return this.prisma.organizationServiceArea.findMany({
+      where: { organizationId },
+      orderBy: { createdAt: 'asc' },
+    });
+  }
+
+  async findOne(organizationId: number, areaId: number) {
+    const area = await this.prisma.organizationServiceArea.findUnique({
+      where: { id: areaId },
+    });
+
+    if (!area || area.organizationId !== organizationId) {
+      throw new NotFoundException(`${areaId} ID'li hizmet bölgesi bulunamadı`);
+    }
+
+    return area;
+  }
+
+  async create(
+    organizationId: number,
+    user: AbilityUser,
+    createDto: CreateOrganizationServiceAreaDto,
+  ) {
+    await this.organizationService.findOne(organizationId);
+    this.assertCanManage(user, organizationId);
+
+    const area = await this.prisma.organizationServiceArea.create({
+      data: { organizationId, ...this.validateArea(createDto) },
+    });
+    this.logger.log(
+      `Service area ${area.id} added to organization ${organizationId}`,
+    );
+
+    return area;
+  }
+
+  // Gönderilmeyen alanlar mevcut değerleriyle birlikte yeniden doğrulanır
+  async update(
+    organizationId: number,
+    areaId: number,
+    user: AbilityUser,
+    updateDto: UpdateOrganizationServiceAreaDto,
+  ) {
+    const area = await this.findOne(organizationId, areaId);
+    this.assertCanManage(user, organizationId);
+
+    const polygon = area.polygon as { coordinates?: [number, number][][] };
+    const data = this.validateArea({
+      name: area.name,
+      kind: area.kind as ServiceAreaKind,
+      radiusKm: area.radiusKm,
+      polygon: polygon?.coordinates?.[0],
+      aidTypes: area.aidTypes,
+      openingHours: area.openingHours as Record<string, string[]>,
+      dailyCapacity: area.dailyCapacity,
+      ...updateDto,
+    });
+
+    return this.prisma.organizationServiceArea.update({
+      where: { id: areaId },
+      data,
+    });
+  }
+
+  async remove(organizationId: number, areaId: number, user: AbilityUser) {
+    await this.findOne(organizationId, areaId);
+    this.assertCanManage(user, organizationId);
+
+    await this.prisma.organizationServiceArea.delete({ where: { id: areaId } });
+    return { message: 'Hizmet bölgesi silindi' };
+  }
+
+  private assertCanManage(user: AbilityUser, organizationId: number) {
+    this.caslAbilityFactory.assertCan(user, Action.Update, 'Organization', {
+      id: organizationId,
+    });
+  }
+
+  private validateArea(areaDto: CreateOrganizationServiceAreaDto) {
+    const name = areaDto?.name?.trim();
+    if (!name || name.length > MAX_NAME_LENGTH) {
+      throw new BadRequestException(
+        `Bölge adı 1-${MAX_NAME_LENGTH} karakter olmalıdır`,
+      );
+    }
+
+    const kinds: string[] = Object.values(ServiceAreaKind);
+    if (!kinds.includes(areaDto.kind)) {
+      throw new BadRequestException(
+        `Geçersiz bölge türü. Geçerli türler: ${kinds.join(', ')}`,
+      );
+    }
+
+    let radiusKm: number | null = null;
+    let polygon: Prisma.InputJsonValue | typeof Prisma.DbNull = Prisma.DbNull;
+    if (areaDto.kind === ServiceAreaKind.Radius) {
+      radiusKm = Number(areaDto.radiusKm);
+      if (
+        !Number.isFinite(radiusKm) ||
+        radiusKm <= 0 ||
+        radiusKm > MAX_SERVICE_AREA_RADIUS_KM
+      ) {
+        throw new BadRequestException(
+          `Yarıçap 0 ile ${MAX_SERVICE_AREA_RADIUS_KM} km arasında olmalıdır`,
+        );
+      }
+    } else {
+      const ring = parseGeoPolygon(areaDto.polygon);
+      if (!ring) {
+        throw new BadRequestException(
+          'Çokgen bölgeler için köşe noktaları belirtilmelidir',
+        );
+      }
+      polygon = { type: 'Polygon', coordinates: [ring] };
+    }
+
+    return {
+      name,
+      kind: areaDto.kind,
+      radiusKm,
+      polygon,
+      aidTypes: this.parseAidTypes(areaDto.aidTypes),
+      openingHours: this.parseOpeningHours(areaDto.openingHours),
+      dailyCapacity: this.parseDailyCapacity(areaDto.dailyCapacity),
+    };
+  }
+
+  private parseAidTypes(aidTypes: unknown) {
+    if (aidTypes === undefined || aidTypes === null) {
+      return [];
+    }
+    if (
+      !Array.isArray(aidTypes) ||
+      aidTypes.length > MAX_AID_TYPE_COUNT ||
+      !aidTypes.every((aidType) => typeof aidType === 'string')
+    ) {
+      throw new BadRequestException(
+        `Yardım türleri en fazla ${MAX_AID_TYPE_COUNT} metinden oluşan bir liste olmalıdır`,
+      );
+    }
+
+    return [...new Set(aidTypes.map(normalizeAidType).filter(Boolean))];
+  }
+
+  private parseOpeningHours(
+    openingHours: unknown,
+  ): Prisma.InputJsonValue | typeof Prisma.DbNull {
+    if (openingHours === undefined || openingHours === null) {
+      return Prisma.DbNull;
+    }
+
+    const valid =
+      typeof openingHours === 'object' &&
+      !Array.isArray(openingHours) &&
+      Object.entries(openingHours).every(
+        ([day, ranges]) =>
+          WEEKDAYS.includes(day) &&
+          Array.isArray(ranges) &&
+          ranges.every(
+            (range) =>
+              typeof range === 'string' &&
+              OPENING_HOURS_PATTERN.test(range) &&
+              range.slice(0, 5) < range.slice(6),
+          ),
+      );
+    if (!valid) {
+      throw new BadRequestException(
+        `Çalışma saatleri {"mon": ["09:00-18:00"]} biçiminde olmalıdır. Geçerli günler: ${WEEKDAYS.join(', ')}`,
+      );
+    }
+
+    return openingHours as Prisma.InputJsonObject;
+  }
+
+  private parseDailyCapacity(dailyCapacity: unknown) {
+    if (dailyCapacity === undefined || dailyCapacity === null) {
+      return null;
+    }
+
+    const capacity = Number(dailyCapacity);
+    if (!Number.isInteger(capacity) || capacity < 0) {
+      throw new BadRequestException(
+        'Günlük kapasite sıfır veya pozitif bir tam sayı olmalıdır',
+      );
+    }
+
+    return capacity;
+  }
+}
@@ -0,0 +1,72 @@
+import {
+  Body,
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RoleGuard } from '../auth/role.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../casl/action';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+import { OrganizationVerificationService } from './organization-verification.service';
+import { RejectOrganizationVerificationDto } from './dto/reject-organization-verification.dto';
+
+@ApiTags('admin-organizations')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RoleGuard)
+@Roles(Role.Admin)
+@Controller('admin/organizations')
+export class OrganizationVerificationController {
+  constructor(
+    private readonly verificationService: OrganizationVerificationService,
+  ) {}
+
+  @Get('pending')
+  @ApiOperation({ summary: 'List organizations waiting for verification' })
+  @ApiQuery({ name: 'page', type: Number, required: false })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @ApiResponse({ status: 200, description: 'İnceleme bekleyen başvurular' })
+  async findPending(
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.verificationService.findPending({ page, limit });
+  }
+
+  @Post(':id/approve')
+  @ApiOperation({ summary: 'Approve the verification of an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  async approve(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.verificationService.approve(id, req.user.id);
+  }
+
+  @Post(':id/reject')
+  @ApiOperation({ summary: 'Reject the verification of an organization' })
+  @ApiParam({ name: 'id', description: 'Organization ID' })
+  @ApiBody({ type: RejectOrganizationVerificationDto })
+  async reject(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Body() rejectDto: RejectOrganizationVerificationDto,
+  ) {
+    return this.verificationService.reject(id, req.user.id, rejectDto.reason);
+  }
+}
@@ -0,0 +1,185 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+} from '@nestjs/common';
+import { OrganizationVerificationService } from './organization-verification.service';
+import { OrganizationService } from './organizations.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { OrganizationDocumentType } from './organization-verification';
+
+describe('OrganizationVerificationService', () => {
+  let service: OrganizationVerificationService;
+  let prismaService: PrismaService;
+  let organizationService: OrganizationService;
+  let notificationsService: NotificationsService;
+
+  const owner = {
+    id: 7,
+    role: 'organization_owner',
+    memberships: [{ organizationId: 4, role: 'owner' }],
+  };
+
+  const submission = {
+    taxNumber: '1234567890',
+    charityRegistrationNo: ' 34-123-456 ',
+    documents: [
+      {
+        type: OrganizationDocumentType.TaxCertificate,
+        name: 'Vergi levhası',
+        url: 'https://files.example.com/vergi.pdf',
+      },
+      {
+        type: OrganizationDocumentType.CharityRegistration,
+        name: 'Dernek kütük kaydı',
+        url: 'https://files.example.com/kutuk.pdf',
+      },
+    ],
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OrganizationVerificationService,
+        CaslAbilityFactory,
+        {
+          provide: PrismaService,
+          useValue: {
+            organization: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              count: jest.fn(),
+              update: jest.fn(),
+            },
+            organizationDocument: {
+              deleteMany: jest.fn(),
+            },
+            organizationMember: {
+              findMany: jest.fn().mockResolvedValue([{ userId: 7 }]),
+            },
+            $transaction: jest.fn((operations) => Promise.all(operations)),
+          },
+        },
+        {
+          provide: OrganizationService,
+          useValue: {
+            findOne: jest.fn().mockResolvedValue({
+              id: 4,
+              name: 'Gıda Bankası',
+              verificationStatus: 'unverified',
+            }),
+          },
+        },
+        {
+          provide: NotificationsService,
+          useValue: {
+            notify: jest.fn(),
+            notifyAdmins: jest.fn(),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<OrganizationVerificationService>(
+      OrganizationVerificationService,
+    );
+    prismaService = module.get<PrismaService>(PrismaService);
+    organizationService = module.get<OrganizationService>(OrganizationService);
+    notificationsService =
+      module.get<NotificationsService>(NotificationsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('submit', () => {
+    it('should store the documents and queue the organization for review', async () => {
+      await service.submit(4, owner, submission);
+
+      expect(
+        prismaService.organizationDocument.deleteMany,
+      ).toHaveBeenCalledWith({ where: { organizationId: 4 } });
+      expect(prismaService.organization.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { id: 4 },
+          data: expect.objectContaining({
+            taxNumber: '1234567890',
+            charityRegistrationNo: '34-123-456',
+            verificationStatus: 'pending',
+            documents: { create: submission.documents },
+          }),
+        }),
+      );
+      expect(notificationsService.notifyAdmins).toHaveBeenCalled();
+    });
+
+    it('should require both registration documents', async () => {
+      await expect(
+        service.submit(4, owner, {
+          ...submission,
+          documents: [submission.documents[0]],
+        }),
+      ).rejects.toThrow(BadRequestException);
+    });
+
+    it('should reject a second submission while one is under review', async () => {
+      jest.spyOn(organizationService, 'findOne').mockResolvedValue({
+        id: 4,
+        verificationStatus: 'pending',
+      } as any);
+
+      await expect(service.submit(4, owner, submission)).rejects.toThrow(
+        ConflictException,
+      );
+    });
+
+    it('should only let owners and managers submit', async () => {
+      await expect(
+        service.submit(
+          4,
+          { ...owner, memberships: [{ organizationId: 4, role: 'staff' }] },
+          submission,
+        ),
+      ).rejects.toThrow(ForbiddenException);
+    });
+  });
+
+  describe('reject', () => {
+    it('should store the reason and notify the owners', async () => {
+      jest.spyOn(organizationService, 'findOne').mockResolvedValue({
+        id: 4,
+        name: 'Gıda Bankası',
+        verificationStatus: 'pending',
+      } as any);
+
+      await service.reject(4, 1, ' Vergi levhası okunmuyor ');
+
+      expect(prismaService.organization.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: {
+            verificationStatus: 'rejected',
+            verifiedAt: null,
+            verificationNote: 'Vergi levhası okunmuyor',
+          },
+        }),
+      );
+      expect(notificationsService.notify).toHaveBeenCalledWith(
+        [7],
+        'organization.verification-rejected',
+        { organizationName: 'Gıda Bankası', reason: 'Vergi levhası okunmuyor' },
+        { organizationId: 4 },
+      );
+    });
+  });
+
+  describe('approve', () => {
+    it('should only approve pending organizations', async () => {
+      await expect(service.approve(4, 1)).rejects.toThrow(BadRequestException);
+      expect(prismaService.organization.update).not.toHaveBeenCalled();
+    });
+  });
+});
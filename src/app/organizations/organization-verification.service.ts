@@ -0,0 +1,307 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  Logger,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { NotificationsService } from '../notifications/notifications.service';
+import { NotificationType } from '../notifications/notification-templates';
+import { Action } from '../casl/action';
+import { AbilityUser, CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { OrganizationService } from './organizations.service';
+import { OrganizationMemberRole } from './organization-member';
+import {
+  OrganizationDocumentType,
+  OrganizationVerificationStatus,
+  SUBMITTABLE_VERIFICATION_STATUSES,
+} from './organization-verification';
+import { SubmitOrganizationVerificationDto } from './dto/submit-organization-verification.dto';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_DOCUMENT_COUNT = 10;
+const MAX_TEXT_LENGTH = 2000;
+
+// Başvuruda bulunması zorunlu belgeler
+const REQUIRED_DOCUMENT_TYPES: string[] = [
+  OrganizationDocumentType.TaxCertificate,
+  OrganizationDocumentType.CharityRegistration,
+];
+
+const VERIFICATION_SELECT = {
+  id: true,
+  name: true,
+  verificationStatus: true,
+  verificationRequestedAt: true,
+  verifiedAt: true,
+  verificationNote: true,
+  taxNumber: true,
+  charityRegistrationNo: true,
+  documents: true,
+} satisfies Prisma.OrganizationSelect;
+
+/**
+ * Organizasyon doğrulama süreci. Yeni organizasyonlar kayıt belgelerini
+ * gönderir, adminler inceleyip onaylar veya gerekçeyle reddeder. Yalnızca
+ * onaylanan organizasyonlar haritada görünür ve talep alabilir.
+ */
+@Injectable()
+export class OrganizationVerificationService {
+  private readonly logger = new Logger(OrganizationVerificationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly organizationService: OrganizationService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+    private readonly notificationsService: NotificationsService,
+  ) {}
+
+  // Belgeler yalnızca organizasyonu yönetebilenlere gösterilir
+  async getVerification(organizationId: number, user: AbilityUser) {
+    await this.organizationService.findOne(organizationId);
+    this.caslAbilityFactory.assertCan(user, Action.Update, 'Organization', {
+      id: organizationId,
+    });
+
+    return this.prisma.organization.findUnique({
+      where: { id: organizationId },
+      select: VERIFICATION_SELECT,
+    });
+  }
+
+  async submit(
+    organizationId: number,
+    user: AbilityUser,
+    submitDto: SubmitOrganizationVerificationDto,
+  ) {
+    const organization = await this.organizationService.findOne(organizationId);
+    this.caslAbilityFactory.assertCan(user, Action.Update, 'Organization', {
+      id: organizationId,
+    });
+
+    if (
+      organization.verificationStatus === OrganizationVerificationStatus.Pending
+    ) {
+      throw new ConflictException(
+        'Organizasyonun doğrulama başvurusu zaten inceleniyor',
+      );
+    }
+    if (
+      !SUBMITTABLE_VERIFICATION_STATUSES.includes(
+        organization.verificationStatus,
+      )
+    ) {
+      throw new BadRequestException('Organizasyon zaten doğrulanmış');
+    }
+
+    const { taxNumber, charityRegistrationNo, documents } =
+      this.validateSubmission(submitDto);
+
+    // Yeniden başvuruda önceki belgeler yenileriyle değiştirilir
+    const [, submitted] = await this.prisma.$transaction([
+      this.prisma.organizationDocument.deleteMany({
+        where: { organizationId },
+      }),
+      this.prisma.organization.update({
+        where: { id: organizationId },
+        data: {
+          taxNumber,
+          charityRegistrationNo,
+          verificationStatus: OrganizationVerificationStatus.Pending,
+          verificationRequestedAt: new Date(),
+          verificationNote: null,
+          documents: { create: documents },
+        },
+        select: VERIFICATION_SELECT,
+      }),
+    ]);
+
+    await this.notificationsService.notifyAdmins(
+      NotificationType.OrganizationVerificationRequested,
+      { organizationName: organization.name },
+      { organizationId },
+    );
+
+    return submitted;
+  }
+
+  async findPending(query: { page?: unknown; limit?: unknown } = {}) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE),
+    );
+    const where = {
+      verificationStatus: OrganizationVerificationStatus.Pending,
+    } satisfies Prisma.OrganizationWhereInput;
+
+    const [data, total] = await Promise.all([
+      this.prisma.organization.findMany({
+        where,
+        include: { documents: true, contactInfo: true, address: true },
+        // En uzun süredir bekleyen başvuru önce incelenir
+        orderBy: { verificationRequestedAt: 'asc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.organization.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async approve(organizationId: number, adminId: number) {
+    const organization = await this.findPendingOrganization(organizationId);
+
+    const approved = await this.prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        verificationStatus: OrganizationVerificationStatus.Approved,
+        verifiedAt: new Date(),
+        verificationNote: null,
+      },
+      select: VERIFICATION_SELECT,
+    });
+    this.logger.log(
+      `Organization ${organizationId} verified by admin ${adminId}`,
+    );
+
+    await this.notifyOwners(
+      organizationId,
+      NotificationType.OrganizationVerificationApproved,
+      { organizationName: organization.name },
+    );
+
+    return approved;
+  }
+
+  async reject(organizationId: number, adminId: number, reason: string) {
+    const organization = await this.findPendingOrganization(organizationId);
+
+    const note = reason?.trim();
+    if (!note) {
+      throw new BadRequestException('Ret gerekçesi belirtilmelidir');
+    }
+    if (note.length > MAX_TEXT_LENGTH) {
+      throw new BadRequestException(
+        `Ret gerekçesi en fazla ${MAX_TEXT_LENGTH} karakter olabilir`,
+      );
+    }
+
+    const rejected = await this.prisma.organization.update({
+      where: { id: organizationId },
+      data: {
+        verificationStatus: OrganizationVerificationStatus.Rejected,
+        verifiedAt: null,
+        verificationNote: note,
+      },
+      select: VERIFICATION_SELECT,
+    });
+    this.logger.log(
+      `Organization ${organizationId} verification rejected by admin ${adminId}`,
+    );
+
+    await this.notifyOwners(
+      organizationId,
+      NotificationType.OrganizationVerificationRejected,
+      { organizationName: organization.name, reason: note },
+    );
+
+    return rejected;
+  }
+
+  private async findPendingOrganization(organizationId: number) {
+    const organization = await this.organizationService.findOne(organizationId);
+
+    if (
+      organization.verificationStatus !== OrganizationVerificationStatus.Pending
+    ) {
+      throw new BadRequestException(
+        `${organizationId} ID'li organizasyonun incelenmeyi bekleyen bir doğrulama başvurusu yok`,
+      );
+    }
+
+    return organization;
+  }
+
+  // Sonuç organizasyonun sahip ve yöneticilerine bildirilir
+  private async notifyOwners(
+    organizationId: number,
+    type: NotificationType,
+    variables: Record<string, unknown>,
+  ) {
+    const members = await this.prisma.organizationMember.findMany({
+      where: {
+        organizationId,
+        role: {
+          in: [OrganizationMemberRole.Owner, OrganizationMemberRole.Manager],
+        },
+      },
+      select: { userId: true },
+    });
+
+    await this.notificationsService.notify(
+      members.map((member) => member.userId),
+      type,
+      variables,
+      { organizationId },
+    );
+  }
+
+  private validateSubmission(submitDto: SubmitOrganizationVerificationDto) {
+    const taxNumber = String(submitDto?.taxNumber ?? '').trim();
+    if (!/^\d{10,11}$/.test(taxNumber)) {
+      throw new BadRequestException(
+        'Vergi kimlik numarası 10 veya 11 haneli olmalıdır',
+      );
+    }
+
+    const charityRegistrationNo = submitDto.charityRegistrationNo?.trim();
+    if (!charityRegistrationNo || charityRegistrationNo.length > 50) {
+      throw new BadRequestException(
+        'Dernek/vakıf sicil numarası 1-50 karakter olmalıdır',
+      );
+    }
+
+    const rawDocuments = submitDto.documents ?? [];
+    if (!Array.isArray(rawDocuments) || rawDocuments.length === 0) {
+      throw new BadRequestException('Kayıt belgeleri gönderilmelidir');
+    }
+    if (rawDocuments.length > MAX_DOCUMENT_COUNT) {
+      throw new BadRequestException(
+        `En fazla ${MAX_DOCUMENT_COUNT} belge gönderilebilir`,
+      );
+    }
+
+    const validTypes: string[] = Object.values(OrganizationDocumentType);
+    const documents = rawDocuments.map((document) => {
+      const name = document?.name?.trim();
+      const url = document?.url?.trim();
+      if (!validTypes.includes(document?.type)) {
+        throw new BadRequestException(
+          `Geçersiz belge türü. Geçerli türler: ${validTypes.join(', ')}`,
+        );
+      }
+      if (!name || !url || !/^https?:\/\//i.test(url)) {
+        throw new BadRequestException(
+          'Her belge için ad ve geçerli bir adres belirtilmelidir',
+        );
+      }
+      return { type: document.type, name, url };
+    });
+
+    const missing = REQUIRED_DOCUMENT_TYPES.filter(
+      (type) => !documents.some((document) => document.type === type),
+    );
+    if (missing.length > 0) {
+      throw new BadRequestException(`Eksik belgeler: ${missing.join(', ')}`);
+    }
+
+    return { taxNumber, charityRegistrationNo, documents };
+  }
+}
@@ -0,0 +1,18 @@
+export enum OrganizationVerificationStatus {
+  Unverified = 'unverified',
+  Pending = 'pending',
+  Approved = 'approved',
+  Rejected = 'rejected',
+}
+
+export enum OrganizationDocumentType {
+  TaxCertificate = 'tax_certificate',
+  CharityRegistration = 'charity_registration',
+  Other = 'other',
+}
+
+// Başvuru yalnızca bu durumlardan yapılabilir; reddedilen organizasyon yeniden başvurur
+export const SUBMITTABLE_VERIFICATION_STATUSES: string[] = [
+  OrganizationVerificationStatus.Unverified,
+  OrganizationVerificationStatus.Rejected,
+];
@@ -0,0 +1,18 @@
+import { Prisma } from '@prisma/client';
+import { OrganizationVerificationStatus } from './organization-verification';
+
+// Haritada gösterilebilen ve yardım talebi atanabilen organizasyonlar
+export const ACTIVE_ORGANIZATION_WHERE = {
+  suspendedAt: null,
+  verificationStatus: OrganizationVerificationStatus.Approved,
+} satisfies Prisma.OrganizationWhereInput;
+
+export function isOrganizationActive(organization: {
+  suspendedAt?: Date | null;
+  verificationStatus?: string;
+}) {
+  return (
+    !organization.suspendedAt &&
+    organization.verificationStatus === OrganizationVerificationStatus.Approved
+  );
+}
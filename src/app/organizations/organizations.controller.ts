@@ -8,6 +8,8 @@ import {
   Param,
   ParseIntPipe,
   SetMetadata,
+  Req,
+  Query,
 } from '@nestjs/common';
 
 import { JwtAuthGuard } from '../auth/jwt-auth.guard';
@@ -21,12 +23,17 @@ import {
   ApiBody,
   ApiBearerAuth,
   ApiParam,
+  ApiQuery,
 } from '@nestjs/swagger';
 import { OrganizationService } from './organizations.service';
 import { CreateOrganizationDto } from './dto/create-organization.dto';
 import { UpdateOrganizationDto } from './dto/update-organization.dto';
 import { CreateMessageDto } from './dto/create-message.dto';
-import { OrganizationRatingDto } from './dto/organization-rating.dto';
+import { OrganizationFlagsService } from './organization-flags.service';
+import { CreateOrganizationFlagDto } from './dto/create-organization-flag.dto';
+import { OrganizationVerificationService } from './organization-verification.service';
+import { SubmitOrganizationVerificationDto } from './dto/submit-organization-verification.dto';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
 
 // Roles için bir decorator oluşturuyorum
 export const Roles = (...roles: Role[]) => SetMetadata('roles', roles);
@@ -34,7 +41,11 @@ export const Roles = (...roles: Role[]) => SetMetadata('roles', roles);
 @ApiTags('organizations') // Grouping under "organizations" in Swagger documentation
 @Controller('organizations')
 export class OrganizationsController {
-  constructor(private readonly organizationsService: OrganizationService) {}
+  constructor(
+    private readonly organizationsService: OrganizationService,
+    private readonly organizationFlagsService: OrganizationFlagsService,
+    private readonly verificationService: OrganizationVerificationService,
+  ) {}
 
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
@@ -73,8 +84,11 @@ export class OrganizationsController {
   @Roles(Role.Admin, Role.OrganizationOwner)
   @ApiBearerAuth()
   @Post()
-  async create(@Body() organizationDto: CreateOrganizationDto) {
-    return this.organizationsService.create(organizationDto);
+  async create(
+    @Body() organizationDto: CreateOrganizationDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.organizationsService.create(organizationDto, req.user);
   }
 
   @ApiOperation({ summary: 'Update an organization' })
@@ -92,8 +106,36 @@ export class OrganizationsController {
   async update(
     @Body() organizationDto: UpdateOrganizationDto,
     @Param('id') id: number,
+    @Req() req: RequestWithUser,
   ) {
-    return this.organizationsService.update(id, organizationDto);
+    return this.organizationsService.update(id, organizationDto, req.user);
+  }
+
+  @ApiOperation({ summary: 'List messages sent to an organization' })
+  @ApiResponse({
+    status: 200,
+    description: 'Messages visible to the organization members.',
+  })
+  @ApiResponse({
+    status: 403,
+    description: 'Forbidden - Not a member of the organization.',
+  })
+  @ApiParam({ name: 'id', type: 'number' })
+  @ApiQuery({ name: 'page', type: Number, required: false })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @Get(':id/messages')
+  async findMessages(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.organizationsService.findMessages(id, req.user, {
+      page,
+      limit,
+    });
   }
 
   @ApiOperation({ summary: 'Send a message to an organization' })
@@ -119,46 +161,58 @@ export class OrganizationsController {
 
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Rate an organization and provide feedback' })
+  @ApiOperation({ summary: 'Flag an organization for review' })
   @ApiResponse({
-    status: 200,
-    description: 'Successfully rated the organization.',
+    status: 201,
+    description: 'Successfully opened a case for the organization.',
+  })
+  @ApiResponse({
+    status: 409,
+    description: 'The user already has an open case for the organization.',
   })
-  @Post(':id/ratings')
-  async rateOrganization(
+  @ApiBody({ type: CreateOrganizationFlagDto })
+  @Post(':id/flag')
+  async flagOrganization(
     @Param('id', ParseIntPipe) id: number,
-    @Body() organizationRatingDto: OrganizationRatingDto,
+    @Req() req: RequestWithUser,
+    @Body() createFlagDto: CreateOrganizationFlagDto,
   ) {
-    return this.organizationsService.rateOrganization(
-      id,
-      organizationRatingDto,
-    );
+    return this.organizationFlagsService.create(id, req.user.id, createFlagDto);
   }
 
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Get ratings for an organization' })
+  @ApiOperation({ summary: 'Get verification status and submitted documents' })
+  @ApiParam({ name: 'id', type: 'number' })
   @ApiResponse({
-    status: 200,
-    description: 'Successfully retrieved organization ratings.',
+    status: 403,
+    description: 'Forbidden - Only owners and managers can view documents.',
   })
-  @Get(':id/ratings')
-  async getOrganizationRatings(@Param('id', ParseIntPipe) id: number) {
-    return this.organizationsService.getOrganizationRatings(id);
+  @Get(':id/verification')
+  async getVerification(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.verificationService.getVerification(id, req.user);
   }
 
   @UseGuards(JwtAuthGuard)
   @ApiBearerAuth()
-  @ApiOperation({ summary: 'Flag an organization for review' })
+  @ApiOperation({
+    summary: 'Submit registration documents for verification',
+  })
+  @ApiParam({ name: 'id', type: 'number' })
+  @ApiBody({ type: SubmitOrganizationVerificationDto })
   @ApiResponse({
-    status: 200,
-    description: 'Successfully flagged the organization for review.',
+    status: 409,
+    description: 'A verification request is already under review.',
   })
-  @Post(':id/flag')
-  async flagOrganization(
+  @Post(':id/verification')
+  async submitVerification(
     @Param('id', ParseIntPipe) id: number,
-    @Body('reason') reason: string,
+    @Req() req: RequestWithUser,
+    @Body() submitDto: SubmitOrganizationVerificationDto,
   ) {
-    return this.organizationsService.flagOrganization(id, reason);
+    return this.verificationService.submit(id, req.user, submitDto);
   }
 }
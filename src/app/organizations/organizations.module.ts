@@ -3,11 +3,47 @@ import { Module } from '@nestjs/common';
 
 import { OrganizationService } from './organizations.service';
 import { OrganizationsController } from './organizations.controller';
+import { OrganizationReviewsService } from './organization-reviews.service';
+import { OrganizationReviewsController } from './organization-reviews.controller';
+import { OrganizationFlagsService } from './organization-flags.service';
+import { OrganizationFlagsController } from './organization-flags.controller';
+import { OrganizationMembersService } from './organization-members.service';
+import { OrganizationMembersController } from './organization-members.controller';
+import { OrganizationVerificationService } from './organization-verification.service';
+import { OrganizationVerificationController } from './organization-verification.controller';
+import { OrganizationServiceAreasService } from './organization-service-areas.service';
+import { OrganizationServiceAreasController } from './organization-service-areas.controller';
 import { PrismaService } from '../prisma/prisma.service';
+import { RealtimeModule } from '../realtime/realtime.module';
+import { NotificationsModule } from '../notifications/notifications.module';
+import { ModerationModule } from '../moderation/moderation.module';
+import { CaslModule } from '../casl/casl.module';
+import { OutboxModule } from '../outbox/outbox.module';
 
 @Module({
-  imports: [],
-  providers: [OrganizationService, PrismaService],
-  controllers: [OrganizationsController],
+  imports: [
+    RealtimeModule,
+    NotificationsModule,
+    ModerationModule,
+    CaslModule,
+    OutboxModule,
+  ],
+  providers: [
+    OrganizationService,
+    OrganizationReviewsService,
+    OrganizationFlagsService,
+    OrganizationMembersService,
+    OrganizationVerificationService,
+    OrganizationServiceAreasService,
+    PrismaService,
+  ],
+  controllers: [
+    OrganizationsController,
+    OrganizationReviewsController,
+    OrganizationFlagsController,
+    OrganizationVerificationController,
+    OrganizationMembersController,
+    OrganizationServiceAreasController,
+  ],
 })
 export class OrganizationsModule {}
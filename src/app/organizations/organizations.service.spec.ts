@@ -1,15 +1,23 @@
 import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException, ForbiddenException } from '@nestjs/common';
 import { OrganizationService } from './organizations.service';
 import { PrismaService } from '../prisma/prisma.service';
+import { RealtimeService } from '../realtime/realtime.service';
+import { ModerationService } from '../moderation/moderation.service';
+import { ModerationStatus } from '../moderation/moderation-content';
+import { CaslAbilityFactory } from '../casl/casl-ability.factory';
 
 describe('OrganizationService', () => {
   let service: OrganizationService;
   let prismaService: PrismaService;
+  let realtimeService: RealtimeService;
+  let moderationService: ModerationService;
 
   beforeEach(async () => {
     const module: TestingModule = await Test.createTestingModule({
       providers: [
         OrganizationService,
+        CaslAbilityFactory,
         {
           provide: PrismaService,
           useValue: {
@@ -33,11 +41,28 @@ describe('OrganizationService', () => {
             },
           },
         },
+        {
+          provide: RealtimeService,
+          useValue: {
+            messageCreated: jest.fn(),
+          },
+        },
+        {
+          provide: ModerationService,
+          useValue: {
+            prescreen: jest
+              .fn()
+              .mockResolvedValue({ status: 'published', matches: [] }),
+            holdForReview: jest.fn(),
+          },
+        },
       ],
     }).compile();
 
     service = module.get<OrganizationService>(OrganizationService);
     prismaService = module.get<PrismaService>(PrismaService);
+    realtimeService = module.get<RealtimeService>(RealtimeService);
+    moderationService = module.get<ModerationService>(ModerationService);
   });
 
   it('should be defined', () => {
@@ -88,7 +113,16 @@ describe('OrganizationService', () => {
         contactInfoId: 1,
         addressId: 1,
         rating: 0,
+        reviewCount: 0,
         feedback: '',
+        suspendedAt: null,
+        suspensionReason: null,
+        verificationStatus: 'approved',
+        verificationRequestedAt: null,
+        verifiedAt: null,
+        verificationNote: null,
+        taxNumber: null,
+        charityRegistrationNo: null,
       };
 
       jest
@@ -99,7 +133,17 @@ describe('OrganizationService', () => {
         .spyOn(prismaService.organization, 'create')
         .mockResolvedValue(organization);
 
-      expect(await service.create(createOrganizationDto)).toBe(organization);
+      expect(
+        await service.create(createOrganizationDto, {
+          id: 7,
+          role: 'organization_owner',
+        }),
+      ).toBe(organization);
+      expect(prismaService.organization.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          members: { create: { userId: 7, role: 'owner' } },
+        }),
+      });
     });
   });
 
@@ -116,7 +160,16 @@ describe('OrganizationService', () => {
           contactInfoId: 1,
           addressId: 1,
           rating: 0,
+          reviewCount: 0,
           feedback: '',
+          suspendedAt: null,
+          suspensionReason: null,
+          verificationStatus: 'approved',
+          verificationRequestedAt: null,
+          verifiedAt: null,
+          verificationNote: null,
+          taxNumber: null,
+          charityRegistrationNo: null,
         },
       ];
       jest
@@ -139,7 +192,16 @@ describe('OrganizationService', () => {
         contactInfoId: 1,
         addressId: 1,
         rating: 0,
+        reviewCount: 0,
         feedback: '',
+        suspendedAt: null,
+        suspensionReason: null,
+        verificationStatus: 'approved',
+        verificationRequestedAt: null,
+        verifiedAt: null,
+        verificationNote: null,
+        taxNumber: null,
+        charityRegistrationNo: null,
       };
       jest
         .spyOn(prismaService.organization, 'findUnique')
@@ -179,7 +241,16 @@ describe('OrganizationService', () => {
         contactInfoId: 1,
         addressId: 1,
         rating: 0,
+        reviewCount: 0,
         feedback: '',
+        suspendedAt: null,
+        suspensionReason: null,
+        verificationStatus: 'approved',
+        verificationRequestedAt: null,
+        verifiedAt: null,
+        verificationNote: null,
+        taxNumber: null,
+        charityRegistrationNo: null,
       };
       const contactInfo = {
         id: 1,
@@ -207,7 +278,30 @@ describe('OrganizationService', () => {
         .spyOn(prismaService.organization, 'update')
         .mockResolvedValue(organization);
 
-      expect(await service.update(1, updateOrganizationDto)).toBe(organization);
+      expect(
+        await service.update(1, updateOrganizationDto, {
+          id: 7,
+          role: 'organization_owner',
+          memberships: [{ organizationId: 1, role: 'manager' }],
+        }),
+      ).toBe(organization);
+    });
+
+    it('should not let staff members update the organization', async () => {
+      jest.spyOn(prismaService.organization, 'findUnique').mockResolvedValue({
+        id: 1,
+        contactInfoId: 1,
+        addressId: 1,
+      } as any);
+
+      await expect(
+        service.update(1, { name: 'Updated Organization' } as any, {
+          id: 7,
+          role: 'organization_owner',
+          memberships: [{ organizationId: 1, role: 'staff' }],
+        }),
+      ).rejects.toThrow(ForbiddenException);
+      expect(prismaService.organization.update).not.toHaveBeenCalled();
     });
   });
 
@@ -223,7 +317,16 @@ describe('OrganizationService', () => {
         contactInfoId: 1,
         addressId: 1,
         rating: 0,
+        reviewCount: 0,
         feedback: '',
+        suspendedAt: null,
+        suspensionReason: null,
+        verificationStatus: 'approved',
+        verificationRequestedAt: null,
+        verifiedAt: null,
+        verificationNote: null,
+        taxNumber: null,
+        charityRegistrationNo: null,
       };
       jest
         .spyOn(prismaService.organization, 'findUnique')
@@ -236,6 +339,34 @@ describe('OrganizationService', () => {
     });
   });
 
+  describe('suspend', () => {
+    it('should record the suspension time and reason', async () => {
+      jest
+        .spyOn(prismaService.organization, 'findUnique')
+        .mockResolvedValue({ id: 1, suspendedAt: null } as any);
+
+      await service.suspend(1, ' Dolandırıcılık ');
+
+      expect(prismaService.organization.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: {
+          suspendedAt: expect.any(Date),
+          suspensionReason: 'Dolandırıcılık',
+        },
+      });
+    });
+
+    it('should reject an already suspended organization', async () => {
+      jest
+        .spyOn(prismaService.organization, 'findUnique')
+        .mockResolvedValue({ id: 1, suspendedAt: new Date() } as any);
+
+      await expect(service.suspend(1, 'Tekrar')).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+  });
+
   describe('sendMessage', () => {
     it('should send a message to an organization', async () => {
       const createMessageDto = {
@@ -251,6 +382,7 @@ describe('OrganizationService', () => {
         receiverId: 2,
         organizationId: 1,
         userId: 1,
+        moderationStatus: 'published',
         createdAt: new Date(),
         updatedAt: new Date(),
       };
@@ -264,7 +396,16 @@ describe('OrganizationService', () => {
         contactInfoId: 1,
         addressId: 1,
         rating: 0,
+        reviewCount: 0,
         feedback: '',
+        suspendedAt: null,
+        suspensionReason: null,
+        verificationStatus: 'approved',
+        verificationRequestedAt: null,
+        verifiedAt: null,
+        verificationNote: null,
+        taxNumber: null,
+        charityRegistrationNo: null,
       };
 
       jest
@@ -279,9 +420,38 @@ describe('OrganizationService', () => {
           .mockResolvedValueOnce({ id: 2 }),
       };
 
-      jest.spyOn(prismaService.message, 'create').mockResolvedValue(message as any);
+      jest
+        .spyOn(prismaService.message, 'create')
+        .mockResolvedValue(message as any);
 
       expect(await service.sendMessage(createMessageDto)).toBe(message);
+      expect(realtimeService.messageCreated).toHaveBeenCalledWith(message);
+    });
+
+    it('should not deliver messages held by the blocklist', async () => {
+      jest
+        .spyOn(prismaService.organization, 'findUnique')
+        .mockResolvedValue({ id: 1 } as any);
+      (prismaService as any).user = {
+        findUnique: jest.fn().mockResolvedValue({ id: 1 }),
+      };
+      jest.spyOn(moderationService, 'prescreen').mockResolvedValue({
+        status: ModerationStatus.PendingReview,
+        matches: ['spam'],
+      });
+      jest.spyOn(prismaService.message, 'create').mockResolvedValue({
+        id: 7,
+        moderationStatus: 'pending_review',
+      } as any);
+
+      await service.createMessage('spam link', 1, 1, 2);
+
+      expect(realtimeService.messageCreated).not.toHaveBeenCalled();
+      expect(moderationService.holdForReview).toHaveBeenCalledWith(
+        'message',
+        7,
+        ['spam'],
+      );
     });
   });
 });
@@ -1,5 +1,6 @@
 import {
   Injectable,
+  Logger,
   NotFoundException,
   BadRequestException,
 } from '@nestjs/common';
@@ -7,12 +8,41 @@ import { PrismaService } from '../prisma/prisma.service';
 import { CreateOrganizationDto } from './dto/create-organization.dto';
 import { UpdateOrganizationDto } from './dto/update-organization.dto';
 import { CreateMessageDto } from './dto/create-message.dto';
+import { Message } from '@prisma/client';
+import { Action, Role } from '../casl/action';
+import { AbilityUser, CaslAbilityFactory } from '../casl/casl-ability.factory';
+import { RealtimeService } from '../realtime/realtime.service';
+import { ModerationService } from '../moderation/moderation.service';
+import {
+  ModeratedContentType,
+  ModerationStatus,
+} from '../moderation/moderation-content';
+import { OrganizationMemberRole } from './organization-member';
+import { OrganizationVerificationStatus } from './organization-verification';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
 
 @Injectable()
 export class OrganizationService {
-  constructor(private readonly prisma: PrismaService) {}
-
-  async create(createOrganizationDto: CreateOrganizationDto) {
+  private readonly logger = new Logger(OrganizationService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly realtimeService: RealtimeService,
+    private readonly moderationService: ModerationService,
+    private readonly caslAbilityFactory: CaslAbilityFactory,
+  ) {}
+
+  /**
+   * Organizasyonu oluşturan organizasyon hesabı ilk sahibi olur. Adminlerin
+   * oluşturduğu organizasyonlar doğrulanmış sayılır, diğerleri belge gönderip
+   * onay bekler.
+   */
+  async create(
+    createOrganizationDto: CreateOrganizationDto,
+    user?: AbilityUser,
+  ) {
     try {
       const contactInfo = await this.prisma.contactInfo.create({
         data: {
@@ -43,6 +73,16 @@ export class OrganizationService {
           address: {
             connect: { id: address.id },
           },
+          ...(user?.role === Role.Admin && {
+            verificationStatus: OrganizationVerificationStatus.Approved,
+            verifiedAt: new Date(),
+          }),
+          ...(user &&
+            user.role !== Role.Admin && {
+              members: {
+                create: { userId: user.id, role: OrganizationMemberRole.Owner },
+              },
+            }),
         },
       });
     } catch (error) {
@@ -74,7 +114,11 @@ export class OrganizationService {
     return organization;
   }
 
-  async update(id: number, updateOrganizationDto: UpdateOrganizationDto) {
+  async update(
+    id: number,
+    updateOrganizationDto: UpdateOrganizationDto,
+    user: AbilityUser,
+  ) {
     const organization = await this.prisma.organization.findUnique({
       where: { id: Number(id) },
       include: {
@@ -87,6 +131,10 @@ export class OrganizationService {
       throw new NotFoundException(`${id} ID'li organizasyon bulunamadı`);
     }
 
+    this.caslAbilityFactory.assertCan(user, Action.Update, 'Organization', {
+      id: organization.id,
+    });
+
     try {
       const updatedContactInfo = await this.prisma.contactInfo.update({
         where: { id: organization.contactInfoId },
@@ -149,6 +197,43 @@ export class OrganizationService {
     }
   }
 
+  // Organizasyona gelen mesajları yalnızca organizasyonun üyeleri görebilir
+  async findMessages(
+    id: number,
+    user: AbilityUser,
+    query: { page?: unknown; limit?: unknown } = {},
+  ) {
+    const organization = await this.findOne(id);
+    this.caslAbilityFactory.assertCan(user, Action.Read, 'Message', {
+      organizationId: organization.id,
+    });
+
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE),
+    );
+    const where = {
+      organizationId: organization.id,
+      moderationStatus: ModerationStatus.Published,
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.message.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.message.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
   async sendMessage(createMessageDto: CreateMessageDto) {
     // Organizasyonun varlığını kontrol et
     const organization = await this.prisma.organization.findUnique({
@@ -187,10 +272,16 @@ export class OrganizationService {
       throw new BadRequestException('Mesaj içeriği boş olamaz');
     }
 
+    const screening = await this.moderationService.prescreen(
+      createMessageDto.content,
+    );
+
+    let message: Message;
     try {
-      return await this.prisma.message.create({
+      message = await this.prisma.message.create({
         data: {
           content: createMessageDto.content,
+          moderationStatus: screening.status,
           organization: {
             connect: {
               id: createMessageDto.organizationId,
@@ -211,6 +302,8 @@ export class OrganizationService {
     } catch (error) {
       throw new BadRequestException('Mesaj gönderilirken bir hata oluştu');
     }
+
+    return this.publishMessage(message, screening.matches);
   }
 
   async createMessage(
@@ -255,10 +348,14 @@ export class OrganizationService {
       );
     }
 
+    const screening = await this.moderationService.prescreen(content);
+
+    let message: Message;
     try {
-      return await this.prisma.message.create({
+      message = await this.prisma.message.create({
         data: {
           content,
+          moderationStatus: screening.status,
           organization: { connect: { id: organizationId } },
           sender: { connect: { id: senderId } },
           receiver: { connect: { id: receiverId } },
@@ -267,189 +364,59 @@ export class OrganizationService {
     } catch (error) {
       throw new BadRequestException('Mesaj oluşturulurken bir hata oluştu');
     }
-  }
-
-  async addRatingAndFeedback(
-    organizationId: number,
-    rating: number,
-    feedback: string,
-  ) {
-    if (rating < 1 || rating > 5) {
-      throw new BadRequestException('Değerlendirme 1 ile 5 arasında olmalıdır');
-    }
-
-    const organization = await this.prisma.organization.findUnique({
-      where: { id: organizationId },
-    });
 
-    if (!organization) {
-      throw new NotFoundException(
-        `${organizationId} ID'li organizasyon bulunamadı`,
-      );
-    }
-
-    try {
-      return await this.prisma.organization.update({
-        where: { id: organizationId },
-        data: {
-          rating,
-          feedback,
-        },
-      });
-    } catch (error) {
-      throw new BadRequestException(
-        `Değerlendirme eklenirken bir hata oluştu: ${error.message}`,
-      );
-    }
+    return this.publishMessage(message, screening.matches);
   }
 
-  async flagOrganization(organizationId: number, reason: string) {
-    // Organizasyonun varlığını kontrol et
-    const organization = await this.prisma.organization.findUnique({
-      where: { id: organizationId },
-    });
+  // Askıya alınan organizasyon haritada gösterilmez ve yeni talep atanamaz
+  async suspend(id: number, reason: string) {
+    const organization = await this.findOne(id);
 
-    if (!organization) {
-      throw new NotFoundException(
-        `${organizationId} ID'li organizasyon bulunamadı`,
+    if (organization.suspendedAt) {
+      throw new BadRequestException(
+        `${id} ID'li organizasyon zaten askıya alınmış`,
       );
     }
-
     if (!reason || reason.trim() === '') {
-      throw new BadRequestException(
-        'Organizasyon için şikayet sebebi belirtilmelidir',
-      );
+      throw new BadRequestException('Askıya alma gerekçesi belirtilmelidir');
     }
 
-    try {
-      // Yöneticiler için bildirim oluştur
-      await this.prisma.notification.create({
-        data: {
-          content: `Organizasyon ${organization.name} şikayet edildi. Sebep: ${reason}`,
-          userId: 1, // Varsayılan olarak 1 ID'li admin kullanıcısı, uygun admin ID'si ile değiştirilmeli
-        },
-      });
+    const suspended = await this.prisma.organization.update({
+      where: { id },
+      data: { suspendedAt: new Date(), suspensionReason: reason.trim() },
+    });
+    this.logger.warn(`Organization ${id} suspended`);
 
-      return {
-        success: true,
-        message: `${organization.name} isimli organizasyon incelenmek üzere işaretlendi.`,
-      };
-    } catch (error) {
-      throw new BadRequestException(
-        `Organizasyon şikayet edilirken bir hata oluştu: ${error.message}`,
-      );
-    }
+    return suspended;
   }
 
-  async rateOrganization(organizationId: number, ratingData: any) {
-    const { rating, feedback, userId, anonymous = false } = ratingData;
+  async reinstate(id: number) {
+    const organization = await this.findOne(id);
 
-    // Değerlendirmenin 1-5 arasında olduğunu doğrula
-    if (rating < 1 || rating > 5) {
-      throw new BadRequestException('Değerlendirme 1 ile 5 arasında olmalıdır');
+    if (!organization.suspendedAt) {
+      throw new BadRequestException(`${id} ID'li organizasyon askıda değil`);
     }
 
-    // Organizasyon varlığını kontrol et
-    const organization = await this.prisma.organization.findUnique({
-      where: { id: organizationId },
-      select: { rating: true, name: true },
+    const reinstated = await this.prisma.organization.update({
+      where: { id },
+      data: { suspendedAt: null, suspensionReason: null },
     });
+    this.logger.log(`Organization ${id} reinstated`);
 
-    if (!organization) {
-      throw new NotFoundException(
-        `${organizationId} ID'li organizasyon bulunamadı`,
-      );
-    }
-
-    // Kullanıcı varlığını kontrol et (anonim değilse)
-    if (!anonymous && userId) {
-      const user = await this.prisma.user.findUnique({
-        where: { id: userId },
-      });
-
-      if (!user) {
-        throw new NotFoundException(`${userId} ID'li kullanıcı bulunamadı`);
-      }
-    }
-
-    try {
-      // Bu belirli değerlendirmenin bir kaydını oluştur
-      // Şimdilik bir değerlendirme tablosu olmadığı için simüle ediyoruz
-      await this.prisma.notification.create({
-        data: {
-          content: `${organization.name} organizasyonu${anonymous ? ' anonim olarak' : ''} ${rating} yıldız değerlendirme aldı: "${feedback}"`,
-          userId: 1, // Admin kullanıcı ID'si
-        },
-      });
-
-      // Organizasyonu yeni değerlendirme ve geri bildirim ile güncelle
-      // Gerçek bir uygulamada, tüm değerlendirmelerin ortalamasını hesaplarsınız
-      const updatedOrganization = await this.prisma.organization.update({
-        where: { id: organizationId },
-        data: {
-          rating: organization.rating
-            ? (organization.rating + rating) / 2
-            : rating,
-          // Mevcut geri bildirimlere yeni geri bildirimleri ekle veya başlat
-          feedback: (organization as any).feedback
-            ? `${(organization as any).feedback}\n---\n${anonymous ? 'Anonim' : `Kullanıcı ${userId}`}: ${feedback}`
-            : `${anonymous ? 'Anonim' : `Kullanıcı ${userId}`}: ${feedback}`,
-        },
-      });
-
-      return {
-        success: true,
-        message: 'Değerlendirme başarıyla gönderildi',
-        currentRating: updatedOrganization.rating,
-      };
-    } catch (error) {
-      throw new BadRequestException(
-        `Değerlendirme gönderilirken bir hata oluştu: ${error.message}`,
-      );
-    }
+    return reinstated;
   }
 
-  async getOrganizationRatings(organizationId: number) {
-    const organization = await this.prisma.organization.findUnique({
-      where: { id: organizationId },
-      select: {
-        id: true,
-        name: true,
-        rating: true,
-        feedback: true,
-      },
-    });
-
-    if (!organization) {
-      throw new NotFoundException(
-        `${organizationId} ID'li organizasyon bulunamadı`,
-      );
-    }
-
-    try {
-      // Geri bildirim kayıtlarını ayrıştır (eğer varsa)
-      const feedbackEntries = organization.feedback
-        ? organization.feedback.split('\n---\n').map((entry) => {
-            const [author, ...contentParts] = entry.split(': ');
-            const content = contentParts.join(': '); // İçerikte iki nokta üst üste olması durumunda yeniden birleştirme
-            return {
-              author,
-              content,
-              isAnonymous: author === 'Anonymous',
-            };
-          })
-        : [];
-
-      return {
-        id: organization.id,
-        name: organization.name,
-        rating: organization.rating || 0,
-        feedbackEntries,
-      };
-    } catch (error) {
-      throw new BadRequestException(
-        `Organizasyon değerlendirmeleri alınırken bir hata oluştu: ${error.message}`,
+  // Ön filtreye takılan mesaj alıcıya iletilmez, moderasyon kuyruğunda bekler
+  private async publishMessage(message: Message, matches: string[]) {
+    if (message.moderationStatus === ModerationStatus.Published) {
+      this.realtimeService.messageCreated(message);
+    } else {
+      await this.moderationService.holdForReview(
+        ModeratedContentType.Message,
+        message.id,
+        matches,
       );
     }
+    return message;
   }
 }
@@ -0,0 +1,31 @@
+import { Controller, Delete, Get, Query } from '@nestjs/common';
+import { ApiOperation, ApiQuery, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { DevOutboxService } from './dev-outbox.service';
+import { OutboxJobType } from './outbox-job';
+
+@ApiTags('dev')
+@Controller('dev/outbox')
+export class DevOutboxController {
+  constructor(private readonly devOutboxService: DevOutboxService) {}
+
+  @Get()
+  @ApiOperation({
+    summary: 'List messages recorded by local transports (non-production)',
+  })
+  @ApiQuery({ name: 'channel', enum: OutboxJobType, required: false })
+  @ApiResponse({ status: 200, description: 'Kaydedilen mesajlar' })
+  @ApiResponse({
+    status: 404,
+    description: 'DEV_OUTBOX_ENABLED açık değil veya üretim ortamı',
+  })
+  async list(@Query('channel') channel?: string) {
+    return this.devOutboxService.list(channel);
+  }
+
+  @Delete()
+  @ApiOperation({ summary: 'Clear messages recorded by local transports' })
+  @ApiResponse({ status: 200, description: 'Kayıtlar temizlendi' })
+  async clear() {
+    return this.devOutboxService.clear();
+  }
+}
@@ -0,0 +1,108 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { NotFoundException } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { DevOutboxService } from './dev-outbox.service';
+import { OutboxJobType } from './outbox-job';
+import { TransportKind } from './outbox-transport';
+import { resolveTransportKind } from './outbox-transport.factory';
+import { InMemoryOutboxStore } from './transports/in-memory.transport';
+
+describe('resolveTransportKind', () => {
+  const config = (values: Record<string, string>) =>
+    ({ get: (key: string) => values[key] }) as ConfigService;
+
+  it('should default to real providers outside tests', () => {
+    expect(
+      resolveTransportKind(
+        config({ NODE_ENV: 'development' }),
+        OutboxJobType.Email,
+      ),
+    ).toBe(TransportKind.Smtp);
+    expect(
+      resolveTransportKind(
+        config({ NODE_ENV: 'development' }),
+        OutboxJobType.Push,
+      ),
+    ).toBe(TransportKind.Fcm);
+  });
+
+  it('should record in memory during tests', () => {
+    expect(
+      resolveTransportKind(config({ NODE_ENV: 'test' }), OutboxJobType.Sms),
+    ).toBe(TransportKind.Memory);
+  });
+
+  it('should reject transports the channel does not support', () => {
+    expect(() =>
+      resolveTransportKind(
+        config({ SMS_TRANSPORT: 'smtp' }),
+        OutboxJobType.Sms,
+      ),
+    ).toThrow('Unsupported SMS_TRANSPORT value');
+  });
+});
+
+describe('DevOutboxService', () => {
+  let service: DevOutboxService;
+  let store: InMemoryOutboxStore;
+  let env: Record<string, string>;
+
+  beforeEach(async () => {
+    env = {
+      NODE_ENV: 'test',
+      DEV_OUTBOX_ENABLED: 'true',
+      OUTBOX_FILE_PATH: '.tmp/dev-outbox-spec-missing.jsonl',
+    };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        DevOutboxService,
+        InMemoryOutboxStore,
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => env[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<DevOutboxService>(DevOutboxService);
+    store = module.get<InMemoryOutboxStore>(InMemoryOutboxStore);
+  });
+
+  it('should list messages recorded in memory', async () => {
+    store.record(OutboxJobType.Email, { to: 'a@test.com' });
+    store.record(OutboxJobType.Push, { userId: 3 });
+
+    const result = await service.list(OutboxJobType.Email);
+
+    expect(result.total).toBe(1);
+    expect(result.messages[0]).toEqual(
+      expect.objectContaining({
+        channel: OutboxJobType.Email,
+        payload: { to: 'a@test.com' },
+      }),
+    );
+    expect(result.transports[OutboxJobType.Push]).toBe(TransportKind.Memory);
+  });
+
+  it('should clear recorded messages', async () => {
+    store.record(OutboxJobType.Sms, { to: '+905550000000' });
+
+    await service.clear();
+
+    expect(store.list()).toEqual([]);
+  });
+
+  it('should be unavailable in production', async () => {
+    env.NODE_ENV = 'production';
+
+    await expect(service.list()).rejects.toThrow(NotFoundException);
+  });
+
+  it('should be unavailable unless explicitly enabled', async () => {
+    delete env.DEV_OUTBOX_ENABLED;
+
+    await expect(service.list()).rejects.toThrow(NotFoundException);
+    await expect(service.clear()).rejects.toThrow(NotFoundException);
+  });
+});
@@ -0,0 +1,87 @@
+import {
+  BadRequestException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { promises as fs } from 'fs';
+import { OutboxJobType } from './outbox-job';
+import { TransportKind } from './outbox-transport';
+import {
+  outboxFilePath,
+  resolveTransportKind,
+} from './outbox-transport.factory';
+import { readFileOutbox } from './transports/file-outbox.transport';
+import { InMemoryOutboxStore } from './transports/in-memory.transport';
+
+/**
+ * Yerel kanalların ("memory" ve "file-outbox") kaydettiği mesajları gösterir.
+ * Yalnızca DEV_OUTBOX_ENABLED=true ile açılır, üretim ortamında her zaman
+ * kapalıdır.
+ */
+@Injectable()
+export class DevOutboxService {
+  constructor(
+    private readonly configService: ConfigService,
+    private readonly store: InMemoryOutboxStore,
+  ) {}
+
+  async list(channel?: string) {
+    this.assertEnabled();
+    const type = this.parseChannel(channel);
+
+    const messages = [
+      ...this.store.list(type),
+      ...(await readFileOutbox(outboxFilePath(this.configService))).filter(
+        (message) => !type || message.channel === type,
+      ),
+    ].sort((a, b) => a.sentAt.localeCompare(b.sentAt));
+
+    return {
+      transports: Object.fromEntries(
+        Object.values(OutboxJobType).map((jobType) => [
+          jobType,
+          resolveTransportKind(this.configService, jobType),
+        ]),
+      ),
+      total: messages.length,
+      messages,
+    };
+  }
+
+  async clear() {
+    this.assertEnabled();
+    this.store.clear();
+
+    const usesFile = Object.values(OutboxJobType).some(
+      (jobType) =>
+        resolveTransportKind(this.configService, jobType) ===
+        TransportKind.FileOutbox,
+    );
+    if (usesFile) {
+      await fs.rm(outboxFilePath(this.configService), { force: true });
+    }
+
+    return { message: 'Yerel gönderim kayıtları temizlendi' };
+  }
+
+  private assertEnabled() {
+    // Endpoint'in varlığı da gizlenir
+    if (
+      this.configService.get<string>('DEV_OUTBOX_ENABLED') !== 'true' ||
+      this.configService.get<string>('NODE_ENV') === 'production'
+    ) {
+      throw new NotFoundException();
+    }
+  }
+
+  private parseChannel(channel?: string) {
+    if (!channel) return undefined;
+    if (!(Object.values(OutboxJobType) as string[]).includes(channel)) {
+      throw new BadRequestException(
+        `Geçersiz kanal. Geçerli değerler: ${Object.values(OutboxJobType).join(', ')}`,
+      );
+    }
+    return channel as OutboxJobType;
+  }
+}
@@ -0,0 +1,12 @@
+const HTML_ENTITIES: Record<string, string> = {
+  '&': '&amp;',
+  '<': '&lt;',
+  '>': '&gt;',
+  '"': '&quot;',
+  "'": '&#39;',
+};
+
+// E-posta gövdelerine eklenen kullanıcı kaynaklı metinler HTML olarak yorumlanmamalı
+export function escapeHtml(value: unknown) {
+  return String(value ?? '').replace(/[&<>"']/g, (char) => HTML_ENTITIES[char]);
+}
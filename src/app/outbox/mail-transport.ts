@@ -0,0 +1,15 @@
+import * as nodemailer from 'nodemailer';
+import { ConfigService } from '@nestjs/config';
+
+// Kuyruktaki tüm e-postalar aynı SMTP ayarlarıyla gönderilir
+export function createMailTransport(configService: ConfigService) {
+  return nodemailer.createTransport({
+    host: configService.get<string>('MAIL_HOST'),
+    port: parseInt(configService.get<string>('MAIL_PORT') || '587'),
+    secure: false,
+    auth: {
+      user: configService.get<string>('MAIL_USER'),
+      pass: configService.get<string>('MAIL_PASSWORD'),
+    },
+  });
+}
@@ -0,0 +1,40 @@
+export enum OutboxJobType {
+  Email = 'email',
+  Push = 'push',
+  Sms = 'sms',
+}
+
+export enum OutboxJobStatus {
+  Pending = 'pending',
+  Processing = 'processing',
+  Completed = 'completed',
+  // Deneme hakkı tükenmiş, yalnızca admin yeniden kuyruğa alabilir
+  Dead = 'dead',
+}
+
+export interface EmailJobPayload {
+  to: string;
+  subject: string;
+  text: string;
+  html?: string;
+  // Verilmezse MAIL_FROM kullanılır
+  from?: string;
+}
+
+export interface PushJobPayload {
+  userId: number;
+  title: string;
+  body: string;
+  data?: Record<string, unknown>;
+}
+
+export interface SmsJobPayload {
+  to: string;
+  body: string;
+}
+
+export interface OutboxJobPayloads {
+  [OutboxJobType.Email]: EmailJobPayload;
+  [OutboxJobType.Push]: PushJobPayload;
+  [OutboxJobType.Sms]: SmsJobPayload;
+}
@@ -0,0 +1,96 @@
+import { ConfigService } from '@nestjs/config';
+import { FirebaseAdminService } from '../firebase/fcm/firebase-admin.service';
+import { OutboxJobType } from './outbox-job';
+import { ChannelTransport, TransportKind } from './outbox-transport';
+import { ConsoleTransport } from './transports/console.transport';
+import { FcmPushTransport } from './transports/fcm-push.transport';
+import {
+  DEFAULT_OUTBOX_FILE_PATH,
+  FileOutboxTransport,
+} from './transports/file-outbox.transport';
+import {
+  InMemoryOutboxStore,
+  InMemoryTransport,
+} from './transports/in-memory.transport';
+import { SmtpEmailTransport } from './transports/smtp-email.transport';
+
+const CONFIG_KEYS: Record<OutboxJobType, string> = {
+  [OutboxJobType.Email]: 'EMAIL_TRANSPORT',
+  [OutboxJobType.Push]: 'PUSH_TRANSPORT',
+  [OutboxJobType.Sms]: 'SMS_TRANSPORT',
+};
+
+// SMS sağlayıcısı henüz yok; üretimde de loga yazılır
+const DEFAULT_KINDS: Record<OutboxJobType, TransportKind> = {
+  [OutboxJobType.Email]: TransportKind.Smtp,
+  [OutboxJobType.Push]: TransportKind.Fcm,
+  [OutboxJobType.Sms]: TransportKind.Console,
+};
+
+const LOCAL_KINDS = [
+  TransportKind.Console,
+  TransportKind.FileOutbox,
+  TransportKind.Memory,
+];
+
+export const SUPPORTED_TRANSPORT_KINDS: Record<OutboxJobType, TransportKind[]> =
+  {
+    [OutboxJobType.Email]: [TransportKind.Smtp, ...LOCAL_KINDS],
+    [OutboxJobType.Push]: [TransportKind.Fcm, ...LOCAL_KINDS],
+    [OutboxJobType.Sms]: LOCAL_KINDS,
+  };
+
+export function outboxFilePath(configService: ConfigService) {
+  return (
+    configService.get<string>('OUTBOX_FILE_PATH') || DEFAULT_OUTBOX_FILE_PATH
+  );
+}
+
+// Ayar verilmemişse test ortamında her kanal bellekte kaydedilir
+export function resolveTransportKind(
+  configService: ConfigService,
+  channel: OutboxJobType,
+): TransportKind {
+  const configured = configService.get<string>(CONFIG_KEYS[channel]);
+  if (!configured) {
+    return configService.get<string>('NODE_ENV') === 'test'
+      ? TransportKind.Memory
+      : DEFAULT_KINDS[channel];
+  }
+
+  if (
+    !SUPPORTED_TRANSPORT_KINDS[channel].includes(configured as TransportKind)
+  ) {
+    throw new Error(
+      `Unsupported ${CONFIG_KEYS[channel]} value "${configured}", expected one of: ${SUPPORTED_TRANSPORT_KINDS[channel].join(', ')}`,
+    );
+  }
+  return configured as TransportKind;
+}
+
+export function createChannelTransport<T extends OutboxJobType>(
+  channel: T,
+  deps: {
+    configService: ConfigService;
+    store: InMemoryOutboxStore;
+    firebaseAdminService: FirebaseAdminService;
+  },
+): ChannelTransport<T> {
+  switch (resolveTransportKind(deps.configService, channel)) {
+    case TransportKind.Smtp:
+      return new SmtpEmailTransport(deps.configService) as ChannelTransport<T>;
+    case TransportKind.Fcm:
+      return new FcmPushTransport(
+        deps.firebaseAdminService,
+      ) as ChannelTransport<T>;
+    case TransportKind.FileOutbox:
+      return new FileOutboxTransport(
+        channel,
+        outboxFilePath(deps.configService),
+      );
+    case TransportKind.Memory:
+      return new InMemoryTransport(channel, deps.store);
+    case TransportKind.Console:
+      return new ConsoleTransport(channel);
+  }
+}
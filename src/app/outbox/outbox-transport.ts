@@ -0,0 +1,51 @@
+import { OutboxJobPayloads, OutboxJobType } from './outbox-job';
+
+export const OUTBOX_TRANSPORT = 'OUTBOX_TRANSPORT';
+export const EMAIL_TRANSPORT = 'EMAIL_TRANSPORT';
+export const PUSH_TRANSPORT = 'PUSH_TRANSPORT';
+export const SMS_TRANSPORT = 'SMS_TRANSPORT';
+
+// EMAIL_TRANSPORT, PUSH_TRANSPORT ve SMS_TRANSPORT ayarlarının alabileceği değerler
+export enum TransportKind {
+  Smtp = 'smtp',
+  Fcm = 'fcm',
+  Console = 'console',
+  FileOutbox = 'file-outbox',
+  Memory = 'memory',
+}
+
+/**
+ * Tek bir kanalın (e-posta, push, SMS) gönderim katmanı. Hata fırlatırsa iş
+ * yeniden denenmek üzere kuyruğa döner.
+ */
+export interface ChannelTransport<T extends OutboxJobType = OutboxJobType> {
+  readonly kind: TransportKind;
+  send(payload: OutboxJobPayloads[T]): Promise<void>;
+}
+
+// Kuyruktaki bir işi türüne göre ilgili kanala yönlendirir
+export interface OutboxTransport {
+  deliver<T extends OutboxJobType>(
+    type: T,
+    payload: OutboxJobPayloads[T],
+  ): Promise<void>;
+}
+
+export class ChannelOutboxTransport implements OutboxTransport {
+  constructor(
+    private readonly transports: {
+      [T in OutboxJobType]: ChannelTransport<T>;
+    },
+  ) {}
+
+  async deliver<T extends OutboxJobType>(
+    type: T,
+    payload: OutboxJobPayloads[T],
+  ) {
+    const transport = this.transports[type] as ChannelTransport<T>;
+    if (!transport) {
+      throw new Error(`Unknown outbox job type: ${type}`);
+    }
+    await transport.send(payload);
+  }
+}
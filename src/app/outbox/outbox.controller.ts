@@ -0,0 +1,80 @@
+import {
+  Controller,
+  Get,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RoleGuard } from '../auth/role.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../casl/action';
+import { OutboxService } from './outbox.service';
+import { OutboxJobStatus, OutboxJobType } from './outbox-job';
+
+@ApiTags('admin-outbox')
+@ApiBearerAuth()
+@UseGuards(JwtAuthGuard, RoleGuard)
+@Roles(Role.Admin)
+@Controller('admin/outbox')
+export class OutboxController {
+  constructor(private readonly outboxService: OutboxService) {}
+
+  @Get()
+  @ApiOperation({ summary: 'List outbound delivery jobs' })
+  @ApiQuery({ name: 'status', enum: OutboxJobStatus, required: false })
+  @ApiQuery({ name: 'type', enum: OutboxJobType, required: false })
+  @ApiQuery({ name: 'page', type: Number, required: false })
+  @ApiQuery({ name: 'limit', type: Number, required: false })
+  @ApiResponse({ status: 200, description: 'Gönderim işleri ve sayfa bilgisi' })
+  async findAll(
+    @Query('status') status?: string,
+    @Query('type') type?: string,
+    @Query('page') page?: string,
+    @Query('limit') limit?: string,
+  ) {
+    return this.outboxService.findAll({ status, type, page, limit });
+  }
+
+  @Get('stats')
+  @ApiOperation({ summary: 'Count outbound jobs per status' })
+  @ApiResponse({ status: 200, description: 'Durum bazında iş sayıları' })
+  async getStats() {
+    return this.outboxService.getStats();
+  }
+
+  @Post('replay-dead')
+  @ApiOperation({ summary: 'Requeue every dead-lettered job' })
+  @ApiQuery({ name: 'type', enum: OutboxJobType, required: false })
+  @ApiResponse({ status: 201, description: 'Yeniden kuyruğa alınan iş sayısı' })
+  async replayDead(@Query('type') type?: string) {
+    return this.outboxService.replayDead(type);
+  }
+
+  @Get(':id')
+  @ApiOperation({ summary: 'Get an outbound job with its last error' })
+  @ApiParam({ name: 'id', description: 'Outbound job ID' })
+  @ApiResponse({ status: 404, description: 'Gönderim işi bulunamadı' })
+  async findOne(@Param('id', ParseIntPipe) id: number) {
+    return this.outboxService.findOne(id);
+  }
+
+  @Post(':id/replay')
+  @ApiOperation({ summary: 'Requeue a dead-lettered job' })
+  @ApiParam({ name: 'id', description: 'Outbound job ID' })
+  @ApiResponse({ status: 400, description: 'İş dead durumunda değil' })
+  @ApiResponse({ status: 404, description: 'Gönderim işi bulunamadı' })
+  async replay(@Param('id', ParseIntPipe) id: number) {
+    return this.outboxService.replay(id);
+  }
+}
@@ -0,0 +1,64 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { FirebaseAdminService } from '../firebase/fcm/firebase-admin.service';
+import { OutboxService } from './outbox.service';
+import { OutboxController } from './outbox.controller';
+import { DevOutboxService } from './dev-outbox.service';
+import { DevOutboxController } from './dev-outbox.controller';
+import { OutboxJobType } from './outbox-job';
+import {
+  ChannelOutboxTransport,
+  ChannelTransport,
+  EMAIL_TRANSPORT,
+  OUTBOX_TRANSPORT,
+  PUSH_TRANSPORT,
+  SMS_TRANSPORT,
+} from './outbox-transport';
+import { createChannelTransport } from './outbox-transport.factory';
+import { InMemoryOutboxStore } from './transports/in-memory.transport';
+
+const channelTransportProvider = (token: string, channel: OutboxJobType) => ({
+  provide: token,
+  inject: [ConfigService, InMemoryOutboxStore, FirebaseAdminService],
+  useFactory: (
+    configService: ConfigService,
+    store: InMemoryOutboxStore,
+    firebaseAdminService: FirebaseAdminService,
+  ) =>
+    createChannelTransport(channel, {
+      configService,
+      store,
+      firebaseAdminService,
+    }),
+});
+
+@Module({
+  imports: [PrismaModule],
+  providers: [
+    OutboxService,
+    DevOutboxService,
+    FirebaseAdminService,
+    InMemoryOutboxStore,
+    channelTransportProvider(EMAIL_TRANSPORT, OutboxJobType.Email),
+    channelTransportProvider(PUSH_TRANSPORT, OutboxJobType.Push),
+    channelTransportProvider(SMS_TRANSPORT, OutboxJobType.Sms),
+    {
+      provide: OUTBOX_TRANSPORT,
+      inject: [EMAIL_TRANSPORT, PUSH_TRANSPORT, SMS_TRANSPORT],
+      useFactory: (
+        email: ChannelTransport<OutboxJobType.Email>,
+        push: ChannelTransport<OutboxJobType.Push>,
+        sms: ChannelTransport<OutboxJobType.Sms>,
+      ) =>
+        new ChannelOutboxTransport({
+          [OutboxJobType.Email]: email,
+          [OutboxJobType.Push]: push,
+          [OutboxJobType.Sms]: sms,
+        }),
+    },
+  ],
+  controllers: [OutboxController, DevOutboxController],
+  exports: [OutboxService, InMemoryOutboxStore],
+})
+export class OutboxModule {}
@@ -0,0 +1,155 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { OutboxService, outboxRetryDelay } from './outbox.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { OUTBOX_TRANSPORT } from './outbox-transport';
+import { OutboxJobStatus, OutboxJobType } from './outbox-job';
+
+describe('outboxRetryDelay', () => {
+  it('should back off exponentially up to one hour', () => {
+    expect(outboxRetryDelay(1)).toBe(30 * 1000);
+    expect(outboxRetryDelay(3)).toBe(2 * 60 * 1000);
+    expect(outboxRetryDelay(20)).toBe(60 * 60 * 1000);
+  });
+});
+
+describe('OutboxService', () => {
+  let service: OutboxService;
+  let prismaService: PrismaService;
+  let transport: { deliver: jest.Mock };
+
+  const job = (overrides = {}) => ({
+    id: 7,
+    type: OutboxJobType.Email,
+    payload: { to: 'a@test.com', subject: 'Konu', text: 'Metin' },
+    status: OutboxJobStatus.Processing,
+    attempts: 0,
+    maxAttempts: 3,
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    transport = { deliver: jest.fn() };
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        OutboxService,
+        {
+          provide: PrismaService,
+          useValue: {
+            $queryRaw: jest.fn(),
+            outboundJob: {
+              create: jest.fn(),
+              findUnique: jest.fn(),
+              update: jest.fn(),
+              updateMany: jest.fn(),
+            },
+          },
+        },
+        { provide: OUTBOX_TRANSPORT, useValue: transport },
+      ],
+    }).compile();
+
+    service = module.get<OutboxService>(OutboxService);
+    prismaService = module.get<PrismaService>(PrismaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('enqueue', () => {
+    it('should store the job as pending', async () => {
+      await service.enqueueSms({ to: '+905550000000', body: 'Merhaba' });
+
+      expect(prismaService.outboundJob.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          type: OutboxJobType.Sms,
+          status: OutboxJobStatus.Pending,
+          payload: { to: '+905550000000', body: 'Merhaba' },
+        }),
+      });
+    });
+  });
+
+  describe('processDueJobs', () => {
+    it('should mark delivered jobs as completed', async () => {
+      (prismaService.$queryRaw as jest.Mock).mockResolvedValue([job()]);
+
+      const result = await service.processDueJobs();
+
+      expect(result).toEqual({ processed: 1 });
+      expect(transport.deliver).toHaveBeenCalledWith(
+        OutboxJobType.Email,
+        job().payload,
+      );
+      expect(prismaService.outboundJob.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({
+          status: OutboxJobStatus.Completed,
+          attempts: 1,
+        }),
+      });
+    });
+
+    it('should reschedule failed jobs with backoff', async () => {
+      (prismaService.$queryRaw as jest.Mock).mockResolvedValue([job()]);
+      transport.deliver.mockRejectedValue(new Error('SMTP down'));
+
+      await service.processDueJobs();
+
+      expect(prismaService.outboundJob.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({
+          status: OutboxJobStatus.Pending,
+          attempts: 1,
+          lastError: 'SMTP down',
+          runAt: expect.any(Date),
+        }),
+      });
+    });
+
+    it('should dead-letter jobs that used every attempt', async () => {
+      (prismaService.$queryRaw as jest.Mock).mockResolvedValue([
+        job({ attempts: 2 }),
+      ]);
+      transport.deliver.mockRejectedValue(new Error('SMTP down'));
+
+      await service.processDueJobs();
+
+      expect(prismaService.outboundJob.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({
+          status: OutboxJobStatus.Dead,
+          attempts: 3,
+        }),
+      });
+    });
+  });
+
+  describe('replay', () => {
+    it('should requeue dead jobs', async () => {
+      jest
+        .spyOn(prismaService.outboundJob, 'findUnique')
+        .mockResolvedValue(job({ status: OutboxJobStatus.Dead }) as any);
+
+      await service.replay(7);
+
+      expect(prismaService.outboundJob.update).toHaveBeenCalledWith({
+        where: { id: 7 },
+        data: expect.objectContaining({
+          status: OutboxJobStatus.Pending,
+          attempts: 0,
+        }),
+      });
+    });
+
+    it('should reject jobs that are not dead', async () => {
+      jest
+        .spyOn(prismaService.outboundJob, 'findUnique')
+        .mockResolvedValue(job({ status: OutboxJobStatus.Pending }) as any);
+
+      await expect(service.replay(7)).rejects.toThrow(BadRequestException);
+    });
+  });
+});
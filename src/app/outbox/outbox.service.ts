@@ -0,0 +1,284 @@
+import {
+  BadRequestException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { OutboundJob, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import {
+  EmailJobPayload,
+  OutboxJobPayloads,
+  OutboxJobStatus,
+  OutboxJobType,
+  PushJobPayload,
+  SmsJobPayload,
+} from './outbox-job';
+import { OUTBOX_TRANSPORT, OutboxTransport } from './outbox-transport';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const CLAIM_BATCH_SIZE = 20;
+const BASE_RETRY_DELAY_MS = 30 * 1000;
+const MAX_RETRY_DELAY_MS = 60 * 60 * 1000;
+// Bu süreden uzun "processing" kalan iş, çöken bir worker'dan kalmıştır
+const STALE_LOCK_MS = 5 * 60 * 1000;
+const MAX_ERROR_LENGTH = 1000;
+
+// Üstel geri çekilme: 30 sn, 1 dk, 2 dk ... en fazla 1 saat
+export function outboxRetryDelay(attempts: number) {
+  return Math.min(
+    BASE_RETRY_DELAY_MS * 2 ** Math.max(0, attempts - 1),
+    MAX_RETRY_DELAY_MS,
+  );
+}
+
+/**
+ * Dışarıya giden tüm e-posta, push ve SMS gönderimleri önce OutboundJob
+ * tablosuna yazılır; worker bunları sırayla gönderir, hata alanları geri
+ * çekilmeyle yeniden dener ve deneme hakkı bitenleri "dead" olarak bırakır.
+ */
+@Injectable()
+export class OutboxService {
+  private readonly logger = new Logger(OutboxService.name);
+  private processing = false;
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(OUTBOX_TRANSPORT) private readonly transport: OutboxTransport,
+  ) {}
+
+  async enqueue<T extends OutboxJobType>(
+    type: T,
+    payload: OutboxJobPayloads[T],
+    options: { maxAttempts?: number; runAt?: Date } = {},
+  ) {
+    return this.prisma.outboundJob.create({
+      data: {
+        type,
+        payload: payload as unknown as Prisma.InputJsonValue,
+        status: OutboxJobStatus.Pending,
+        maxAttempts: options.maxAttempts,
+        runAt: options.runAt,
+      },
+    });
+  }
+
+  async enqueueEmail(payload: EmailJobPayload) {
+    return this.enqueue(OutboxJobType.Email, payload);
+  }
+
+  async enqueuePush(payload: PushJobPayload) {
+    return this.enqueue(OutboxJobType.Push, payload);
+  }
+
+  async enqueueSms(payload: SmsJobPayload) {
+    return this.enqueue(OutboxJobType.Sms, payload);
+  }
+
+  @Cron(CronExpression.EVERY_10_SECONDS)
+  async processQueue() {
+    // Önceki tur bitmeden yenisi başlamaz
+    if (this.processing) return;
+
+    this.processing = true;
+    try {
+      const { processed } = await this.processDueJobs();
+      if (processed > 0) {
+        this.logger.debug(`Processed ${processed} outbound jobs`);
+      }
+    } catch (error) {
+      this.logger.error('Error processing outbound jobs', error.stack);
+    } finally {
+      this.processing = false;
+    }
+  }
+
+  async processDueJobs(limit = CLAIM_BATCH_SIZE) {
+    const jobs = await this.claimDueJobs(limit);
+    for (const job of jobs) {
+      await this.runJob(job);
+    }
+    return { processed: jobs.length };
+  }
+
+  async findAll(
+    query: {
+      status?: string;
+      type?: string;
+      page?: unknown;
+      limit?: unknown;
+    } = {},
+  ) {
+    const page = Math.max(1, Number(query.page) || 1);
+    const limit = Math.min(
+      MAX_PAGE_SIZE,
+      Math.max(1, Number(query.limit) || DEFAULT_PAGE_SIZE),
+    );
+    const where: Prisma.OutboundJobWhereInput = {
+      ...(query.status && {
+        status: this.parseEnum(OutboxJobStatus, query.status, 'durum'),
+      }),
+      ...(query.type && {
+        type: this.parseEnum(OutboxJobType, query.type, 'iş türü'),
+      }),
+    };
+
+    const [data, total] = await Promise.all([
+      this.prisma.outboundJob.findMany({
+        where,
+        orderBy: { createdAt: 'desc' },
+        skip: (page - 1) * limit,
+        take: limit,
+      }),
+      this.prisma.outboundJob.count({ where }),
+    ]);
+
+    return {
+      data,
+      meta: { total, page, limit, totalPages: Math.ceil(total / limit) },
+    };
+  }
+
+  async getStats() {
+    const groups = await this.prisma.outboundJob.groupBy({
+      by: ['status'],
+      _count: { _all: true },
+    });
+
+    return Object.fromEntries(
+      Object.values(OutboxJobStatus).map((status) => [
+        status,
+        groups.find((group) => group.status === status)?._count._all ?? 0,
+      ]),
+    );
+  }
+
+  async findOne(id: number) {
+    const job = await this.prisma.outboundJob.findUnique({ where: { id } });
+    if (!job) {
+      throw new NotFoundException(`${id} ID'li gönderim işi bulunamadı`);
+    }
+    return job;
+  }
+
+  async replay(id: number) {
+    const job = await this.findOne(id);
+    if (job.status !== OutboxJobStatus.Dead) {
+      throw new BadRequestException(
+        'Yalnızca başarısız (dead) işler yeniden kuyruğa alınabilir',
+      );
+    }
+
+    return this.prisma.outboundJob.update({
+      where: { id },
+      data: this.replayData(),
+    });
+  }
+
+  async replayDead(type?: string) {
+    const { count } = await this.prisma.outboundJob.updateMany({
+      where: {
+        status: OutboxJobStatus.Dead,
+        ...(type && { type: this.parseEnum(OutboxJobType, type, 'iş türü') }),
+      },
+      data: this.replayData(),
+    });
+    return { replayed: count };
+  }
+
+  // Bekleyen işleri kilitleyerek alır; birden fazla worker aynı işi almaz
+  private async claimDueJobs(limit: number) {
+    const staleBefore = new Date(Date.now() - STALE_LOCK_MS);
+
+    return this.prisma.$queryRaw<OutboundJob[]>`
+      UPDATE "OutboundJob"
+      SET "status" = ${OutboxJobStatus.Processing},
+          "lockedAt" = NOW(),
+          "updatedAt" = NOW()
+      WHERE "id" IN (
+        SELECT "id" FROM "OutboundJob"
+        WHERE ("status" = ${OutboxJobStatus.Pending} AND "runAt" <= NOW())
+           OR ("status" = ${OutboxJobStatus.Processing} AND "lockedAt" < ${staleBefore})
+        ORDER BY "runAt"
+        LIMIT ${limit}
+        FOR UPDATE SKIP LOCKED
+      )
+      RETURNING *
+    `;
+  }
+
+  private async runJob(job: OutboundJob) {
+    const attempts = job.attempts + 1;
+
+    try {
+      await this.transport.deliver(
+        job.type as OutboxJobType,
+        job.payload as unknown as OutboxJobPayloads[OutboxJobType],
+      );
+      await this.prisma.outboundJob.update({
+        where: { id: job.id },
+        data: {
+          status: OutboxJobStatus.Completed,
+          attempts,
+          lockedAt: null,
+          completedAt: new Date(),
+        },
+      });
+    } catch (error) {
+      const dead = attempts >= job.maxAttempts;
+      const message = String(error?.message ?? error).slice(
+        0,
+        MAX_ERROR_LENGTH,
+      );
+
+      await this.prisma.outboundJob.update({
+        where: { id: job.id },
+        data: {
+          status: dead ? OutboxJobStatus.Dead : OutboxJobStatus.Pending,
+          attempts,
+          lockedAt: null,
+          lastError: message,
+          ...(!dead && {
+            runAt: new Date(Date.now() + outboxRetryDelay(attempts)),
+          }),
+        },
+      });
+
+      if (dead) {
+        this.logger.error(
+          `Outbound ${job.type} job ${job.id} moved to dead letter after ${attempts} attempts: ${message}`,
+        );
+      } else {
+        this.logger.warn(
+          `Outbound ${job.type} job ${job.id} failed (attempt ${attempts}/${job.maxAttempts}): ${message}`,
+        );
+      }
+    }
+  }
+
+  private replayData(): Prisma.OutboundJobUpdateManyMutationInput {
+    return {
+      status: OutboxJobStatus.Pending,
+      attempts: 0,
+      runAt: new Date(),
+      lockedAt: null,
+      completedAt: null,
+    };
+  }
+
+  private parseEnum<T extends Record<string, string>>(
+    values: T,
+    value: string,
+    label: string,
+  ): T[keyof T] {
+    if (!Object.values(values).includes(value)) {
+      throw new BadRequestException(
+        `Geçersiz ${label}. Geçerli değerler: ${Object.values(values).join(', ')}`,
+      );
+    }
+    return value as T[keyof T];
+  }
+}
@@ -0,0 +1,17 @@
+import { Logger } from '@nestjs/common';
+import { OutboxJobPayloads, OutboxJobType } from '../outbox-job';
+import { ChannelTransport, TransportKind } from '../outbox-transport';
+
+// Mesajı göndermek yerine uygulama loguna yazar
+export class ConsoleTransport<T extends OutboxJobType>
+  implements ChannelTransport<T>
+{
+  readonly kind = TransportKind.Console;
+  private readonly logger = new Logger(ConsoleTransport.name);
+
+  constructor(private readonly channel: T) {}
+
+  async send(payload: OutboxJobPayloads[T]) {
+    this.logger.log(`[${this.channel}] ${JSON.stringify(payload)}`);
+  }
+}
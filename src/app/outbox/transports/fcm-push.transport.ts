@@ -0,0 +1,26 @@
+import { FirebaseAdminService } from '../../firebase/fcm/firebase-admin.service';
+import { OutboxJobType, PushJobPayload } from '../outbox-job';
+import { ChannelTransport, TransportKind } from '../outbox-transport';
+
+export class FcmPushTransport implements ChannelTransport<OutboxJobType.Push> {
+  readonly kind = TransportKind.Fcm;
+
+  constructor(private readonly firebaseAdminService: FirebaseAdminService) {}
+
+  async send(payload: PushJobPayload) {
+    const result = await this.firebaseAdminService.sendToUser(
+      payload.userId,
+      payload.title,
+      payload.body,
+      payload.data,
+    );
+
+    // Geçersiz token'lar zaten silindi; yalnızca hiçbir cihaza ulaşılamayan
+    // geçici hatalar yeniden denenir
+    if (result.sent === 0 && result.failed > result.pruned) {
+      throw new Error(
+        `Push delivery failed for all ${result.failed - result.pruned} devices of user ${payload.userId}`,
+      );
+    }
+  }
+}
@@ -0,0 +1,45 @@
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { OutboxJobPayloads, OutboxJobType } from '../outbox-job';
+import { ChannelTransport, TransportKind } from '../outbox-transport';
+import { RecordedMessage } from './in-memory.transport';
+
+export const DEFAULT_OUTBOX_FILE_PATH = '.tmp/outbox.jsonl';
+
+// Her mesajı dosyaya bir JSON satırı olarak ekler
+export class FileOutboxTransport<T extends OutboxJobType>
+  implements ChannelTransport<T>
+{
+  readonly kind = TransportKind.FileOutbox;
+
+  constructor(
+    private readonly channel: T,
+    private readonly filePath: string,
+  ) {}
+
+  async send(payload: OutboxJobPayloads[T]) {
+    const message: RecordedMessage = {
+      channel: this.channel,
+      transport: this.kind,
+      payload,
+      sentAt: new Date().toISOString(),
+    };
+    await fs.mkdir(dirname(this.filePath), { recursive: true });
+    await fs.appendFile(this.filePath, `${JSON.stringify(message)}\n`);
+  }
+}
+
+export async function readFileOutbox(
+  filePath: string,
+): Promise<RecordedMessage[]> {
+  try {
+    const content = await fs.readFile(filePath, 'utf8');
+    return content
+      .split('\n')
+      .filter((line) => line.trim())
+      .map((line) => JSON.parse(line));
+  } catch (error) {
+    if (error.code === 'ENOENT') return [];
+    throw error;
+  }
+}
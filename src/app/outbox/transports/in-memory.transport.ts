@@ -0,0 +1,59 @@
+import { Injectable } from '@nestjs/common';
+import { OutboxJobPayloads, OutboxJobType } from '../outbox-job';
+import { ChannelTransport, TransportKind } from '../outbox-transport';
+
+export interface RecordedMessage {
+  channel: OutboxJobType;
+  transport: TransportKind;
+  payload: unknown;
+  sentAt: string;
+}
+
+// Bellek sınırsız büyümesin diye en eski kayıtlar atılır
+const MAX_RECORDED_MESSAGES = 1000;
+
+/**
+ * "memory" kanallarının ortak kaydı. Testler ve GET /dev/outbox gönderilen
+ * mesajları buradan okur.
+ */
+@Injectable()
+export class InMemoryOutboxStore {
+  private messages: RecordedMessage[] = [];
+
+  record(channel: OutboxJobType, payload: unknown) {
+    this.messages.push({
+      channel,
+      transport: TransportKind.Memory,
+      payload,
+      sentAt: new Date().toISOString(),
+    });
+    if (this.messages.length > MAX_RECORDED_MESSAGES) {
+      this.messages.shift();
+    }
+  }
+
+  list(channel?: OutboxJobType) {
+    return this.messages.filter(
+      (message) => !channel || message.channel === channel,
+    );
+  }
+
+  clear() {
+    this.messages = [];
+  }
+}
+
+export class InMemoryTransport<T extends OutboxJobType>
+  implements ChannelTransport<T>
+{
+  readonly kind = TransportKind.Memory;
+
+  constructor(
+    private readonly channel: T,
+    private readonly store: InMemoryOutboxStore,
+  ) {}
+
+  async send(payload: OutboxJobPayloads[T]) {
+    this.store.record(this.channel, payload);
+  }
+}
@@ -0,0 +1,23 @@
+import { ConfigService } from '@nestjs/config';
+import { createMailTransport } from '../mail-transport';
+import { EmailJobPayload, OutboxJobType } from '../outbox-job';
+import { ChannelTransport, TransportKind } from '../outbox-transport';
+
+export class SmtpEmailTransport
+  implements ChannelTransport<OutboxJobType.Email>
+{
+  readonly kind = TransportKind.Smtp;
+  private transporter = createMailTransport(this.configService);
+
+  constructor(private readonly configService: ConfigService) {}
+
+  async send(payload: EmailJobPayload) {
+    await this.transporter.sendMail({
+      from: payload.from ?? this.configService.get<string>('MAIL_FROM'),
+      to: payload.to,
+      subject: payload.subject,
+      text: payload.text,
+      html: payload.html,
+    });
+  }
+}
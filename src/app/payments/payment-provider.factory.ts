@@ -0,0 +1,46 @@
+import { ConfigService } from '@nestjs/config';
+import { PaymentProvider, PaymentProviderKind } from './payment-provider';
+import { MockPaymentProvider } from './providers/mock-payment.provider';
+
+export const SUPPORTED_PAYMENT_PROVIDERS = Object.values(PaymentProviderKind);
+
+// Yalnızca yerel geliştirme için; üretimde PAYMENT_WEBHOOK_SECRET verilmelidir
+const DEFAULT_WEBHOOK_SECRET = 'local-payment-webhook-secret';
+
+export function resolvePaymentProviderKind(
+  configService: ConfigService,
+): PaymentProviderKind {
+  const configured = configService.get<string>('PAYMENT_PROVIDER');
+  if (!configured) return PaymentProviderKind.Mock;
+
+  if (
+    !SUPPORTED_PAYMENT_PROVIDERS.includes(configured as PaymentProviderKind)
+  ) {
+    throw new Error(
+      `Unsupported PAYMENT_PROVIDER value "${configured}", expected one of: ${SUPPORTED_PAYMENT_PROVIDERS.join(', ')}`,
+    );
+  }
+  return configured as PaymentProviderKind;
+}
+
+export function paymentWebhookSecret(configService: ConfigService) {
+  const secret = configService.get<string>('PAYMENT_WEBHOOK_SECRET');
+  if (secret) return secret;
+
+  if (configService.get<string>('NODE_ENV') === 'production') {
+    throw new Error('PAYMENT_WEBHOOK_SECRET must be set in production');
+  }
+  return DEFAULT_WEBHOOK_SECRET;
+}
+
+export function createPaymentProvider(
+  configService: ConfigService,
+): PaymentProvider {
+  switch (resolvePaymentProviderKind(configService)) {
+    case PaymentProviderKind.Mock:
+      return new MockPaymentProvider(
+        configService.get<string>('HOST_URL') || '',
+        paymentWebhookSecret(configService),
+      );
+  }
+}
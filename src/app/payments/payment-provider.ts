@@ -0,0 +1,52 @@
+import { PaymentEventType } from './payment';
+
+export const PAYMENT_PROVIDER = 'PAYMENT_PROVIDER';
+
+// PAYMENT_PROVIDER ayarının alabileceği değerler
+export enum PaymentProviderKind {
+  Mock = 'mock',
+}
+
+export interface CreatePaymentIntentInput {
+  amount: number;
+  currency: string;
+  // Sağlayıcı tarafında ödemeyi bağışla ilişkilendiren referans
+  reference: string;
+  description: string;
+}
+
+export interface PaymentIntent {
+  providerPaymentId: string;
+  // 3-D Secure doğrulaması için bağışçının yönlendirileceği adres
+  redirectUrl: string | null;
+}
+
+export interface PaymentRefund {
+  providerRefundId: string;
+  // false ise iade sonucu refund.succeeded webhook'u ile bildirilir
+  completed: boolean;
+}
+
+export interface PaymentWebhookEventData {
+  eventId: string;
+  type: PaymentEventType;
+  providerPaymentId: string;
+  amount: number | null;
+  failureReason: string | null;
+  payload: Record<string, unknown>;
+}
+
+/**
+ * Ödeme sağlayıcısı katmanı. Ödeme başlatma, imzalı webhook gövdelerini
+ * doğrulayıp ortak olay biçimine çevirme ve iade işlemlerini yapar.
+ */
+export interface PaymentProvider {
+  readonly kind: PaymentProviderKind;
+  createIntent(input: CreatePaymentIntentInput): Promise<PaymentIntent>;
+  // İmza geçersizse hata fırlatır
+  parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentWebhookEventData;
+  refund(providerPaymentId: string, amount: number): Promise<PaymentRefund>;
+}
@@ -0,0 +1,37 @@
+import { DonationStatus } from '../donors/donation-status';
+
+// Sağlayıcıdan bağımsız webhook olay türleri
+export enum PaymentEventType {
+  PaymentSucceeded = 'payment.succeeded',
+  PaymentFailed = 'payment.failed',
+  RefundSucceeded = 'refund.succeeded',
+}
+
+export enum PaymentWebhookEventStatus {
+  // Olayın ödemesi henüz bir bağışla eşleşmedi
+  Unmatched = 'unmatched',
+  Processed = 'processed',
+  // Bağışın mevcut durumuyla çelişen veya tutarı tutmayan olay
+  Ignored = 'ignored',
+}
+
+// Her olayın bağışı hangi durumlardan hangi duruma geçirebileceği
+export const PAYMENT_EVENT_TRANSITIONS: Record<
+  PaymentEventType,
+  { from: string[]; to: DonationStatus }
+> = {
+  [PaymentEventType.PaymentSucceeded]: {
+    from: [DonationStatus.Pending, DonationStatus.Failed],
+    to: DonationStatus.Succeeded,
+  },
+  [PaymentEventType.PaymentFailed]: {
+    from: [DonationStatus.Pending],
+    to: DonationStatus.Failed,
+  },
+  [PaymentEventType.RefundSucceeded]: {
+    from: [DonationStatus.Succeeded],
+    to: DonationStatus.Refunded,
+  },
+};
+
+export const PAYMENT_CURRENCY = 'TRY';
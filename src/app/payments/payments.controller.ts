@@ -0,0 +1,84 @@
+import {
+  Controller,
+  Get,
+  HttpCode,
+  HttpStatus,
+  Param,
+  ParseIntPipe,
+  Post,
+  Query,
+  RawBodyRequest,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiOperation,
+  ApiParam,
+  ApiQuery,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { Request } from 'express';
+import { PaymentsService } from './payments.service';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RoleGuard } from '../auth/role.guard';
+import { Roles } from '../auth/decorators/roles.decorator';
+import { Role } from '../casl/action';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+
+@ApiTags('payments')
+@Controller('payments')
+export class PaymentsController {
+  constructor(private readonly paymentsService: PaymentsService) {}
+
+  @Post('webhooks/:provider')
+  @HttpCode(HttpStatus.OK)
+  @ApiOperation({ summary: 'Receive a signed payment provider webhook' })
+  @ApiParam({ name: 'provider', description: 'Ödeme sağlayıcısı (ör. mock)' })
+  @ApiResponse({ status: 200, description: 'Olay alındı' })
+  @ApiResponse({ status: 401, description: 'Geçersiz imza' })
+  async handleWebhook(
+    @Param('provider') provider: string,
+    @Req() req: RawBodyRequest<Request>,
+  ) {
+    return this.paymentsService.handleWebhook(
+      provider,
+      req.rawBody,
+      req.headers,
+    );
+  }
+
+  @Post('donations/:id/refund')
+  @UseGuards(JwtAuthGuard, RoleGuard)
+  @Roles(Role.Admin)
+  @ApiBearerAuth()
+  @ApiOperation({ summary: 'Refund a paid donation (admin)' })
+  @ApiResponse({ status: 201, description: 'İade başlatıldı' })
+  async refundDonation(
+    @Param('id', ParseIntPipe) id: number,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.paymentsService.refundDonation(id, req.user.id);
+  }
+
+  @Get('mock/:paymentId/authorize')
+  @ApiOperation({
+    summary: 'Complete the mock 3-D Secure step (non-production)',
+  })
+  @ApiQuery({
+    name: 'outcome',
+    enum: ['succeeded', 'failed'],
+    required: false,
+  })
+  @ApiResponse({
+    status: 404,
+    description: 'PAYMENT_MOCK_AUTHORIZE_ENABLED açık değil veya üretim ortamı',
+  })
+  async authorizeMockPayment(
+    @Param('paymentId') paymentId: string,
+    @Query('outcome') outcome?: string,
+  ) {
+    return this.paymentsService.authorizeMockPayment(paymentId, outcome);
+  }
+}
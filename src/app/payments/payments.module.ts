@@ -0,0 +1,24 @@
+import { Module } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { PrismaModule } from '../prisma/prisma.module';
+import { CampaignsModule } from '../campaigns/campaigns.module';
+import { PaymentsService } from './payments.service';
+import { PaymentsController } from './payments.controller';
+import { PAYMENT_PROVIDER } from './payment-provider';
+import { createPaymentProvider } from './payment-provider.factory';
+
+@Module({
+  imports: [PrismaModule, CampaignsModule],
+  providers: [
+    PaymentsService,
+    {
+      provide: PAYMENT_PROVIDER,
+      inject: [ConfigService],
+      useFactory: (configService: ConfigService) =>
+        createPaymentProvider(configService),
+    },
+  ],
+  controllers: [PaymentsController],
+  exports: [PaymentsService],
+})
+export class PaymentsModule {}
@@ -0,0 +1,384 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ConflictException,
+  NotFoundException,
+  ServiceUnavailableException,
+  UnauthorizedException,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PaymentsService } from './payments.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { PAYMENT_PROVIDER } from './payment-provider';
+import {
+  MOCK_SIGNATURE_HEADER,
+  MockPaymentProvider,
+  signMockWebhook,
+} from './providers/mock-payment.provider';
+
+describe('PaymentsService', () => {
+  let service: PaymentsService;
+  let prismaService: PrismaService;
+  let campaignsService: CampaignsService;
+  let provider: MockPaymentProvider;
+  let env: Record<string, string>;
+
+  const secret = 'test-secret';
+
+  const donation = (overrides = {}) => ({
+    id: 5,
+    amount: 250,
+    status: 'pending',
+    campaignId: 3,
+    paymentProvider: 'mock',
+    providerPaymentId: 'mock_pi_1',
+    providerRefundId: null,
+    ...overrides,
+  });
+
+  const webhook = (body: object, signature?: string) => {
+    const rawBody = JSON.stringify(body);
+    return {
+      rawBody: Buffer.from(rawBody),
+      headers: {
+        [MOCK_SIGNATURE_HEADER]: signature ?? signMockWebhook(secret, rawBody),
+      },
+    };
+  };
+
+  const succeededEvent = (amount = 250) =>
+    webhook({
+      id: 'evt_1',
+      type: 'payment.succeeded',
+      data: { paymentId: 'mock_pi_1', amount },
+    });
+
+  beforeEach(async () => {
+    provider = new MockPaymentProvider('http://localhost/api/', secret);
+    env = {};
+
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        PaymentsService,
+        { provide: PAYMENT_PROVIDER, useValue: provider },
+        {
+          provide: PrismaService,
+          useValue: {
+            donation: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+              update: jest.fn(),
+              updateMany: jest.fn().mockResolvedValue({ count: 1 }),
+            },
+            donationSubscription: {
+              count: jest.fn().mockResolvedValue(0),
+            },
+            paymentWebhookEvent: {
+              create: jest.fn((args) =>
+                Promise.resolve({ id: 1, ...args.data }),
+              ),
+              findMany: jest.fn().mockResolvedValue([]),
+              update: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: CampaignsService,
+          useValue: { syncGoalStatus: jest.fn() },
+        },
+        {
+          provide: ConfigService,
+          useValue: { get: (key: string) => env[key] },
+        },
+      ],
+    }).compile();
+
+    service = module.get<PaymentsService>(PaymentsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+    campaignsService = module.get<CampaignsService>(CampaignsService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('startPayment', () => {
+    it('should store the provider payment and its 3-D Secure redirect', async () => {
+      await service.startPayment(donation({ providerPaymentId: null }) as any);
+
+      expect(prismaService.donation.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: {
+          paymentProvider: 'mock',
+          providerPaymentId: expect.stringMatching(/^mock_pi_/),
+          paymentRedirectUrl: expect.stringMatching(
+            /^http:\/\/localhost\/api\/payments\/mock\/mock_pi_\w+\/authorize$/,
+          ),
+        },
+      });
+    });
+
+    it('should mark the donation as failed when the provider is unavailable', async () => {
+      jest
+        .spyOn(provider, 'createIntent')
+        .mockRejectedValue(new Error('timeout'));
+
+      await expect(service.startPayment(donation() as any)).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+      expect(prismaService.donation.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: { status: 'failed', failureReason: 'timeout' },
+      });
+    });
+
+    it('should not take payments through the mock provider in production', async () => {
+      env.NODE_ENV = 'production';
+      jest.spyOn(provider, 'createIntent');
+
+      await expect(service.startPayment(donation() as any)).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+      expect(provider.createIntent).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('handleWebhook', () => {
+    it('should mark the donation as paid and check the campaign goal', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+      const { rawBody, headers } = succeededEvent();
+
+      expect(await service.handleWebhook('mock', rawBody, headers)).toEqual({
+        received: true,
+        status: 'processed',
+      });
+      expect(prismaService.donation.updateMany).toHaveBeenCalledWith({
+        where: { id: 5, status: 'pending' },
+        data: {
+          status: 'succeeded',
+          paidAt: expect.any(Date),
+          failureReason: null,
+          receiptNumber: expect.stringMatching(
+            /^BGS-\d{4}-000005-[0-9A-Z]{8}$/,
+          ),
+        },
+      });
+      expect(campaignsService.syncGoalStatus).toHaveBeenCalledWith(3);
+    });
+
+    it('should reject payloads with an invalid signature', async () => {
+      const { rawBody } = succeededEvent();
+
+      await expect(
+        service.handleWebhook('mock', rawBody, {
+          [MOCK_SIGNATURE_HEADER]: signMockWebhook('other', rawBody.toString()),
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+      expect(prismaService.paymentWebhookEvent.create).not.toHaveBeenCalled();
+    });
+
+    it('should reject replayed signatures older than the tolerance', async () => {
+      const body = JSON.stringify({
+        id: 'evt_1',
+        type: 'payment.succeeded',
+        data: { paymentId: 'mock_pi_1' },
+      });
+      const oldTimestamp = Math.floor(Date.now() / 1000) - 3600;
+
+      await expect(
+        service.handleWebhook('mock', Buffer.from(body), {
+          [MOCK_SIGNATURE_HEADER]: signMockWebhook(secret, body, oldTimestamp),
+        }),
+      ).rejects.toThrow(UnauthorizedException);
+    });
+
+    it('should skip events that were already received', async () => {
+      jest.spyOn(prismaService.paymentWebhookEvent, 'create').mockRejectedValue(
+        new Prisma.PrismaClientKnownRequestError('duplicate', {
+          code: 'P2002',
+          clientVersion: 'test',
+        }),
+      );
+      const { rawBody, headers } = succeededEvent();
+
+      expect(await service.handleWebhook('mock', rawBody, headers)).toEqual({
+        received: true,
+        duplicate: true,
+      });
+      expect(prismaService.donation.updateMany).not.toHaveBeenCalled();
+    });
+
+    it('should ignore a success event whose amount does not match', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+      const { rawBody, headers } = succeededEvent(25);
+
+      await service.handleWebhook('mock', rawBody, headers);
+
+      expect(prismaService.donation.updateMany).not.toHaveBeenCalled();
+      expect(prismaService.paymentWebhookEvent.update).toHaveBeenCalledWith({
+        where: { id: 1 },
+        data: expect.objectContaining({ status: 'ignored', donationId: 5 }),
+      });
+    });
+
+    it('should refund a late payment of a subscription charge that was already retried', async () => {
+      jest.spyOn(prismaService.donation, 'findUnique').mockResolvedValue(
+        donation({
+          status: 'failed',
+          campaignId: null,
+          subscriptionId: 11,
+        }) as any,
+      );
+      jest
+        .spyOn(prismaService.donation, 'update')
+        .mockResolvedValue(donation({ status: 'refunded' }) as any);
+      jest.spyOn(provider, 'refund');
+      const { rawBody, headers } = succeededEvent();
+
+      await service.handleWebhook('mock', rawBody, headers);
+
+      expect(prismaService.donationSubscription.count).toHaveBeenCalledWith({
+        where: { pendingDonationId: 5 },
+      });
+      expect(provider.refund).toHaveBeenCalledWith('mock_pi_1', 250);
+      expect(prismaService.paymentWebhookEvent.update).toHaveBeenCalledWith(
+        expect.objectContaining({
+          data: expect.objectContaining({
+            status: 'processed',
+            note: expect.stringContaining('iade edildi'),
+          }),
+        }),
+      );
+    });
+
+    it('should keep events for unknown payments for later reconciliation', async () => {
+      jest.spyOn(prismaService.donation, 'findUnique').mockResolvedValue(null);
+      const { rawBody, headers } = succeededEvent();
+
+      expect(await service.handleWebhook('mock', rawBody, headers)).toEqual({
+        received: true,
+        status: 'unmatched',
+      });
+      expect(prismaService.paymentWebhookEvent.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('refundDonation', () => {
+    it('should refund a paid donation through the provider', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(donation({ status: 'succeeded' }) as any);
+      jest
+        .spyOn(prismaService.donation, 'update')
+        .mockResolvedValue(donation({ status: 'refunded' }) as any);
+
+      await service.refundDonation(5, 1);
+
+      expect(prismaService.donation.updateMany).toHaveBeenCalledWith({
+        where: { id: 5, status: 'succeeded', providerRefundId: null },
+        data: { providerRefundId: 'pending' },
+      });
+      expect(prismaService.donation.update).toHaveBeenCalledWith({
+        where: { id: 5 },
+        data: {
+          providerRefundId: expect.stringMatching(/^mock_re_/),
+          status: 'refunded',
+          refundedAt: expect.any(Date),
+        },
+      });
+    });
+
+    it('should only refund paid donations', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+
+      await expect(service.refundDonation(5, 1)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it('should not call the provider when another refund claimed the donation', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(donation({ status: 'succeeded' }) as any);
+      jest
+        .spyOn(prismaService.donation, 'updateMany')
+        .mockResolvedValue({ count: 0 });
+      jest.spyOn(provider, 'refund');
+
+      await expect(service.refundDonation(5, 1)).rejects.toThrow(
+        ConflictException,
+      );
+      expect(provider.refund).not.toHaveBeenCalled();
+    });
+
+    it('should release the claim when the provider refund fails', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(donation({ status: 'succeeded' }) as any);
+      jest.spyOn(provider, 'refund').mockRejectedValue(new Error('timeout'));
+
+      await expect(service.refundDonation(5, 1)).rejects.toThrow(
+        ServiceUnavailableException,
+      );
+      expect(prismaService.donation.updateMany).toHaveBeenLastCalledWith({
+        where: { id: 5, providerRefundId: 'pending' },
+        data: { providerRefundId: null },
+      });
+      expect(prismaService.donation.update).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('authorizeMockPayment', () => {
+    it('should be unavailable unless explicitly enabled', async () => {
+      await expect(
+        service.authorizeMockPayment('mock_pi_1', 'succeeded'),
+      ).rejects.toThrow(NotFoundException);
+      expect(prismaService.donation.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should settle the payment through a signed webhook when enabled', async () => {
+      env.PAYMENT_MOCK_AUTHORIZE_ENABLED = 'true';
+      env.PAYMENT_WEBHOOK_SECRET = secret;
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+
+      expect(await service.authorizeMockPayment('mock_pi_1')).toEqual({
+        received: true,
+        status: 'processed',
+      });
+    });
+  });
+
+  describe('reconcilePendingPayments', () => {
+    it('should fail payments that stayed pending past the deadline', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findMany')
+        .mockResolvedValue([{ id: 5, providerPaymentId: 'mock_pi_1' }] as any);
+
+      await service.reconcilePendingPayments();
+
+      expect(prismaService.paymentWebhookEvent.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            provider: 'mock',
+            providerPaymentId: 'mock_pi_1',
+            status: 'unmatched',
+          },
+        }),
+      );
+      expect(prismaService.donation.updateMany).toHaveBeenCalledWith({
+        where: { id: 5, status: 'pending' },
+        data: { status: 'failed', failureReason: 'Ödeme zaman aşımına uğradı' },
+      });
+    });
+  });
+});
@@ -0,0 +1,472 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Inject,
+  Injectable,
+  Logger,
+  NotFoundException,
+  ServiceUnavailableException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Cron, CronExpression } from '@nestjs/schedule';
+import { Donation, PaymentWebhookEvent, Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { CampaignsService } from '../campaigns/campaigns.service';
+import { DonationStatus } from '../donors/donation-status';
+import { donationReceiptNumber } from '../receipts/receipt';
+import {
+  PAYMENT_CURRENCY,
+  PAYMENT_EVENT_TRANSITIONS,
+  PaymentEventType,
+  PaymentWebhookEventStatus,
+} from './payment';
+import {
+  PAYMENT_PROVIDER,
+  PaymentProvider,
+  PaymentProviderKind,
+  PaymentRefund,
+} from './payment-provider';
+import { paymentWebhookSecret } from './payment-provider.factory';
+import {
+  MOCK_SIGNATURE_HEADER,
+  signMockWebhook,
+} from './providers/mock-payment.provider';
+
+// Bu süre içinde sonuçlanmayan ödemeler başarısız sayılır
+const PENDING_PAYMENT_TTL_MS = 24 * 60 * 60 * 1000;
+// Sağlayıcıya gönderilmekte olan iadenin geçici kimliği
+const PENDING_REFUND_ID = 'pending';
+
+/**
+ * Parasal bağışların tahsilatı. Bağış "pending" olarak kaydedilip sağlayıcıda
+ * ödeme başlatılır; sonuç imzalı webhook olaylarıyla gelir ve bağışın durumu
+ * bu olaylarla uzlaştırılır.
+ */
+@Injectable()
+export class PaymentsService {
+  private readonly logger = new Logger(PaymentsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    @Inject(PAYMENT_PROVIDER) private readonly provider: PaymentProvider,
+    private readonly campaignsService: CampaignsService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async startPayment(donation: Donation) {
+    let intent;
+    try {
+      this.assertProviderAvailable();
+      intent = await this.provider.createIntent({
+        amount: donation.amount,
+        currency: PAYMENT_CURRENCY,
+        reference: `donation-${donation.id}`,
+        description: `Bağış #${donation.id}`,
+      });
+    } catch (error) {
+      await this.prisma.donation.update({
+        where: { id: donation.id },
+        data: { status: DonationStatus.Failed, failureReason: error.message },
+      });
+      this.logger.error(
+        `Payment intent for donation ${donation.id} failed: ${error.message}`,
+      );
+      throw new ServiceUnavailableException(
+        'Ödeme başlatılamadı, lütfen daha sonra tekrar deneyin',
+      );
+    }
+
+    const updated = await this.prisma.donation.update({
+      where: { id: donation.id },
+      data: {
+        paymentProvider: this.provider.kind,
+        providerPaymentId: intent.providerPaymentId,
+        paymentRedirectUrl: intent.redirectUrl,
+      },
+    });
+
+    // Sağlayıcı webhook'u ödeme kimliği kaydedilmeden önce göndermiş olabilir
+    const reconciled = await this.reconcileUnmatchedEvents(
+      intent.providerPaymentId,
+    );
+    if (reconciled === 0) return updated;
+
+    return this.prisma.donation.findUnique({ where: { id: donation.id } });
+  }
+
+  async handleWebhook(
+    providerKind: string,
+    rawBody: Buffer | undefined,
+    headers: Record<string, string | string[] | undefined>,
+  ) {
+    if (providerKind !== this.provider.kind || this.isMockInProduction()) {
+      throw new NotFoundException(
+        `${providerKind} ödeme sağlayıcısı tanımlı değil`,
+      );
+    }
+    if (!rawBody?.length) {
+      throw new BadRequestException('Webhook gövdesi okunamadı');
+    }
+
+    const event = this.provider.parseWebhook(rawBody, headers);
+
+    // Sağlayıcılar aynı olayı birden fazla kez gönderebilir
+    let stored: PaymentWebhookEvent;
+    try {
+      stored = await this.prisma.paymentWebhookEvent.create({
+        data: {
+          provider: this.provider.kind,
+          eventId: event.eventId,
+          type: event.type,
+          providerPaymentId: event.providerPaymentId,
+          amount: event.amount,
+          failureReason: event.failureReason,
+          payload: event.payload as Prisma.InputJsonValue,
+        },
+      });
+    } catch (error) {
+      if (
+        error instanceof Prisma.PrismaClientKnownRequestError &&
+        error.code === 'P2002'
+      ) {
+        this.logger.log(`Duplicate payment webhook ${event.eventId} skipped`);
+        return { received: true, duplicate: true };
+      }
+      throw error;
+    }
+
+    const status = await this.applyEvent(stored);
+    return { received: true, status };
+  }
+
+  async refundDonation(donationId: number, adminId: number) {
+    this.assertProviderAvailable();
+    const donation = await this.prisma.donation.findUnique({
+      where: { id: donationId },
+    });
+    if (!donation) {
+      throw new NotFoundException(`Bağış ${donationId} ID'li bulunamadı`);
+    }
+
+    if (donation.status !== DonationStatus.Succeeded) {
+      throw new BadRequestException(
+        'Yalnızca tahsil edilmiş bağışlar iade edilebilir',
+      );
+    }
+    if (donation.providerRefundId) {
+      throw new ConflictException('Bu bağış için iade zaten başlatılmış');
+    }
+    if (
+      !donation.providerPaymentId ||
+      donation.paymentProvider !== this.provider.kind
+    ) {
+      throw new BadRequestException(
+        'Bu bağışın ödemesi tanımlı sağlayıcı üzerinden alınmadığı için iade edilemez',
+      );
+    }
+
+    const refunded = await this.refundPayment(donation);
+    this.logger.log(
+      `Refund ${refunded.providerRefundId} for donation ${donationId} started by admin ${adminId}`,
+    );
+
+    return refunded;
+  }
+
+  // İade sağlayıcıya gönderilmeden önce sahiplenilir; eş zamanlı istekler
+  // aynı bağışı iki kez iade edemez
+  private async refundPayment(donation: Donation) {
+    const { count } = await this.prisma.donation.updateMany({
+      where: {
+        id: donation.id,
+        status: DonationStatus.Succeeded,
+        providerRefundId: null,
+      },
+      data: { providerRefundId: PENDING_REFUND_ID },
+    });
+    if (count === 0) {
+      throw new ConflictException('Bu bağış için iade zaten başlatılmış');
+    }
+
+    let refund: PaymentRefund;
+    try {
+      refund = await this.provider.refund(
+        donation.providerPaymentId,
+        donation.amount,
+      );
+    } catch (error) {
+      await this.prisma.donation.updateMany({
+        where: { id: donation.id, providerRefundId: PENDING_REFUND_ID },
+        data: { providerRefundId: null },
+      });
+      this.logger.error(
+        `Refund for donation ${donation.id} failed: ${error.message}`,
+      );
+      throw new ServiceUnavailableException(
+        'İade başlatılamadı, lütfen daha sonra tekrar deneyin',
+      );
+    }
+
+    return this.prisma.donation.update({
+      where: { id: donation.id },
+      data: {
+        providerRefundId: refund.providerRefundId,
+        ...(refund.completed && {
+          status: DonationStatus.Refunded,
+          refundedAt: new Date(),
+        }),
+      },
+    });
+  }
+
+  /**
+   * Sahte sağlayıcının 3-D Secure adımı. Sonuç gerçek sağlayıcılardaki gibi
+   * imzalı bir webhook gövdesiyle işlenir. Yalnızca
+   * PAYMENT_MOCK_AUTHORIZE_ENABLED=true ile açılır, üretimde her zaman kapalıdır.
+   */
+  async authorizeMockPayment(providerPaymentId: string, outcome?: string) {
+    if (
+      this.provider.kind !== PaymentProviderKind.Mock ||
+      this.configService.get<string>('PAYMENT_MOCK_AUTHORIZE_ENABLED') !==
+        'true' ||
+      this.isMockInProduction()
+    ) {
+      throw new NotFoundException();
+    }
+
+    const donation = await this.prisma.donation.findUnique({
+      where: { providerPaymentId },
+    });
+    if (!donation) {
+      throw new NotFoundException(`${providerPaymentId} ödemesi bulunamadı`);
+    }
+
+    const succeeded = (outcome ?? 'succeeded') === 'succeeded';
+    const rawBody = JSON.stringify({
+      id: `mock_evt_${providerPaymentId}_${Date.now()}`,
+      type: succeeded
+        ? PaymentEventType.PaymentSucceeded
+        : PaymentEventType.PaymentFailed,
+      data: {
+        paymentId: providerPaymentId,
+        amount: donation.amount,
+        ...(!succeeded && {
+          failureReason: '3-D Secure doğrulaması başarısız',
+        }),
+      },
+    });
+
+    return this.handleWebhook(this.provider.kind, Buffer.from(rawBody), {
+      [MOCK_SIGNATURE_HEADER]: signMockWebhook(
+        paymentWebhookSecret(this.configService),
+        rawBody,
+      ),
+    });
+  }
+
+  /**
+   * Sonuçlanmamış ödemelerin uzlaştırılması. Eşleşmemiş olaylar yeniden
+   * denenir; süresi dolan ödemeler başarısız sayılır. Sonradan gelen
+   * payment.succeeded olayı bağışı yine tahsil edilmiş duruma geçirir.
+   */
+  @Cron(CronExpression.EVERY_HOUR)
+  async reconcilePendingPayments() {
+    const stale = await this.prisma.donation.findMany({
+      where: {
+        status: DonationStatus.Pending,
+        createdAt: { lt: new Date(Date.now() - PENDING_PAYMENT_TTL_MS) },
+      },
+      select: { id: true, providerPaymentId: true },
+    });
+
+    for (const donation of stale) {
+      if (donation.providerPaymentId) {
+        await this.reconcileUnmatchedEvents(donation.providerPaymentId);
+      }
+
+      const { count } = await this.prisma.donation.updateMany({
+        where: { id: donation.id, status: DonationStatus.Pending },
+        data: {
+          status: DonationStatus.Failed,
+          failureReason: 'Ödeme zaman aşımına uğradı',
+        },
+      });
+      if (count > 0) {
+        this.logger.warn(`Pending payment of donation ${donation.id} expired`);
+      }
+    }
+  }
+
+  // Sahte sağlayıcı gerçek tahsilat yapmadığı için üretimde kullanılamaz
+  private isMockInProduction() {
+    return (
+      this.provider.kind === PaymentProviderKind.Mock &&
+      this.configService.get<string>('NODE_ENV') === 'production'
+    );
+  }
+
+  private assertProviderAvailable() {
+    if (this.isMockInProduction()) {
+      throw new ServiceUnavailableException(
+        'Ödeme sağlayıcısı yapılandırılmamış',
+      );
+    }
+  }
+
+  private async reconcileUnmatchedEvents(providerPaymentId: string) {
+    const events = await this.prisma.paymentWebhookEvent.findMany({
+      where: {
+        provider: this.provider.kind,
+        providerPaymentId,
+        status: PaymentWebhookEventStatus.Unmatched,
+      },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    for (const event of events) {
+      await this.applyEvent(event);
+    }
+
+    return events.length;
+  }
+
+  // Olayı ödemenin bağışına uygular ve olayın sonucunu kaydeder
+  private async applyEvent(event: PaymentWebhookEvent) {
+    const donation = await this.prisma.donation.findUnique({
+      where: { providerPaymentId: event.providerPaymentId },
+    });
+    if (!donation) {
+      this.logger.warn(
+        `Payment webhook ${event.eventId} has no matching donation yet`,
+      );
+      return PaymentWebhookEventStatus.Unmatched;
+    }
+
+    const transition = await this.transitionDonation(donation, event);
+    const { status } = transition;
+    let { note } = transition;
+
+    if (
+      status === PaymentWebhookEventStatus.Processed &&
+      (await this.isSettledSubscriptionCharge(donation, event))
+    ) {
+      note = await this.refundLateSubscriptionCharge(donation);
+    }
+
+    await this.prisma.paymentWebhookEvent.update({
+      where: { id: event.id },
+      data: { status, note, donationId: donation.id, processedAt: new Date() },
+    });
+
+    if (
+      status === PaymentWebhookEventStatus.Processed &&
+      event.type === PaymentEventType.PaymentSucceeded &&
+      donation.campaignId
+    ) {
+      await this.campaignsService.syncGoalStatus(donation.campaignId);
+    }
+
+    return status;
+  }
+
+  /**
+   * Başarısız sayılıp yeniden denenen düzenli bağış çekimi sonradan tahsil
+   * edildiyse dönem iki kez ödenmiş olur. Abonelik çekimi başarısız olarak
+   * kapattıysa (bekleyen bağışı artık bu değilse) geç gelen ödeme iade edilir.
+   * Kontrol bağış güncellendikten sonra yapılır; abonelik tarafı da yalnızca
+   * hâlâ başarısız olan bağışı kapatır.
+   */
+  private async isSettledSubscriptionCharge(
+    donation: Donation,
+    event: PaymentWebhookEvent,
+  ) {
+    if (
+      event.type !== PaymentEventType.PaymentSucceeded ||
+      donation.status !== DonationStatus.Failed ||
+      !donation.subscriptionId
+    ) {
+      return false;
+    }
+
+    const pending = await this.prisma.donationSubscription.count({
+      where: { pendingDonationId: donation.id },
+    });
+    return pending === 0;
+  }
+
+  private async refundLateSubscriptionCharge(donation: Donation) {
+    try {
+      const refunded = await this.refundPayment(donation);
+      this.logger.warn(
+        `Late payment of donation ${donation.id} refunded (${refunded.providerRefundId}), subscription ${donation.subscriptionId} already retried the charge`,
+      );
+      return 'Düzenli bağışın bu çekimi başarısız olarak kapatıldığı için ödeme iade edildi';
+    } catch (error) {
+      this.logger.error(
+        `Late payment of donation ${donation.id} could not be refunded: ${error.message}`,
+      );
+      return 'Düzenli bağışın bu çekimi başarısız olarak kapatılmıştı; ödeme iade edilemedi, elle iade edilmelidir';
+    }
+  }
+
+  private async transitionDonation(
+    donation: Donation,
+    event: PaymentWebhookEvent,
+  ) {
+    const transition =
+      PAYMENT_EVENT_TRANSITIONS[event.type as PaymentEventType];
+    if (!transition?.from.includes(donation.status)) {
+      return {
+        status: PaymentWebhookEventStatus.Ignored,
+        note: `Bağış ${donation.status} durumundayken ${event.type} olayı uygulanamaz`,
+      };
+    }
+
+    if (
+      event.type === PaymentEventType.PaymentSucceeded &&
+      event.amount !== null &&
+      Math.abs(event.amount - donation.amount) >= 0.01
+    ) {
+      this.logger.error(
+        `Payment webhook ${event.eventId} amount ${event.amount} does not match donation ${donation.id}`,
+      );
+      return {
+        status: PaymentWebhookEventStatus.Ignored,
+        note: `Tahsil edilen tutar (${event.amount}) bağış tutarıyla (${donation.amount}) uyuşmuyor`,
+      };
+    }
+
+    const data: Prisma.DonationUpdateManyMutationInput = {
+      status: transition.to,
+    };
+    if (transition.to === DonationStatus.Succeeded) {
+      const paidAt = new Date();
+      data.paidAt = paidAt;
+      data.failureReason = null;
+      // Makbuz numarası tahsilat anında verilir; dökümler ve doğrulama bunu kullanır
+      data.receiptNumber =
+        donation.receiptNumber ?? donationReceiptNumber(donation.id, paidAt);
+    } else if (transition.to === DonationStatus.Failed) {
+      data.failureReason = event.failureReason;
+    } else {
+      data.refundedAt = new Date();
+    }
+
+    // Eş zamanlı iki olay aynı bağışı yalnızca bir kez değiştirebilir
+    const { count } = await this.prisma.donation.updateMany({
+      where: { id: donation.id, status: donation.status },
+      data,
+    });
+    if (count === 0) {
+      return {
+        status: PaymentWebhookEventStatus.Ignored,
+        note: 'Bağışın durumu olay işlenirken değişti',
+      };
+    }
+
+    this.logger.log(
+      `Donation ${donation.id} marked as ${transition.to} by payment webhook ${event.eventId}`,
+    );
+    return { status: PaymentWebhookEventStatus.Processed, note: null };
+  }
+}
@@ -0,0 +1,121 @@
+import { BadRequestException, UnauthorizedException } from '@nestjs/common';
+import * as crypto from 'crypto';
+import { PaymentEventType } from '../payment';
+import {
+  PaymentProvider,
+  PaymentProviderKind,
+  PaymentWebhookEventData,
+} from '../payment-provider';
+
+export const MOCK_SIGNATURE_HEADER = 'x-mock-signature';
+
+// Bu süreden eski imzalı gövdeler tekrar gönderim sayılıp reddedilir
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60;
+
+export interface MockWebhookPayload {
+  id: string;
+  type: PaymentEventType;
+  data: {
+    paymentId: string;
+    amount?: number;
+    failureReason?: string;
+  };
+}
+
+// İmza "t=<unix zamanı>,v1=<HMAC-SHA256(t.gövde)>" biçimindedir
+export function signMockWebhook(
+  secret: string,
+  rawBody: string,
+  timestamp = Math.floor(Date.now() / 1000),
+) {
+  const signature = crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}.${rawBody}`)
+    .digest('hex');
+  return `t=${timestamp},v1=${signature}`;
+}
+
+/**
+ * Geliştirme ortamı için sahte sağlayıcı. Gerçek tahsilat yapmaz; 3-D Secure
+ * adımı GET /api/payments/mock/:paymentId/authorize ile taklit edilir ve
+ * sonuç, gerçek sağlayıcılar gibi imzalı bir webhook olayıyla bildirilir.
+ */
+export class MockPaymentProvider implements PaymentProvider {
+  readonly kind = PaymentProviderKind.Mock;
+
+  constructor(
+    private readonly hostUrl: string,
+    private readonly webhookSecret: string,
+  ) {}
+
+  async createIntent() {
+    const providerPaymentId = `mock_pi_${crypto.randomBytes(12).toString('hex')}`;
+    return {
+      providerPaymentId,
+      redirectUrl: `${this.hostUrl}payments/mock/${providerPaymentId}/authorize`,
+    };
+  }
+
+  async refund() {
+    return {
+      providerRefundId: `mock_re_${crypto.randomBytes(12).toString('hex')}`,
+      completed: true,
+    };
+  }
+
+  parseWebhook(
+    rawBody: Buffer,
+    headers: Record<string, string | string[] | undefined>,
+  ): PaymentWebhookEventData {
+    const header = headers[MOCK_SIGNATURE_HEADER];
+    if (typeof header !== 'string' || !this.isValidSignature(rawBody, header)) {
+      throw new UnauthorizedException('Geçersiz webhook imzası');
+    }
+
+    let payload: MockWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody.toString('utf8'));
+    } catch {
+      throw new BadRequestException('Webhook gövdesi geçerli JSON değil');
+    }
+    if (
+      !payload?.id ||
+      !payload.data?.paymentId ||
+      !(Object.values(PaymentEventType) as string[]).includes(payload.type)
+    ) {
+      throw new BadRequestException('Webhook olayı eksik veya tanımsız');
+    }
+
+    return {
+      eventId: payload.id,
+      type: payload.type,
+      providerPaymentId: payload.data.paymentId,
+      amount: payload.data.amount ?? null,
+      failureReason: payload.data.failureReason ?? null,
+      payload: payload as unknown as Record<string, unknown>,
+    };
+  }
+
+  private isValidSignature(rawBody: Buffer, header: string) {
+    const parts = Object.fromEntries(
+      header.split(',').map((part) => part.trim().split('=', 2)),
+    );
+    const timestamp = Number(parts.t);
+    if (
+      !Number.isInteger(timestamp) ||
+      Math.abs(Date.now() / 1000 - timestamp) > SIGNATURE_TOLERANCE_SECONDS
+    ) {
+      return false;
+    }
+
+    const expected = signMockWebhook(
+      this.webhookSecret,
+      rawBody.toString('utf8'),
+      timestamp,
+    );
+    return (
+      expected.length === header.length &&
+      crypto.timingSafeEqual(Buffer.from(expected), Buffer.from(header))
+    );
+  }
+}
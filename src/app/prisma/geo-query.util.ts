@@ -0,0 +1,146 @@
+import { BadRequestException } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+
+// Sorgulanabilecek en büyük yarıçap (km)
+const MAX_RADIUS_KM = 500;
+const MAX_POLYGON_VERTICES = 500;
+
+// [boylam, enlem] çiftleri (GeoJSON sırası)
+export type GeoPolygon = [number, number][];
+
+export interface GeoRadius {
+  latitude: number;
+  longitude: number;
+  radiusKm: number;
+}
+
+/**
+ * PostGIS geography noktası. Tüm `geom` sütunları SRID 4326 ile üretilir.
+ */
+export function geoPoint(latitude: number, longitude: number): Prisma.Sql {
+  return Prisma.sql`ST_SetSRID(ST_MakePoint(${longitude}, ${latitude}), 4326)::geography`;
+}
+
+// `column` kullanıcı girdisi olmamalıdır (ör. '"Location"."geom"')
+export function withinRadius(column: string, radius: GeoRadius): Prisma.Sql {
+  return Prisma.sql`ST_DWithin(${Prisma.raw(column)}, ${geoPoint(
+    radius.latitude,
+    radius.longitude,
+  )}, ${radius.radiusKm * 1000})`;
+}
+
+export function withinPolygon(column: string, polygon: GeoPolygon): Prisma.Sql {
+  const wkt = `POLYGON((${polygon.map(([lng, lat]) => `${lng} ${lat}`).join(', ')}))`;
+  return Prisma.sql`ST_Covers(ST_GeogFromText(${wkt}), ${Prisma.raw(column)})`;
+}
+
+export function distanceKm(
+  column: string,
+  latitude: number,
+  longitude: number,
+): Prisma.Sql {
+  return Prisma.sql`ST_Distance(${Prisma.raw(column)}, ${geoPoint(
+    latitude,
+    longitude,
+  )}) / 1000`;
+}
+
+/**
+ * Enlem/boylam/yarıçap girdilerini doğrular. Konum verilmemişse null döner.
+ */
+export function parseGeoRadius(
+  latitude: unknown,
+  longitude: unknown,
+  radiusKm: unknown,
+  defaultRadiusKm = 10,
+): GeoRadius | null {
+  if (
+    latitude === undefined ||
+    latitude === null ||
+    latitude === '' ||
+    longitude === undefined ||
+    longitude === null ||
+    longitude === ''
+  ) {
+    return null;
+  }
+
+  const lat = parseFloat(latitude as any);
+  const lng = parseFloat(longitude as any);
+  const radius =
+    radiusKm === undefined || radiusKm === null || radiusKm === ''
+      ? defaultRadiusKm
+      : parseFloat(radiusKm as any);
+
+  if (
+    !Number.isFinite(lat) ||
+    !Number.isFinite(lng) ||
+    Math.abs(lat) > 90 ||
+    Math.abs(lng) > 180
+  ) {
+    throw new BadRequestException('Geçersiz konum bilgisi');
+  }
+
+  if (!Number.isFinite(radius) || radius <= 0 || radius > MAX_RADIUS_KM) {
+    throw new BadRequestException(
+      `Yarıçap 0 ile ${MAX_RADIUS_KM} km arasında olmalıdır`,
+    );
+  }
+
+  return { latitude: lat, longitude: lng, radiusKm: radius };
+}
+
+/**
+ * Haritada çizilen bölgeyi doğrular. JSON metni veya [[boylam, enlem], ...]
+ * dizisi kabul edilir; halka kapalı değilse kapatılır.
+ */
+export function parseGeoPolygon(input: unknown): GeoPolygon | null {
+  if (input === undefined || input === null || input === '') {
+    return null;
+  }
+
+  let points: unknown = input;
+  if (typeof input === 'string') {
+    try {
+      points = JSON.parse(input);
+    } catch {
+      throw new BadRequestException(
+        'Çokgen [[boylam, enlem], ...] biçiminde olmalıdır',
+      );
+    }
+  }
+
+  if (
+    !Array.isArray(points) ||
+    points.length > MAX_POLYGON_VERTICES ||
+    !points.every(
+      (point) =>
+        Array.isArray(point) &&
+        point.length === 2 &&
+        Number.isFinite(Number(point[0])) &&
+        Number.isFinite(Number(point[1])) &&
+        Math.abs(Number(point[0])) <= 180 &&
+        Math.abs(Number(point[1])) <= 90,
+    )
+  ) {
+    throw new BadRequestException(
+      'Çokgen [[boylam, enlem], ...] biçiminde olmalıdır',
+    );
+  }
+
+  const polygon = points.map(
+    ([lng, lat]) => [Number(lng), Number(lat)] as [number, number],
+  );
+  const [first] = polygon;
+  const last = polygon[polygon.length - 1];
+  if (first && (first[0] !== last[0] || first[1] !== last[1])) {
+    polygon.push([first[0], first[1]]);
+  }
+
+  // Kapalı bir halka en az üç farklı köşe ve başlangıç noktasından oluşur
+  if (polygon.length < 4) {
+    throw new BadRequestException('Çokgen en az üç köşe içermelidir');
+  }
+
+  return polygon;
+}
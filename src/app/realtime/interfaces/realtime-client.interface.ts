@@ -0,0 +1,20 @@
+import { Socket } from 'socket.io';
+
+export interface RealtimeUser {
+  id: number;
+  email: string;
+  role: string;
+}
+
+export interface MapSubscription {
+  north: number;
+  south: number;
+  east: number;
+  west: number;
+}
+
+export interface OrganizationSubscription {
+  organizationId: number;
+}
+
+export type RealtimeSocket = Socket & { data: { user?: RealtimeUser } };
@@ -0,0 +1,52 @@
+import { MapSubscription } from './interfaces/realtime-client.interface';
+
+// İstemcilere gönderilen olay adları
+export enum RealtimeEvent {
+  AidRequestCreated = 'aid-request.created',
+  AidRequestStatusChanged = 'aid-request.status-changed',
+  AidRequestVerified = 'aid-request.verified',
+  AidRequestReported = 'aid-request.reported',
+  MessageCreated = 'message.created',
+}
+
+// Harita bölge odalarının ızgara boyutu (derece)
+export const MAP_REGION_CELL_DEGREES = 1;
+// Tek bir aboneliğin katılabileceği en fazla bölge odası
+export const MAX_MAP_REGION_ROOMS = 64;
+
+export const userRoom = (userId: number) => `user:${userId}`;
+export const organizationRoom = (organizationId: number) =>
+  `organization:${organizationId}`;
+export const ADMINS_ROOM = 'admins';
+
+export function mapRegionRoom(latitude: number, longitude: number) {
+  return `map:${Math.floor(latitude / MAP_REGION_CELL_DEGREES)}:${Math.floor(
+    longitude / MAP_REGION_CELL_DEGREES,
+  )}`;
+}
+
+/**
+ * Harita görünüm alanını kaplayan bölge odalarını döner. Alan çok büyükse
+ * null döner; istemci yakınlaştırmalı veya yalnızca kendi odasını dinlemelidir.
+ */
+export function mapRegionRooms(bounds: MapSubscription): string[] | null {
+  const firstRow = Math.floor(bounds.south / MAP_REGION_CELL_DEGREES);
+  const lastRow = Math.floor(bounds.north / MAP_REGION_CELL_DEGREES);
+  const firstColumn = Math.floor(bounds.west / MAP_REGION_CELL_DEGREES);
+  const lastColumn = Math.floor(bounds.east / MAP_REGION_CELL_DEGREES);
+
+  if (
+    (lastRow - firstRow + 1) * (lastColumn - firstColumn + 1) >
+    MAX_MAP_REGION_ROOMS
+  ) {
+    return null;
+  }
+
+  const rooms: string[] = [];
+  for (let row = firstRow; row <= lastRow; row++) {
+    for (let column = firstColumn; column <= lastColumn; column++) {
+      rooms.push(`map:${row}:${column}`);
+    }
+  }
+  return rooms;
+}
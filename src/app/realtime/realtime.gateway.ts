@@ -0,0 +1,196 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { JwtService } from '@nestjs/jwt';
+import {
+  ConnectedSocket,
+  MessageBody,
+  OnGatewayConnection,
+  SubscribeMessage,
+  WebSocketGateway,
+  WebSocketServer,
+  WsException,
+} from '@nestjs/websockets';
+import { Server } from 'socket.io';
+import { AuthService } from '../auth/auth.service';
+import { Role } from '../casl/action';
+import {
+  ADMINS_ROOM,
+  mapRegionRooms,
+  organizationRoom,
+  userRoom,
+} from './realtime-events';
+import {
+  MapSubscription,
+  OrganizationSubscription,
+  RealtimeSocket,
+} from './interfaces/realtime-client.interface';
+import {
+  OrganizationMemberRole,
+  hasMemberRole,
+} from '../organizations/organization-member';
+
+// Harita bölgelerini ve organizasyon odalarını yalnızca bu roller dinleyebilir
+const PRIVILEGED_ROLES: string[] = [Role.Admin, Role.OrganizationOwner];
+
+/**
+ * Socket.IO bağlantı noktası. İstemciler access token'ı `auth.token` veya
+ * `Authorization: Bearer` başlığıyla gönderir; bağlantıda kendi kullanıcı
+ * odalarına katılırlar.
+ */
+@WebSocketGateway({ namespace: 'realtime', cors: { origin: true } })
+export class RealtimeGateway implements OnGatewayConnection {
+  private readonly logger = new Logger(RealtimeGateway.name);
+
+  @WebSocketServer()
+  server: Server;
+
+  constructor(
+    private readonly jwtService: JwtService,
+    private readonly authService: AuthService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async handleConnection(client: RealtimeSocket) {
+    try {
+      const user = await this.authenticate(client);
+      client.data.user = { id: user.id, email: user.email, role: user.role };
+
+      await client.join(userRoom(user.id));
+      if (user.role === Role.Admin) {
+        await client.join(ADMINS_ROOM);
+      }
+    } catch (error) {
+      this.logger.debug(`Rejected socket ${client.id}: ${error.message}`);
+      client.emit('error', { message: 'Yetkisiz bağlantı' });
+      client.disconnect(true);
+    }
+  }
+
+  // Harita görünüm alanındaki bölge odalarına abone olur, öncekileri bırakır
+  @SubscribeMessage('map:subscribe')
+  async subscribeToMap(
+    @ConnectedSocket() client: RealtimeSocket,
+    @MessageBody() bounds: MapSubscription,
+  ) {
+    this.assertPrivileged(client);
+
+    const values = [bounds?.north, bounds?.south, bounds?.east, bounds?.west];
+    if (!values.every((value) => Number.isFinite(Number(value)))) {
+      throw new WsException('Geçerli harita sınırları gereklidir');
+    }
+
+    const rooms = mapRegionRooms({
+      north: Number(bounds.north),
+      south: Number(bounds.south),
+      east: Number(bounds.east),
+      west: Number(bounds.west),
+    });
+    if (!rooms) {
+      throw new WsException(
+        'Harita alanı çok büyük, lütfen yakınlaştırarak tekrar deneyin',
+      );
+    }
+
+    await this.leaveMapRooms(client);
+    await client.join(rooms);
+    return { rooms };
+  }
+
+  @SubscribeMessage('map:unsubscribe')
+  async unsubscribeFromMap(@ConnectedSocket() client: RealtimeSocket) {
+    await this.leaveMapRooms(client);
+    return { rooms: [] };
+  }
+
+  @SubscribeMessage('organization:subscribe')
+  async subscribeToOrganization(
+    @ConnectedSocket() client: RealtimeSocket,
+    @MessageBody() body: OrganizationSubscription,
+  ) {
+    this.assertPrivileged(client);
+
+    const organizationId = Number(body?.organizationId);
+    if (!Number.isInteger(organizationId)) {
+      throw new WsException('Geçerli bir organizasyon ID gereklidir');
+    }
+    await this.assertMember(client, organizationId);
+
+    await client.join(organizationRoom(organizationId));
+    return { room: organizationRoom(organizationId) };
+  }
+
+  @SubscribeMessage('organization:unsubscribe')
+  async unsubscribeFromOrganization(
+    @ConnectedSocket() client: RealtimeSocket,
+    @MessageBody() body: OrganizationSubscription,
+  ) {
+    await client.leave(organizationRoom(Number(body?.organizationId)));
+    return { room: null };
+  }
+
+  // Olayı verilen odalara tek seferde gönderir (aynı soket iki kez almaz)
+  emitToRooms(rooms: string[], event: string, payload: unknown) {
+    if (!this.server || rooms.length === 0) {
+      return;
+    }
+    this.server.to(rooms).emit(event, payload);
+  }
+
+  // HTTP tarafındaki JwtStrategy ile aynı doğrulamayı yapar
+  private async authenticate(client: RealtimeSocket) {
+    const header = client.handshake.headers?.authorization;
+    const token =
+      client.handshake.auth?.token ??
+      (header?.startsWith('Bearer ') ? header.slice(7) : undefined);
+
+    if (!token) {
+      throw new WsException('Token bulunamadı');
+    }
+
+    const payload = await this.jwtService.verifyAsync(token, {
+      issuer: this.configService.get<string>('JWT_ISSUER') || undefined,
+      audience: this.configService.get<string>('JWT_AUDIENCE') || undefined,
+    });
+    if (!payload?.email) {
+      throw new WsException('Invalid token payload: missing email');
+    }
+
+    const user = await this.authService.validateUserById(payload.sub);
+    if (!user || user.email !== payload.email) {
+      throw new WsException('Token principal mismatch');
+    }
+
+    return user;
+  }
+
+  private assertPrivileged(client: RealtimeSocket) {
+    if (!PRIVILEGED_ROLES.includes(client.data.user?.role)) {
+      throw new WsException('Bu kanala abone olma yetkiniz bulunmuyor');
+    }
+  }
+
+  // Üyelikler bağlantıdan sonra değişmiş olabileceği için yeniden okunur
+  private async assertMember(client: RealtimeSocket, organizationId: number) {
+    if (client.data.user.role === Role.Admin) return;
+
+    const user = await this.authService.validateUserById(client.data.user.id);
+    const isMember = user?.memberships.some(
+      (membership) =>
+        membership.organizationId === organizationId &&
+        hasMemberRole(membership.role, OrganizationMemberRole.Viewer),
+    );
+    if (!isMember) {
+      throw new WsException(
+        'Bu organizasyonun kanalına abone olma yetkiniz yok',
+      );
+    }
+  }
+
+  private async leaveMapRooms(client: RealtimeSocket) {
+    await Promise.all(
+      [...client.rooms]
+        .filter((room) => room.startsWith('map:'))
+        .map((room) => client.leave(room)),
+    );
+  }
+}
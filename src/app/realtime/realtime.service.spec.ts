@@ -0,0 +1,104 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { RealtimeService } from './realtime.service';
+import { RealtimeGateway } from './realtime.gateway';
+import { PrismaService } from '../prisma/prisma.service';
+import { RealtimeEvent } from './realtime-events';
+
+describe('RealtimeService', () => {
+  let service: RealtimeService;
+  let gateway: RealtimeGateway;
+  let prismaService: PrismaService;
+
+  const aidRequest = {
+    id: 3,
+    type: 'Gıda',
+    status: 'approved',
+    isUrgent: true,
+    verified: true,
+    reported: false,
+    userId: 7,
+    organizationId: 2,
+    locationId: 4,
+  };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RealtimeService,
+        {
+          provide: RealtimeGateway,
+          useValue: {
+            emitToRooms: jest.fn(),
+          },
+        },
+        {
+          provide: PrismaService,
+          useValue: {
+            location: {
+              findUnique: jest
+                .fn()
+                .mockResolvedValue({ id: 4, latitude: 41.2, longitude: 29.7 }),
+            },
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RealtimeService>(RealtimeService);
+    gateway = module.get<RealtimeGateway>(RealtimeGateway);
+    prismaService = module.get<PrismaService>(PrismaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should notify the owner, admins, organization and map region', async () => {
+    await service.aidRequestChanged(
+      RealtimeEvent.AidRequestStatusChanged,
+      aidRequest as any,
+      { fromStatus: 'pending' },
+    );
+
+    expect(prismaService.location.findUnique).toHaveBeenCalledWith({
+      where: { id: 4 },
+    });
+    expect(gateway.emitToRooms).toHaveBeenCalledWith(
+      ['user:7', 'admins', 'organization:2', 'map:41:29'],
+      RealtimeEvent.AidRequestStatusChanged,
+      expect.objectContaining({
+        id: 3,
+        fromStatus: 'pending',
+        location: { latitude: 41.2, longitude: 29.7 },
+      }),
+    );
+  });
+
+  it('should not fail the caller when emitting throws', async () => {
+    (gateway.emitToRooms as jest.Mock).mockImplementation(() => {
+      throw new Error('socket down');
+    });
+
+    await expect(
+      service.aidRequestChanged(
+        RealtimeEvent.AidRequestCreated,
+        aidRequest as any,
+      ),
+    ).resolves.toBeUndefined();
+  });
+
+  it('should deliver messages to both participants', () => {
+    service.messageCreated({
+      id: 1,
+      senderId: 1,
+      receiverId: 2,
+      organizationId: null,
+    } as any);
+
+    expect(gateway.emitToRooms).toHaveBeenCalledWith(
+      ['user:1', 'user:2'],
+      RealtimeEvent.MessageCreated,
+      expect.objectContaining({ id: 1 }),
+    );
+  });
+});
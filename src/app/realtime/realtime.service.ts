@@ -0,0 +1,92 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { AidRequest, Location, Message } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { RealtimeGateway } from './realtime.gateway';
+import {
+  ADMINS_ROOM,
+  mapRegionRoom,
+  organizationRoom,
+  RealtimeEvent,
+  userRoom,
+} from './realtime-events';
+
+type AidRequestEvent =
+  | RealtimeEvent.AidRequestCreated
+  | RealtimeEvent.AidRequestStatusChanged
+  | RealtimeEvent.AidRequestVerified
+  | RealtimeEvent.AidRequestReported;
+
+/**
+ * Servislerin yazma işlemlerinden sonra anlık olay yayınlamak için kullandığı
+ * katman. Yayın hataları yalnızca loglanır, asıl işlemi bozmaz.
+ */
+@Injectable()
+export class RealtimeService {
+  private readonly logger = new Logger(RealtimeService.name);
+
+  constructor(
+    private readonly gateway: RealtimeGateway,
+    private readonly prisma: PrismaService,
+  ) {}
+
+  /**
+   * Talep sahibine, adminlere, atanmış organizasyona ve talebin harita
+   * bölgesine olay gönderir.
+   */
+  async aidRequestChanged(
+    event: AidRequestEvent,
+    aidRequest: AidRequest & { location?: Location | null },
+    details: Record<string, unknown> = {},
+  ) {
+    try {
+      const location =
+        aidRequest.location ??
+        (aidRequest.locationId
+          ? await this.prisma.location.findUnique({
+              where: { id: aidRequest.locationId },
+            })
+          : null);
+
+      const rooms = [userRoom(aidRequest.userId), ADMINS_ROOM];
+      if (aidRequest.organizationId) {
+        rooms.push(organizationRoom(aidRequest.organizationId));
+      }
+      if (location) {
+        rooms.push(mapRegionRoom(location.latitude, location.longitude));
+      }
+
+      this.gateway.emitToRooms(rooms, event, {
+        id: aidRequest.id,
+        type: aidRequest.type,
+        status: aidRequest.status,
+        isUrgent: aidRequest.isUrgent,
+        verified: aidRequest.verified,
+        reported: aidRequest.reported,
+        userId: aidRequest.userId,
+        organizationId: aidRequest.organizationId,
+        location: location
+          ? { latitude: location.latitude, longitude: location.longitude }
+          : null,
+        ...details,
+      });
+    } catch (error) {
+      this.logger.error(
+        `Error emitting ${event} for aid request ${aidRequest.id}`,
+        error.stack,
+      );
+    }
+  }
+
+  // Yeni mesajı gönderene, alıcıya ve organizasyon odasına iletir
+  messageCreated(message: Message) {
+    try {
+      const rooms = [userRoom(message.senderId), userRoom(message.receiverId)];
+      if (message.organizationId) {
+        rooms.push(organizationRoom(message.organizationId));
+      }
+      this.gateway.emitToRooms(rooms, RealtimeEvent.MessageCreated, message);
+    } catch (error) {
+      this.logger.error(`Error emitting message ${message.id}`, error.stack);
+    }
+  }
+}
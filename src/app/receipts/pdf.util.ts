@@ -0,0 +1,35 @@
+import PdfPrinter = require('pdfmake');
+import vfs = require('pdfmake/build/vfs_fonts');
+import { TDocumentDefinitions } from 'pdfmake/interfaces';
+
+let printer: PdfPrinter;
+
+// Roboto, standart PDF fontlarının aksine Türkçe karakterleri (ğ, ş, ı) içerir
+function getPrinter() {
+  if (!printer) {
+    const font = (file: string) => Buffer.from(vfs[file], 'base64');
+    printer = new PdfPrinter({
+      Roboto: {
+        normal: font('Roboto-Regular.ttf'),
+        bold: font('Roboto-Medium.ttf'),
+        italics: font('Roboto-Italic.ttf'),
+        bolditalics: font('Roboto-MediumItalic.ttf'),
+      },
+    });
+  }
+  return printer;
+}
+
+export function renderPdf(
+  docDefinition: TDocumentDefinitions,
+): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const document = getPrinter().createPdfKitDocument(docDefinition);
+    const chunks: Buffer[] = [];
+
+    document.on('data', (chunk: Buffer) => chunks.push(chunk));
+    document.on('end', () => resolve(Buffer.concat(chunks)));
+    document.on('error', reject);
+    document.end();
+  });
+}
@@ -0,0 +1,72 @@
+import { ConfigService } from '@nestjs/config';
+import { randomInt } from 'crypto';
+import {
+  fromWallClock,
+  toWallClock,
+} from '../aid-requests/recurring-schedule.util';
+
+export enum ReceiptType {
+  Monetary = 'monetary',
+  InKind = 'in_kind',
+}
+
+export const MONETARY_RECEIPT_PREFIX = 'BGS';
+export const IN_KIND_RECEIPT_PREFIX = 'AYN';
+
+// Makbuz yılı ve yıllık döküm sınırları bu saat dilimine göre belirlenir
+export const RECEIPT_TIME_ZONE = 'Europe/Istanbul';
+
+// Birbirine karışabilecek I, L, O ve U harfleri kullanılmaz
+const RECEIPT_CODE_ALPHABET = '0123456789ABCDEFGHJKMNPQRSTVWXYZ';
+const RECEIPT_CODE_LENGTH = 8;
+
+// Kampanyaya bağlı olmayan bağışların makbuzunu platform düzenler
+export const PLATFORM_ISSUER_NAME = 'Turdes';
+
+export const TAX_DEDUCTION_STATEMENT =
+  "Bu belge, 193 sayılı Gelir Vergisi Kanunu'nun 89. maddesi ve 5520 sayılı Kurumlar Vergisi Kanunu'nun 10. maddesi kapsamında bağış ve yardım indirimine esas olmak üzere düzenlenmiştir. İndirim hakkı, bağışı alan kuruluşun kanuni statüsüne ve kanunda belirtilen sınırlara bağlıdır.";
+
+export function receiptYear(date: Date) {
+  return toWallClock(date, RECEIPT_TIME_ZONE).getUTCFullYear();
+}
+
+// Yılın makbuz saat dilimindeki başlangıcı ve bitişi
+export function receiptYearRange(year: number) {
+  return {
+    gte: fromWallClock(new Date(Date.UTC(year, 0, 1)), RECEIPT_TIME_ZONE),
+    lt: fromWallClock(new Date(Date.UTC(year + 1, 0, 1)), RECEIPT_TIME_ZONE),
+  };
+}
+
+/**
+ * Makbuz numarası, ör. BGS-2026-000042-7KQ3XM2D. Rastgele son ek, herkese
+ * açık doğrulama adresinde numaraların sırayla denenmesini engeller.
+ */
+export function receiptNumber(prefix: string, id: number, issuedAt: Date) {
+  const code = Array.from(
+    { length: RECEIPT_CODE_LENGTH },
+    () => RECEIPT_CODE_ALPHABET[randomInt(RECEIPT_CODE_ALPHABET.length)],
+  ).join('');
+  return `${prefix}-${receiptYear(issuedAt)}-${String(id).padStart(6, '0')}-${code}`;
+}
+
+export function donationReceiptNumber(donationId: number, paidAt: Date) {
+  return receiptNumber(MONETARY_RECEIPT_PREFIX, donationId, paidAt);
+}
+
+export function receiptVerificationUrl(
+  configService: ConfigService,
+  receiptNumber: string,
+) {
+  const hostUrl = configService.get<string>('HOST_URL') || '';
+  return `${hostUrl}receipts/verify/${encodeURIComponent(receiptNumber)}`;
+}
+
+// Doğrulama sayfasında bağışçının adı yalnızca baş harfleriyle gösterilir
+export function maskDonorName(name: string) {
+  return name
+    .trim()
+    .split(/\s+/)
+    .map((part) => `${part.charAt(0)}***`)
+    .join(' ');
+}
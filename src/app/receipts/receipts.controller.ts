@@ -0,0 +1,21 @@
+import { Controller, Get, Param } from '@nestjs/common';
+import { Throttle } from '@nestjs/throttler';
+import { ApiOperation, ApiParam, ApiResponse, ApiTags } from '@nestjs/swagger';
+import { ReceiptsService } from './receipts.service';
+
+@ApiTags('receipts')
+@Controller('receipts')
+export class ReceiptsController {
+  constructor(private readonly receiptsService: ReceiptsService) {}
+
+  // Herkese açık; makbuz numaralarının taranmasını zorlaştırmak için sınırlı
+  @Throttle({ default: { limit: 30, ttl: 60000 } })
+  @Get('verify/:number')
+  @ApiOperation({ summary: 'Verify a donation receipt (public)' })
+  @ApiParam({ name: 'number', example: 'BGS-2026-000042-7KQ3XM2D' })
+  @ApiResponse({ status: 200, description: 'Makbuz bulundu' })
+  @ApiResponse({ status: 404, description: 'Makbuz bulunamadı' })
+  async verify(@Param('number') receiptNumber: string) {
+    return this.receiptsService.verify(receiptNumber);
+  }
+}
@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { PrismaModule } from '../prisma/prisma.module';
+import { ReceiptsService } from './receipts.service';
+import { ReceiptsController } from './receipts.controller';
+
+@Module({
+  imports: [PrismaModule],
+  providers: [ReceiptsService],
+  controllers: [ReceiptsController],
+  exports: [ReceiptsService],
+})
+export class ReceiptsModule {}
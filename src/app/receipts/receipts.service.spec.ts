@@ -0,0 +1,228 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { ConfigService } from '@nestjs/config';
+import {
+  BadRequestException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { ReceiptsService } from './receipts.service';
+import { donationReceiptNumber } from './receipt';
+import { PrismaService } from '../prisma/prisma.service';
+
+describe('ReceiptsService', () => {
+  let service: ReceiptsService;
+  let prismaService: PrismaService;
+
+  const donorUser = { id: 9, role: 'user' };
+
+  const donation = (overrides = {}) => ({
+    id: 42,
+    amount: 1250,
+    userId: 9,
+    status: 'succeeded',
+    anonymous: false,
+    receiptNumber: 'BGS-2026-000042',
+    paidAt: new Date('2026-03-14T10:00:00Z'),
+    providerPaymentId: 'mock_pi_1',
+    donor: { id: 3, name: 'Ayşe Yılmaz', email: 'ayse@example.com' },
+    campaign: {
+      id: 2,
+      name: 'Kış Yardımı',
+      organization: {
+        name: 'Gıda Bankası',
+        taxNumber: '1234567890',
+        charityRegistrationNo: '34-123-456',
+        address: { address: 'Kadıköy, İstanbul' },
+        contactInfo: { phone: '0216 000 00 00', email: 'info@gidabankasi.org' },
+      },
+    },
+    ...overrides,
+  });
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        ReceiptsService,
+        {
+          provide: PrismaService,
+          useValue: {
+            donor: {
+              findUnique: jest.fn().mockResolvedValue({
+                id: 3,
+                name: 'Ayşe Yılmaz',
+                email: 'ayse@example.com',
+              }),
+            },
+            donation: {
+              findUnique: jest.fn(),
+              findMany: jest.fn(),
+            },
+            inKindDonation: {
+              findUnique: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: ConfigService,
+          useValue: {
+            get: jest.fn().mockReturnValue('https://turdes.example/api/'),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<ReceiptsService>(ReceiptsService);
+    prismaService = module.get<PrismaService>(PrismaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  describe('donationReceiptNumber', () => {
+    it('should take the year in Istanbul time and add a random code', () => {
+      const paidAt = new Date('2025-12-31T22:30:00Z');
+      const first = donationReceiptNumber(42, paidAt);
+
+      expect(first).toMatch(/^BGS-2026-000042-[0-9A-HJKMNP-TV-Z]{8}$/);
+      expect(donationReceiptNumber(42, paidAt)).not.toBe(first);
+    });
+  });
+
+  describe('getDonationReceipt', () => {
+    it('should render the receipt of a paid donation as a PDF', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+
+      const receipt = await service.getDonationReceipt(42, donorUser);
+
+      expect(receipt.fileName).toBe('BGS-2026-000042.pdf');
+      expect(receipt.pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should only issue receipts for paid donations', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(
+          donation({ status: 'refunded', campaign: null }) as any,
+        );
+
+      await expect(service.getDonationReceipt(42, donorUser)).rejects.toThrow(
+        BadRequestException,
+      );
+    });
+
+    it("should not give out another user's receipt", async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(donation({ userId: 2 }) as any);
+
+      await expect(service.getDonationReceipt(42, donorUser)).rejects.toThrow(
+        ForbiddenException,
+      );
+    });
+  });
+
+  describe('getTaxStatement', () => {
+    it("should list the user's paid donations of the year", async () => {
+      jest.spyOn(prismaService.donation, 'findMany').mockResolvedValue([
+        donation(),
+        donation({
+          id: 43,
+          receiptNumber: 'BGS-2026-000043',
+          campaign: null,
+        }),
+      ] as any);
+
+      const statement = await service.getTaxStatement(3, 2026, donorUser);
+
+      expect(prismaService.donation.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: {
+            donorId: 3,
+            status: 'succeeded',
+            paidAt: {
+              gte: new Date('2025-12-31T21:00:00Z'),
+              lt: new Date('2026-12-31T21:00:00Z'),
+            },
+            userId: 9,
+          },
+        }),
+      );
+      expect(statement.fileName).toBe('bagis-dokumu-3-2026.pdf');
+      expect(statement.pdf.subarray(0, 5).toString()).toBe('%PDF-');
+    });
+
+    it('should reject years in the future', async () => {
+      await expect(
+        service.getTaxStatement(3, new Date().getFullYear() + 1, donorUser),
+      ).rejects.toThrow(BadRequestException);
+    });
+  });
+
+  describe('verify', () => {
+    it('should confirm a receipt with the donor name masked', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(donation() as any);
+
+      expect(await service.verify('bgs-2026-000042')).toEqual(
+        expect.objectContaining({
+          receiptNumber: 'BGS-2026-000042',
+          type: 'monetary',
+          valid: true,
+          amount: 1250,
+          issuer: 'Gıda Bankası',
+          donor: 'A*** Y***',
+        }),
+      );
+      expect(prismaService.donation.findUnique).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: { receiptNumber: 'BGS-2026-000042' },
+        }),
+      );
+    });
+
+    it('should report receipts of refunded donations as invalid', async () => {
+      jest
+        .spyOn(prismaService.donation, 'findUnique')
+        .mockResolvedValue(
+          donation({ status: 'refunded', anonymous: true }) as any,
+        );
+
+      expect(await service.verify('BGS-2026-000042')).toEqual(
+        expect.objectContaining({
+          valid: false,
+          status: 'refunded',
+          donor: 'Anonim bağışçı',
+        }),
+      );
+    });
+
+    it('should verify in-kind donation receipts', async () => {
+      jest.spyOn(prismaService.inKindDonation, 'findUnique').mockResolvedValue({
+        receiptNumber: 'AYN-2026-000007',
+        status: 'received',
+        receivedAt: new Date('2026-02-01T10:00:00Z'),
+        estimatedValue: 300,
+        anonymous: false,
+        donor: { name: 'Ayşe Yılmaz' },
+        organization: { name: 'Gıda Bankası' },
+      } as any);
+
+      expect(await service.verify('AYN-2026-000007')).toEqual(
+        expect.objectContaining({ type: 'in_kind', valid: true, amount: 300 }),
+      );
+      expect(prismaService.donation.findUnique).not.toHaveBeenCalled();
+    });
+
+    it('should return 404 for unknown receipt numbers', async () => {
+      jest.spyOn(prismaService.donation, 'findUnique').mockResolvedValue(null);
+
+      await expect(service.verify('BGS-2026-999999')).rejects.toThrow(
+        NotFoundException,
+      );
+    });
+  });
+});
@@ -0,0 +1,388 @@
+import {
+  BadRequestException,
+  ForbiddenException,
+  Injectable,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { Prisma } from '@prisma/client';
+import { Content, TableCell, TDocumentDefinitions } from 'pdfmake/interfaces';
+import * as QRCode from 'qrcode';
+import { PrismaService } from '../prisma/prisma.service';
+import { AbilityUser } from '../casl/casl-ability.factory';
+import { Role } from '../casl/action';
+import { DonationStatus } from '../donors/donation-status';
+import { InKindDonationStatus } from '../donors/in-kind-donation';
+import { PAYMENT_CURRENCY } from '../payments/payment';
+import {
+  IN_KIND_RECEIPT_PREFIX,
+  PLATFORM_ISSUER_NAME,
+  RECEIPT_TIME_ZONE,
+  ReceiptType,
+  TAX_DEDUCTION_STATEMENT,
+  maskDonorName,
+  receiptVerificationUrl,
+  receiptYear,
+  receiptYearRange,
+} from './receipt';
+import { renderPdf } from './pdf.util';
+
+// Vergi dökümü istenebilecek en eski yıl
+const MIN_STATEMENT_YEAR = 2000;
+
+const DOCUMENT_STYLES: TDocumentDefinitions['styles'] = {
+  issuer: { fontSize: 16, bold: true },
+  issuerDetails: { fontSize: 9, color: '#555555' },
+  title: {
+    fontSize: 14,
+    bold: true,
+    alignment: 'center',
+    margin: [0, 0, 0, 15],
+  },
+  statement: { fontSize: 8, italics: true, margin: [0, 15, 0, 0] },
+  link: { fontSize: 8, color: '#1a56db' },
+};
+
+const ISSUER_SELECT = {
+  name: true,
+  taxNumber: true,
+  charityRegistrationNo: true,
+  address: { select: { address: true } },
+  contactInfo: { select: { phone: true, email: true } },
+} satisfies Prisma.OrganizationSelect;
+
+const RECEIPT_INCLUDE = {
+  donor: { select: { id: true, name: true, email: true } },
+  campaign: {
+    select: { id: true, name: true, organization: { select: ISSUER_SELECT } },
+  },
+} satisfies Prisma.DonationInclude;
+
+type DonationWithReceiptDetails = Prisma.DonationGetPayload<{
+  include: typeof RECEIPT_INCLUDE;
+}>;
+
+type ReceiptIssuer = Prisma.OrganizationGetPayload<{
+  select: typeof ISSUER_SELECT;
+}>;
+
+/**
+ * Bağış makbuzları. Tahsil edilen her parasal bağış için kampanyanın
+ * organizasyonu (kampanyasız bağışlarda platform) adına PDF makbuz düzenlenir;
+ * makbuzdaki QR kod herkese açık doğrulama adresine gider. Bağışçılar yıllık
+ * vergi dökümünü de PDF olarak alabilir.
+ */
+@Injectable()
+export class ReceiptsService {
+  private readonly logger = new Logger(ReceiptsService.name);
+
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly configService: ConfigService,
+  ) {}
+
+  async getDonationReceipt(donationId: number, user: AbilityUser) {
+    const donation = await this.prisma.donation.findUnique({
+      where: { id: donationId },
+      include: RECEIPT_INCLUDE,
+    });
+    if (!donation) {
+      throw new NotFoundException(`Bağış ${donationId} ID'li bulunamadı`);
+    }
+
+    if (donation.userId !== user.id && user.role !== Role.Admin) {
+      throw new ForbiddenException(
+        'Bu bağışın makbuzunu görüntüleme izniniz yok',
+      );
+    }
+    if (
+      donation.status !== DonationStatus.Succeeded ||
+      !donation.receiptNumber
+    ) {
+      throw new BadRequestException(
+        'Makbuz yalnızca tahsil edilmiş bağışlar için düzenlenir',
+      );
+    }
+
+    const pdf = await renderPdf(await this.buildReceiptDocument(donation));
+    this.logger.log(
+      `Receipt ${donation.receiptNumber} generated for user ${user.id}`,
+    );
+
+    return { fileName: `${donation.receiptNumber}.pdf`, pdf };
+  }
+
+  // Bağışçının yıl içinde tahsil edilen bağışlarının toplu dökümü
+  async getTaxStatement(donorId: number, year: number, user: AbilityUser) {
+    const currentYear = receiptYear(new Date());
+    if (
+      !Number.isInteger(year) ||
+      year < MIN_STATEMENT_YEAR ||
+      year > currentYear
+    ) {
+      throw new BadRequestException(
+        `Yıl ${MIN_STATEMENT_YEAR} ile ${currentYear} arasında olmalıdır`,
+      );
+    }
+
+    const donor = await this.prisma.donor.findUnique({
+      where: { id: donorId },
+    });
+    if (!donor) {
+      throw new NotFoundException(`${donorId} ID'li bağışçı bulunamadı`);
+    }
+
+    // Kullanıcılar yalnızca kendi yaptıkları bağışların dökümünü alabilir
+    const donations = await this.prisma.donation.findMany({
+      where: {
+        donorId,
+        status: DonationStatus.Succeeded,
+        paidAt: receiptYearRange(year),
+        ...(user.role !== Role.Admin && { userId: user.id }),
+      },
+      include: RECEIPT_INCLUDE,
+      orderBy: { paidAt: 'asc' },
+    });
+    if (donations.length === 0) {
+      throw new NotFoundException(
+        `${year} yılında tahsil edilmiş bağış bulunamadı`,
+      );
+    }
+
+    const pdf = await renderPdf(
+      this.buildTaxStatementDocument(donor, year, donations),
+    );
+    this.logger.log(
+      `Tax statement ${year} generated for donor ${donorId} by user ${user.id}`,
+    );
+
+    return { fileName: `bagis-dokumu-${donorId}-${year}.pdf`, pdf };
+  }
+
+  /**
+   * Herkese açık makbuz doğrulaması. İade edilen bağışın makbuzu geçersiz
+   * sayılır; bağışçının adı maskelenir, anonim bağışlarda hiç gösterilmez.
+   */
+  async verify(receiptNumber: string) {
+    const number = receiptNumber?.trim().toUpperCase();
+    if (!number) {
+      throw new NotFoundException('Makbuz bulunamadı');
+    }
+
+    if (number.startsWith(`${IN_KIND_RECEIPT_PREFIX}-`)) {
+      return this.verifyInKindReceipt(number);
+    }
+
+    const donation = await this.prisma.donation.findUnique({
+      where: { receiptNumber: number },
+      include: RECEIPT_INCLUDE,
+    });
+    if (!donation) {
+      throw new NotFoundException('Makbuz bulunamadı');
+    }
+
+    return {
+      receiptNumber: donation.receiptNumber,
+      type: ReceiptType.Monetary,
+      valid: donation.status === DonationStatus.Succeeded,
+      status: donation.status,
+      issuedAt: donation.paidAt,
+      amount: donation.amount,
+      currency: PAYMENT_CURRENCY,
+      issuer: this.issuerOf(donation).name,
+      campaign: donation.campaign?.name ?? null,
+      donor: this.publicDonorName(donation.donor.name, donation.anonymous),
+    };
+  }
+
+  private async verifyInKindReceipt(receiptNumber: string) {
+    const donation = await this.prisma.inKindDonation.findUnique({
+      where: { receiptNumber },
+      include: {
+        donor: { select: { name: true } },
+        organization: { select: { name: true } },
+      },
+    });
+    if (!donation) {
+      throw new NotFoundException('Makbuz bulunamadı');
+    }
+
+    const validStatuses: string[] = [
+      InKindDonationStatus.Received,
+      InKindDonationStatus.Distributed,
+    ];
+    return {
+      receiptNumber: donation.receiptNumber,
+      type: ReceiptType.InKind,
+      valid: validStatuses.includes(donation.status),
+      status: donation.status,
+      issuedAt: donation.receivedAt,
+      amount: donation.estimatedValue,
+      currency: PAYMENT_CURRENCY,
+      issuer: donation.organization.name,
+      campaign: null,
+      donor: this.publicDonorName(donation.donor.name, donation.anonymous),
+    };
+  }
+
+  private async buildReceiptDocument(
+    donation: DonationWithReceiptDetails,
+  ): Promise<TDocumentDefinitions> {
+    const verificationUrl = receiptVerificationUrl(
+      this.configService,
+      donation.receiptNumber,
+    );
+    const qrCode = await QRCode.toDataURL(verificationUrl, { margin: 1 });
+
+    const rows: [string, string][] = [
+      ['Makbuz no', donation.receiptNumber],
+      ['Tarih', this.formatDate(donation.paidAt)],
+      ['Bağışçı', donation.donor.name],
+      ['E-posta', donation.donor.email],
+      ['Tutar', this.formatAmount(donation.amount)],
+    ];
+    if (donation.campaign) rows.push(['Kampanya', donation.campaign.name]);
+    if (donation.providerPaymentId) {
+      rows.push(['Ödeme referansı', donation.providerPaymentId]);
+    }
+
+    return {
+      info: { title: `Bağış makbuzu ${donation.receiptNumber}` },
+      content: [
+        this.letterhead(this.issuerOf(donation)),
+        { text: 'BAĞIŞ MAKBUZU', style: 'title' },
+        {
+          table: {
+            widths: [120, '*'],
+            body: rows.map(([label, value]) => [
+              { text: label, bold: true },
+              value,
+            ]),
+          },
+          layout: 'lightHorizontalLines',
+        },
+        { text: TAX_DEDUCTION_STATEMENT, style: 'statement' },
+        {
+          columns: [
+            { image: qrCode, width: 100 },
+            {
+              stack: [
+                'Bu makbuzun geçerliliğini QR kodu okutarak veya aşağıdaki adresten doğrulayabilirsiniz:',
+                { text: verificationUrl, style: 'link' },
+              ],
+              margin: [10, 20, 0, 0],
+            },
+          ],
+          margin: [0, 20, 0, 0],
+        },
+      ],
+      styles: DOCUMENT_STYLES,
+      defaultStyle: { fontSize: 10 },
+    };
+  }
+
+  private buildTaxStatementDocument(
+    donor: { name: string; email: string },
+    year: number,
+    donations: DonationWithReceiptDetails[],
+  ): TDocumentDefinitions {
+    const total = donations.reduce((sum, donation) => sum + donation.amount, 0);
+
+    return {
+      info: { title: `${year} yılı bağış dökümü` },
+      content: [
+        this.letterhead({ name: PLATFORM_ISSUER_NAME }),
+        { text: `${year} YILI BAĞIŞ DÖKÜMÜ`, style: 'title' },
+        {
+          text: `Bağışçı: ${donor.name} (${donor.email})`,
+          margin: [0, 0, 0, 10],
+        },
+        {
+          table: {
+            headerRows: 1,
+            widths: ['auto', 'auto', '*', 'auto'],
+            body: [
+              ['Makbuz no', 'Tarih', 'Kuruluş / kampanya', 'Tutar'].map(
+                (text) => ({ text, bold: true }),
+              ),
+              ...donations.map((donation): TableCell[] => [
+                donation.receiptNumber,
+                this.formatDate(donation.paidAt),
+                donation.campaign
+                  ? `${this.issuerOf(donation).name} / ${donation.campaign.name}`
+                  : PLATFORM_ISSUER_NAME,
+                {
+                  text: this.formatAmount(donation.amount),
+                  alignment: 'right',
+                },
+              ]),
+              [
+                { text: 'Toplam', bold: true, colSpan: 3 },
+                '',
+                '',
+                {
+                  text: this.formatAmount(total),
+                  bold: true,
+                  alignment: 'right',
+                },
+              ],
+            ],
+          },
+          layout: 'lightHorizontalLines',
+        },
+        { text: TAX_DEDUCTION_STATEMENT, style: 'statement' },
+        {
+          text: 'Listelenen her makbuz, numarasıyla herkese açık doğrulama adresinden ayrıca doğrulanabilir.',
+          style: 'statement',
+        },
+      ],
+      styles: DOCUMENT_STYLES,
+      defaultStyle: { fontSize: 10 },
+    };
+  }
+
+  // Makbuzun antetinde düzenleyen kuruluşun adı ve iletişim bilgileri yer alır
+  private letterhead(issuer: Partial<ReceiptIssuer>): Content {
+    const details = [
+      issuer.address?.address,
+      [
+        issuer.taxNumber && `Vergi no: ${issuer.taxNumber}`,
+        issuer.charityRegistrationNo &&
+          `Kütük no: ${issuer.charityRegistrationNo}`,
+      ]
+        .filter(Boolean)
+        .join(' · '),
+      [issuer.contactInfo?.phone, issuer.contactInfo?.email]
+        .filter(Boolean)
+        .join(' · '),
+    ].filter(Boolean);
+
+    return {
+      stack: [
+        { text: issuer.name, style: 'issuer' },
+        ...details.map((text) => ({ text, style: 'issuerDetails' })),
+      ],
+      margin: [0, 0, 0, 20],
+    };
+  }
+
+  private issuerOf(donation: DonationWithReceiptDetails) {
+    return donation.campaign?.organization ?? { name: PLATFORM_ISSUER_NAME };
+  }
+
+  private publicDonorName(name: string, anonymous: boolean) {
+    return anonymous ? 'Anonim bağışçı' : maskDonorName(name);
+  }
+
+  private formatAmount(amount: number) {
+    return amount.toLocaleString('tr-TR', {
+      style: 'currency',
+      currency: PAYMENT_CURRENCY,
+    });
+  }
+
+  private formatDate(date: Date) {
+    return date.toLocaleDateString('tr-TR', { timeZone: RECEIPT_TIME_ZONE });
+  }
+}
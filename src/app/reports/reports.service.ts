@@ -1,5 +1,6 @@
 import { Injectable } from '@nestjs/common';
 import { PrismaService } from '../prisma/prisma.service';
+import { DonationStatus } from '../donors/donation-status';
 
 @Injectable()
 export class ReportsService {
@@ -43,6 +44,7 @@ export class ReportsService {
   async generateDonationDistributionReport(startDate: string, endDate: string) {
     const donations = await this.prisma.donation.findMany({
       where: {
+        status: DonationStatus.Succeeded,
         createdAt: {
           gte: startDate,
           lte: endDate,
@@ -0,0 +1,53 @@
+import { ApiProperty } from '@nestjs/swagger';
+import {
+  ArrayNotEmpty,
+  IsArray,
+  IsBoolean,
+  IsInt,
+  IsLatitude,
+  IsLongitude,
+  IsNumber,
+  IsOptional,
+  Max,
+  Min,
+} from 'class-validator';
+
+export class CalculateRouteDto {
+  @ApiProperty({ example: 41.0082 })
+  @IsLatitude()
+  readonly startLatitude: number;
+
+  @ApiProperty({ example: 28.9784 })
+  @IsLongitude()
+  readonly startLongitude: number;
+
+  @ApiProperty({
+    type: [Number],
+    example: [1, 2, 3],
+    description: 'IDs of the aid requests to deliver',
+  })
+  @IsArray()
+  @ArrayNotEmpty()
+  @IsInt({ each: true })
+  readonly deliveryIds: number[];
+
+  @ApiProperty({
+    required: false,
+    default: false,
+    description: 'Include the leg back to the start point',
+  })
+  @IsOptional()
+  @IsBoolean()
+  readonly returnToStart?: boolean;
+
+  @ApiProperty({
+    required: false,
+    default: 30,
+    description: 'Average travel speed used for ETAs (km/h)',
+  })
+  @IsOptional()
+  @IsNumber()
+  @Min(1)
+  @Max(150)
+  readonly averageSpeedKmh?: number;
+}
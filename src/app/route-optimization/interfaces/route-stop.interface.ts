@@ -0,0 +1,11 @@
+export interface RoutePoint {
+  latitude: number;
+  longitude: number;
+}
+
+export interface RouteStop extends RoutePoint {
+  aidRequestId: number;
+  type: string;
+  status: string | null;
+  isUrgent: boolean;
+}
@@ -0,0 +1,55 @@
+import {
+  Body,
+  Controller,
+  HttpCode,
+  HttpStatus,
+  Post,
+  Req,
+  UseGuards,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiOperation,
+  ApiResponse,
+  ApiTags,
+} from '@nestjs/swagger';
+import { JwtAuthGuard } from '../auth/jwt-auth.guard';
+import { RouteOptimizationService } from './route-optimization.service';
+import { CalculateRouteDto } from './dto/calculate-route.dto';
+import { RequestWithUser } from '../aid-requests/interfaces/request-with-user.interface';
+
+@ApiTags('route-optimization')
+@Controller('route-optimization')
+export class RouteOptimizationController {
+  constructor(
+    private readonly routeOptimizationService: RouteOptimizationService,
+  ) {}
+
+  @Post('calculate')
+  @HttpCode(HttpStatus.OK)
+  @UseGuards(JwtAuthGuard)
+  @ApiBearerAuth()
+  @ApiOperation({
+    summary: 'Calculate an optimised multi-stop delivery route',
+  })
+  @ApiBody({ type: CalculateRouteDto })
+  @ApiResponse({
+    status: 200,
+    description:
+      'Ordered stops with per-leg distances (km) and ETAs (minutes). Urgent requests are visited first.',
+  })
+  @ApiResponse({
+    status: 400,
+    description: 'Invalid start point, IDs or average speed',
+  })
+  async calculateRoute(
+    @Body() calculateRouteDto: CalculateRouteDto,
+    @Req() req: RequestWithUser,
+  ) {
+    return this.routeOptimizationService.calculateRoute(
+      calculateRouteDto,
+      req.user,
+    );
+  }
+}
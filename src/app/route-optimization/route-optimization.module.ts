@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+
+import { PrismaModule } from '../prisma/prisma.module';
+import { AidRequestsModule } from '../aid-requests/aid-requests.module';
+import { RouteOptimizationService } from './route-optimization.service';
+import { RouteOptimizationController } from './route-optimization.controller';
+
+@Module({
+  imports: [PrismaModule, AidRequestsModule],
+  controllers: [RouteOptimizationController],
+  providers: [RouteOptimizationService],
+})
+export class RouteOptimizationModule {}
@@ -0,0 +1,202 @@
+import { Test, TestingModule } from '@nestjs/testing';
+import { BadRequestException } from '@nestjs/common';
+import { RouteOptimizationService } from './route-optimization.service';
+import { PrismaService } from '../prisma/prisma.service';
+import { AidRequestsService } from '../aid-requests/aid-requests.service';
+
+// Testlerde hesaplamayı kolay takip etmek için düzlemsel mesafe kullanılır
+const planarDistance = (
+  lat1: number,
+  lon1: number,
+  lat2: number,
+  lon2: number,
+) => Math.hypot(lat2 - lat1, lon2 - lon1);
+
+const aidRequest = (
+  id: number,
+  latitude: number,
+  longitude: number,
+  isUrgent = false,
+) => ({
+  id,
+  type: 'food',
+  status: 'approved',
+  isUrgent,
+  location: { id, latitude, longitude },
+});
+
+describe('RouteOptimizationService', () => {
+  let service: RouteOptimizationService;
+  let prismaService: PrismaService;
+
+  const admin = { id: 1, role: 'admin' };
+
+  beforeEach(async () => {
+    const module: TestingModule = await Test.createTestingModule({
+      providers: [
+        RouteOptimizationService,
+        {
+          provide: PrismaService,
+          useValue: {
+            aidRequest: {
+              findMany: jest.fn(),
+            },
+          },
+        },
+        {
+          provide: AidRequestsService,
+          useValue: {
+            calculateDistance: jest.fn(planarDistance),
+          },
+        },
+      ],
+    }).compile();
+
+    service = module.get<RouteOptimizationService>(RouteOptimizationService);
+    prismaService = module.get<PrismaService>(PrismaService);
+  });
+
+  it('should be defined', () => {
+    expect(service).toBeDefined();
+  });
+
+  it('should visit stops along the shortest path', async () => {
+    jest
+      .spyOn(prismaService.aidRequest, 'findMany')
+      .mockResolvedValue([
+        aidRequest(3, 0, 3),
+        aidRequest(1, 0, 1),
+        aidRequest(2, 0, 2),
+      ] as any);
+
+    const result = await service.calculateRoute(
+      {
+        startLatitude: 0,
+        startLongitude: 0,
+        deliveryIds: [1, 2, 3],
+      },
+      admin,
+    );
+
+    expect(result.route.map((stop) => stop.aidRequestId)).toEqual([1, 2, 3]);
+    expect(result.totalDistance).toBe(3);
+    expect(result.route[2].cumulativeDistance).toBe(3);
+    expect(result.returnToStartIncluded).toBe(false);
+  });
+
+  it('should visit urgent stops first', async () => {
+    jest
+      .spyOn(prismaService.aidRequest, 'findMany')
+      .mockResolvedValue([
+        aidRequest(1, 0, 1),
+        aidRequest(2, 0, 5, true),
+      ] as any);
+
+    const result = await service.calculateRoute(
+      {
+        startLatitude: 0,
+        startLongitude: 0,
+        deliveryIds: [1, 2],
+      },
+      admin,
+    );
+
+    expect(result.route.map((stop) => stop.aidRequestId)).toEqual([2, 1]);
+  });
+
+  it('should untangle crossing legs with 2-opt', async () => {
+    // En yakın komşu 1 -> 3 -> 4 -> 2 sırasıyla kesişen bir rota üretir
+    jest
+      .spyOn(prismaService.aidRequest, 'findMany')
+      .mockResolvedValue([
+        aidRequest(1, 0, 1),
+        aidRequest(2, 0, 2.1),
+        aidRequest(3, 1, 1),
+        aidRequest(4, 1, 2.1),
+      ] as any);
+
+    const result = await service.calculateRoute(
+      {
+        startLatitude: 0,
+        startLongitude: 0,
+        deliveryIds: [1, 2, 3, 4],
+        returnToStart: true,
+      },
+      admin,
+    );
+
+    expect(result.returnToStartIncluded).toBe(true);
+    expect(result.returnLeg).not.toBeNull();
+    // Dönüşlü en kısa tur: 0 -> 1 -> 2 -> 4 -> 3 -> 0
+    expect(result.route.map((stop) => stop.aidRequestId)).toEqual([1, 2, 4, 3]);
+  });
+
+  it('should report requests without a location', async () => {
+    jest
+      .spyOn(prismaService.aidRequest, 'findMany')
+      .mockResolvedValue([aidRequest(1, 0, 1)] as any);
+
+    const result = await service.calculateRoute(
+      {
+        startLatitude: 0,
+        startLongitude: 0,
+        deliveryIds: [1, 2],
+      },
+      admin,
+    );
+
+    expect(result.route).toHaveLength(1);
+    expect(result.unresolvedIds).toEqual([2]);
+  });
+
+  it('should only route requests the caller may deliver', async () => {
+    jest.spyOn(prismaService.aidRequest, 'findMany').mockResolvedValue([]);
+
+    const result = await service.calculateRoute(
+      { startLatitude: 0, startLongitude: 0, deliveryIds: [1, 2] },
+      {
+        id: 8,
+        role: 'volunteer',
+        memberships: [{ organizationId: 4, role: 'staff' }],
+      },
+    );
+
+    expect(prismaService.aidRequest.findMany).toHaveBeenCalledWith({
+      where: {
+        id: { in: [1, 2] },
+        isDeleted: false,
+        OR: [{ assignedTo: 8 }, { organizationId: { in: [4] } }],
+      },
+      include: { location: true },
+    });
+    expect(result.unresolvedIds).toEqual([1, 2]);
+  });
+
+  it('should reject an unrealistic average speed', async () => {
+    await expect(
+      service.calculateRoute(
+        {
+          startLatitude: 0,
+          startLongitude: 0,
+          deliveryIds: [1],
+          averageSpeedKmh: -20,
+        },
+        admin,
+      ),
+    ).rejects.toThrow(BadRequestException);
+    expect(prismaService.aidRequest.findMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject an invalid start point', async () => {
+    await expect(
+      service.calculateRoute(
+        {
+          startLatitude: 95,
+          startLongitude: 0,
+          deliveryIds: [1],
+        },
+        admin,
+      ),
+    ).rejects.toThrow(BadRequestException);
+  });
+});
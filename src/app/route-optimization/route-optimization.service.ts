@@ -0,0 +1,281 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from '../prisma/prisma.service';
+import { AidRequestsService } from '../aid-requests/aid-requests.service';
+import { Role } from '../casl/action';
+import { AbilityUser } from '../casl/casl-ability.factory';
+import {
+  OrganizationMemberRole,
+  organizationIdsWithRole,
+} from '../organizations/organization-member';
+import { CalculateRouteDto } from './dto/calculate-route.dto';
+import { RoutePoint, RouteStop } from './interfaces/route-stop.interface';
+
+const DEFAULT_AVERAGE_SPEED_KMH = 30;
+const MIN_AVERAGE_SPEED_KMH = 1;
+const MAX_AVERAGE_SPEED_KMH = 150;
+// 2-opt iyileştirmesinin sonsuz döngüye girmemesi için üst sınır
+const MAX_TWO_OPT_PASSES = 50;
+const EPSILON = 1e-9;
+
+@Injectable()
+export class RouteOptimizationService {
+  constructor(
+    private readonly prisma: PrismaService,
+    private readonly aidRequestsService: AidRequestsService,
+  ) {}
+
+  /**
+   * Başlangıç noktasından verilen teslimatlara en kısa rotayı hesaplar.
+   * Acil talepler önce ziyaret edilir; her grup en yakın komşu ile sıralanıp
+   * 2-opt ile iyileştirilir. Mesafeler km, süreler dakika cinsindendir.
+   * Kullanıcının erişemediği talepler rotaya alınmaz, unresolvedIds'te döner.
+   */
+  async calculateRoute(
+    calculateRouteDto: CalculateRouteDto,
+    user: AbilityUser,
+  ) {
+    const start = this.parseStartPoint(calculateRouteDto);
+    const deliveryIds = this.parseDeliveryIds(calculateRouteDto.deliveryIds);
+    const returnToStart = calculateRouteDto.returnToStart === true;
+    const averageSpeedKmh = this.parseAverageSpeed(
+      calculateRouteDto.averageSpeedKmh,
+    );
+
+    const aidRequests = await this.prisma.aidRequest.findMany({
+      where: {
+        id: { in: deliveryIds },
+        isDeleted: false,
+        ...this.deliverableBy(user),
+      },
+      include: { location: true },
+    });
+
+    const stops: RouteStop[] = aidRequests
+      .filter((aidRequest) => aidRequest.location)
+      .map((aidRequest) => ({
+        aidRequestId: aidRequest.id,
+        type: aidRequest.type,
+        status: aidRequest.status,
+        isUrgent: aidRequest.isUrgent,
+        latitude: aidRequest.location.latitude,
+        longitude: aidRequest.location.longitude,
+      }));
+    const resolvedIds = new Set(stops.map((stop) => stop.aidRequestId));
+    const unresolvedIds = deliveryIds.filter((id) => !resolvedIds.has(id));
+
+    const ordered = this.orderStops(start, stops, returnToStart);
+
+    let previous: RoutePoint = start;
+    let totalDistance = 0;
+    const route = ordered.map((stop, index) => {
+      const legDistance = this.distance(previous, stop);
+      totalDistance += legDistance;
+      previous = stop;
+
+      return {
+        order: index + 1,
+        ...stop,
+        legDistance: this.round(legDistance),
+        legTime: this.toMinutes(legDistance, averageSpeedKmh),
+        cumulativeDistance: this.round(totalDistance),
+        estimatedArrival: this.toMinutes(totalDistance, averageSpeedKmh),
+      };
+    });
+
+    let returnLeg = null;
+    if (returnToStart && ordered.length > 0) {
+      const distance = this.distance(previous, start);
+      totalDistance += distance;
+      returnLeg = {
+        distance: this.round(distance),
+        time: this.toMinutes(distance, averageSpeedKmh),
+      };
+    }
+
+    return {
+      startPoint: start,
+      route,
+      totalDistance: this.round(totalDistance),
+      estimatedTime: this.toMinutes(totalDistance, averageSpeedKmh),
+      returnToStartIncluded: returnToStart,
+      returnLeg,
+      averageSpeedKmh,
+      unresolvedIds,
+    };
+  }
+
+  // Acil duraklar önce gelecek şekilde durakları sıralar
+  private orderStops(
+    start: RoutePoint,
+    stops: RouteStop[],
+    returnToStart: boolean,
+  ): RouteStop[] {
+    const groups = [
+      stops.filter((stop) => stop.isUrgent),
+      stops.filter((stop) => !stop.isUrgent),
+    ].filter((group) => group.length > 0);
+
+    const ordered: RouteStop[] = [];
+    let current = start;
+
+    groups.forEach((group, index) => {
+      const isLastGroup = index === groups.length - 1;
+      const sequence = this.twoOpt(
+        current,
+        this.nearestNeighbour(current, group),
+        returnToStart && isLastGroup ? start : null,
+      );
+      ordered.push(...sequence);
+      current = sequence[sequence.length - 1];
+    });
+
+    return ordered;
+  }
+
+  private nearestNeighbour(origin: RoutePoint, stops: RouteStop[]) {
+    const remaining = [...stops];
+    const sequence: RouteStop[] = [];
+    let current = origin;
+
+    while (remaining.length > 0) {
+      let nearestIndex = 0;
+      let nearestDistance = Infinity;
+      remaining.forEach((stop, index) => {
+        const distance = this.distance(current, stop);
+        if (distance < nearestDistance) {
+          nearestDistance = distance;
+          nearestIndex = index;
+        }
+      });
+      const nearest = remaining.splice(nearestIndex, 1)[0];
+      sequence.push(nearest);
+      current = nearest;
+    }
+
+    return sequence;
+  }
+
+  /**
+   * Başlangıcı sabit bir yolda kesişen kenarları ters çevirerek rotayı kısaltır.
+   * `end` verilirse yolun bu noktada bittiği kabul edilir.
+   */
+  private twoOpt(
+    origin: RoutePoint,
+    stops: RouteStop[],
+    end: RoutePoint | null,
+  ) {
+    const route = [...stops];
+    const pointAt = (index: number): RoutePoint | null => {
+      if (index < 0) return origin;
+      if (index >= route.length) return end;
+      return route[index];
+    };
+
+    let improved = true;
+    let passes = 0;
+    while (improved && passes < MAX_TWO_OPT_PASSES) {
+      improved = false;
+      passes++;
+
+      for (let i = 0; i < route.length - 1; i++) {
+        for (let k = i + 1; k < route.length; k++) {
+          const before = pointAt(i - 1);
+          const after = pointAt(k + 1);
+          const currentLength =
+            this.distance(before, route[i]) +
+            (after ? this.distance(route[k], after) : 0);
+          const reversedLength =
+            this.distance(before, route[k]) +
+            (after ? this.distance(route[i], after) : 0);
+
+          if (reversedLength + EPSILON < currentLength) {
+            const reversed = route.slice(i, k + 1).reverse();
+            route.splice(i, reversed.length, ...reversed);
+            improved = true;
+          }
+        }
+      }
+    }
+
+    return route;
+  }
+
+  private distance(from: RoutePoint, to: RoutePoint) {
+    return this.aidRequestsService.calculateDistance(
+      from.latitude,
+      from.longitude,
+      to.latitude,
+      to.longitude,
+    );
+  }
+
+  private toMinutes(distanceKm: number, averageSpeedKmh: number) {
+    return Math.round((distanceKm / averageSpeedKmh) * 60);
+  }
+
+  private round(value: number) {
+    return parseFloat(value.toFixed(2));
+  }
+
+  private parseStartPoint(calculateRouteDto: CalculateRouteDto): RoutePoint {
+    const latitude = parseFloat(calculateRouteDto.startLatitude as any);
+    const longitude = parseFloat(calculateRouteDto.startLongitude as any);
+
+    if (
+      !Number.isFinite(latitude) ||
+      !Number.isFinite(longitude) ||
+      Math.abs(latitude) > 90 ||
+      Math.abs(longitude) > 180
+    ) {
+      throw new BadRequestException('Geçerli bir başlangıç konumu gereklidir');
+    }
+
+    return { latitude, longitude };
+  }
+
+  // Admin dışındakiler yalnızca kendilerine veya staff oldukları
+  // organizasyonlara atanmış talepleri planlayabilir
+  private deliverableBy(user: AbilityUser): Prisma.AidRequestWhereInput {
+    if (user.role === Role.Admin) return {};
+
+    const staffOf = organizationIdsWithRole(
+      user.memberships,
+      OrganizationMemberRole.Staff,
+    );
+    return {
+      OR: [{ assignedTo: user.id }, { organizationId: { in: staffOf } }],
+    };
+  }
+
+  private parseAverageSpeed(value: unknown) {
+    if (value === undefined || value === null || value === '') {
+      return DEFAULT_AVERAGE_SPEED_KMH;
+    }
+
+    const speed = Number(value);
+    if (
+      !Number.isFinite(speed) ||
+      speed < MIN_AVERAGE_SPEED_KMH ||
+      speed > MAX_AVERAGE_SPEED_KMH
+    ) {
+      throw new BadRequestException(
+        `Ortalama hız ${MIN_AVERAGE_SPEED_KMH} ile ${MAX_AVERAGE_SPEED_KMH} km/sa arasında olmalıdır`,
+      );
+    }
+    return speed;
+  }
+
+  private parseDeliveryIds(deliveryIds: unknown): number[] {
+    if (!Array.isArray(deliveryIds) || deliveryIds.length === 0) {
+      throw new BadRequestException('En az bir teslimat seçilmelidir');
+    }
+
+    const ids = deliveryIds.map((id) => Number(id));
+    if (ids.some((id) => !Number.isInteger(id))) {
+      throw new BadRequestException('Teslimat ID değerleri tam sayı olmalıdır');
+    }
+
+    return [...new Set(ids)];
+  }
+}
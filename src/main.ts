@@ -13,7 +13,10 @@ import { HttpExceptionFilter } from './common/filters/http-exception.filter';
 
 dotenv.config(); // .env dosyasındaki değişkenleri yükler
 async function bootstrap() {
-  const app = await NestFactory.create<NestExpressApplication>(AppModule);
+  // Ödeme webhook imzaları ham gövde üzerinden doğrulanır
+  const app = await NestFactory.create<NestExpressApplication>(AppModule, {
+    rawBody: true,
+  });
   app.use(cookieParser());
   const globalPrefix = 'api';
   app.setGlobalPrefix(globalPrefix);
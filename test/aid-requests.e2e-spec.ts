@@ -75,12 +75,35 @@ describe('AidRequestsController (e2e)', () => {
       .patch(`/aidrequests/${aidRequestId}/status`)
       .set('Authorization', `Bearer ${testHelper.getAccessToken()}`)
       .send({
-        status: 'InProgress',
+        status: 'cancelled',
+        reason: 'No longer needed',
       })
       .expect(200)
       .expect((res) => {
         expect(res.body).toHaveProperty('id', aidRequestId);
-        expect(res.body).toHaveProperty('status', 'InProgress');
+        expect(res.body).toHaveProperty('status', 'cancelled');
+      });
+  });
+
+  it('/aidrequests/:id/status (PATCH) - should reject an illegal transition', () => {
+    return request(testHelper.getApp().getHttpServer())
+      .patch(`/aidrequests/${aidRequestId}/status`)
+      .set('Authorization', `Bearer ${testHelper.getAccessToken()}`)
+      .send({
+        status: 'delivered',
+      })
+      .expect(400);
+  });
+
+  it('/aidrequests/:id/timeline (GET) - should return the status history', () => {
+    return request(testHelper.getApp().getHttpServer())
+      .get(`/aidrequests/${aidRequestId}/timeline`)
+      .set('Authorization', `Bearer ${testHelper.getAccessToken()}`)
+      .expect(200)
+      .expect((res) => {
+        expect(res.body).toHaveProperty('currentStatus', 'cancelled');
+        expect(Array.isArray(res.body.changes)).toBeTruthy();
+        expect(res.body.changes[0]).toHaveProperty('toStatus', 'cancelled');
       });
   });
 
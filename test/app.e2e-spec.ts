@@ -90,9 +90,7 @@ describe('AppController (e2e)', () => {
       .patch('/aidrequests/1/status')
       .set('Authorization', `Bearer ${process.env.TEST_ACCESS_TOKEN}`)
       .send({
-        status: 'Completed',
-        userId: '1',
-        userRole: 'admin',
+        status: 'approved',
       })
       .expect(200);
   });